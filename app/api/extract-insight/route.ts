@@ -13,7 +13,7 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { generate } from "@/lib/gemini";
+import { generate } from "@/lib/llm";
 import { checkRateLimit, createRateLimitHeaders } from "@/lib/utils/rate-limiter";
 import { extractInsightRequestSchema, validateRequest } from "@/lib/validation/schemas";
 import { sanitizeForPrompt, escapePromptContent } from "@/lib/security/sanitizer";
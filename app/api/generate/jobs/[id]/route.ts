@@ -0,0 +1,119 @@
+/**
+ * Generation Job API Route
+ *
+ * GET: job status, last completed stage and (once finished) the post
+ * DELETE: cancel a running job - the pipeline stops at the next stage
+ *
+ * Resuming happens through /api/generate/stream with { jobId }.
+ *
+ * SECURITY FEATURES:
+ * - Authentication required (double-checked with Supabase)
+ * - Per-user rate limiting
+ * - Jobs filtered by user_id (RLS + defense in depth)
+ * - Generic error messages
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { checkRateLimit, createRateLimitHeaders } from "@/lib/utils/rate-limiter";
+import {
+  authenticateRequest,
+  createErrorResponse,
+  createSuccessResponse,
+  getUserRateLimitKey,
+} from "@/lib/supabase/api-auth";
+import {
+  fetchGenerationJob,
+  updateGenerationJobStatus,
+} from "@/lib/supabase/generation-jobs";
+import { getResumeBlocker } from "@/lib/pipeline/jobs";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const jobIdSchema = z.string().uuid();
+
+/**
+ * Shared auth + rate limit + id validation
+ */
+async function authorize(context: RouteContext) {
+  const auth = await authenticateRequest();
+  if (!auth.success) {
+    return { response: auth.response };
+  }
+
+  const rateLimitResult = await checkRateLimit(
+    getUserRateLimitKey(auth.user.id, "generation-jobs"),
+    "general"
+  );
+  if (!rateLimitResult.success) {
+    return {
+      response: NextResponse.json(
+        {
+          success: false,
+          error: {
+            message: "Too many requests. Please try again later.",
+            code: "RATE_LIMIT_EXCEEDED",
+            retryAfter: rateLimitResult.retryAfter,
+          },
+        },
+        {
+          status: 429,
+          headers: createRateLimitHeaders(rateLimitResult),
+        }
+      ),
+    };
+  }
+
+  const { id } = await context.params;
+  if (!jobIdSchema.safeParse(id).success) {
+    return { response: createErrorResponse("Invalid job id", "VALIDATION_ERROR", 400) };
+  }
+
+  return { userId: auth.user.id, jobId: id };
+}
+
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const authorized = await authorize(context);
+  if ("response" in authorized) {
+    return authorized.response;
+  }
+
+  const { data: job } = await fetchGenerationJob(authorized.userId, authorized.jobId);
+  if (!job) {
+    return createErrorResponse("Generation job not found", "NOT_FOUND", 404);
+  }
+
+  return createSuccessResponse({
+    id: job.id,
+    status: job.status,
+    lastCompletedStage: job.lastCompletedStage ?? null,
+    attempt: job.attempt,
+    retryFromStage: job.retryFromStage,
+    resumable: getResumeBlocker(job) === null,
+    post: job.resultPost ?? null,
+    updatedAt: job.updatedAt,
+  });
+}
+
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const authorized = await authorize(context);
+  if ("response" in authorized) {
+    return authorized.response;
+  }
+
+  const { success } = await updateGenerationJobStatus(
+    authorized.userId,
+    authorized.jobId,
+    "cancelled",
+    { error: "Cancelled by user", fromStatuses: ["running"] }
+  );
+  if (!success) {
+    return createErrorResponse("No running job to cancel", "JOB_NOT_RUNNING", 409);
+  }
+
+  return createSuccessResponse({ id: authorized.jobId, status: "cancelled" });
+}
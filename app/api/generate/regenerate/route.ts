@@ -0,0 +1,129 @@
+/**
+ * Stage Regeneration API Route
+ *
+ * Re-runs one pipeline stage of an existing post (refinement, hook
+ * optimization, personality injection or the final quality check) and every
+ * stage after it. Earlier stages come from the post's stored pipeline, so
+ * they aren't regenerated. With `selectedVersion`, stages 3-6 run on a
+ * different initial version, recorded as a human selection override.
+ * The client stores the result as a new revision of the post.
+ *
+ * SECURITY FEATURES:
+ * - Authentication required (double-checked with Supabase)
+ * - Per-user rate limiting (shares the generation limit)
+ * - Request body size limit
+ * - Input validation with Zod
+ * - Generic error messages
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { continueFromVersion, regenerateFromStage } from "@/lib/pipeline/multi-stage";
+import { GeneratedPost, InterviewResponse, VoiceProfile } from "@/lib/types";
+import { createRateLimitHeaders, checkRateLimit } from "@/lib/utils/rate-limiter";
+import { regenerateStageRequestSchema, validateRequest } from "@/lib/validation/schemas";
+import {
+  authenticateRequest,
+  createErrorResponse,
+  getUserRateLimitKey,
+} from "@/lib/supabase/api-auth";
+
+export const maxDuration = 60; // 60 second timeout for generation
+
+// Maximum request body size (500KB)
+const MAX_BODY_SIZE = 500 * 1024;
+
+export async function POST(request: NextRequest) {
+  // =========================================
+  // 1. AUTHENTICATION CHECK (Defense in Depth)
+  // =========================================
+  const auth = await authenticateRequest();
+  if (!auth.success) {
+    return auth.response;
+  }
+  const { user } = auth;
+
+  // =========================================
+  // 2. RATE LIMIT CHECK (Per-User)
+  // Each regeneration makes up to 4 model calls per attempt
+  // =========================================
+  const userRateLimitKey = getUserRateLimitKey(user.id, "generate");
+  const rateLimitResult = await checkRateLimit(userRateLimitKey, "generate");
+
+  if (!rateLimitResult.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: "Too many requests. Please try again later.",
+          code: "RATE_LIMIT_EXCEEDED",
+          retryAfter: rateLimitResult.retryAfter,
+        },
+      },
+      {
+        status: 429,
+        headers: createRateLimitHeaders(rateLimitResult),
+      }
+    );
+  }
+
+  try {
+    // =========================================
+    // 3. REQUEST SIZE CHECK
+    // =========================================
+    const contentLength = request.headers.get("content-length");
+    if (contentLength && parseInt(contentLength) > MAX_BODY_SIZE) {
+      return createErrorResponse("Request body too large", "PAYLOAD_TOO_LARGE", 413);
+    }
+
+    // =========================================
+    // 4. INPUT VALIDATION
+    // =========================================
+    const body = await request.json();
+
+    const validation = validateRequest(regenerateStageRequestSchema, body);
+    if (!validation.success) {
+      return createErrorResponse(validation.error, "VALIDATION_ERROR", 400);
+    }
+
+    const { fromStage, selectedVersion } = validation.data;
+    const source = {
+      interviewData: validation.data.interview as unknown as InterviewResponse,
+      voiceProfile: validation.data.voiceProfile as unknown as VoiceProfile,
+      pipeline: validation.data.pipeline as GeneratedPost["pipeline"],
+    };
+
+    // =========================================
+    // 5. REGENERATE FROM STAGE
+    // =========================================
+    const post = selectedVersion !== undefined
+      ? await continueFromVersion(source, selectedVersion)
+      : await regenerateFromStage(source, fromStage);
+
+    // =========================================
+    // 6. RETURN SUCCESS RESPONSE
+    // =========================================
+    return NextResponse.json(
+      {
+        success: true,
+        data: post,
+        metadata: {
+          fromStage,
+          selectedVersion,
+          generatedAt: new Date().toISOString(),
+        },
+      },
+      {
+        headers: createRateLimitHeaders(rateLimitResult),
+      }
+    );
+  } catch (error) {
+    // SECURITY: Log error server-side, return generic message to client
+    console.error("[Regenerate] Error:", error);
+
+    return createErrorResponse(
+      "An error occurred during regeneration. Please try again.",
+      "GENERATION_ERROR",
+      500
+    );
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Revision Chat API Route
+ *
+ * Applies one free-form instruction ("make it shorter", "less salesy") to
+ * the current text of a post. The prompt carries the voice profile rules and
+ * the forbidden phrases; the revised post is checked with validatePost. The
+ * client stores the result as a new revision of the post.
+ *
+ * SECURITY FEATURES:
+ * - Authentication required (double-checked with Supabase)
+ * - Per-user rate limiting (shares the generation limit)
+ * - Request body size limit
+ * - Input validation with Zod
+ * - Instruction sanitized before it reaches the prompt
+ * - Generic error messages
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { reviseWithInstruction } from "@/lib/pipeline/revision-chat";
+import { InterviewResponse, VoiceProfile } from "@/lib/types";
+import { createRateLimitHeaders, checkRateLimit } from "@/lib/utils/rate-limiter";
+import { revisePostRequestSchema, validateRequest } from "@/lib/validation/schemas";
+import {
+  authenticateRequest,
+  createErrorResponse,
+  getUserRateLimitKey,
+} from "@/lib/supabase/api-auth";
+
+export const maxDuration = 60; // 60 second timeout for generation
+
+// Maximum request body size (500KB)
+const MAX_BODY_SIZE = 500 * 1024;
+
+export async function POST(request: NextRequest) {
+  // =========================================
+  // 1. AUTHENTICATION CHECK (Defense in Depth)
+  // =========================================
+  const auth = await authenticateRequest();
+  if (!auth.success) {
+    return auth.response;
+  }
+  const { user } = auth;
+
+  // =========================================
+  // 2. RATE LIMIT CHECK (Per-User)
+  // =========================================
+  const userRateLimitKey = getUserRateLimitKey(user.id, "generate");
+  const rateLimitResult = await checkRateLimit(userRateLimitKey, "generate");
+
+  if (!rateLimitResult.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: "Too many requests. Please try again later.",
+          code: "RATE_LIMIT_EXCEEDED",
+          retryAfter: rateLimitResult.retryAfter,
+        },
+      },
+      {
+        status: 429,
+        headers: createRateLimitHeaders(rateLimitResult),
+      }
+    );
+  }
+
+  try {
+    // =========================================
+    // 3. REQUEST SIZE CHECK
+    // =========================================
+    const contentLength = request.headers.get("content-length");
+    if (contentLength && parseInt(contentLength) > MAX_BODY_SIZE) {
+      return createErrorResponse("Request body too large", "PAYLOAD_TOO_LARGE", 413);
+    }
+
+    // =========================================
+    // 4. INPUT VALIDATION
+    // =========================================
+    const body = await request.json();
+
+    const validation = validateRequest(revisePostRequestSchema, body);
+    if (!validation.success) {
+      return createErrorResponse(validation.error, "VALIDATION_ERROR", 400);
+    }
+
+    const { content, instruction, previousInstructions } = validation.data;
+
+    // =========================================
+    // 5. REVISE POST
+    // =========================================
+    const revision = await reviseWithInstruction(
+      content,
+      instruction,
+      validation.data.voiceProfile as unknown as VoiceProfile,
+      previousInstructions,
+      validation.data.interview as unknown as InterviewResponse | undefined
+    );
+
+    // =========================================
+    // 6. RETURN SUCCESS RESPONSE
+    // =========================================
+    return NextResponse.json(
+      {
+        success: true,
+        data: revision,
+        metadata: {
+          generatedAt: new Date().toISOString(),
+        },
+      },
+      {
+        headers: createRateLimitHeaders(rateLimitResult),
+      }
+    );
+  } catch (error) {
+    // SECURITY: Log error server-side, return generic message to client
+    console.error("[Revise] Error:", error);
+
+    return createErrorResponse(
+      "An error occurred while revising. Please try again.",
+      "GENERATION_ERROR",
+      500
+    );
+  }
+}
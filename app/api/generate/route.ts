@@ -2,6 +2,8 @@
  * Post Generation API Route
  * 
  * Generates AI content using the multi-stage pipeline.
+ * The run is recorded as a checkpointed generation job; a failed job can be
+ * resumed through /api/generate/stream.
  * 
  * SECURITY FEATURES:
  * - Authentication required (double-checked with Supabase)
@@ -14,6 +16,7 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { generatePost } from "@/lib/pipeline/multi-stage";
+import { runGenerationJob } from "@/lib/pipeline/jobs";
 import { InterviewResponse, VoiceProfile } from "@/lib/types";
 import { 
   withRateLimit, 
@@ -28,6 +31,7 @@ import {
   getUserRateLimitKey,
 } from "@/lib/supabase/api-auth";
 import { incrementUserStats } from "@/lib/supabase/database";
+import { createGenerationJob, fetchPostHistory } from "@/lib/supabase/generation-jobs";
 
 export const maxDuration = 60; // 60 second timeout for generation
 
@@ -88,15 +92,32 @@ export async function POST(request: NextRequest) {
       return createErrorResponse(validation.error, "VALIDATION_ERROR", 400);
     }
 
-    const { interview, voiceProfile } = validation.data;
+    const interview = validation.data.interview as unknown as InterviewResponse;
+    const voiceProfile = validation.data.voiceProfile as unknown as VoiceProfile;
+    const { retryFromStage } = validation.data;
 
     // =========================================
     // 5. GENERATE POST
+    // Checkpointing is best-effort - generation still runs without a job
     // =========================================
-    const post = await generatePost(
-      interview as unknown as InterviewResponse,
-      voiceProfile as unknown as VoiceProfile
-    );
+    const { data: job, error: jobError } = await createGenerationJob(user.id, {
+      interview,
+      voiceProfile,
+      retryFromStage,
+    });
+    if (jobError) {
+      console.error("[Generate] Running without checkpoints:", jobError);
+    }
+
+    // Also best-effort - without history the post isn't checked for repetition
+    const { data: history, error: historyError } = await fetchPostHistory(user.id, voiceProfile.id);
+    if (historyError) {
+      console.error("[Generate] Running without post history:", historyError);
+    }
+
+    const post = job
+      ? await runGenerationJob(job, user.id, undefined, history)
+      : await generatePost(interview, voiceProfile, undefined, { retryFromStage, history });
 
     // =========================================
     // 6. UPDATE USER STATS (async, don't wait)
@@ -117,6 +138,7 @@ export async function POST(request: NextRequest) {
         data: post,
         metadata: {
           userId: user.id, // Include for client-side tracking
+          jobId: job?.id,
           generatedAt: new Date().toISOString(),
         },
       },
@@ -0,0 +1,267 @@
+/**
+ * Streaming Post Generation API Route
+ *
+ * Runs the same multi-stage pipeline as /api/generate but streams
+ * progress and intermediate artifacts to the client as Server-Sent Events.
+ *
+ * Each run is a checkpointed generation job. Send { jobId, fromStage? }
+ * instead of { interview, voiceProfile } to resume a failed or cancelled
+ * job from its last completed stage (or from an earlier stage).
+ *
+ * EVENTS:
+ * - job: { jobId, resumedFrom } (omitted if the job could not be persisted)
+ * - progress: PipelineProgress (stage, percent, message, optional artifact)
+ * - complete: { post, metadata }
+ * - error: { message, code, jobId? }
+ *
+ * SECURITY FEATURES:
+ * - Authentication required (double-checked with Supabase)
+ * - Per-user rate limiting (shared bucket with /api/generate)
+ * - Request body size limit
+ * - Input validation with Zod (stored inputs are re-validated on resume)
+ * - Prompt injection protection via sanitizer
+ * - Generic error messages
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { generatePost, getLastCompletedStage } from "@/lib/pipeline/multi-stage";
+import { getResumeBlocker, prepareJobForResume, runGenerationJob } from "@/lib/pipeline/jobs";
+import { GenerationJob, InterviewResponse, PipelineStageId, VoiceProfile } from "@/lib/types";
+import { createRateLimitHeaders, checkRateLimit } from "@/lib/utils/rate-limiter";
+import {
+  generateRequestSchema,
+  resumeGenerationRequestSchema,
+  storedGenerationJobSchema,
+  validateRequest,
+} from "@/lib/validation/schemas";
+import {
+  authenticateRequest,
+  createErrorResponse,
+  getUserRateLimitKey,
+} from "@/lib/supabase/api-auth";
+import { incrementUserStats } from "@/lib/supabase/database";
+import {
+  createGenerationJob,
+  fetchGenerationJob,
+  fetchPostHistory,
+  updateGenerationJobStatus,
+} from "@/lib/supabase/generation-jobs";
+import { encodeSSE } from "@/lib/utils/sse";
+
+export const maxDuration = 60; // 60 second timeout for generation
+export const dynamic = "force-dynamic";
+
+// Maximum request body size (500KB)
+const MAX_BODY_SIZE = 500 * 1024;
+
+export async function POST(request: NextRequest) {
+  // =========================================
+  // 1. AUTHENTICATION CHECK (Defense in Depth)
+  // Middleware already checks, but we verify again
+  // =========================================
+  const auth = await authenticateRequest();
+  if (!auth.success) {
+    return auth.response;
+  }
+  const { user } = auth;
+
+  // =========================================
+  // 2. RATE LIMIT CHECK (Per-User)
+  // Same key as /api/generate so streaming can't double the quota
+  // =========================================
+  const userRateLimitKey = getUserRateLimitKey(user.id, "generate");
+  const rateLimitResult = await checkRateLimit(userRateLimitKey, "generate");
+
+  if (!rateLimitResult.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          message: "Too many requests. Please try again later.",
+          code: "RATE_LIMIT_EXCEEDED",
+          retryAfter: rateLimitResult.retryAfter,
+        },
+      },
+      {
+        status: 429,
+        headers: createRateLimitHeaders(rateLimitResult),
+      }
+    );
+  }
+
+  // =========================================
+  // 3. REQUEST SIZE CHECK
+  // =========================================
+  const contentLength = request.headers.get("content-length");
+  if (contentLength && parseInt(contentLength) > MAX_BODY_SIZE) {
+    return createErrorResponse("Request body too large", "PAYLOAD_TOO_LARGE", 413);
+  }
+
+  // =========================================
+  // 4. INPUT VALIDATION
+  // Done before opening the stream so clients get a normal JSON error
+  // =========================================
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return createErrorResponse("Invalid JSON body", "VALIDATION_ERROR", 400);
+  }
+
+  const isResume = typeof body === "object" && body !== null && "jobId" in body;
+  let job: GenerationJob | null = null;
+  let interview: InterviewResponse;
+  let voiceProfile: VoiceProfile;
+  let retryFromStage: PipelineStageId | undefined;
+
+  if (isResume) {
+    // =========================================
+    // 5a. RESUME EXISTING JOB
+    // =========================================
+    const validation = validateRequest(resumeGenerationRequestSchema, body);
+    if (!validation.success) {
+      return createErrorResponse(validation.error, "VALIDATION_ERROR", 400);
+    }
+
+    const { data: existing } = await fetchGenerationJob(user.id, validation.data.jobId);
+    if (!existing) {
+      return createErrorResponse("Generation job not found", "NOT_FOUND", 404);
+    }
+
+    const blocker = getResumeBlocker(existing);
+    if (blocker) {
+      return createErrorResponse(blocker, "JOB_NOT_RESUMABLE", 409);
+    }
+
+    // The stored inputs and checkpoints are checked like a new request's
+    const stored = validateRequest(storedGenerationJobSchema, {
+      interview: existing.interviewData,
+      voiceProfile: existing.voiceProfile,
+      checkpoints: existing.checkpoints,
+    });
+    if (!stored.success) {
+      console.error("[Generate Stream] Stored job is invalid:", stored.error);
+      return createErrorResponse(
+        "This job can't be resumed. Please start a new generation.",
+        "JOB_NOT_RESUMABLE",
+        409
+      );
+    }
+
+    // Only claim the job if nobody else resumed it in the meantime
+    const claimed = await updateGenerationJobStatus(user.id, existing.id, "running", {
+      error: null,
+      retryFromStage: validation.data.retryFromStage,
+      fromStatuses: [existing.status],
+    });
+    if (!claimed.success) {
+      return createErrorResponse("Job is already being resumed", "JOB_NOT_RESUMABLE", 409);
+    }
+
+    job = prepareJobForResume(
+      {
+        ...existing,
+        interviewData: stored.data.interview as unknown as InterviewResponse,
+        voiceProfile: stored.data.voiceProfile as unknown as VoiceProfile,
+        checkpoints: stored.data.checkpoints,
+        retryFromStage: validation.data.retryFromStage ?? existing.retryFromStage,
+      },
+      validation.data.fromStage
+    );
+    interview = job.interviewData;
+    voiceProfile = job.voiceProfile;
+  } else {
+    // =========================================
+    // 5b. CREATE NEW JOB
+    // =========================================
+    const validation = validateRequest(generateRequestSchema, body);
+    if (!validation.success) {
+      return createErrorResponse(validation.error, "VALIDATION_ERROR", 400);
+    }
+
+    interview = validation.data.interview as unknown as InterviewResponse;
+    voiceProfile = validation.data.voiceProfile as unknown as VoiceProfile;
+    retryFromStage = validation.data.retryFromStage;
+
+    // Checkpointing is best-effort - generation still runs without a job
+    const created = await createGenerationJob(user.id, { interview, voiceProfile, retryFromStage });
+    if (created.error) {
+      console.error("[Generate Stream] Running without checkpoints:", created.error);
+    }
+    job = created.data;
+  }
+
+  // Best-effort - without history the post isn't checked for repetition
+  const { data: history, error: historyError } = await fetchPostHistory(user.id, voiceProfile.id);
+  if (historyError) {
+    console.error("[Generate Stream] Running without post history:", historyError);
+  }
+
+  // =========================================
+  // 6. STREAM GENERATION
+  // =========================================
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encodeSSE(event, data));
+        } catch {
+          // Client disconnected - keep the pipeline running but stop writing
+          closed = true;
+        }
+      };
+
+      const onProgress = (progress: unknown) => send("progress", progress);
+
+      try {
+        if (job) {
+          send("job", { jobId: job.id, resumedFrom: getLastCompletedStage(job.checkpoints) ?? null });
+        }
+
+        const post = job
+          ? await runGenerationJob(job, user.id, onProgress, history)
+          : await generatePost(interview, voiceProfile, onProgress, { retryFromStage, history });
+
+        // Fire and forget - don't block response
+        incrementUserStats(0, 0).catch((err) => {
+          console.error("[Generate Stream] Failed to update user stats:", err);
+        });
+
+        send("complete", {
+          post,
+          metadata: {
+            userId: user.id,
+            generatedAt: new Date().toISOString(),
+          },
+        });
+      } catch (error) {
+        // SECURITY: Log error server-side, return generic message to client
+        console.error("[Generate Stream] Error:", error);
+
+        send("error", {
+          message: "An error occurred during generation. Please try again.",
+          code: "GENERATION_ERROR",
+          // Lets the client resume from the last checkpoint
+          jobId: job?.id,
+        });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...createRateLimitHeaders(rateLimitResult),
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
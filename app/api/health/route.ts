@@ -16,7 +16,7 @@
  */
 
 import { NextResponse } from "next/server";
-import { isGeminiConfigured, getUsageMetrics } from "@/lib/gemini";
+import { getLLMInfo, getUsageMetrics } from "@/lib/llm";
 import { isRedisRateLimitEnabled } from "@/lib/utils/rate-limiter";
 import { getQueueStats, isQueueHealthy } from "@/lib/utils/request-queue";
 
@@ -29,7 +29,7 @@ interface HealthStatus {
   version: string;
   uptime: number;
   services: {
-    gemini: ServiceStatus;
+    llm: ServiceStatus;
     redis: ServiceStatus;
     queue: ServiceStatus;
     supabase: ServiceStatus;
@@ -57,7 +57,7 @@ const serverStartTime = Date.now();
 
 export async function GET(request: Request): Promise<NextResponse<HealthStatus>> {
   const services = {
-    gemini: checkGeminiStatus(),
+    llm: checkLLMStatus(),
     redis: checkRedisStatus(),
     queue: checkQueueStatus(),
     supabase: checkSupabaseStatus(),
@@ -117,19 +117,28 @@ export async function GET(request: Request): Promise<NextResponse<HealthStatus>>
 }
 
 /**
- * Check Gemini API configuration status
+ * Check LLM provider configuration status
  */
-function checkGeminiStatus(): ServiceStatus {
-  if (!isGeminiConfigured()) {
+function checkLLMStatus(): ServiceStatus {
+  const { provider, model, configured } = getLLMInfo();
+
+  if (!configured) {
     return {
       status: "error",
-      message: "GEMINI_API_KEY not configured",
+      message: `${provider} provider not configured (missing API key)`,
+    };
+  }
+
+  if (provider === "mock") {
+    return {
+      status: "degraded",
+      message: "Using mock provider - no real generation",
     };
   }
 
   return {
     status: "ok",
-    message: "API key configured",
+    message: `${provider} configured (${model})`,
   };
 }
 
@@ -8,17 +8,25 @@ import { Button } from "@/components/ui/button";
 import { GenerationLoader } from "@/components/generation/GenerationLoader";
 import { PostPreview } from "@/components/generation/PostPreview";
 import { usePosts } from "@/lib/context/PostContext";
-import { InterviewResponse, VoiceProfile, GeneratedPost } from "@/lib/types";
-import { PipelineProgress } from "@/lib/pipeline/multi-stage";
+import { applyManualEdit } from "@/lib/pipeline/revisions";
+import { InterviewResponse, VoiceProfile, GeneratedPost, PostEdit } from "@/lib/types";
+import { StageArtifacts } from "@/components/generation/StageArtifacts";
+import type { PipelineProgress, PipelineArtifact } from "@/lib/pipeline/multi-stage";
+import { readSSEStream } from "@/lib/utils/sse";
 import { toast } from "@/hooks/use-toast";
-import { AlertCircle, ArrowLeft, RefreshCw, Home } from "lucide-react";
+import { AlertCircle, ArrowLeft, RefreshCw, Home, PlayCircle } from "lucide-react";
 import Link from "next/link";
 
 type GenerationState = "loading" | "generating" | "complete" | "error";
 
+// Either a fresh generation or a resume of a checkpointed job
+type GenerateRequestBody =
+  | { interview: InterviewResponse; voiceProfile: VoiceProfile }
+  | { jobId: string };
+
 export default function GeneratePage() {
   const router = useRouter();
-  const { addPost } = usePosts();
+  const { addPost, updatePost } = usePosts();
   
   const [state, setState] = useState<GenerationState>("loading");
   const [progress, setProgress] = useState<PipelineProgress>({
@@ -26,30 +34,31 @@ export default function GeneratePage() {
     percent: 0,
     message: "Preparing...",
   });
+  const [artifacts, setArtifacts] = useState<PipelineArtifact[]>([]);
   const [generatedPost, setGeneratedPost] = useState<GeneratedPost | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [interview, setInterview] = useState<InterviewResponse | null>(null);
   const [voiceProfile, setVoiceProfile] = useState<VoiceProfile | null>(null);
+  // Checkpointed job for the current run - lets a failed run resume
+  const [jobId, setJobId] = useState<string | null>(null);
+
+  // Call the streaming API to generate a post (keeps API key server-side)
+  const callGenerateAPI = async (requestBody: GenerateRequestBody): Promise<GeneratedPost> => {
+    setArtifacts([]);
 
-  // Call the API to generate a post (keeps API key server-side)
-  const callGenerateAPI = async (
-    interviewData: InterviewResponse,
-    profileData: VoiceProfile
-  ): Promise<GeneratedPost> => {
-    const response = await fetch("/api/generate", {
+    const response = await fetch("/api/generate/stream", {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({
-        interview: interviewData,
-        voiceProfile: profileData,
-      }),
+      body: JSON.stringify(requestBody),
     });
 
-    const result = await response.json();
+    // Errors raised before the stream opens come back as regular JSON
+    const isStream = response.headers.get("content-type")?.includes("text/event-stream");
+    if (!response.ok || !isStream || !response.body) {
+      const result = await response.json().catch(() => ({}));
 
-    if (!response.ok) {
       // Handle specific error types
       if (response.status === 401) {
         throw new Error("Please sign in to generate posts.");
@@ -60,11 +69,39 @@ export default function GeneratePage() {
       }
     }
 
-    if (!result.success) {
-      throw new Error(result.error?.message || "Generation failed.");
+    const outcome: { post: GeneratedPost | null; error: string | null } = {
+      post: null,
+      error: null,
+    };
+
+    await readSSEStream(response.body, ({ event, data }) => {
+      if (event === "job") {
+        setJobId((data as { jobId: string }).jobId);
+      } else if (event === "progress") {
+        const update = data as PipelineProgress;
+        setProgress(update);
+        if (update.artifact) {
+          const artifact = update.artifact;
+          setArtifacts(prev => [...prev, artifact]);
+        }
+        if (update.stage === "retry") {
+          setArtifacts([]);
+        }
+      } else if (event === "complete") {
+        outcome.post = (data as { post: GeneratedPost }).post;
+      } else if (event === "error") {
+        outcome.error = (data as { message?: string }).message || "Generation failed.";
+      }
+    });
+
+    if (outcome.error) {
+      throw new Error(outcome.error);
+    }
+    if (!outcome.post) {
+      throw new Error("Connection closed before generation finished. Please try again.");
     }
 
-    return result.data as GeneratedPost;
+    return outcome.post;
   };
 
   // Load data from session storage and start generation
@@ -93,12 +130,12 @@ export default function GeneratePage() {
         // Start generation via API
         setState("generating");
         setProgress({
-          stage: "generating",
-          percent: 50,
-          message: "Generating your post...",
+          stage: "initial",
+          percent: 0,
+          message: "Starting generation...",
         });
         
-        const post = await callGenerateAPI(loadedInterview, loadedProfile);
+        const post = await callGenerateAPI({ interview: loadedInterview, voiceProfile: loadedProfile });
 
         setGeneratedPost(post);
         addPost(post);
@@ -124,15 +161,13 @@ export default function GeneratePage() {
     loadAndGenerate();
   }, [addPost]);
 
-  const handleRetry = async () => {
-    if (!interview || !voiceProfile) return;
-    
+  const runAgain = async (requestBody: GenerateRequestBody, message: string) => {
     setState("generating");
     setError(null);
-    setProgress({ stage: "generating", percent: 50, message: "Retrying..." });
+    setProgress({ stage: "initial", percent: 0, message });
 
     try {
-      const post = await callGenerateAPI(interview, voiceProfile);
+      const post = await callGenerateAPI(requestBody);
 
       setGeneratedPost(post);
       addPost(post);
@@ -149,21 +184,31 @@ export default function GeneratePage() {
     }
   };
 
-  const handleUpdatePost = (newContent: string) => {
+  const handleRetry = async () => {
+    if (!interview || !voiceProfile) return;
+    setJobId(null);
+    await runAgain({ interview, voiceProfile }, "Retrying...");
+  };
+
+  // Continue the failed job from its last completed stage
+  const handleResume = async () => {
+    if (!jobId) return;
+    await runAgain({ jobId }, "Resuming from last checkpoint...");
+  };
+
+  const handleUpdatePost = (newContent: string, edit: PostEdit) => {
     if (generatedPost) {
-      const updated = {
-        ...generatedPost,
-        outputs: {
-          ...generatedPost.outputs,
-          linkedin: {
-            ...generatedPost.outputs.linkedin,
-            post: newContent,
-            characterCount: newContent.length,
-          },
-        },
-        updatedAt: new Date().toISOString(),
-      };
-      setGeneratedPost(updated);
+      const updates = applyManualEdit(generatedPost, newContent, edit);
+      setGeneratedPost({ ...generatedPost, ...updates, updatedAt: new Date().toISOString() });
+      updatePost(generatedPost.id, updates);
+    }
+  };
+
+  // Store a regenerated stage or swapped hook as a new revision of the same post
+  const handleRevise = (updates: Partial<GeneratedPost>) => {
+    if (generatedPost) {
+      setGeneratedPost({ ...generatedPost, ...updates, updatedAt: new Date().toISOString() });
+      updatePost(generatedPost.id, updates);
     }
   };
 
@@ -209,7 +254,9 @@ export default function GeneratePage() {
                 stage={progress.stage}
                 percent={progress.percent}
                 message={progress.message}
+                attempt={progress.attempt}
               />
+              <StageArtifacts artifacts={artifacts} />
             </CardContent>
           </Card>
         )}
@@ -218,6 +265,7 @@ export default function GeneratePage() {
           <PostPreview
             post={generatedPost}
             onUpdate={handleUpdatePost}
+            onRevise={handleRevise}
           />
         )}
 
@@ -241,17 +289,23 @@ export default function GeneratePage() {
                 <div className="bg-muted/50 p-4 rounded-lg">
                   <p className="text-sm font-medium mb-2">Troubleshooting:</p>
                   <ul className="text-sm text-muted-foreground space-y-1">
-                    <li>• Make sure your GEMINI_API_KEY is set correctly</li>
+                    <li>• Make sure your LLM provider API key is set correctly</li>
                     <li>• Check your API quota and rate limits</li>
                     <li>• Try again in a few seconds</li>
                   </ul>
                 </div>
 
                 <div className="flex gap-4">
+                  {jobId && (
+                    <Button onClick={handleResume}>
+                      <PlayCircle className="w-4 h-4 mr-2" />
+                      Resume
+                    </Button>
+                  )}
                   {interview && voiceProfile && (
-                    <Button onClick={handleRetry}>
+                    <Button onClick={handleRetry} variant={jobId ? "outline" : "default"}>
                       <RefreshCw className="w-4 h-4 mr-2" />
-                      Try Again
+                      {jobId ? "Start Fresh" : "Try Again"}
                     </Button>
                   )}
                   <Link href="/create">
@@ -9,7 +9,11 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
+import { ArchiveImport } from "@/components/voice-profile/ArchiveImport";
+import { VersionHistory } from "@/components/voice-profile/VersionHistory";
+import { EditSuggestions } from "@/components/voice-profile/EditSuggestions";
 import { useVoiceProfiles } from "@/lib/context/VoiceProfileContext";
+import { ImportedPost } from "@/lib/types";
 import { toast } from "@/hooks/use-toast";
 import { ChevronLeft, ChevronRight, Check, Save, ArrowLeft } from "lucide-react";
 import Link from "next/link";
@@ -22,11 +26,18 @@ const STEPS = [
   { id: 5, title: "Review", description: "Confirm and save changes" },
 ];
 
+interface ReferencePostInput {
+  content: string;
+  engagement: number;
+  // Set when the post came from an imported export
+  platform?: "linkedin" | "twitter";
+}
+
 export default function EditVoiceProfilePage() {
   const router = useRouter();
   const params = useParams();
   const profileId = params.id as string;
-  const { profiles, updateProfile } = useVoiceProfiles();
+  const { profiles, updateProfile, importHistoricalPosts } = useVoiceProfiles();
   
   const [isLoading, setIsLoading] = useState(true);
   const [currentStep, setCurrentStep] = useState(1);
@@ -36,6 +47,7 @@ export default function EditVoiceProfilePage() {
   const [platforms, setPlatforms] = useState<("linkedin" | "twitter")[]>(["linkedin"]);
   const [sentencePatterns, setSentencePatterns] = useState("");
   const [forbiddenWords, setForbiddenWords] = useState("");
+  const [allowedPhrases, setAllowedPhrases] = useState("");
   const [signaturePhrases, setSignaturePhrases] = useState("");
   const [avgSentenceLength, setAvgSentenceLength] = useState(15);
   const [paragraphBreaks, setParagraphBreaks] = useState<"frequent" | "moderate" | "rare">("frequent");
@@ -46,9 +58,11 @@ export default function EditVoiceProfilePage() {
   const [useNumberedLists, setUseNumberedLists] = useState(true);
   const [emojiUsage, setEmojiUsage] = useState<"never" | "rare" | "moderate" | "frequent">("rare");
   
-  const [post1, setPost1] = useState({ content: "", engagement: 0 });
-  const [post2, setPost2] = useState({ content: "", engagement: 0 });
-  const [post3, setPost3] = useState({ content: "", engagement: 0 });
+  const [post1, setPost1] = useState<ReferencePostInput>({ content: "", engagement: 0 });
+  const [post2, setPost2] = useState<ReferencePostInput>({ content: "", engagement: 0 });
+  const [post3, setPost3] = useState<ReferencePostInput>({ content: "", engagement: 0 });
+  // Every post from an uploaded export, added to the profile's history on save
+  const [importedPosts, setImportedPosts] = useState<ImportedPost[]>([]);
   
   const [primaryColor, setPrimaryColor] = useState("#3B82F6");
   const [secondaryColor, setSecondaryColor] = useState("#8B5CF6");
@@ -61,6 +75,7 @@ export default function EditVoiceProfilePage() {
       setName(profile.name);
       setSentencePatterns(profile.rules.sentencePatterns.join("\n"));
       setForbiddenWords(profile.rules.forbiddenWords.join("\n"));
+      setAllowedPhrases((profile.rules.allowedPhrases ?? []).join("\n"));
       setSignaturePhrases(profile.rules.signaturePhrases.join("\n"));
       setAvgSentenceLength(profile.rules.rhythmPreferences.avgSentenceLength || 15);
       setParagraphBreaks(profile.rules.rhythmPreferences.paragraphBreaks);
@@ -71,15 +86,11 @@ export default function EditVoiceProfilePage() {
       setUseNumberedLists(profile.rules.formattingRules.useNumberedLists);
       setEmojiUsage(profile.rules.formattingRules.emojiUsage);
       
-      if (profile.topPosts[0]) {
-        setPost1({ content: profile.topPosts[0].content, engagement: profile.topPosts[0].engagement });
-      }
-      if (profile.topPosts[1]) {
-        setPost2({ content: profile.topPosts[1].content, engagement: profile.topPosts[1].engagement });
-      }
-      if (profile.topPosts[2]) {
-        setPost3({ content: profile.topPosts[2].content, engagement: profile.topPosts[2].engagement });
-      }
+      // Empty slots are cleared so a rollback to fewer posts shows correctly
+      const [first, second, third] = profile.topPosts;
+      setPost1(first ? { content: first.content, engagement: first.engagement } : { content: "", engagement: 0 });
+      setPost2(second ? { content: second.content, engagement: second.engagement } : { content: "", engagement: 0 });
+      setPost3(third ? { content: third.content, engagement: third.engagement } : { content: "", engagement: 0 });
       
       // Detect platforms from posts
       const detectedPlatforms: ("linkedin" | "twitter")[] = [];
@@ -163,12 +174,12 @@ export default function EditVoiceProfilePage() {
     setCurrentStep(prev => Math.max(prev - 1, 1));
   };
 
-  const handleSave = () => {
+  const handleSave = async () => {
     const topPosts = [post1, post2, post3]
       .filter(p => p.content.length > 0)
       .map(p => ({
         content: p.content,
-        platform: platforms[0] as "linkedin" | "twitter",
+        platform: p.platform ?? platforms[0] as "linkedin" | "twitter",
         engagement: p.engagement,
       }));
 
@@ -177,6 +188,8 @@ export default function EditVoiceProfilePage() {
       rules: {
         sentencePatterns: parseToArray(sentencePatterns),
         forbiddenWords: parseToArray(forbiddenWords),
+        // Left out when empty so profiles without an allow-list stay unchanged
+        ...(parseToArray(allowedPhrases).length > 0 ? { allowedPhrases: parseToArray(allowedPhrases) } : {}),
         signaturePhrases: parseToArray(signaturePhrases),
         rhythmPreferences: {
           avgSentenceLength,
@@ -199,6 +212,10 @@ export default function EditVoiceProfilePage() {
       },
     });
 
+    if (importedPosts.length > 0) {
+      await importHistoricalPosts(profileId, importedPosts);
+    }
+
     toast({
       title: "Profile Updated",
       description: `"${name}" has been saved successfully!`,
@@ -207,6 +224,17 @@ export default function EditVoiceProfilePage() {
     router.push("/voice-profile");
   };
 
+  const fillReferencePosts = (posts: ImportedPost[]) => {
+    const setters = [setPost1, setPost2, setPost3];
+    setters.forEach((setter, i) => {
+      setter({
+        content: posts[i]?.content ?? "",
+        engagement: posts[i]?.engagement ?? 0,
+        platform: posts[i]?.platform,
+      });
+    });
+  };
+
   const togglePlatform = (platform: "linkedin" | "twitter") => {
     setPlatforms(prev => {
       if (prev.includes(platform)) {
@@ -216,6 +244,8 @@ export default function EditVoiceProfilePage() {
     });
   };
 
+  const profile = profiles.find(p => p.id === profileId);
+
   if (isLoading) {
     return (
       <div className="min-h-[calc(100vh-64px)] bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center">
@@ -337,6 +367,27 @@ export default function EditVoiceProfilePage() {
                         onChange={(e) => setForbiddenWords(e.target.value)}
                         rows={3}
                       />
+                      <p className="text-xs text-muted-foreground">
+                        &quot;leverage&quot; also catches &quot;leveraged&quot; and &quot;leveraging&quot;. Use /regex/ for patterns, and add &quot;-&gt; use, apply&quot; to suggest replacements.
+                      </p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="allowed">
+                        Allowed Phrases (one per line)
+                        <span className="text-muted-foreground ml-2">
+                          {parseToArray(allowedPhrases).length} phrases
+                        </span>
+                      </Label>
+                      <Textarea
+                        id="allowed"
+                        placeholder="leverage"
+                        value={allowedPhrases}
+                        onChange={(e) => setAllowedPhrases(e.target.value)}
+                        rows={2}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Phrases from the built-in AI-slop list that you really do say. They won&apos;t be flagged in your posts.
+                      </p>
                     </div>
                     <div className="space-y-2">
                       <Label htmlFor="signature">
@@ -430,6 +481,10 @@ export default function EditVoiceProfilePage() {
                     <p className="text-sm text-muted-foreground">
                       Add your best-performing posts. These help us match your voice.
                     </p>
+                    <ArchiveImport
+                      onImported={setImportedPosts}
+                      onChooseReferencePosts={fillReferencePosts}
+                    />
                     {[
                       { state: post1, setter: setPost1, label: "Post 1" },
                       { state: post2, setter: setPost2, label: "Post 2" },
@@ -594,6 +649,36 @@ export default function EditVoiceProfilePage() {
             </Button>
           )}
         </div>
+
+        {/* Suggestions from manual edits */}
+        {profile && (
+          <Card className="mt-8">
+            <CardHeader>
+              <CardTitle>Learned From Your Edits</CardTitle>
+              <CardDescription>
+                Words you keep deleting, phrases you keep adding and how you reshape sentences.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <EditSuggestions profile={profile} />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Version History */}
+        {profile && (
+          <Card className="mt-8">
+            <CardHeader>
+              <CardTitle>Version History</CardTitle>
+              <CardDescription>
+                Every save is kept. Compare versions or roll back to an earlier one.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <VersionHistory profile={profile} />
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
@@ -9,21 +9,31 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
+import { ArchiveImport } from "@/components/voice-profile/ArchiveImport";
 import { useVoiceProfiles } from "@/lib/context/VoiceProfileContext";
+import { proposeVoiceRules } from "@/lib/voice/rule-extractor";
+import { ImportedPost } from "@/lib/types";
 import { toast } from "@/hooks/use-toast";
-import { ChevronLeft, ChevronRight, Check, Sparkles, Loader2 } from "lucide-react";
+import { ChevronLeft, ChevronRight, Check, Sparkles, Loader2, Wand2 } from "lucide-react";
 
 const STEPS = [
   { id: 1, title: "Basic Info", description: "Name your voice profile" },
-  { id: 2, title: "Voice Rules", description: "Define your writing style" },
-  { id: 3, title: "Reference Posts", description: "Add your top-performing posts" },
+  { id: 2, title: "Reference Posts", description: "Add your top-performing posts" },
+  { id: 3, title: "Voice Rules", description: "Review the rules found in your posts" },
   { id: 4, title: "Brand Colors", description: "Set your visual identity" },
   { id: 5, title: "Review", description: "Confirm and save" },
 ];
 
+interface ReferencePostInput {
+  content: string;
+  engagement: number;
+  // Set when the post came from an imported export
+  platform?: "linkedin" | "twitter";
+}
+
 export default function NewVoiceProfilePage() {
   const router = useRouter();
-  const { createProfile } = useVoiceProfiles();
+  const { createProfile, importHistoricalPosts } = useVoiceProfiles();
   const [currentStep, setCurrentStep] = useState(1);
   
   // Form state
@@ -31,6 +41,7 @@ export default function NewVoiceProfilePage() {
   const [platforms, setPlatforms] = useState<("linkedin" | "twitter")[]>(["linkedin"]);
   const [sentencePatterns, setSentencePatterns] = useState("");
   const [forbiddenWords, setForbiddenWords] = useState("");
+  const [allowedPhrases, setAllowedPhrases] = useState("");
   const [signaturePhrases, setSignaturePhrases] = useState("");
   const [avgSentenceLength, setAvgSentenceLength] = useState(15);
   const [paragraphBreaks, setParagraphBreaks] = useState<"frequent" | "moderate" | "rare">("frequent");
@@ -41,9 +52,11 @@ export default function NewVoiceProfilePage() {
   const [useNumberedLists, setUseNumberedLists] = useState(true);
   const [emojiUsage, setEmojiUsage] = useState<"never" | "rare" | "moderate" | "frequent">("rare");
   
-  const [post1, setPost1] = useState({ content: "", engagement: 0 });
-  const [post2, setPost2] = useState({ content: "", engagement: 0 });
-  const [post3, setPost3] = useState({ content: "", engagement: 0 });
+  const [post1, setPost1] = useState<ReferencePostInput>({ content: "", engagement: 0 });
+  const [post2, setPost2] = useState<ReferencePostInput>({ content: "", engagement: 0 });
+  const [post3, setPost3] = useState<ReferencePostInput>({ content: "", engagement: 0 });
+  // Every post from an uploaded export, saved as the profile's history
+  const [importedPosts, setImportedPosts] = useState<ImportedPost[]>([]);
   
   // Reference Creator Option (for users with no posts)
   const [useReferenceCreator, setUseReferenceCreator] = useState(false);
@@ -77,12 +90,12 @@ export default function NewVoiceProfilePage() {
       case 1:
         return name.trim().length >= 2;
       case 2:
-        return getTotalRules() >= 20; // Per GTM plan: 20+ rules required
-      case 3:
         if (useReferenceCreator) {
           return referenceCreatorName.length > 2 && referenceCreatorPosts.some(p => p.length > 50);
         }
         return post1.content.length > 50 || post2.content.length > 50 || post3.content.length > 50;
+      case 3:
+        return getTotalRules() >= 20; // Per GTM plan: 20+ rules required
       case 4:
         return true; // Colors have defaults
       case 5:
@@ -109,17 +122,52 @@ export default function NewVoiceProfilePage() {
       case 1:
         return "Please enter a name for your voice profile";
       case 2:
-        return `Add more rules (${getTotalRules()}/20 minimum)`;
-      case 3:
         if (useReferenceCreator) {
           return "Enter creator name and at least one sample post with 50+ characters";
         }
         return "Add at least one reference post with 50+ characters";
+      case 3:
+        return `Add more rules (${getTotalRules()}/20 minimum)`;
       default:
         return "Please complete this step";
     }
   };
 
+  // Posts the voice rules are proposed from (own posts or the reference creator's)
+  const getReferencePosts = (): string[] => {
+    const posts = useReferenceCreator ? referenceCreatorPosts : [post1, post2, post3].map(p => p.content);
+    return posts.filter(p => p.trim().length > 0);
+  };
+
+  const proposal = currentStep === 3 && getReferencePosts().length > 0
+    ? proposeVoiceRules(getReferencePosts())
+    : null;
+
+  // Merge the proposed rules into the form; rules typed so far are kept
+  const acceptProposedRules = () => {
+    if (!proposal) return;
+    const { rules } = proposal;
+    const merge = (current: string, proposed: string[]) =>
+      [...new Set([...parseToArray(current), ...proposed])].join("\n");
+
+    setSentencePatterns(merge(sentencePatterns, rules.sentencePatterns));
+    setForbiddenWords(merge(forbiddenWords, rules.forbiddenWords));
+    setSignaturePhrases(merge(signaturePhrases, rules.signaturePhrases));
+    setAvgSentenceLength(rules.rhythmPreferences.avgSentenceLength);
+    setParagraphBreaks(rules.rhythmPreferences.paragraphBreaks);
+    setPunchlinePosition(rules.rhythmPreferences.punchlinePosition);
+    setQuestionUsage(rules.rhythmPreferences.questionUsage);
+    setUseEmDash(rules.formattingRules.useEmDash);
+    setUseBulletPoints(rules.formattingRules.useBulletPoints);
+    setUseNumberedLists(rules.formattingRules.useNumberedLists);
+    setEmojiUsage(rules.formattingRules.emojiUsage);
+
+    toast({
+      title: "Suggested rules added",
+      description: "Edit or remove any that don't sound like you.",
+    });
+  };
+
   const handleBack = () => {
     setCurrentStep(prev => Math.max(prev - 1, 1));
   };
@@ -146,7 +194,7 @@ export default function NewVoiceProfilePage() {
           .filter(p => p.content.length > 0)
           .map(p => ({
             content: p.content,
-            platform: platforms[0] as "linkedin" | "twitter",
+            platform: p.platform ?? platforms[0] as "linkedin" | "twitter",
             engagement: p.engagement,
           }));
       }
@@ -156,6 +204,8 @@ export default function NewVoiceProfilePage() {
         rules: {
           sentencePatterns: parseToArray(sentencePatterns),
           forbiddenWords: parseToArray(forbiddenWords),
+          // Left out when empty so profiles without an allow-list stay unchanged
+          ...(parseToArray(allowedPhrases).length > 0 ? { allowedPhrases: parseToArray(allowedPhrases) } : {}),
           signaturePhrases: parseToArray(signaturePhrases),
           rhythmPreferences: {
             avgSentenceLength,
@@ -187,6 +237,10 @@ export default function NewVoiceProfilePage() {
         return;
       }
 
+      if (!useReferenceCreator && importedPosts.length > 0) {
+        await importHistoricalPosts(profile.id, importedPosts);
+      }
+
       toast({
         title: "Voice Profile Created",
         description: `"${profile.name}" is ready to use!`,
@@ -198,6 +252,17 @@ export default function NewVoiceProfilePage() {
     }
   };
 
+  const fillReferencePosts = (posts: ImportedPost[]) => {
+    const setters = [setPost1, setPost2, setPost3];
+    setters.forEach((setter, i) => {
+      setter({
+        content: posts[i]?.content ?? "",
+        engagement: posts[i]?.engagement ?? 0,
+        platform: posts[i]?.platform,
+      });
+    });
+  };
+
   const togglePlatform = (platform: "linkedin" | "twitter") => {
     setPlatforms(prev => {
       if (prev.includes(platform)) {
@@ -282,93 +347,8 @@ export default function NewVoiceProfilePage() {
                   </>
                 )}
 
-                {/* Step 2: Voice Rules */}
+                {/* Step 2: Reference Posts */}
                 {currentStep === 2 && (
-                  <>
-                    <div className="space-y-2">
-                      <Label htmlFor="patterns">
-                        Sentence Patterns (one per line)
-                        <span className="text-muted-foreground ml-2">
-                          {parseToArray(sentencePatterns).length} rules
-                        </span>
-                      </Label>
-                      <Textarea
-                        id="patterns"
-                        placeholder="Never use em-dashes&#10;Start paragraphs with action verbs&#10;Keep sentences under 20 words"
-                        value={sentencePatterns}
-                        onChange={(e) => setSentencePatterns(e.target.value)}
-                        rows={4}
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="forbidden">
-                        Forbidden Words (one per line)
-                        <span className="text-muted-foreground ml-2">
-                          {parseToArray(forbiddenWords).length} words
-                        </span>
-                      </Label>
-                      <Textarea
-                        id="forbidden"
-                        placeholder="utilize&#10;implement&#10;leverage"
-                        value={forbiddenWords}
-                        onChange={(e) => setForbiddenWords(e.target.value)}
-                        rows={3}
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="signature">
-                        Signature Phrases (one per line)
-                        <span className="text-muted-foreground ml-2">
-                          {parseToArray(signaturePhrases).length} phrases
-                        </span>
-                      </Label>
-                      <Textarea
-                        id="signature"
-                        placeholder="Here's the thing:&#10;Real talk:&#10;Most founders miss this:"
-                        value={signaturePhrases}
-                        onChange={(e) => setSignaturePhrases(e.target.value)}
-                        rows={3}
-                      />
-                    </div>
-                    <div className="p-3 bg-muted rounded-lg">
-                      <p className="text-sm">
-                        Total rules: <strong>{getTotalRules()}</strong> / 20 minimum
-                      </p>
-                    </div>
-                    
-                    {/* Formatting Options */}
-                    <div className="grid grid-cols-2 gap-4">
-                      <div className="space-y-2">
-                        <Label>Paragraph Breaks</Label>
-                        <select
-                          className="w-full p-2 border rounded-md"
-                          value={paragraphBreaks}
-                          onChange={(e) => setParagraphBreaks(e.target.value as typeof paragraphBreaks)}
-                        >
-                          <option value="frequent">Frequent</option>
-                          <option value="moderate">Moderate</option>
-                          <option value="rare">Rare</option>
-                        </select>
-                      </div>
-                      <div className="space-y-2">
-                        <Label>Emoji Usage</Label>
-                        <select
-                          className="w-full p-2 border rounded-md"
-                          value={emojiUsage}
-                          onChange={(e) => setEmojiUsage(e.target.value as typeof emojiUsage)}
-                        >
-                          <option value="never">Never</option>
-                          <option value="rare">Rare</option>
-                          <option value="moderate">Moderate</option>
-                          <option value="frequent">Frequent</option>
-                        </select>
-                      </div>
-                    </div>
-                  </>
-                )}
-
-                {/* Step 3: Reference Posts */}
-                {currentStep === 3 && (
                   <>
                     {/* Toggle between own posts and reference creator */}
                     <div className="flex gap-4 mb-6">
@@ -393,8 +373,12 @@ export default function NewVoiceProfilePage() {
                     {!useReferenceCreator ? (
                       <>
                         <p className="text-sm text-muted-foreground">
-                          Add your best-performing posts. These help us match your voice.
+                          Add your best-performing posts. These help us match your voice and suggest your voice rules.
                         </p>
+                        <ArchiveImport
+                          onImported={setImportedPosts}
+                          onChooseReferencePosts={fillReferencePosts}
+                        />
                         {[
                           { state: post1, setter: setPost1, label: "Post 1" },
                           { state: post2, setter: setPost2, label: "Post 2" },
@@ -477,6 +461,140 @@ export default function NewVoiceProfilePage() {
                   </>
                 )}
 
+                {/* Step 3: Voice Rules */}
+                {currentStep === 3 && (
+                  <>
+                    {proposal && (
+                      <div className="p-4 border border-primary/30 bg-primary/5 rounded-lg space-y-3">
+                        <div className="flex items-start justify-between gap-4">
+                          <div>
+                            <p className="font-medium flex items-center">
+                              <Wand2 className="w-4 h-4 mr-2" />
+                              Suggested from your {proposal.stats.postCount} post{proposal.stats.postCount === 1 ? "" : "s"}
+                            </p>
+                            <p className="text-sm text-muted-foreground">
+                              {proposal.rules.sentencePatterns.length} patterns,{" "}
+                              {proposal.rules.forbiddenWords.length} forbidden words,{" "}
+                              {proposal.rules.signaturePhrases.length} signature phrases
+                            </p>
+                          </div>
+                          <Button type="button" size="sm" onClick={acceptProposedRules}>
+                            Add suggested rules
+                          </Button>
+                        </div>
+                        <ul className="text-sm text-muted-foreground grid grid-cols-2 gap-x-4 gap-y-1">
+                          <li>Avg sentence: {proposal.stats.avgSentenceLength} words</li>
+                          <li>Sentences per paragraph: {proposal.stats.sentencesPerParagraph}</li>
+                          <li>Questions: {Math.round(proposal.stats.questionRatio * 100)}% of sentences</li>
+                          <li>Emojis per post: {proposal.stats.emojisPerPost}</li>
+                          <li>Em-dashes per post: {proposal.stats.emDashesPerPost}</li>
+                          <li>List lines per post: {proposal.stats.bulletLinesPerPost + proposal.stats.numberedLinesPerPost}</li>
+                        </ul>
+                      </div>
+                    )}
+                    <div className="space-y-2">
+                      <Label htmlFor="patterns">
+                        Sentence Patterns (one per line)
+                        <span className="text-muted-foreground ml-2">
+                          {parseToArray(sentencePatterns).length} rules
+                        </span>
+                      </Label>
+                      <Textarea
+                        id="patterns"
+                        placeholder="Never use em-dashes&#10;Start paragraphs with action verbs&#10;Keep sentences under 20 words"
+                        value={sentencePatterns}
+                        onChange={(e) => setSentencePatterns(e.target.value)}
+                        rows={4}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="forbidden">
+                        Forbidden Words (one per line)
+                        <span className="text-muted-foreground ml-2">
+                          {parseToArray(forbiddenWords).length} words
+                        </span>
+                      </Label>
+                      <Textarea
+                        id="forbidden"
+                        placeholder="utilize&#10;implement&#10;leverage"
+                        value={forbiddenWords}
+                        onChange={(e) => setForbiddenWords(e.target.value)}
+                        rows={3}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        &quot;leverage&quot; also catches &quot;leveraged&quot; and &quot;leveraging&quot;. Use /regex/ for patterns, and add &quot;-&gt; use, apply&quot; to suggest replacements.
+                      </p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="allowed">
+                        Allowed Phrases (one per line)
+                        <span className="text-muted-foreground ml-2">
+                          {parseToArray(allowedPhrases).length} phrases
+                        </span>
+                      </Label>
+                      <Textarea
+                        id="allowed"
+                        placeholder="leverage"
+                        value={allowedPhrases}
+                        onChange={(e) => setAllowedPhrases(e.target.value)}
+                        rows={2}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Phrases from the built-in AI-slop list that you really do say. They won&apos;t be flagged in your posts.
+                      </p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="signature">
+                        Signature Phrases (one per line)
+                        <span className="text-muted-foreground ml-2">
+                          {parseToArray(signaturePhrases).length} phrases
+                        </span>
+                      </Label>
+                      <Textarea
+                        id="signature"
+                        placeholder="Here's the thing:&#10;Real talk:&#10;Most founders miss this:"
+                        value={signaturePhrases}
+                        onChange={(e) => setSignaturePhrases(e.target.value)}
+                        rows={3}
+                      />
+                    </div>
+                    <div className="p-3 bg-muted rounded-lg">
+                      <p className="text-sm">
+                        Total rules: <strong>{getTotalRules()}</strong> / 20 minimum
+                      </p>
+                    </div>
+                    
+                    {/* Formatting Options */}
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label>Paragraph Breaks</Label>
+                        <select
+                          className="w-full p-2 border rounded-md"
+                          value={paragraphBreaks}
+                          onChange={(e) => setParagraphBreaks(e.target.value as typeof paragraphBreaks)}
+                        >
+                          <option value="frequent">Frequent</option>
+                          <option value="moderate">Moderate</option>
+                          <option value="rare">Rare</option>
+                        </select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Emoji Usage</Label>
+                        <select
+                          className="w-full p-2 border rounded-md"
+                          value={emojiUsage}
+                          onChange={(e) => setEmojiUsage(e.target.value as typeof emojiUsage)}
+                        >
+                          <option value="never">Never</option>
+                          <option value="rare">Rare</option>
+                          <option value="moderate">Moderate</option>
+                          <option value="frequent">Frequent</option>
+                        </select>
+                      </div>
+                    </div>
+                  </>
+                )}
+
                 {/* Step 4: Brand Colors */}
                 {currentStep === 4 && (
                   <>
@@ -569,7 +687,7 @@ export default function NewVoiceProfilePage() {
                       <div className="flex justify-between py-2 border-b">
                         <span className="text-muted-foreground">Reference Posts</span>
                         <span className="font-medium">
-                          {[post1, post2, post3].filter(p => p.content.length > 0).length}
+                          {getReferencePosts().length}
                         </span>
                       </div>
                       <div className="flex justify-between py-2 border-b">
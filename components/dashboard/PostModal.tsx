@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { motion } from "framer-motion";
 import {
   Dialog,
@@ -10,12 +10,20 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { RegenerateStageMenu } from "@/components/generation/RegenerateStageMenu";
+import { HookPicker } from "@/components/generation/HookPicker";
+import { VersionComparison } from "@/components/generation/VersionComparison";
+import { RevisionChat } from "@/components/generation/RevisionChat";
+import { RevisionHistory } from "@/components/generation/RevisionHistory";
+import { AnnotatedEditor } from "@/components/generation/AnnotatedEditor";
 import { GeneratedPost } from "@/lib/types";
 import { usePosts } from "@/lib/context/PostContext";
 import { formatRelativeTime } from "@/lib/utils/date";
-import { getScoreBadgeVariant } from "@/lib/guardrails/quality-gates";
+import { QualityGateList } from "@/components/generation/QualityGateList";
+import { getScoreBadgeVariant, validatePost } from "@/lib/guardrails/quality-gates";
+import { createPostEdit } from "@/lib/voice/edit-learning";
+import { applyManualEdit } from "@/lib/pipeline/revisions";
 import { exportToCSV, exportToJSON } from "@/lib/utils/csv-exporter";
 import {
   Edit2,
@@ -45,6 +53,10 @@ export function PostModal({ post, isOpen, onClose, onDelete }: PostModalProps) {
   const [copied, setCopied] = useState(false);
   const [activeTab, setActiveTab] = useState<"linkedin" | "twitter">("linkedin");
   const [showQualityDetails, setShowQualityDetails] = useState(false);
+  const [showHooks, setShowHooks] = useState(false);
+  const [showVersions, setShowVersions] = useState(false);
+  const [showChat, setShowChat] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
 
   const getPostContent = (p: GeneratedPost) => {
     return p.outputs?.linkedin?.post || p.pipeline?.finalVersion || "";
@@ -64,22 +76,37 @@ export function PostModal({ post, isOpen, onClose, onDelete }: PostModalProps) {
     }
   }, [post]);
 
+  // The gates behind the saved score. Posts saved before reports were kept
+  // are checked here instead.
+  const qualityGates = useMemo(() => {
+    if (!post) return null;
+    if (post.quality?.report) return post.quality.report.gates;
+    if (!post.voiceProfile) return null;
+    const content = post.outputs?.linkedin?.post || post.pipeline?.finalVersion || "";
+    return validatePost(content, post.voiceProfile, post.interviewData).gates;
+  }, [post]);
+
   if (!post) return null;
 
   const handleSave = () => {
-    updatePost(post.id, { 
-      outputs: {
-        ...post.outputs,
-        linkedin: {
-          ...post.outputs.linkedin,
-          post: editedContent,
-          characterCount: editedContent.length,
-        }
-      }
-    });
+    const original = getPostContent(post);
+    if (editedContent === original) {
+      setIsEditing(false);
+      return;
+    }
+
+    updatePost(post.id, applyManualEdit(post, editedContent, createPostEdit(original, editedContent)));
     setIsEditing(false);
   };
 
+  // Save a regenerated stage or swapped hook as a new revision
+  const handleRevise = (updates: Partial<GeneratedPost>) => {
+    updatePost(post.id, updates);
+    if (updates.outputs) {
+      setEditedContent(updates.outputs.linkedin.post);
+    }
+  };
+
   const handleCancel = () => {
     setEditedContent(getPostContent(post));
     setIsEditing(false);
@@ -154,9 +181,11 @@ export function PostModal({ post, isOpen, onClose, onDelete }: PostModalProps) {
 
           <TabsContent value="linkedin" className="mt-4">
             {isEditing ? (
-              <Textarea
+              <AnnotatedEditor
                 value={editedContent}
-                onChange={(e) => setEditedContent(e.target.value)}
+                onChange={setEditedContent}
+                voiceProfile={post.voiceProfile}
+                interview={post.interviewData}
                 className="min-h-[300px] resize-none"
               />
             ) : (
@@ -192,6 +221,102 @@ export function PostModal({ post, isOpen, onClose, onDelete }: PostModalProps) {
           </TabsContent>
         </Tabs>
 
+        {/* Hook Options */}
+        {post.pipeline?.hookOptions?.length > 0 && (
+          <div className="mt-4">
+            <button
+              onClick={() => setShowHooks(!showHooks)}
+              className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground"
+            >
+              {showHooks ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+              Hook Options ({post.pipeline.hookOptions.length})
+            </button>
+
+            {showHooks && (
+              <motion.div
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: "auto" }}
+                exit={{ opacity: 0, height: 0 }}
+                className="mt-3 text-sm"
+              >
+                <HookPicker post={post} onApply={handleRevise} disabled={isEditing} />
+              </motion.div>
+            )}
+          </div>
+        )}
+
+        {/* Initial Versions */}
+        {post.pipeline?.initialVersions?.length > 1 && (
+          <div className="mt-4">
+            <button
+              onClick={() => setShowVersions(!showVersions)}
+              className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground"
+            >
+              {showVersions ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+              Compare Initial Versions ({post.pipeline.initialVersions.length})
+            </button>
+
+            {showVersions && (
+              <motion.div
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: "auto" }}
+                exit={{ opacity: 0, height: 0 }}
+                className="mt-3 text-sm"
+              >
+                <VersionComparison post={post} onContinue={handleRevise} disabled={isEditing} />
+              </motion.div>
+            )}
+          </div>
+        )}
+
+        {/* Conversational Revisions */}
+        {post.pipeline && post.voiceProfile && (
+          <div className="mt-4">
+            <button
+              onClick={() => setShowChat(!showChat)}
+              className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground"
+            >
+              {showChat ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+              Revise with Instructions
+            </button>
+
+            {showChat && (
+              <motion.div
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: "auto" }}
+                exit={{ opacity: 0, height: 0 }}
+                className="mt-3 text-sm"
+              >
+                <RevisionChat post={post} onRevise={handleRevise} disabled={isEditing} />
+              </motion.div>
+            )}
+          </div>
+        )}
+
+        {/* Revision History */}
+        {(post.revisions?.length ?? 0) > 1 && (
+          <div className="mt-4">
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground"
+            >
+              {showHistory ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+              Revision History ({post.revisions?.length})
+            </button>
+
+            {showHistory && (
+              <motion.div
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: "auto" }}
+                exit={{ opacity: 0, height: 0 }}
+                className="mt-3 text-sm"
+              >
+                <RevisionHistory post={post} onRestore={handleRevise} disabled={isEditing} />
+              </motion.div>
+            )}
+          </div>
+        )}
+
         {/* Quality Details */}
         {post.quality && (
           <div className="mt-4">
@@ -216,6 +341,14 @@ export function PostModal({ post, isOpen, onClose, onDelete }: PostModalProps) {
                     {post.quality.score}/100
                   </Badge>
                 </div>
+                {post.quality.selfScore !== undefined && (
+                  <div className="flex items-center justify-between p-2 bg-muted/30 rounded">
+                    <span className="text-sm font-medium">Model&apos;s Own Score</span>
+                    <Badge variant="outline" className="text-xs">
+                      {post.quality.selfScore}/100
+                    </Badge>
+                  </div>
+                )}
                 <div className="flex items-center justify-between p-2 bg-muted/30 rounded">
                   <span className="text-sm font-medium">Voice Similarity</span>
                   <Badge variant="secondary" className="text-xs">
@@ -234,6 +367,7 @@ export function PostModal({ post, isOpen, onClose, onDelete }: PostModalProps) {
                     {post.quality.passedGates ? "Yes" : "No"}
                   </Badge>
                 </div>
+                {qualityGates && <QualityGateList gates={qualityGates} />}
               </motion.div>
             )}
           </div>
@@ -271,6 +405,7 @@ export function PostModal({ post, isOpen, onClose, onDelete }: PostModalProps) {
                     </>
                   )}
                 </Button>
+                <RegenerateStageMenu post={post} onRegenerated={handleRevise} />
               </>
             )}
           </div>
@@ -0,0 +1,193 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { InterviewResponse, QualityReport, QuickFix, VoiceProfile } from "@/lib/types";
+import { getScoreBadgeVariant, validatePost } from "@/lib/guardrails/quality-gates";
+import {
+  applyQuickFix,
+  collectAnnotations,
+  GateAnnotation,
+  segmentByAnnotations,
+} from "@/lib/guardrails/annotations";
+import { toast } from "@/hooks/use-toast";
+import { Wand2 } from "lucide-react";
+
+// Wait for a pause in typing before re-scoring
+const RESCORE_DELAY_MS = 400;
+
+interface AnnotatedEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Without a profile there is nothing to score against, so it's a plain editor
+  voiceProfile?: VoiceProfile;
+  interview?: InterviewResponse;
+  rows?: number;
+  className?: string;
+}
+
+interface ScoredContent {
+  content: string;
+  report: QualityReport;
+}
+
+function markClass(annotation: GateAnnotation): string {
+  return annotation.gatePassed
+    ? "bg-yellow-200/70 dark:bg-yellow-900/60"
+    : "bg-red-200/70 dark:bg-red-900/60";
+}
+
+// Where highlights overlap, a failing gate's colour wins
+function strongest(annotations: GateAnnotation[]): GateAnnotation {
+  return annotations.find(a => !a.gatePassed) ?? annotations[0];
+}
+
+/**
+ * Post editor that highlights what the quality gates flag, re-scoring with
+ * the sync gates as the user types. Highlights sit in a backdrop behind a
+ * transparent textarea, so editing works as usual.
+ */
+export function AnnotatedEditor({
+  value,
+  onChange,
+  voiceProfile,
+  interview,
+  rows,
+  className,
+}: AnnotatedEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const [scored, setScored] = useState<ScoredContent | null>(() =>
+    voiceProfile ? { content: value, report: validatePost(value, voiceProfile, interview) } : null
+  );
+
+  useEffect(() => {
+    if (!voiceProfile) return;
+    const timer = setTimeout(() => {
+      setScored({ content: value, report: validatePost(value, voiceProfile, interview) });
+    }, RESCORE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [value, voiceProfile, interview]);
+
+  // Positions only hold for the text that was scored, so hide them until it catches up
+  const isFresh = scored?.content === value;
+  const annotations = useMemo(
+    () => (scored && isFresh ? collectAnnotations(scored.report, value) : []),
+    [scored, isFresh, value]
+  );
+  const segments = useMemo(() => segmentByAnnotations(value, annotations), [value, annotations]);
+
+  const syncScroll = () => {
+    if (backdropRef.current && textareaRef.current) {
+      backdropRef.current.scrollTop = textareaRef.current.scrollTop;
+    }
+  };
+
+  const handleSelect = (annotation: GateAnnotation) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(annotation.start, annotation.end);
+  };
+
+  const handleFix = (fix: QuickFix) => {
+    const fixed = applyQuickFix(value, fix);
+    if (fixed === null) {
+      toast({
+        title: "Fix no longer applies",
+        description: "The text changed since it was scored",
+        variant: "destructive",
+      });
+      return;
+    }
+    onChange(fixed);
+  };
+
+  if (!voiceProfile) {
+    return (
+      <Textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        rows={rows}
+        className={className}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="relative rounded-md bg-background">
+        <div
+          ref={backdropRef}
+          aria-hidden
+          className={cn(
+            "absolute inset-0 overflow-hidden whitespace-pre-wrap break-words rounded-md border border-transparent px-3 py-2 text-base text-transparent md:text-sm",
+            className
+          )}
+        >
+          {segments.map((segment) =>
+            segment.annotations.length > 0 ? (
+              <mark key={segment.start} className={cn("rounded-sm text-transparent", markClass(strongest(segment.annotations)))}>
+                {segment.text}
+              </mark>
+            ) : (
+              <span key={segment.start}>{segment.text}</span>
+            )
+          )}
+          {/* A trailing line break only takes up space with something after it */}
+          {"\u200b"}
+        </div>
+        <Textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={syncScroll}
+          rows={rows}
+          className={cn("relative bg-transparent", className)}
+        />
+      </div>
+
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">Live Quality Check</span>
+        {scored && (
+          <Badge variant={isFresh ? getScoreBadgeVariant(scored.report.overallScore) : "outline"}>
+            {isFresh ? `${scored.report.overallScore}/100` : "Scoring…"}
+          </Badge>
+        )}
+      </div>
+
+      {annotations.length > 0 && (
+        <ul className="space-y-2 max-h-60 overflow-y-auto">
+          {annotations.map((annotation, i) => (
+            <li key={`${annotation.gateId}-${annotation.start}-${i}`} className="p-2 bg-muted/30 rounded text-sm">
+              <button
+                type="button"
+                onClick={() => handleSelect(annotation)}
+                className="w-full text-left"
+              >
+                <span className={cn("rounded-sm px-1", markClass(annotation))}>
+                  {value.slice(annotation.start, annotation.end).trim() || "(spacing)"}
+                </span>
+                <span className="ml-2 text-xs text-muted-foreground">{annotation.gateName}</span>
+                <span className="mt-1 block text-xs text-muted-foreground">{annotation.message}</span>
+              </button>
+              {annotation.fixes.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {annotation.fixes.map((fix, j) => (
+                    <Button key={j} size="sm" variant="outline" onClick={() => handleFix(fix)}>
+                      <Wand2 className="w-3 h-3 mr-1" />
+                      {fix.label}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
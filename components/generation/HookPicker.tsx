@@ -0,0 +1,155 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { GeneratedPost } from "@/lib/types";
+import { getScoreBadgeVariant } from "@/lib/guardrails/quality-gates";
+import { getFoldPreview } from "@/lib/guardrails/readability";
+import {
+  applyHookChoice,
+  getOpening,
+  previewHookSwap,
+  scoreHookOptions,
+} from "@/lib/pipeline/hook-picker";
+import { toast } from "@/hooks/use-toast";
+import { Check } from "lucide-react";
+
+interface HookPickerProps {
+  post: GeneratedPost;
+  // Receives the updates for the new revision (content + revision history)
+  onApply: (updates: Partial<GeneratedPost>) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Stage 4 hook options with their hook strength scores. Any option (or a
+ * custom hook) can be previewed against the quality gates and swapped in.
+ */
+export function HookPicker({ post, onApply, disabled }: HookPickerProps) {
+  const [candidate, setCandidate] = useState<string | null>(null);
+  const [customHook, setCustomHook] = useState("");
+
+  const scoredHooks = useMemo(
+    () => scoreHookOptions(post.pipeline.hookOptions || []),
+    [post.pipeline.hookOptions]
+  );
+  const currentOpening = getOpening(post.outputs.linkedin.post).trim();
+
+  const preview = useMemo(
+    () => (candidate ? previewHookSwap(post, candidate) : null),
+    [post, candidate]
+  );
+  // Missing when the profile turns the gate off
+  const hookGate = preview?.report.gates.hookStrength;
+  // Mobile folds first, so a hook that fits there fits everywhere
+  const mobileFold = preview ? getFoldPreview(preview.content, "mobile") : null;
+
+  const handleApply = () => {
+    if (!candidate || !preview) return;
+    onApply(applyHookChoice(post, candidate));
+    setCandidate(null);
+    toast({
+      title: "Hook updated",
+      description: `Score: ${preview.report.overallScore}/100`,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <ul className="space-y-2">
+        {scoredHooks.map(({ hook, gate }, i) => {
+          const isCurrent = hook.trim() === currentOpening;
+          const isSelected = hook === candidate;
+          return (
+            <li key={i}>
+              <button
+                type="button"
+                disabled={disabled || isCurrent}
+                onClick={() => setCandidate(hook)}
+                className={`w-full text-left p-2 rounded-lg border flex items-start justify-between gap-3 ${
+                  isSelected ? "border-primary bg-primary/5" : "border-transparent hover:bg-muted"
+                } disabled:cursor-default`}
+              >
+                <span className={isCurrent ? "font-medium" : "text-muted-foreground"}>
+                  {isCurrent && <Check className="w-4 h-4 inline mr-1" />}
+                  {hook}
+                  {hook === post.pipeline.selectedHook && (
+                    <span className="ml-2 text-xs text-muted-foreground">(AI pick)</span>
+                  )}
+                </span>
+                <Badge variant={gate.passed ? "green" : "outline"} className="shrink-0">
+                  {gate.score}
+                </Badge>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {/* Custom hook */}
+      <div className="flex gap-2 items-start">
+        <Textarea
+          value={customHook}
+          onChange={(e) => setCustomHook(e.target.value)}
+          placeholder="Or write your own hook..."
+          rows={2}
+          disabled={disabled}
+          className="text-sm"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled || !customHook.trim()}
+          onClick={() => setCandidate(customHook.trim())}
+        >
+          Try it
+        </Button>
+      </div>
+
+      {/* Preview of the re-stitched post */}
+      {candidate && preview && (
+        <div className="p-3 bg-muted/50 rounded-lg space-y-2">
+          <div className="flex items-center gap-2">
+            <Badge variant={getScoreBadgeVariant(preview.report.overallScore)}>
+              Score: {preview.report.overallScore}/100
+            </Badge>
+            {hookGate && (
+              <Badge variant="outline">
+                Hook strength: {hookGate.score}
+              </Badge>
+            )}
+            {mobileFold && (
+              <Badge variant={mobileFold.hookCut ? "destructive" : "outline"}>
+                {mobileFold.hookCut ? "Cut by \"see more\" on mobile" : "Fits above the fold"}
+              </Badge>
+            )}
+            {preview.report.passed ? (
+              <Badge variant="green">Passed</Badge>
+            ) : (
+              <Badge variant="destructive">Issues Found</Badge>
+            )}
+          </div>
+          {hookGate && hookGate.issues.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {hookGate.issues.join(" · ")}
+            </p>
+          )}
+          <p className="whitespace-pre-wrap text-muted-foreground line-clamp-4">
+            {preview.content}
+          </p>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleApply} disabled={disabled}>
+              <Check className="w-4 h-4 mr-1" />
+              Use this hook
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setCandidate(null)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,28 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { motion } from "framer-motion";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { GeneratedPost } from "@/lib/types";
-import { getScoreBadgeVariant } from "@/lib/guardrails/quality-gates";
+import { RegenerateStageMenu } from "@/components/generation/RegenerateStageMenu";
+import { HookPicker } from "@/components/generation/HookPicker";
+import { VersionComparison } from "@/components/generation/VersionComparison";
+import { RevisionChat } from "@/components/generation/RevisionChat";
+import { describeRevision, RevisionHistory } from "@/components/generation/RevisionHistory";
+import { QualityGateList } from "@/components/generation/QualityGateList";
+import { AnnotatedEditor } from "@/components/generation/AnnotatedEditor";
+import { GeneratedPost, PostEdit } from "@/lib/types";
+import {
+  checkFactConsistencyGate,
+  checkNameConsistencyGate,
+  getScoreBadgeVariant,
+} from "@/lib/guardrails/quality-gates";
+import { scoreVoiceSimilarity } from "@/lib/voice/stylometry";
+import { createPostEdit } from "@/lib/voice/edit-learning";
 import { formatThreadForCopy } from "@/lib/utils/platform-converter";
+import { useVoiceProfiles } from "@/lib/context/VoiceProfileContext";
 import { toast } from "@/hooks/use-toast";
 import { 
   Copy, 
@@ -23,13 +36,57 @@ import {
 
 interface PostPreviewProps {
   post: GeneratedPost;
-  onUpdate?: (content: string) => void;
+  // Receives the edited text and the before/after record of the edit
+  onUpdate?: (content: string, edit: PostEdit) => void;
+  // Saves a new revision (regenerated stage, swapped hook, chat or restore)
+  onRevise?: (updates: Partial<GeneratedPost>) => void;
 }
 
-export function PostPreview({ post, onUpdate }: PostPreviewProps) {
+export function PostPreview({ post, onUpdate, onRevise }: PostPreviewProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editedContent, setEditedContent] = useState(post.outputs.linkedin.post);
   const [copiedPlatform, setCopiedPlatform] = useState<"linkedin" | "twitter" | null>(null);
+  const [importedPosts, setImportedPosts] = useState<string[]>([]);
+  const { getHistoricalPosts } = useVoiceProfiles();
+
+  const savedContent = post.outputs.linkedin.post;
+  const savedReport = post.quality.report;
+
+  // Numbers and names that don't come from the interview answers. Taken from
+  // the stored report; posts saved before it had one are checked here.
+  const unverifiedFacts = useMemo(() => {
+    const gates = savedReport
+      ? [savedReport.gates.factConsistency, savedReport.gates.nameConsistency]
+      : post.interviewData && post.voiceProfile
+        ? [
+            checkFactConsistencyGate(savedContent, post.voiceProfile, post.interviewData),
+            checkNameConsistencyGate(savedContent, post.voiceProfile, post.interviewData),
+          ]
+        : [];
+    return gates.flatMap(gate => (gate && !gate.passed ? gate.issues : []));
+  }, [savedReport, savedContent, post.voiceProfile, post.interviewData]);
+
+  // The author's imported posts count as reference text too
+  useEffect(() => {
+    let cancelled = false;
+    getHistoricalPosts(post.voiceProfileId).then(loaded => {
+      if (!cancelled) setImportedPosts(loaded.map(p => p.content));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [post.voiceProfileId, getHistoricalPosts]);
+
+  // How the post's style differs from the author's own writing
+  const voiceSimilarity = useMemo(
+    () => (post.voiceProfile ? scoreVoiceSimilarity(savedContent, post.voiceProfile, importedPosts) : null),
+    [savedContent, post.voiceProfile, importedPosts]
+  );
+
+  // A regenerated revision replaces the content being shown
+  useEffect(() => {
+    setEditedContent(post.outputs.linkedin.post);
+  }, [post.outputs.linkedin.post]);
 
   const handleCopy = async (platform: "linkedin" | "twitter") => {
     const content = platform === "linkedin" 
@@ -67,8 +124,10 @@ export function PostPreview({ post, onUpdate }: PostPreviewProps) {
   };
 
   const handleSaveEdit = () => {
-    onUpdate?.(editedContent);
     setIsEditing(false);
+    if (editedContent === post.outputs.linkedin.post) return;
+
+    onUpdate?.(editedContent, createPostEdit(post.outputs.linkedin.post, editedContent));
     toast({
       title: "Saved!",
       description: "Your edits have been saved",
@@ -112,7 +171,14 @@ export function PostPreview({ post, onUpdate }: PostPreviewProps) {
 
             <TabsContent value="linkedin" className="space-y-4">
               {/* Edit/View Toggle */}
-              <div className="flex justify-end">
+              <div className="flex justify-end gap-2">
+                {onRevise && (
+                  <RegenerateStageMenu
+                    post={post}
+                    onRegenerated={onRevise}
+                    disabled={isEditing}
+                  />
+                )}
                 <Button
                   variant="outline"
                   size="sm"
@@ -134,9 +200,11 @@ export function PostPreview({ post, onUpdate }: PostPreviewProps) {
 
               {/* Content */}
               {isEditing ? (
-                <Textarea
+                <AnnotatedEditor
                   value={editedContent}
-                  onChange={(e) => setEditedContent(e.target.value)}
+                  onChange={setEditedContent}
+                  voiceProfile={post.voiceProfile}
+                  interview={post.interviewData}
                   rows={15}
                   className="font-mono text-sm"
                 />
@@ -185,6 +253,54 @@ export function PostPreview({ post, onUpdate }: PostPreviewProps) {
                   Download
                 </Button>
               </div>
+
+              {/* Hook Options */}
+              {onRevise && post.pipeline.hookOptions?.length > 0 && (
+                <details>
+                  <summary className="text-sm font-medium cursor-pointer hover:text-primary">
+                    Hook Options ({post.pipeline.hookOptions.length})
+                  </summary>
+                  <div className="mt-3 text-sm">
+                    <HookPicker post={post} onApply={onRevise} disabled={isEditing} />
+                  </div>
+                </details>
+              )}
+
+              {/* Initial Versions */}
+              {onRevise && post.pipeline.initialVersions?.length > 1 && (
+                <details>
+                  <summary className="text-sm font-medium cursor-pointer hover:text-primary">
+                    Compare Initial Versions ({post.pipeline.initialVersions.length})
+                  </summary>
+                  <div className="mt-3 text-sm">
+                    <VersionComparison post={post} onContinue={onRevise} disabled={isEditing} />
+                  </div>
+                </details>
+              )}
+
+              {/* Conversational Revisions */}
+              {onRevise && (
+                <details>
+                  <summary className="text-sm font-medium cursor-pointer hover:text-primary">
+                    Revise with Instructions
+                  </summary>
+                  <div className="mt-3 text-sm">
+                    <RevisionChat post={post} onRevise={onRevise} disabled={isEditing} />
+                  </div>
+                </details>
+              )}
+
+              {/* Revision History */}
+              {onRevise && (post.revisions?.length ?? 0) > 1 && (
+                <details>
+                  <summary className="text-sm font-medium cursor-pointer hover:text-primary">
+                    Revision History ({post.revisions?.length})
+                  </summary>
+                  <div className="mt-3 text-sm">
+                    <RevisionHistory post={post} onRestore={onRevise} disabled={isEditing} />
+                  </div>
+                </details>
+              )}
             </TabsContent>
 
             <TabsContent value="twitter" className="space-y-4">
@@ -235,6 +351,21 @@ export function PostPreview({ post, onUpdate }: PostPreviewProps) {
               Quality Details & Pipeline Stages
             </summary>
             <div className="mt-4 space-y-4 text-sm">
+              {/* Quality Gates */}
+              {post.quality.report && (
+                <div className="p-3 bg-muted/50 rounded-lg">
+                  <p className="font-medium mb-2">
+                    Quality Gates
+                    {post.quality.selfScore !== undefined && (
+                      <span className="font-normal text-muted-foreground">
+                        {" "}(the model scored itself {post.quality.selfScore})
+                      </span>
+                    )}
+                  </p>
+                  <QualityGateList gates={post.quality.report.gates} />
+                </div>
+              )}
+
               {/* Specificity */}
               <div className="p-3 bg-muted/50 rounded-lg">
                 <p className="font-medium mb-1">Specificity</p>
@@ -243,6 +374,22 @@ export function PostPreview({ post, onUpdate }: PostPreviewProps) {
                 </p>
               </div>
               
+              {/* Voice Match */}
+              {voiceSimilarity && (
+                <div className="p-3 bg-muted/50 rounded-lg">
+                  <p className="font-medium mb-1">Voice Match: {voiceSimilarity.score}%</p>
+                  {voiceSimilarity.deviations.length > 0 ? (
+                    <ul className="text-muted-foreground space-y-1">
+                      {voiceSimilarity.deviations.map((deviation, i) => (
+                        <li key={i}>{deviation.message}</li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-muted-foreground">Reads like your reference posts</p>
+                  )}
+                </div>
+              )}
+
               {/* Slop Detection */}
               {post.quality.slopDetected.length > 0 && (
                 <div className="p-3 bg-destructive/10 rounded-lg">
@@ -251,15 +398,56 @@ export function PostPreview({ post, onUpdate }: PostPreviewProps) {
                 </div>
               )}
 
+              {/* Fact Consistency */}
+              {unverifiedFacts.length > 0 && (
+                <div className="p-3 bg-destructive/10 rounded-lg">
+                  <p className="font-medium mb-1 text-destructive">Unverified Facts</p>
+                  <ul className="text-sm space-y-1">
+                    {unverifiedFacts.map((issue, i) => (
+                      <li key={i}>{issue}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Self-Repetition */}
+              {post.quality.repetition && post.quality.repetition.length > 0 && (
+                <div className="p-3 bg-destructive/10 rounded-lg">
+                  <p className="font-medium mb-1 text-destructive">Repeats Earlier Posts</p>
+                  <ul className="text-sm space-y-1">
+                    {post.quality.repetition.flatMap(warning => warning.reasons).map((reason, i) => (
+                      <li key={i}>{reason}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {/* Pipeline Stages */}
               <div className="p-3 bg-muted/50 rounded-lg">
                 <p className="font-medium mb-2">Generation Stages</p>
                 <ul className="space-y-1 text-muted-foreground">
                   <li>✓ Generated {post.pipeline.initialVersions?.length || 5} versions</li>
-                  <li>✓ Selected best version</li>
+                  <li>
+                    {post.pipeline.selectionOverride
+                      ? `✓ Continued from version ${post.pipeline.selectionOverride.version} (your pick)`
+                      : "✓ Selected best version"}
+                  </li>
                   <li>✓ Refined: {post.pipeline.refinementChanges?.length || 0} changes</li>
                   <li>✓ Hook optimized from {post.pipeline.hookOptions?.length || 3} options</li>
                   <li>✓ Personality injected: {post.pipeline.injectedElements?.length || 0} elements</li>
+                  {post.revisions && post.revisions.length > 1 && (
+                    <li>
+                      ↻ Revision {post.revisions.length} (
+                      {describeRevision(post.revisions[post.revisions.length - 1], post.revisions)})
+                    </li>
+                  )}
+                  {post.pipeline.parseFailures && post.pipeline.parseFailures.length > 0 && (
+                    <li className="text-yellow-600">
+                      ⚠ Repaired {post.pipeline.parseFailures.length} malformed stage{" "}
+                      {post.pipeline.parseFailures.length === 1 ? "reply" : "replies"} (
+                      {[...new Set(post.pipeline.parseFailures.map(f => f.stage))].join(", ")})
+                    </li>
+                  )}
                 </ul>
               </div>
             </div>
@@ -0,0 +1,50 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { QualityReport } from "@/lib/types";
+
+interface QualityGateListProps {
+  gates: QualityReport["gates"];
+}
+
+/**
+ * Every gate in a quality report with its score, pass mark and issues.
+ * Rendered from the report alone, so newly registered gates show up as is.
+ */
+export function QualityGateList({ gates }: QualityGateListProps) {
+  const entries = Object.entries(gates);
+  if (entries.length === 0) return null;
+
+  // Weights are relative, so show each gate's share of the overall score
+  const totalWeight = entries.reduce((sum, [, gate]) => sum + (gate.weight ?? 0), 0);
+
+  return (
+    <ul className="space-y-2">
+      {entries.map(([id, gate]) => (
+        <li key={id} className="p-2 bg-muted/30 rounded text-sm">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium">{gate.name}</span>
+            <div className="flex items-center gap-1">
+              {gate.weight !== undefined && totalWeight > 0 && (
+                <span className="text-xs text-muted-foreground">
+                  {Math.round((gate.weight / totalWeight) * 100)}% of score
+                </span>
+              )}
+              <Badge variant={gate.passed ? "secondary" : "destructive"} className="text-xs">
+                {gate.score ?? (gate.passed ? "Pass" : "Fail")}
+                {gate.score !== undefined && gate.threshold !== undefined && ` / ${gate.threshold}`}
+              </Badge>
+            </div>
+          </div>
+          {gate.issues.length > 0 && (
+            <ul className="mt-1 text-xs text-muted-foreground space-y-0.5">
+              {gate.issues.map((issue, i) => (
+                <li key={i}>{issue}</li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { GeneratedPost } from "@/lib/types";
+import {
+  REGENERATABLE_STAGES,
+  REGENERATABLE_STAGE_LABELS,
+  RegeneratableStage,
+  applyRegeneration,
+  requestRegeneration,
+} from "@/lib/pipeline/revisions";
+import { toast } from "@/hooks/use-toast";
+import { RefreshCw } from "lucide-react";
+
+interface RegenerateStageMenuProps {
+  post: GeneratedPost;
+  // Receives the updates for the new revision (content + revision history)
+  onRegenerated: (updates: Partial<GeneratedPost>) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Re-run one pipeline stage (and the stages after it) on an existing post
+ */
+export function RegenerateStageMenu({ post, onRegenerated, disabled }: RegenerateStageMenuProps) {
+  const [runningStage, setRunningStage] = useState<RegeneratableStage | null>(null);
+
+  const handleRegenerate = async (fromStage: RegeneratableStage) => {
+    setRunningStage(fromStage);
+
+    try {
+      const regenerated = await requestRegeneration(post, fromStage);
+      onRegenerated(applyRegeneration(post, regenerated, fromStage));
+
+      toast({
+        title: "New revision saved",
+        description: `Score: ${regenerated.quality.score}/100`,
+      });
+    } catch (error) {
+      toast({
+        title: "Regeneration failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setRunningStage(null);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled || runningStage !== null}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${runningStage ? "animate-spin" : ""}`} />
+          {runningStage ? "Regenerating..." : "Regenerate"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Re-runs this stage and the ones after it</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {REGENERATABLE_STAGES.map((stage) => (
+          <DropdownMenuItem key={stage} onClick={() => handleRegenerate(stage)}>
+            {REGENERATABLE_STAGE_LABELS[stage]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { GeneratedPost } from "@/lib/types";
+import { getScoreBadgeVariant } from "@/lib/guardrails/quality-gates";
+import { applyChatRevision, requestChatRevision } from "@/lib/pipeline/revisions";
+import { toast } from "@/hooks/use-toast";
+import { RefreshCw, Send } from "lucide-react";
+
+interface RevisionChatProps {
+  post: GeneratedPost;
+  // Receives the updates for the new revision (content + revision history)
+  onRevise: (updates: Partial<GeneratedPost>) => void;
+  disabled?: boolean;
+}
+
+const SUGGESTIONS = ["Make it shorter", "Less salesy", "Punchier hook", "More specific"];
+
+/**
+ * Revise the post with plain-language instructions. Every reply is saved as
+ * a new revision and scored with the quality gates.
+ */
+export function RevisionChat({ post, onRevise, disabled }: RevisionChatProps) {
+  const [instruction, setInstruction] = useState("");
+  const [pending, setPending] = useState<string | null>(null);
+
+  const chatRevisions = (post.revisions || []).filter(r => r.source === "chat");
+
+  const handleSend = async (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || pending) return;
+
+    setPending(trimmed);
+    setInstruction("");
+
+    try {
+      const reply = await requestChatRevision(post, trimmed);
+      onRevise(applyChatRevision(post, trimmed, reply));
+
+      const { factConsistency, nameConsistency } = reply.report.gates;
+      const unverified = [factConsistency, nameConsistency]
+        .flatMap(gate => (gate && !gate.passed ? gate.issues : []));
+      if (unverified.length > 0) {
+        toast({
+          title: "Check the facts in this revision",
+          description: unverified.join(" · "),
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      setInstruction(trimmed);
+      toast({
+        title: "Revision failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Conversation */}
+      {(chatRevisions.length > 0 || pending) && (
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {chatRevisions.map((revision) => (
+            <div key={revision.id} className="space-y-1">
+              <p className="ml-auto w-fit max-w-[85%] rounded-lg bg-primary text-primary-foreground px-3 py-1.5">
+                {revision.instruction}
+              </p>
+              <div className="w-fit max-w-[85%] rounded-lg bg-muted px-3 py-1.5 space-y-1">
+                <p>{revision.summary}</p>
+                <div className="flex items-center gap-2">
+                  <Badge variant={getScoreBadgeVariant(revision.quality.score)} className="text-xs">
+                    Score: {revision.quality.score}/100
+                  </Badge>
+                  {revision.quality.slopDetected.length > 0 && (
+                    <span className="text-xs text-destructive">
+                      Slop: {revision.quality.slopDetected.join(", ")}
+                    </span>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+          {pending && (
+            <>
+              <p className="ml-auto w-fit max-w-[85%] rounded-lg bg-primary text-primary-foreground px-3 py-1.5">
+                {pending}
+              </p>
+              <p className="w-fit rounded-lg bg-muted px-3 py-1.5 text-muted-foreground flex items-center">
+                <RefreshCw className="w-3 h-3 mr-2 animate-spin" />
+                Revising...
+              </p>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Quick instructions */}
+      <div className="flex flex-wrap gap-2">
+        {SUGGESTIONS.map((suggestion) => (
+          <Button
+            key={suggestion}
+            variant="outline"
+            size="sm"
+            disabled={disabled || pending !== null}
+            onClick={() => handleSend(suggestion)}
+          >
+            {suggestion}
+          </Button>
+        ))}
+      </div>
+
+      {/* Input */}
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSend(instruction);
+        }}
+      >
+        <Input
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          placeholder='e.g. "cut the last paragraph"'
+          maxLength={500}
+          disabled={disabled || pending !== null}
+        />
+        <Button type="submit" size="sm" disabled={disabled || pending !== null || !instruction.trim()}>
+          <Send className="w-4 h-4" />
+        </Button>
+      </form>
+    </div>
+  );
+}
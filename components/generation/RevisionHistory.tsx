@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { GeneratedPost, PostRevision } from "@/lib/types";
+import { restoreRevision } from "@/lib/pipeline/revisions";
+import { formatRelativeTime } from "@/lib/utils/date";
+import { toast } from "@/hooks/use-toast";
+import { ChevronLeft, ChevronRight, RotateCcw } from "lucide-react";
+
+interface RevisionHistoryProps {
+  post: GeneratedPost;
+  // Receives the updates for the restored revision
+  onRestore: (updates: Partial<GeneratedPost>) => void;
+  disabled?: boolean;
+}
+
+/**
+ * One-line description of where a revision came from
+ */
+export function describeRevision(revision: PostRevision, revisions: PostRevision[]): string {
+  switch (revision.source) {
+    case "generated":
+      return "Original generation";
+    case "regenerated":
+      return `Re-ran from ${revision.fromStage} stage`;
+    case "hook-swap":
+      return "Swapped hook";
+    case "chat":
+      return `"${revision.instruction}"`;
+    case "restored": {
+      const index = revisions.findIndex(r => r.id === revision.restoredFrom);
+      return index >= 0 ? `Restored version ${index + 1}` : "Restored earlier version";
+    }
+  }
+}
+
+/**
+ * Step back through every saved version of the post and restore one
+ */
+export function RevisionHistory({ post, onRestore, disabled }: RevisionHistoryProps) {
+  const revisions = post.revisions || [];
+  const latest = revisions.length - 1;
+  const [viewIndex, setViewIndex] = useState(latest);
+
+  if (revisions.length < 2) {
+    return <p className="text-muted-foreground">No earlier versions yet.</p>;
+  }
+
+  // New revisions arrive while viewing: stay within range
+  const index = Math.min(viewIndex, latest);
+  const revision = revisions[index];
+
+  const handleRestore = () => {
+    onRestore(restoreRevision(post, revision.id));
+    setViewIndex(latest + 1);
+    toast({
+      title: "Version restored",
+      description: `Version ${index + 1} is now the current post`,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={index === 0}
+          onClick={() => setViewIndex(index - 1)}
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <div className="text-center">
+          <p className="font-medium">
+            Version {index + 1} of {revisions.length}
+            {index === latest && <span className="text-muted-foreground"> (current)</span>}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {describeRevision(revision, revisions)} · {formatRelativeTime(revision.createdAt)}
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={index === latest}
+          onClick={() => setViewIndex(index + 1)}
+        >
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="p-3 bg-muted/50 rounded-lg whitespace-pre-wrap text-muted-foreground max-h-60 overflow-y-auto">
+        {revision.outputs.linkedin.post}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Badge variant="outline">Score: {revision.quality.score}/100</Badge>
+        {index !== latest && (
+          <Button size="sm" variant="outline" onClick={handleRestore} disabled={disabled}>
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Restore this version
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import { motion, AnimatePresence } from "framer-motion";
+import { Badge } from "@/components/ui/badge";
+import type { PipelineArtifact } from "@/lib/pipeline/multi-stage";
+
+interface StageArtifactsProps {
+  artifacts: PipelineArtifact[];
+}
+
+const ARTIFACT_TITLES: Record<PipelineArtifact["type"], string> = {
+  initialVersions: "Initial Versions",
+  selectedVersion: "Selected Version",
+  refinedVersion: "Refined Draft",
+  hooks: "Hook Options",
+  personalityVersion: "With Your Voice",
+  finalVersion: "Final Check",
+};
+
+function ArtifactBody({ artifact }: { artifact: PipelineArtifact }) {
+  switch (artifact.type) {
+    case "initialVersions":
+      return (
+        <div className="space-y-2">
+          {artifact.versions.map((version, i) => (
+            <p key={i} className="text-muted-foreground line-clamp-2">
+              <span className="font-medium text-foreground">V{i + 1}:</span> {version}
+            </p>
+          ))}
+        </div>
+      );
+    case "selectedVersion":
+      return <p className="text-muted-foreground italic">{artifact.reasoning}</p>;
+    case "refinedVersion":
+    case "personalityVersion":
+      return (
+        <p className="whitespace-pre-wrap text-muted-foreground line-clamp-6">
+          {artifact.content}
+        </p>
+      );
+    case "hooks":
+      return (
+        <ul className="space-y-1">
+          {artifact.hooks.map((hook, i) => (
+            <li
+              key={i}
+              className={hook === artifact.selectedHook ? "font-medium" : "text-muted-foreground"}
+            >
+              {hook === artifact.selectedHook ? "★ " : "• "}
+              {hook}
+            </li>
+          ))}
+        </ul>
+      );
+    case "finalVersion":
+      return (
+        <Badge variant={artifact.score >= artifact.passScore ? "green" : "destructive"}>
+          Score: {artifact.score}/100
+        </Badge>
+      );
+  }
+}
+
+/**
+ * Live view of intermediate pipeline outputs as they stream in
+ */
+export function StageArtifacts({ artifacts }: StageArtifactsProps) {
+  if (artifacts.length === 0) return null;
+
+  return (
+    <div className="space-y-3 px-8 pb-8">
+      <AnimatePresence initial={false}>
+        {artifacts.map((artifact, i) => (
+          <motion.div
+            key={`${artifact.type}-${i}`}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="p-3 bg-muted/50 rounded-lg text-sm"
+          >
+            <p className="font-medium mb-2">{ARTIFACT_TITLES[artifact.type]}</p>
+            <ArtifactBody artifact={artifact} />
+          </motion.div>
+        ))}
+      </AnimatePresence>
+    </div>
+  );
+}
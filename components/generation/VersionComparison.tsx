@@ -0,0 +1,129 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { GeneratedPost } from "@/lib/types";
+import {
+  applyRegeneration,
+  getVersionSelection,
+  requestRegeneration,
+} from "@/lib/pipeline/revisions";
+import { toast } from "@/hooks/use-toast";
+import { PlayCircle, RefreshCw } from "lucide-react";
+
+interface VersionComparisonProps {
+  post: GeneratedPost;
+  // Receives the updates for the new revision (content + revision history)
+  onContinue: (updates: Partial<GeneratedPost>) => void;
+  disabled?: boolean;
+}
+
+// Stage 2 rubric maximums
+const SCORE_PARTS = [
+  { key: "specificity", label: "Specificity", max: 30 },
+  { key: "voice", label: "Voice", max: 25 },
+  { key: "hook", label: "Hook", max: 25 },
+  { key: "noSlop", label: "No slop", max: 20 },
+] as const;
+
+/**
+ * All stage 1 versions side by side with their stage 2 scores.
+ * Any version can be promoted: stages 3-6 re-run on it.
+ */
+export function VersionComparison({ post, onContinue, disabled }: VersionComparisonProps) {
+  const [runningVersion, setRunningVersion] = useState<number | null>(null);
+
+  const { currentVersion, modelVersion } = getVersionSelection(post.pipeline);
+  const override = post.pipeline.selectionOverride;
+
+  const handleContinue = async (version: number) => {
+    setRunningVersion(version);
+
+    try {
+      const regenerated = await requestRegeneration(post, "refined", version);
+      onContinue(applyRegeneration(post, regenerated, "refined"));
+
+      toast({
+        title: `Continued from version ${version}`,
+        description: `Score: ${regenerated.quality.score}/100`,
+      });
+    } catch (error) {
+      toast({
+        title: "Regeneration failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setRunningVersion(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {post.pipeline.selectionReasoning && (
+        <p className="text-muted-foreground italic">
+          {modelVersion ? `Why the model picked version ${modelVersion}: ` : ""}
+          {post.pipeline.selectionReasoning}
+        </p>
+      )}
+      {override && (
+        <p className="text-muted-foreground">
+          You chose version {override.version} over the model&apos;s pick
+          {override.modelVersion ? ` (version ${override.modelVersion})` : ""}.
+        </p>
+      )}
+
+      {post.pipeline.initialVersions.map((version, i) => {
+        const number = i + 1;
+        const scores = post.pipeline.versionScores?.find(s => s.version === number);
+        const isCurrent = number === currentVersion;
+
+        return (
+          <div
+            key={i}
+            className={`p-3 rounded-lg border ${isCurrent ? "border-primary bg-primary/5" : "bg-muted/30"}`}
+          >
+            <div className="flex items-center justify-between gap-2 mb-2">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">Version {number}</span>
+                {number === modelVersion && <Badge variant="outline">AI pick</Badge>}
+                {isCurrent && override && <Badge variant="secondary">Your pick</Badge>}
+              </div>
+              {scores && <Badge variant="outline">{scores.total}/100</Badge>}
+            </div>
+
+            {scores && (
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground mb-2">
+                {SCORE_PARTS.map(({ key, label, max }) => (
+                  <span key={key}>
+                    {label}: {scores[key]}/{max}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            <p className="whitespace-pre-wrap text-muted-foreground line-clamp-6">{version}</p>
+
+            {!isCurrent && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-2"
+                disabled={disabled || runningVersion !== null}
+                onClick={() => handleContinue(number)}
+              >
+                {runningVersion === number ? (
+                  <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <PlayCircle className="w-4 h-4 mr-2" />
+                )}
+                {runningVersion === number ? "Regenerating..." : "Continue from this version"}
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ImportedPost } from "@/lib/types";
+import { importArchive, suggestReferencePosts } from "@/lib/voice/archive-import";
+import { toast } from "@/hooks/use-toast";
+import { Upload, Loader2, Check } from "lucide-react";
+
+const MAX_REFERENCE_POSTS = 3;
+const CANDIDATE_COUNT = 8;
+
+interface ArchiveImportProps {
+  // Every post in the export, deduped and newest first
+  onImported: (posts: ImportedPost[]) => void;
+  // The posts picked as reference posts (at most 3)
+  onChooseReferencePosts: (posts: ImportedPost[]) => void;
+}
+
+/**
+ * Upload a LinkedIn data export or X archive and pick reference posts from it.
+ * The whole export is kept as the profile's post history.
+ */
+export function ArchiveImport({ onImported, onChooseReferencePosts }: ArchiveImportProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [postCount, setPostCount] = useState(0);
+  const [candidates, setCandidates] = useState<ImportedPost[]>([]);
+  const [selected, setSelected] = useState<number[]>([]);
+
+  const handleFile = async (file: File) => {
+    setIsReading(true);
+    try {
+      const posts = await importArchive(file.name, new Uint8Array(await file.arrayBuffer()));
+      const suggestions = suggestReferencePosts(posts, CANDIDATE_COUNT);
+
+      setFileName(file.name);
+      setPostCount(posts.length);
+      setCandidates(suggestions);
+      setSelected(suggestions.slice(0, MAX_REFERENCE_POSTS).map((_, i) => i));
+      onImported(posts);
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Could not read this file",
+        variant: "destructive",
+      });
+    } finally {
+      setIsReading(false);
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  const toggle = (index: number) => {
+    setSelected(prev => {
+      if (prev.includes(index)) return prev.filter(i => i !== index);
+      if (prev.length >= MAX_REFERENCE_POSTS) return prev;
+      return [...prev, index];
+    });
+  };
+
+  const handleUseSelected = () => {
+    onChooseReferencePosts(selected.map(i => candidates[i]));
+    toast({
+      title: "Reference posts added",
+      description: `${selected.length} imported post${selected.length === 1 ? "" : "s"} filled in below`,
+    });
+  };
+
+  return (
+    <div className="space-y-3 p-4 border border-dashed rounded-lg">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="font-medium text-sm">Import from LinkedIn or X</p>
+          <p className="text-xs text-muted-foreground">
+            Upload your LinkedIn data export (ZIP or Shares.csv) or X archive (ZIP or data/tweets.js).
+            All posts are saved as your post history.
+          </p>
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".zip,.csv,.js"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+          }}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={isReading}
+          onClick={() => inputRef.current?.click()}
+        >
+          {isReading ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Upload className="w-4 h-4 mr-2" />
+          )}
+          {isReading ? "Reading..." : "Upload export"}
+        </Button>
+      </div>
+
+      {candidates.length > 0 && (
+        <>
+          <div className="flex items-center gap-2 text-sm">
+            <Badge variant="secondary">{postCount} posts</Badge>
+            <span className="text-muted-foreground truncate">from {fileName}</span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Pick up to {MAX_REFERENCE_POSTS} reference posts. Suggestions come first.
+          </p>
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {candidates.map((post, index) => {
+              const isSelected = selected.includes(index);
+              return (
+                <button
+                  key={index}
+                  type="button"
+                  onClick={() => toggle(index)}
+                  className={`w-full text-left p-3 border rounded-md text-sm transition-colors ${
+                    isSelected ? "border-primary bg-primary/5" : "hover:bg-muted/50"
+                  }`}
+                >
+                  <div className="flex items-start gap-2">
+                    <span
+                      className={`mt-0.5 flex h-4 w-4 shrink-0 items-center justify-center rounded border ${
+                        isSelected ? "bg-primary border-primary text-primary-foreground" : ""
+                      }`}
+                    >
+                      {isSelected && <Check className="w-3 h-3" />}
+                    </span>
+                    <div className="min-w-0">
+                      <p className="line-clamp-3 whitespace-pre-line">{post.content}</p>
+                      {(post.publishedAt || post.engagement) ? (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {post.publishedAt && new Date(post.publishedAt).toLocaleDateString()}
+                          {post.publishedAt && post.engagement ? " · " : ""}
+                          {post.engagement ? `${post.engagement} engagements` : ""}
+                        </p>
+                      ) : null}
+                    </div>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+          <Button
+            type="button"
+            size="sm"
+            disabled={selected.length === 0}
+            onClick={handleUseSelected}
+          >
+            Use {selected.length} selected as reference posts
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
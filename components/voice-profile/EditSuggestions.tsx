@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { VoiceProfile } from "@/lib/types";
+import { useVoiceProfiles } from "@/lib/context/VoiceProfileContext";
+import { usePosts } from "@/lib/context/PostContext";
+import { EditRuleProposal, applyEditProposals, proposeRulesFromEdits } from "@/lib/voice/edit-learning";
+import { toast } from "@/hooks/use-toast";
+import { Check, X } from "lucide-react";
+
+const KIND_LABELS: Record<EditRuleProposal["kind"], string> = {
+  forbiddenWord: "Forbidden word",
+  signaturePhrase: "Signature phrase",
+  avgSentenceLength: "Sentence length",
+};
+
+function proposalKey(proposal: EditRuleProposal): string {
+  return `${proposal.kind}:${proposal.value}`;
+}
+
+function describeProposal(proposal: EditRuleProposal): string {
+  return proposal.kind === "avgSentenceLength"
+    ? `Aim for ${proposal.value} words per sentence`
+    : proposal.value;
+}
+
+interface EditSuggestionsProps {
+  profile: VoiceProfile;
+}
+
+/**
+ * Rule changes learned from the user's manual edits to this profile's posts
+ */
+export function EditSuggestions({ profile }: EditSuggestionsProps) {
+  const { updateProfile } = useVoiceProfiles();
+  const { getPostsByProfile } = usePosts();
+  const [dismissed, setDismissed] = useState<string[]>([]);
+
+  const edits = getPostsByProfile(profile.id).flatMap(p => p.manualEdits ?? []);
+  const proposals = proposeRulesFromEdits(profile, edits)
+    .filter(p => !dismissed.includes(proposalKey(p)));
+
+  const accept = async (accepted: EditRuleProposal[]) => {
+    await updateProfile(profile.id, { rules: applyEditProposals(profile.rules, accepted) });
+    toast({
+      title: "Voice rules updated",
+      description: `${accepted.length} suggestion${accepted.length === 1 ? "" : "s"} added to ${profile.name}`,
+    });
+  };
+
+  const dismiss = (proposal: EditRuleProposal) => {
+    setDismissed(prev => [...prev, proposalKey(proposal)]);
+  };
+
+  if (edits.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Edit a generated post by hand and the changes you keep making will show up here as rule suggestions.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Based on {edits.length} manual edit{edits.length === 1 ? "" : "s"}.
+      </p>
+
+      {proposals.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No repeated patterns yet.</p>
+      ) : (
+        <>
+          <div className="space-y-2">
+            {proposals.map(proposal => (
+              <div
+                key={proposalKey(proposal)}
+                className="flex items-center justify-between gap-4 p-3 border rounded-md text-sm"
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{KIND_LABELS[proposal.kind]}</Badge>
+                    <span className="font-medium truncate">{describeProposal(proposal)}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">{proposal.evidence}</p>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Button type="button" size="sm" variant="outline" onClick={() => accept([proposal])}>
+                    <Check className="w-4 h-4 mr-1" />
+                    Accept
+                  </Button>
+                  <Button type="button" size="sm" variant="ghost" onClick={() => dismiss(proposal)}>
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+          {proposals.length > 1 && (
+            <Button type="button" size="sm" onClick={() => accept(proposals)}>
+              Accept all {proposals.length}
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
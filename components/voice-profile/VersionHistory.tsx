@@ -0,0 +1,193 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { VoiceProfile, VoiceProfileVersion } from "@/lib/types";
+import { useVoiceProfiles } from "@/lib/context/VoiceProfileContext";
+import { usePosts } from "@/lib/context/PostContext";
+import { diffProfileVersions } from "@/lib/voice/profile-versions";
+import { toast } from "@/hooks/use-toast";
+import { History, Loader2, RotateCcw } from "lucide-react";
+
+interface VersionHistoryProps {
+  profile: VoiceProfile;
+}
+
+/**
+ * Saved versions of a voice profile: what changed between any two, how many
+ * posts each produced, and rollback to an earlier one.
+ */
+export function VersionHistory({ profile }: VersionHistoryProps) {
+  const { getProfileVersions, restoreProfileVersion } = useVoiceProfiles();
+  const { getPostsByProfile } = usePosts();
+  const [versions, setVersions] = useState<VoiceProfileVersion[]>([]);
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  const currentVersion = profile.version ?? 1;
+
+  // Reloads after every save or rollback
+  useEffect(() => {
+    let cancelled = false;
+    getProfileVersions(profile.id).then(loaded => {
+      if (cancelled) return;
+      setVersions(loaded);
+      // Default to what the latest save changed
+      const latest = loaded[loaded.length - 1];
+      const previous = loaded[loaded.length - 2] ?? latest;
+      setFromVersion(previous?.version ?? null);
+      setToVersion(latest?.version ?? null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [profile.id, currentVersion, getProfileVersions]);
+
+  const postCounts = new Map<number, number>();
+  for (const post of getPostsByProfile(profile.id)) {
+    const version = post.voiceProfileVersion ?? 1;
+    postCounts.set(version, (postCounts.get(version) ?? 0) + 1);
+  }
+
+  const from = versions.find(v => v.version === fromVersion);
+  const to = versions.find(v => v.version === toVersion);
+  const changes = from && to ? diffProfileVersions(from.snapshot, to.snapshot) : [];
+
+  const handleRestore = async (version: number) => {
+    setRestoring(version);
+    try {
+      await restoreProfileVersion(profile.id, version);
+      toast({
+        title: "Profile rolled back",
+        description: `Restored version ${version} as version ${currentVersion + 1}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Rollback failed",
+        description: error instanceof Error ? error.message : "Could not restore this version",
+        variant: "destructive",
+      });
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  if (versions.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {[...versions].reverse().map(version => {
+          const postCount = postCounts.get(version.version) ?? 0;
+          const isCurrent = version.version === currentVersion;
+          return (
+            <div
+              key={version.id}
+              className="flex items-center justify-between gap-4 p-3 border rounded-md text-sm"
+            >
+              <div className="flex items-center gap-2 flex-wrap">
+                <History className="w-4 h-4 text-muted-foreground" />
+                <span className="font-medium">v{version.version}</span>
+                {isCurrent && <Badge variant="secondary">Current</Badge>}
+                <span className="text-muted-foreground">
+                  {new Date(version.createdAt).toLocaleString()}
+                </span>
+                {version.restoredFrom !== undefined && (
+                  <span className="text-xs text-muted-foreground">restored from v{version.restoredFrom}</span>
+                )}
+                <span className="text-xs text-muted-foreground">
+                  · {postCount} post{postCount === 1 ? "" : "s"}
+                </span>
+              </div>
+              {!isCurrent && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={restoring !== null}
+                  onClick={() => handleRestore(version.version)}
+                >
+                  {restoring === version.version ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                  )}
+                  Roll back to v{version.version}
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {versions.length > 1 && (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Compare</span>
+            <Select
+              value={fromVersion !== null ? String(fromVersion) : undefined}
+              onValueChange={value => setFromVersion(Number(value))}
+            >
+              <SelectTrigger className="w-[100px]">
+                <SelectValue placeholder="From" />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map(v => (
+                  <SelectItem key={v.id} value={String(v.version)}>v{v.version}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-muted-foreground">with</span>
+            <Select
+              value={toVersion !== null ? String(toVersion) : undefined}
+              onValueChange={value => setToVersion(Number(value))}
+            >
+              <SelectTrigger className="w-[100px]">
+                <SelectValue placeholder="To" />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map(v => (
+                  <SelectItem key={v.id} value={String(v.version)}>v{v.version}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {changes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No differences</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {changes.map((change, index) => (
+                <li key={index} className="flex gap-2">
+                  <span className="text-muted-foreground shrink-0">{change.field}:</span>
+                  {change.kind === "added" && (
+                    <span className="text-green-600">+ {change.after}</span>
+                  )}
+                  {change.kind === "removed" && (
+                    <span className="text-red-600 line-through">− {change.before}</span>
+                  )}
+                  {change.kind === "changed" && (
+                    <span>
+                      <span className="text-red-600 line-through">{change.before}</span>
+                      {" → "}
+                      <span className="text-green-600">{change.after}</span>
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { CarouselPage, CarouselTemplate, VoiceProfile } from "@/lib/types";
-import { generate } from "@/lib/gemini";
+import { generate } from "@/lib/llm";
 
 interface CarouselConfig {
   pages: CarouselPage[];
@@ -1,6 +1,6 @@
 import { CarouselTemplate } from "@/lib/types";
 import { CAROUSEL_TEMPLATES } from "@/data/carousel-templates";
-import { generate } from "@/lib/gemini";
+import { generate } from "@/lib/llm";
 
 /**
  * AI-powered carousel template selection based on post content
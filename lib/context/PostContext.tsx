@@ -196,12 +196,17 @@ export function PostProvider({ children }: { children: React.ReactNode }) {
     });
 
     if (isAuthenticated) {
-      // Update in Supabase (only status fields are updatable)
+      // Update in Supabase (status fields and revised content are updatable)
       const { error: updateError } = await updatePostInDb(id, {
         status: updates.status,
         exportedAt: updates.exportedAt,
         scheduledFor: updates.scheduledFor,
         failureReason: updates.failureReason,
+        pipeline: updates.pipeline,
+        quality: updates.quality,
+        outputs: updates.outputs,
+        revisions: updates.revisions,
+        manualEdits: updates.manualEdits,
       });
       
       if (updateError) {
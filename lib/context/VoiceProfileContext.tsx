@@ -1,12 +1,18 @@
 "use client";
 
 import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from "react";
-import { VoiceProfile } from "@/lib/types";
+import { VoiceProfile, HistoricalPost, ImportedPost, VoiceProfileVersion } from "@/lib/types";
 import { 
   loadVoiceProfiles as loadFromLocalStorage, 
   saveVoiceProfiles as saveToLocalStorage, 
   getActiveProfileId, 
   setActiveProfileId,
+  saveHistoricalPosts as saveHistoryToLocalStorage,
+  loadHistoricalPosts as loadHistoryFromLocalStorage,
+  deleteHistoricalPosts as deleteHistoryFromLocalStorage,
+  saveProfileVersion as saveVersionToLocalStorage,
+  loadProfileVersions as loadVersionsFromLocalStorage,
+  deleteProfileVersions as deleteVersionsFromLocalStorage,
   generateId 
 } from "@/lib/utils/storage";
 import {
@@ -14,7 +20,12 @@ import {
   createVoiceProfile as createProfileInDb,
   updateVoiceProfile as updateProfileInDb,
   deleteVoiceProfile as deleteProfileFromDb,
+  fetchHistoricalPosts,
+  createHistoricalPosts,
+  fetchVoiceProfileVersions,
+  createVoiceProfileVersion,
 } from "@/lib/supabase/database";
+import { createProfileVersion, hasVersionedChanges } from "@/lib/voice/profile-versions";
 
 /**
  * Extended context type with loading and error states
@@ -30,6 +41,10 @@ export interface VoiceProfileContextType {
   updateProfile: (id: string, updates: Partial<VoiceProfile>) => Promise<void>;
   deleteProfile: (id: string) => Promise<void>;
   refreshProfiles: () => Promise<void>;
+  importHistoricalPosts: (profileId: string, posts: ImportedPost[]) => Promise<number>;
+  getHistoricalPosts: (profileId: string) => Promise<HistoricalPost[]>;
+  getProfileVersions: (profileId: string) => Promise<VoiceProfileVersion[]>;
+  restoreProfileVersion: (profileId: string, version: number) => Promise<void>;
 }
 
 const VoiceProfileContext = createContext<VoiceProfileContextType | null>(null);
@@ -187,6 +202,27 @@ export function VoiceProfileProvider({ children }: { children: React.ReactNode }
     setActiveProfileId(profile?.id || null);
   }, []);
 
+  /**
+   * Save a profile version to Supabase or localStorage
+   */
+  const saveVersion = useCallback(async (version: VoiceProfileVersion) => {
+    if (isAuthenticated) {
+      const { error: versionError } = await createVoiceProfileVersion(version);
+      if (versionError) {
+        console.error("[VoiceProfile] Save version error:", versionError);
+        setError("Failed to save profile history");
+      }
+      return;
+    }
+
+    try {
+      saveVersionToLocalStorage(version);
+    } catch (err) {
+      console.error("[VoiceProfile] Save version error:", err);
+      setError("Failed to save profile history");
+    }
+  }, [isAuthenticated]);
+
   /**
    * Create a new voice profile
    */
@@ -197,7 +233,7 @@ export function VoiceProfileProvider({ children }: { children: React.ReactNode }
 
     if (isAuthenticated) {
       // Create in Supabase
-      const { data, error: createError } = await createProfileInDb(profileData);
+      const { data, error: createError } = await createProfileInDb({ ...profileData, version: 1 });
       
       if (createError || !data) {
         console.error("[VoiceProfile] Create error:", createError);
@@ -210,6 +246,7 @@ export function VoiceProfileProvider({ children }: { children: React.ReactNode }
         saveToLocalStorage(updated);
         return updated;
       });
+      await saveVersion(createProfileVersion(data));
       return data;
     } else {
       // Create locally
@@ -219,6 +256,7 @@ export function VoiceProfileProvider({ children }: { children: React.ReactNode }
         id: generateId(),
         createdAt: now,
         updatedAt: now,
+        version: 1,
       };
       
       setProfiles(prev => {
@@ -226,24 +264,37 @@ export function VoiceProfileProvider({ children }: { children: React.ReactNode }
         saveToLocalStorage(updated);
         return updated;
       });
+      await saveVersion(createProfileVersion(newProfile));
       return newProfile;
     }
-  }, [isAuthenticated]);
+  }, [isAuthenticated, saveVersion]);
 
   /**
-   * Update a voice profile
+   * Apply updates to a profile. Changes to its name, rules, reference posts
+   * or brand colors bump the version and save it.
    */
-  const updateProfile = useCallback(async (id: string, updates: Partial<VoiceProfile>) => {
+  const applyProfileUpdate = useCallback(async (
+    id: string,
+    updates: Partial<VoiceProfile>,
+    restoredFrom?: number
+  ) => {
     setError(null);
 
+    const current = profiles.find(p => p.id === id);
+    const versioned = current !== undefined && hasVersionedChanges(current, updates);
+    const changes = versioned
+      ? { ...updates, version: (current.version ?? 1) + 1 }
+      : updates;
+    const updatedAt = new Date().toISOString();
+
     // Optimistic update
     setProfiles(prev => {
       const updated = prev.map(p => {
         if (p.id === id) {
           const updatedProfile = {
             ...p,
-            ...updates,
-            updatedAt: new Date().toISOString(),
+            ...changes,
+            updatedAt,
           };
           // Update active profile if it's the one being updated
           if (activeProfile?.id === id) {
@@ -259,14 +310,41 @@ export function VoiceProfileProvider({ children }: { children: React.ReactNode }
 
     if (isAuthenticated) {
       // Update in Supabase
-      const { error: updateError } = await updateProfileInDb(id, updates);
+      const { error: updateError } = await updateProfileInDb(id, changes);
       
       if (updateError) {
         console.error("[VoiceProfile] Update error:", updateError);
-        setError("Failed to save changes. Will retry.");
+        setError("Failed to save changes.");
+        // Roll back the optimistic update, so the version shown stays one that was saved
+        if (current) {
+          setProfiles(prev => {
+            const reverted = prev.map(p => (p.id === id ? current : p));
+            saveToLocalStorage(reverted);
+            return reverted;
+          });
+          if (activeProfile?.id === id) {
+            setActiveProfileState(current);
+          }
+        }
+        return;
+      }
+    }
+
+    if (versioned) {
+      // Profiles saved before versioning get their original state as version 1
+      if (!isAuthenticated && loadVersionsFromLocalStorage(id).length === 0) {
+        await saveVersion(createProfileVersion(current));
       }
+      await saveVersion(createProfileVersion({ ...current, ...changes, updatedAt }, restoredFrom));
     }
-  }, [isAuthenticated, activeProfile]);
+  }, [isAuthenticated, activeProfile, profiles, saveVersion]);
+
+  /**
+   * Update a voice profile
+   */
+  const updateProfile = useCallback(async (id: string, updates: Partial<VoiceProfile>) => {
+    await applyProfileUpdate(id, updates);
+  }, [applyProfileUpdate]);
 
   /**
    * Delete a voice profile
@@ -280,6 +358,8 @@ export function VoiceProfileProvider({ children }: { children: React.ReactNode }
       saveToLocalStorage(updated);
       return updated;
     });
+    deleteHistoryFromLocalStorage(id);
+    deleteVersionsFromLocalStorage(id);
     
     if (activeProfile?.id === id) {
       setActiveProfile(null);
@@ -303,6 +383,87 @@ export function VoiceProfileProvider({ children }: { children: React.ReactNode }
     await loadProfiles();
   }, [loadProfiles]);
 
+  /**
+   * Store posts from a platform export as a profile's post history.
+   * Returns how many were new.
+   */
+  const importHistoricalPosts = useCallback(async (
+    profileId: string,
+    posts: ImportedPost[]
+  ): Promise<number> => {
+    setError(null);
+
+    if (isAuthenticated) {
+      const { data, error: importError } = await createHistoricalPosts(profileId, posts);
+
+      if (importError) {
+        console.error("[VoiceProfile] Import history error:", importError);
+        setError("Failed to save imported posts");
+        return 0;
+      }
+      return data;
+    }
+
+    try {
+      return saveHistoryToLocalStorage(profileId, posts);
+    } catch (err) {
+      console.error("[VoiceProfile] Import history error:", err);
+      setError("Failed to save imported posts");
+      return 0;
+    }
+  }, [isAuthenticated]);
+
+  /**
+   * A profile's imported post history, newest first
+   */
+  const getHistoricalPosts = useCallback(async (profileId: string): Promise<HistoricalPost[]> => {
+    if (isAuthenticated) {
+      const { data, error: fetchError } = await fetchHistoricalPosts(profileId);
+      if (fetchError) {
+        console.error("[VoiceProfile] Fetch history error:", fetchError);
+      }
+      return data;
+    }
+    return loadHistoryFromLocalStorage(profileId);
+  }, [isAuthenticated]);
+
+  /**
+   * Every saved version of a profile, oldest first. A profile with no saved
+   * history has its current state as the only version.
+   */
+  const getProfileVersions = useCallback(async (profileId: string): Promise<VoiceProfileVersion[]> => {
+    let versions: VoiceProfileVersion[];
+    if (isAuthenticated) {
+      const { data, error: fetchError } = await fetchVoiceProfileVersions(profileId);
+      if (fetchError) {
+        console.error("[VoiceProfile] Fetch versions error:", fetchError);
+      }
+      versions = data;
+    } else {
+      versions = loadVersionsFromLocalStorage(profileId);
+    }
+
+    const profile = profiles.find(p => p.id === profileId);
+    if (versions.length === 0 && profile) {
+      return [createProfileVersion(profile)];
+    }
+    return versions;
+  }, [isAuthenticated, profiles]);
+
+  /**
+   * Roll a profile back to an earlier version. The rollback is saved as a
+   * new version, so the versions after it stay in the history.
+   */
+  const restoreProfileVersion = useCallback(async (profileId: string, version: number) => {
+    const versions = await getProfileVersions(profileId);
+    const target = versions.find(v => v.version === version);
+    if (!target) {
+      throw new Error(`Version ${version} not found`);
+    }
+
+    await applyProfileUpdate(profileId, target.snapshot, version);
+  }, [getProfileVersions, applyProfileUpdate]);
+
   return (
     <VoiceProfileContext.Provider
       value={{
@@ -316,6 +477,10 @@ export function VoiceProfileProvider({ children }: { children: React.ReactNode }
         updateProfile,
         deleteProfile,
         refreshProfiles,
+        importHistoricalPosts,
+        getHistoricalPosts,
+        getProfileVersions,
+        restoreProfileVersion,
       }}
     >
       {children}
@@ -0,0 +1,70 @@
+/**
+ * Character-range annotations from a quality report, for highlighting
+ * issues in the post and applying their quick fixes.
+ */
+
+import { QualityAnnotation, QualityReport, QuickFix } from "@/lib/types";
+
+export interface GateAnnotation extends QualityAnnotation {
+  gateId: string;
+  gateName: string;
+  // Whether the gate that raised it passed (a passing gate can still point at things)
+  gatePassed: boolean;
+}
+
+export interface AnnotatedSegment {
+  start: number;
+  text: string;
+  // Annotations covering the whole segment
+  annotations: GateAnnotation[];
+}
+
+/**
+ * Every gate's annotations in text order, clamped to the post
+ */
+export function collectAnnotations(report: QualityReport, post: string): GateAnnotation[] {
+  const annotations: GateAnnotation[] = [];
+  for (const [gateId, gate] of Object.entries(report.gates)) {
+    for (const annotation of gate.annotations ?? []) {
+      const start = Math.max(0, Math.min(annotation.start, post.length));
+      const end = Math.max(start, Math.min(annotation.end, post.length));
+      if (end === start) continue;
+      annotations.push({ ...annotation, start, end, gateId, gateName: gate.name, gatePassed: gate.passed });
+    }
+  }
+  return annotations.sort((a, b) => a.start - b.start || b.end - a.end);
+}
+
+/**
+ * Split the post at every annotation boundary, so overlapping annotations
+ * can be highlighted together
+ */
+export function segmentByAnnotations(post: string, annotations: GateAnnotation[]): AnnotatedSegment[] {
+  const bounds = new Set([0, post.length]);
+  for (const annotation of annotations) {
+    bounds.add(annotation.start);
+    bounds.add(annotation.end);
+  }
+  const sorted = Array.from(bounds).sort((a, b) => a - b);
+
+  const segments: AnnotatedSegment[] = [];
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const start = sorted[i];
+    const end = sorted[i + 1];
+    segments.push({
+      start,
+      text: post.slice(start, end),
+      annotations: annotations.filter(a => a.start <= start && end <= a.end),
+    });
+  }
+  return segments;
+}
+
+/**
+ * Apply a quick fix, or return null when the text it expects has changed
+ * since the post was scored
+ */
+export function applyQuickFix(post: string, fix: QuickFix): string | null {
+  if (post.slice(fix.start, fix.end) !== fix.before) return null;
+  return post.slice(0, fix.start) + fix.replacement + post.slice(fix.end);
+}
@@ -0,0 +1,284 @@
+import { InterviewResponse } from "@/lib/types";
+
+export type FactKind = "number" | "currency" | "percentage" | "duration" | "proper-noun";
+
+export interface ExtractedFact {
+  kind: FactKind;
+  // Text as written in the post
+  text: string;
+  position: number;
+  // Numeric value with multipliers applied (₹15L = 1500000)
+  value?: number;
+  currency?: string;
+  // Durations converted to days, so "2 weeks" matches "14 days"
+  days?: number;
+}
+
+export interface FactConsistencyResult {
+  facts: ExtractedFact[];
+  unsupported: ExtractedFact[];
+}
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  l: 1e5,
+  lakh: 1e5,
+  lakhs: 1e5,
+  lac: 1e5,
+  lacs: 1e5,
+  cr: 1e7,
+  crore: 1e7,
+  crores: 1e7,
+  m: 1e6,
+  mn: 1e6,
+  million: 1e6,
+  b: 1e9,
+  bn: 1e9,
+  billion: 1e9,
+};
+
+const DAYS_PER_UNIT: Record<string, number> = {
+  second: 1 / 86400,
+  sec: 1 / 86400,
+  minute: 1 / 1440,
+  min: 1 / 1440,
+  hour: 1 / 24,
+  hr: 1 / 24,
+  day: 1,
+  week: 7,
+  month: 30.44,
+  year: 365.25,
+  yr: 365.25,
+};
+
+// Interview answers often spell small numbers out
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7,
+  eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, fifteen: 15,
+  twenty: 20, thirty: 30, fifty: 50, hundred: 100, dozen: 12,
+};
+
+// Always capitalized, so never evidence of an invented name: acronyms,
+// calendar words and the tools and platforms most posts mention in passing
+const COMMON_CAPITALIZED = new Set([
+  "i", "i'm", "i've", "i'd", "i'll", "ai", "linkedin", "twitter", "x", "ok",
+  "ceo", "cfo", "cto", "roi", "b2b", "b2c", "saas", "kpi", "mvp",
+  "monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday",
+  "mon", "tue", "tues", "wed", "thu", "thurs", "fri", "sat", "sun",
+  "january", "february", "march", "april", "may", "june", "july", "august",
+  "september", "october", "november", "december",
+  "jan", "feb", "mar", "apr", "jun", "jul", "aug", "sep", "sept", "oct", "nov", "dec",
+  "christmas", "diwali", "series", "seed", "ipo", "yc",
+  "google", "slack", "meta", "facebook", "instagram", "youtube", "whatsapp", "tiktok",
+  "reddit", "github", "notion", "zoom", "teams", "excel", "microsoft", "apple",
+  "amazon", "aws", "figma", "canva", "jira", "hubspot", "salesforce", "shopify",
+  "stripe", "gmail", "chatgpt", "openai", "substack", "zapier", "airtable",
+]);
+
+// Quarters, halves and fiscal years ("Q3", "H1", "FY24")
+const PERIOD_PATTERN = /^(?:Q[1-4]|H[12]|FY\d{2,4})$/;
+
+// Bare four-digit numbers in this range read as years, not claims
+const YEAR_PATTERN = /^(?:19|20)\d{2}$/;
+
+const NUMBER_PATTERN = new RegExp(
+  "(?<![\\w.,])([$₹€£])?\\s?(\\d+(?:,\\d{2,3})*(?:\\.\\d+)?)" +
+  "(?:\\s?(%|percent\\b)|\\s?(k|K|L|Cr|cr|M|mn|B|bn)(?!\\w)|\\s(thousand|lakhs?|lacs?|crores?|million|billion)\\b)?" +
+  "(?:[\\s-]?(seconds?|secs?|minutes?|mins?|hours?|hrs?|days?|weeks?|months?|years?|yrs?)\\b)?",
+  "g"
+);
+
+const NUMBER_WORD_PATTERN = new RegExp(
+  `\\b(${Object.keys(NUMBER_WORDS).join("|")})\\b(?:[\\s-](seconds?|minutes?|hours?|days?|weeks?|months?|years?)\\b)?`,
+  "gi"
+);
+
+function toDays(value: number, unit: string): number {
+  const singular = unit.toLowerCase().replace(/s$/, "");
+  return value * (DAYS_PER_UNIT[singular] ?? 1);
+}
+
+function sameValue(a: number, b: number): boolean {
+  return Math.abs(a - b) <= Math.max(Math.abs(a), Math.abs(b)) * 1e-6;
+}
+
+/**
+ * Numbers, currencies, percentages and durations in `text`.
+ * List markers ("1."), bare single-digit counts and years are skipped - they
+ * are structure ("3 lessons") or dates far more often than claims.
+ */
+export function extractNumericFacts(text: string): ExtractedFact[] {
+  const facts: ExtractedFact[] = [];
+
+  for (const match of text.matchAll(NUMBER_PATTERN)) {
+    const [raw, currency, digits, percent, shortMultiplier, longMultiplier, unit] = match;
+    const position = match.index + raw.indexOf(raw.trimStart());
+    const next = text[match.index + raw.length];
+
+    // Part of a word ("3rd") or a list marker at the start of a line
+    if (next && /\w/.test(next)) continue;
+    if (!currency && !percent && !unit && (next === "." || next === ")")) {
+      const lineStart = text.lastIndexOf("\n", position) + 1;
+      if (text.slice(lineStart, position).trim() === "") continue;
+    }
+
+    const multiplier = shortMultiplier || longMultiplier;
+    const value = parseFloat(digits.replace(/,/g, "")) * (multiplier ? MULTIPLIERS[multiplier.toLowerCase()] : 1);
+    const fact: ExtractedFact = { kind: "number", text: raw.trim(), position, value };
+
+    if (currency) {
+      fact.kind = "currency";
+      fact.currency = currency;
+    } else if (percent) {
+      fact.kind = "percentage";
+    } else if (unit) {
+      fact.kind = "duration";
+      fact.days = toDays(value, unit);
+    } else if (!multiplier && value < 10 && !digits.includes(".")) {
+      continue;
+    } else if (!multiplier && YEAR_PATTERN.test(digits)) {
+      continue;
+    }
+
+    facts.push(fact);
+  }
+
+  return facts;
+}
+
+// Drop trailing punctuation and possessives ("Priya's" -> "Priya")
+function normalizeWord(word: string): string {
+  return word.replace(/[.'’-]+$/, "").replace(/['’]s$/, "");
+}
+
+// All-caps words this short are acronyms ("CRM", "SDR", "B2B"), not names
+const ACRONYM_PATTERN = /^[A-Z][A-Z0-9]{1,4}s?$/;
+
+function isCommonCapitalized(word: string): boolean {
+  // Single letters are grades and labels ("Series A", "Plan B")
+  return word.length === 1 || PERIOD_PATTERN.test(word) || ACRONYM_PATTERN.test(word) ||
+    COMMON_CAPITALIZED.has(word.toLowerCase().replace(/’/g, "'"));
+}
+
+/**
+ * Capitalized names that aren't at the start of a sentence, list item or
+ * aside. Consecutive capitalized words ("Priya Sharma") form one fact.
+ */
+export function extractProperNouns(text: string): ExtractedFact[] {
+  const facts: ExtractedFact[] = [];
+  const wordPattern = /[A-Za-z][\w'’&.-]*/g;
+  let current: ExtractedFact | null = null;
+  let sentenceStart = true;
+  // The previous word was a capitalized common word, so a capitalized word
+  // right after it names the same thing ("Google Docs", "Series A")
+  let afterCommon = false;
+  let lastEnd = 0;
+
+  for (const match of text.matchAll(wordPattern)) {
+    const word = normalizeWord(match[0]);
+    const between = text.slice(lastEnd, match.index);
+    lastEnd = match.index + match[0].length;
+
+    if (/[.!?:;"“(•–—\n]/.test(between)) {
+      sentenceStart = true;
+    }
+    // Hashtags and multiplier suffixes ("₹8L") aren't names
+    const attached = /[#\d]/.test(text[match.index - 1] ?? "");
+    const capitalized = /^[A-Z]/.test(word) && !attached;
+    const common = capitalized && isCommonCapitalized(word);
+    const isName = capitalized && !common && !(afterCommon && between.trim() === "");
+
+    if (isName && current && !sentenceStart && between.trim() === "") {
+      current.text += ` ${word}`;
+    } else if (isName && !sentenceStart) {
+      current = { kind: "proper-noun", text: word, position: match.index };
+      facts.push(current);
+    } else {
+      current = null;
+    }
+
+    sentenceStart = /[.!?:]$/.test(match[0]);
+    afterCommon = common || (afterCommon && capitalized && between.trim() === "");
+  }
+
+  return facts;
+}
+
+/**
+ * Every checkable fact in `text`, in order of appearance
+ */
+export function extractFacts(text: string): ExtractedFact[] {
+  return [...extractNumericFacts(text), ...extractProperNouns(text)]
+    .sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Numbers from source text, including spelled-out ones ("two weeks")
+ */
+function extractSourceNumbers(text: string): ExtractedFact[] {
+  const facts = extractNumericFacts(text);
+
+  for (const match of text.matchAll(NUMBER_WORD_PATTERN)) {
+    const value = NUMBER_WORDS[match[1].toLowerCase()];
+    facts.push(match[2]
+      ? { kind: "duration", text: match[0], position: match.index, value, days: toDays(value, match[2]) }
+      : { kind: "number", text: match[0], position: match.index, value });
+  }
+
+  // Single-digit counts are skipped in posts but still count as evidence here
+  for (const match of text.matchAll(/(?<![\w.,])\d(?![\d\w])/g)) {
+    facts.push({ kind: "number", text: match[0], position: match.index, value: Number(match[0]) });
+  }
+
+  return facts;
+}
+
+function isSupported(fact: ExtractedFact, sourceNumbers: ExtractedFact[], sourceWords: Set<string>): boolean {
+  if (fact.kind === "proper-noun") {
+    return fact.text.toLowerCase().split(" ").every(word => sourceWords.has(word));
+  }
+
+  return sourceNumbers.some(source => {
+    if (fact.kind === "duration" && source.days !== undefined && sameValue(fact.days!, source.days)) {
+      return true;
+    }
+    if (source.value === undefined || !sameValue(fact.value!, source.value)) {
+      return false;
+    }
+    if (fact.kind === "percentage") {
+      return source.kind === "percentage";
+    }
+    if (fact.kind === "currency" && source.currency) {
+      return source.currency === fact.currency;
+    }
+    return true;
+  });
+}
+
+/**
+ * Text the post's facts must come from: the interview answers and the
+ * extracted insight
+ */
+export function getFactSources(interview: InterviewResponse): string[] {
+  return [...Object.values(interview.answers), interview.extractedInsight]
+    .filter((text): text is string => !!text);
+}
+
+/**
+ * Match every fact in `post` against `sources`. Facts that don't appear in
+ * any source (directly or as an equivalent value) are unsupported.
+ */
+export function checkFactConsistency(post: string, sources: string[]): FactConsistencyResult {
+  const sourceText = sources.join("\n");
+  const sourceNumbers = extractSourceNumbers(sourceText);
+  const sourceWords = new Set(
+    (sourceText.toLowerCase().match(/[a-z][\w'’&.-]*/g) || []).map(normalizeWord)
+  );
+
+  const facts = extractFacts(post);
+  return {
+    facts,
+    unsupported: facts.filter(fact => !isSupported(fact, sourceNumbers, sourceWords)),
+  };
+}
@@ -1,3 +1,6 @@
+import { InterviewResponse, PhraseOverrides, VoiceProfile } from "@/lib/types";
+import { VOICE_MODES } from "@/data/voice-modes";
+
 // 100+ forbidden AI slop terms organized by category
 
 export const FORBIDDEN_PHRASES = {
@@ -145,9 +148,333 @@ export const FORBIDDEN_PHRASES = {
 // Flatten all phrases into a single array
 export const ALL_FORBIDDEN_PHRASES: string[] = Object.values(FORBIDDEN_PHRASES).flat();
 
+export type PhraseSeverity = "low" | "medium" | "high";
+
+type PhraseCategory = keyof typeof FORBIDDEN_PHRASES;
+
+// How hard each category counts against a post, and whether its words are
+// matched in their -s/-ed/-ing forms too. Openers and bait are fixed
+// phrases: "thought about it" is ordinary past tense.
+const CATEGORY_RULES: Record<PhraseCategory, { severity: PhraseSeverity; inflect: boolean }> = {
+  buzzwords: { severity: "medium", inflect: true },
+  filler: { severity: "medium", inflect: true },
+  genericOpeners: { severity: "medium", inflect: false },
+  engagementBait: { severity: "high", inflect: false },
+  corporateSpeak: { severity: "medium", inflect: true },
+  aiTells: { severity: "high", inflect: false },
+  weakQualifiers: { severity: "low", inflect: false },
+};
+
+const PHRASE_SEVERITY: Record<string, PhraseSeverity> = {
+  "dive deep": "high",
+  "delve into": "high",
+  "in today's world": "high",
+  "interestingly": "medium",
+  "notably": "medium",
+  "importantly": "medium",
+  "significantly": "medium",
+  "consequently": "medium",
+  "subsequently": "medium",
+  "moving forward": "medium",
+  "going forward": "medium",
+};
+
+const PHRASE_REPLACEMENTS: Record<string, string[]> = {
+  "leverage": ["use", "apply", "build on"],
+  "ecosystem": ["community", "network", "market"],
+  "synergy": ["collaboration", "combined effect", "partnership"],
+  "paradigm": ["approach", "model", "way of working"],
+  "innovative": ["new", "(say what's new about it)"],
+  "game-changing": ["(say what it changed)"],
+  "seamless": ["smooth", "(say what got easier)"],
+  "robust": ["solid", "reliable"],
+  "dive deep": ["examine", "look at", "explore"],
+  "delve into": ["examine", "look at", "explore"],
+  "unpack": ["explain", "break down", "look at"],
+  "in today's world": ["(remove entirely)", "now", "today"],
+  "at the end of the day": ["ultimately", "in the end", "(remove entirely)"],
+  "in terms of": ["for", "on", "about"],
+  "circle back": ["follow up", "revisit", "return to"],
+  "touch base": ["connect", "check in", "talk"],
+  "reach out": ["email", "call", "message"],
+  "move the needle": ["make progress", "improve", "change"],
+  "low-hanging fruit": ["easy wins", "quick fixes", "obvious opportunities"],
+  "bandwidth": ["time", "capacity"],
+  "optimize": ["improve", "speed up", "cut"],
+  "moreover": ["also", "and", "(start new sentence)"],
+  "furthermore": ["also", "and", "(start new sentence)"],
+  "additionally": ["also", "and", "(start new sentence)"],
+  "it's worth noting that": ["(remove entirely)", "notably,", "also,"],
+  "in conclusion": ["(remove entirely)", "so,", "finally,"],
+  "to summarize": ["(remove entirely)", "so,"],
+  "in summary": ["(remove entirely)", "so,"],
+  "that being said": ["but", "still"],
+  "with that being said": ["but", "still"],
+};
+
+// Past forms the -ed rule can't produce
+const IRREGULAR_FORMS: Record<string, string[]> = {
+  dive: ["dove"],
+  take: ["took", "taken"],
+  think: ["thought"],
+};
+
+/**
+ * Where a phrase in the merged list came from. Layers apply in this order,
+ * each adding phrases and exempting ones from the layers before it.
+ */
+export type PhraseLayer = "global" | "voiceMode" | "profile" | "post";
+
+export interface ForbiddenPhrase {
+  phrase: string;
+  category: string;
+  layer: PhraseLayer;
+  severity: PhraseSeverity;
+  // Regex source matched instead of the phrase (built-in rules only)
+  pattern?: string;
+  // Also match -s/-ed/-ing forms of the phrase's words
+  inflect?: boolean;
+  replacements?: string[];
+}
+
+export interface PhraseLayers {
+  voiceMode?: PhraseOverrides;
+  profile?: PhraseOverrides;
+  post?: PhraseOverrides;
+}
+
+// Constructions a fixed phrase can't catch
+const PATTERN_RULES: ForbiddenPhrase[] = [
+  {
+    phrase: "not just X, but Y",
+    pattern: "\\bnot (?:just|only|merely) [^.!?\\n]{1,60}?,?\\s+but (?:also )?",
+    category: "aiTells",
+    layer: "global",
+    severity: "high",
+    replacements: ["(say the second part on its own)"],
+  },
+  {
+    phrase: "it's not X, it's Y",
+    pattern: "\\bit['’]?s not [^.!?\\n]{1,50}?[,;:—–-]\\s*it['’]?s ",
+    category: "aiTells",
+    layer: "global",
+    severity: "high",
+    replacements: ["(say what it is)"],
+  },
+  {
+    phrase: "the best part?",
+    pattern: "\\bthe (?:best|worst|crazy|wild|real) part\\?",
+    category: "aiTells",
+    layer: "global",
+    severity: "medium",
+    replacements: ["(just say it)"],
+  },
+];
+
+export const GLOBAL_FORBIDDEN_PHRASES: ForbiddenPhrase[] = [
+  ...(Object.keys(FORBIDDEN_PHRASES) as PhraseCategory[]).flatMap(category =>
+    FORBIDDEN_PHRASES[category].map(phrase => ({
+      phrase,
+      category,
+      layer: "global" as const,
+      severity: PHRASE_SEVERITY[phrase] ?? CATEGORY_RULES[category].severity,
+      inflect: CATEGORY_RULES[category].inflect,
+      ...(PHRASE_REPLACEMENTS[phrase] ? { replacements: PHRASE_REPLACEMENTS[phrase] } : {}),
+    }))
+  ),
+  ...PATTERN_RULES,
+];
+
+const LAYER_ORDER: Exclude<PhraseLayer, "global">[] = ["voiceMode", "profile", "post"];
+
+const REGEX_RULE = /^\/(.+)\/$/;
+
+function normalizePhrase(phrase: string): string {
+  return phrase.trim().toLowerCase();
+}
+
+/**
+ * Why a user-written rule can't be used, or null when it can. Rules are
+ * phrases only: a regex from a profile or post would run against every post
+ * on the server and in the editor, and JavaScript regexes can backtrack for
+ * minutes on a short pattern. Inflected forms are matched without one.
+ */
+export function checkPhraseRule(rule: string): string | null {
+  const phrase = rule.split("->")[0].trim();
+  if (REGEX_RULE.test(phrase)) {
+    return `Regex rules like ${phrase} aren't supported; list the phrase itself (its word forms are matched too)`;
+  }
+  return null;
+}
+
+/**
+ * Parse a user-written rule: a phrase, optionally followed by
+ * "-> replacement, replacement". Returns null for blank rules and for
+ * /regex/ rules, which checkPhraseRule rejects.
+ */
+export function parsePhraseRule(
+  rule: string,
+  layer: Exclude<PhraseLayer, "global">
+): ForbiddenPhrase | null {
+  const [text, ...rest] = rule.split("->");
+  const phrase = text.trim();
+  if (!phrase || checkPhraseRule(phrase)) return null;
+
+  const replacements = rest.join("->").split(",").map(r => r.trim()).filter(Boolean);
+  const entry: ForbiddenPhrase = {
+    phrase,
+    category: layer,
+    layer,
+    // A profile or post asked for this ban explicitly; a voice mode is a default
+    severity: layer === "voiceMode" ? "medium" : "high",
+    inflect: true,
+    ...(replacements.length > 0 ? { replacements } : {}),
+  };
+
+  return compilePhrase(entry) ? entry : null;
+}
+
+/**
+ * Merge the global list with the voice mode, voice profile and per-post
+ * layers. Within a layer the allow-list wins over its own additions.
+ */
+export function buildForbiddenPhraseList(layers: PhraseLayers = {}): ForbiddenPhrase[] {
+  let list = [...GLOBAL_FORBIDDEN_PHRASES];
+
+  for (const layer of LAYER_ORDER) {
+    const overrides = layers[layer];
+    if (!overrides) continue;
+
+    const allowed = new Set((overrides.allowed ?? []).map(normalizePhrase));
+    list = list.filter(entry => !allowed.has(normalizePhrase(entry.phrase)));
+
+    const present = new Set(list.map(entry => normalizePhrase(entry.phrase)));
+    for (const rule of overrides.forbidden ?? []) {
+      const entry = parsePhraseRule(rule, layer);
+      if (!entry) continue;
+      const key = normalizePhrase(entry.phrase);
+      if (allowed.has(key) || present.has(key)) continue;
+      list.push(entry);
+      present.add(key);
+    }
+  }
+
+  return list;
+}
+
+/**
+ * The merged list for a post: its voice mode (from the interview), the
+ * profile's forbidden and allowed phrases, and the interview's overrides
+ */
+export function getForbiddenPhraseList(
+  profile?: Pick<VoiceProfile, "rules">,
+  interview?: Pick<InterviewResponse, "voiceModeId" | "phraseOverrides">
+): ForbiddenPhrase[] {
+  const voiceMode = interview ? VOICE_MODES[interview.voiceModeId] : undefined;
+
+  return buildForbiddenPhraseList({
+    voiceMode: voiceMode ? { forbidden: voiceMode.forbiddenWords } : undefined,
+    profile: profile
+      ? { forbidden: profile.rules.forbiddenWords, allowed: profile.rules.allowedPhrases }
+      : undefined,
+    post: interview?.phraseOverrides,
+  });
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Regular -s/-es/-ed/-ing forms of a word: "leverage" gives "leveraged"
+ * and "leveraging", "synergy" gives "synergies"
+ */
+function wordForms(word: string): string[] {
+  const forms = new Set([word, `${word}s`, `${word}es`, `${word}ed`, `${word}ing`]);
+
+  if (word.endsWith("e")) {
+    const stem = word.slice(0, -1);
+    forms.add(`${word}d`);
+    forms.add(`${stem}ing`);
+  }
+  if (/[^aeiou]y$/.test(word)) {
+    const stem = word.slice(0, -1);
+    forms.add(`${stem}ies`);
+    forms.add(`${stem}ied`);
+  }
+  // ship -> shipped, shipping
+  if (/[^aeiou][aeiou][b-df-hj-np-tvz]$/.test(word)) {
+    const last = word[word.length - 1];
+    forms.add(`${word}${last}ed`);
+    forms.add(`${word}${last}ing`);
+  }
+  for (const form of IRREGULAR_FORMS[word] ?? []) forms.add(form);
+
+  return [...forms];
+}
+
+function literalPattern(word: string): string {
+  // Curly apostrophes count, and hyphenated words may be written with a space
+  return escapeRegex(word).replace(/'/g, "['’]").replace(/-/g, "[-\\s]");
+}
+
+function phrasePattern(phrase: string, inflect: boolean): string {
+  const body = normalizePhrase(phrase)
+    .split(/\s+/)
+    .map(word => {
+      // Short words and ones with punctuation are matched as written
+      if (!inflect || !/^\p{L}{4,}$/u.test(word)) return literalPattern(word);
+      return `(?:${wordForms(word).map(literalPattern).join("|")})`;
+    })
+    .join("\\s+");
+
+  // Whole words only, so "just" doesn't match inside "adjust"
+  const start = /^[\p{L}\p{N}]/u.test(phrase.trim()) ? "(?<![\\p{L}\\p{N}])" : "";
+  const end = /[\p{L}\p{N}]$/u.test(phrase.trim()) ? "(?![\\p{L}\\p{N}])" : "";
+  return `${start}${body}${end}`;
+}
+
+// The global list is fixed, so its regexes are kept for good. Rules from
+// profiles and posts are kept least-recently-used, up to a limit.
+const compiledGlobal = new Map<string, RegExp | null>();
+const compiledRules = new Map<string, RegExp | null>();
+const MAX_COMPILED_RULES = 500;
+
+function compilePhrase(entry: ForbiddenPhrase): RegExp | null {
+  const key = entry.pattern !== undefined
+    ? `pattern:${entry.pattern}`
+    : `phrase:${entry.inflect ? "+" : ""}${normalizePhrase(entry.phrase)}`;
+  const cache = entry.layer === "global" ? compiledGlobal : compiledRules;
+
+  let regex = cache.get(key);
+  if (regex === undefined) {
+    try {
+      regex = entry.pattern !== undefined
+        ? new RegExp(entry.pattern, "gi")
+        : new RegExp(phrasePattern(entry.phrase, entry.inflect ?? false), "giu");
+    } catch {
+      regex = null;
+    }
+  } else if (cache === compiledRules) {
+    // Move to the back, so the least recently used rule is evicted first
+    cache.delete(key);
+  }
+
+  cache.set(key, regex);
+  if (compiledRules.size > MAX_COMPILED_RULES) {
+    compiledRules.delete(compiledRules.keys().next().value!);
+  }
+  return regex;
+}
+
 export interface ForbiddenPhraseMatch {
   phrase: string;
+  // The words as they appear in the text, e.g. "leveraged" for "leverage"
+  text: string;
   category: string;
+  layer: PhraseLayer;
+  severity: PhraseSeverity;
+  replacements: string[];
   position: number;
   context: string;
 }
@@ -155,30 +482,41 @@ export interface ForbiddenPhraseMatch {
 /**
  * Check text for forbidden phrases and return all matches
  */
-export function checkForForbiddenPhrases(text: string): ForbiddenPhraseMatch[] {
+export function checkForForbiddenPhrases(
+  text: string,
+  phrases: ForbiddenPhrase[] = GLOBAL_FORBIDDEN_PHRASES
+): ForbiddenPhraseMatch[] {
   const matches: ForbiddenPhraseMatch[] = [];
-  const lowerText = text.toLowerCase();
   
-  for (const [category, phrases] of Object.entries(FORBIDDEN_PHRASES)) {
-    for (const phrase of phrases) {
-      const lowerPhrase = phrase.toLowerCase();
-      let position = lowerText.indexOf(lowerPhrase);
-      
-      while (position !== -1) {
-        // Get surrounding context (20 chars before and after)
-        const start = Math.max(0, position - 20);
-        const end = Math.min(text.length, position + phrase.length + 20);
-        const context = text.slice(start, end);
-        
-        matches.push({
-          phrase,
-          category,
-          position,
-          context: `...${context}...`,
-        });
-        
-        position = lowerText.indexOf(lowerPhrase, position + 1);
+  for (const entry of phrases) {
+    const regex = compilePhrase(entry);
+    if (!regex) continue;
+    regex.lastIndex = 0;
+
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+      // An empty match would never advance
+      if (match[0].length === 0) {
+        regex.lastIndex++;
+        continue;
       }
+      const position = match.index;
+
+      // Get surrounding context (20 chars before and after)
+      const start = Math.max(0, position - 20);
+      const end = Math.min(text.length, position + match[0].length + 20);
+      const context = text.slice(start, end);
+      
+      matches.push({
+        phrase: entry.phrase,
+        text: match[0],
+        category: entry.category,
+        layer: entry.layer,
+        severity: entry.severity,
+        replacements: entry.replacements ?? [],
+        position,
+        context: `...${context}...`,
+      });
     }
   }
   
@@ -188,48 +526,51 @@ export function checkForForbiddenPhrases(text: string): ForbiddenPhraseMatch[] {
 /**
  * Quick boolean check for any forbidden phrases
  */
-export function hasForbiddenPhrases(text: string): boolean {
-  const lowerText = text.toLowerCase();
-  return ALL_FORBIDDEN_PHRASES.some(phrase => 
-    lowerText.includes(phrase.toLowerCase())
-  );
+export function hasForbiddenPhrases(
+  text: string,
+  phrases: ForbiddenPhrase[] = GLOBAL_FORBIDDEN_PHRASES
+): boolean {
+  return phrases.some(entry => {
+    const regex = compilePhrase(entry);
+    if (!regex) return false;
+    regex.lastIndex = 0;
+    return regex.test(text);
+  });
 }
 
 /**
- * Get suggestions for replacing forbidden phrases
+ * Get suggestions for replacing a forbidden phrase, in any of its forms
  */
 export function getSuggestions(phrase: string): string[] {
-  const suggestions: Record<string, string[]> = {
-    "leverage": ["use", "apply", "build on"],
-    "ecosystem": ["community", "network", "market"],
-    "synergy": ["collaboration", "combined effect", "partnership"],
-    "dive deep": ["examine", "look at", "explore"],
-    "delve into": ["examine", "look at", "explore"],
-    "at the end of the day": ["ultimately", "in the end", "(remove entirely)"],
-    "circle back": ["follow up", "revisit", "return to"],
-    "touch base": ["connect", "check in", "talk"],
-    "move the needle": ["make progress", "improve", "change"],
-    "low-hanging fruit": ["easy wins", "quick fixes", "obvious opportunities"],
-    "moreover": ["also", "and", "(start new sentence)"],
-    "furthermore": ["also", "and", "(start new sentence)"],
-    "additionally": ["also", "and", "(start new sentence)"],
-    "it's worth noting that": ["(remove entirely)", "notably,", "also,"],
-    "in conclusion": ["(remove entirely)", "so,", "finally,"],
-  };
+  const key = phrase.trim();
+  const match = checkForForbiddenPhrases(key).find(m => m.text.length === key.length);
   
-  return suggestions[phrase.toLowerCase()] || ["(consider removing or rephrasing)"];
+  return match && match.replacements.length > 0
+    ? match.replacements
+    : ["(consider removing or rephrasing)"];
 }
 
+// Points off the quality score per match
+export const SEVERITY_PENALTY: Record<PhraseSeverity, number> = {
+  low: 2,
+  medium: 5,
+  high: 10,
+};
+
 /**
  * Calculate quality score based on forbidden phrase usage
  */
-export function calculateForbiddenPhraseScore(text: string): number {
-  const matches = checkForForbiddenPhrases(text);
+export function calculateForbiddenPhraseScore(
+  text: string,
+  phrases: ForbiddenPhrase[] = GLOBAL_FORBIDDEN_PHRASES
+): number {
+  const matches = checkForForbiddenPhrases(text, phrases);
   const wordCount = text.split(/\s+/).length;
   
   // Base score is 100
-  // Deduct 5 points per forbidden phrase, max 30 points
-  const deduction = Math.min(matches.length * 5, 30);
+  // Deduct by severity per forbidden phrase, max 30 points
+  const penalty = matches.reduce((sum, m) => sum + SEVERITY_PENALTY[m.severity], 0);
+  const deduction = Math.min(penalty, 30);
   
   // Bonus for shorter posts with no violations (harder to achieve)
   const bonus = matches.length === 0 && wordCount < 100 ? 5 : 0;
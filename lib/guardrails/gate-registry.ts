@@ -0,0 +1,173 @@
+/**
+ * Quality Gate Registry
+ *
+ * Gates register themselves with an id, a weight in the overall score and
+ * the score they pass at. A caller can pass workspace settings that override
+ * the defaults, and a voice profile can override both through
+ * `rules.qualityGates` (profile settings win). Nothing is configured
+ * process-wide, so one workspace's settings never leak into another's posts.
+ */
+
+import {
+  InterviewResponse,
+  QualityGate,
+  QualityGateConfig,
+  QualityReport,
+  VoiceProfile,
+} from "@/lib/types";
+import type { LLMSelection } from "@/lib/llm";
+
+// Overall score a post needs unless configured otherwise
+export const DEFAULT_PASS_SCORE = 85;
+
+export interface GateContext {
+  post: string;
+  profile: VoiceProfile;
+  interview?: InterviewResponse;
+  // The author's own earlier posts (e.g. imported), matched for voice
+  // alongside the profile's reference posts
+  history?: string[];
+  // Provider for model-backed checks (default: environment)
+  llm?: LLMSelection;
+}
+
+export interface QualityGateDefinition {
+  id: string;
+  weight: number;
+  // Gate passes at this score (0-100)
+  threshold: number;
+  // A failing required gate fails the post whatever its overall score
+  required?: boolean;
+  // Returns null when the gate doesn't apply (e.g. facts without an interview)
+  check: (ctx: GateContext) => QualityGate | null;
+  // Model-backed variant used by validatePostWithAI
+  checkWithAI?: (ctx: GateContext) => Promise<QualityGate | null>;
+}
+
+// A registered gate with the workspace and profile overrides applied
+export interface ResolvedQualityGate {
+  definition: QualityGateDefinition;
+  weight: number;
+  threshold: number;
+}
+
+const registry = new Map<string, QualityGateDefinition>();
+
+/**
+ * Add a gate, replacing any gate registered under the same id
+ */
+export function registerQualityGate(definition: QualityGateDefinition): void {
+  registry.set(definition.id, definition);
+}
+
+export function unregisterQualityGate(id: string): void {
+  registry.delete(id);
+}
+
+/**
+ * Registered gates in registration order
+ */
+export function getQualityGates(): QualityGateDefinition[] {
+  return [...registry.values()];
+}
+
+function clampScore(value: number): number {
+  return Math.min(100, Math.max(0, value));
+}
+
+/**
+ * The enabled gates with their effective weight and threshold
+ */
+export function resolveQualityGates(
+  profileConfig: QualityGateConfig = {},
+  workspaceConfig: QualityGateConfig = {}
+): ResolvedQualityGate[] {
+  return getQualityGates()
+    .map(definition => {
+      const override = {
+        ...workspaceConfig.gates?.[definition.id],
+        ...profileConfig.gates?.[definition.id],
+      };
+      return {
+        definition,
+        enabled: override.enabled ?? true,
+        weight: Math.max(0, override.weight ?? definition.weight),
+        threshold: clampScore(override.threshold ?? definition.threshold),
+      };
+    })
+    .filter(gate => gate.enabled)
+    .map(({ definition, weight, threshold }) => ({ definition, weight, threshold }));
+}
+
+/**
+ * Overall score a post needs to pass
+ */
+export function getPassScore(
+  profileConfig: QualityGateConfig = {},
+  workspaceConfig: QualityGateConfig = {}
+): number {
+  return clampScore(profileConfig.passScore ?? workspaceConfig.passScore ?? DEFAULT_PASS_SCORE);
+}
+
+/**
+ * Record the effective weight and threshold on a gate result and judge it
+ * by that threshold. Gates without a score keep their own verdict.
+ */
+export function applyGateSettings(gate: QualityGate, { weight, threshold }: ResolvedQualityGate): QualityGate {
+  return {
+    ...gate,
+    passed: gate.score === undefined ? gate.passed : gate.score >= threshold,
+    weight,
+    threshold,
+  };
+}
+
+/**
+ * Weighted average of the gate scores. Weights are normalized over the gates
+ * present, so gates that are off or don't apply don't drag the score down.
+ */
+export function calculateOverallScore(gates: QualityReport["gates"]): number {
+  let totalScore = 0;
+  let totalWeight = 0;
+  for (const gate of Object.values(gates)) {
+    const weight = gate.weight ?? 0;
+    totalScore += (gate.score || 0) * weight;
+    totalWeight += weight;
+  }
+
+  return totalWeight > 0 ? Math.round(totalScore / totalWeight) : 0;
+}
+
+/**
+ * Build a report from gate results keyed by gate id
+ */
+export function buildQualityReport(
+  gates: QualityReport["gates"],
+  resolved: ResolvedQualityGate[],
+  passScore: number
+): QualityReport {
+  const overallScore = calculateOverallScore(gates);
+  const requiredPassed = resolved
+    .filter(({ definition }) => definition.required)
+    .every(({ definition }) => gates[definition.id]?.passed !== false);
+
+  return {
+    overallScore,
+    passed: overallScore >= passScore && requiredPassed,
+    gates,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Why a report failed: the overall score, or the gates that failed when a
+ * required one did
+ */
+export function describeQualityFailure(report: QualityReport, passScore: number): string | undefined {
+  if (report.passed) return undefined;
+  if (report.overallScore < passScore) {
+    return `Quality score ${report.overallScore} below threshold`;
+  }
+  const failed = Object.values(report.gates).filter(g => !g.passed).map(g => g.name);
+  return `Failed quality gates: ${failed.join(", ")}`;
+}
@@ -1,69 +1,178 @@
-import { VoiceProfile, QualityReport, QualityGate } from "@/lib/types";
-import { checkForForbiddenPhrases } from "./forbidden-phrases";
-import { generate } from "@/lib/gemini";
+import {
+  VoiceProfile,
+  QualityReport,
+  QualityGate,
+  QualityGateConfig,
+  QualityAnnotation,
+  QuickFix,
+  InterviewResponse,
+} from "@/lib/types";
+import {
+  checkForForbiddenPhrases,
+  getForbiddenPhraseList,
+  ForbiddenPhrase,
+  ForbiddenPhraseMatch,
+} from "./forbidden-phrases";
+import { autoFixSlop, SlopFix } from "./slop-detector";
+import { checkFactConsistency, getFactSources, ExtractedFact } from "./fact-consistency";
+import { detectStructuralTells, STRUCTURAL_TELL_ADVICE } from "./structural-tells";
+import { analyzeReadability, FOLD_LIMITS, FoldDevice } from "./readability";
+import { scoreVoiceSimilarity } from "@/lib/voice/stylometry";
+import { generate, LLMSelection } from "@/lib/llm";
+import {
+  applyGateSettings,
+  buildQualityReport,
+  GateContext,
+  getPassScore,
+  registerQualityGate,
+  resolveQualityGates,
+  ResolvedQualityGate,
+} from "./gate-registry";
+
+// Built-in gates. Thresholds match each gate's own pass mark.
+registerQualityGate({
+  id: "forbiddenPhrases",
+  weight: 0.25,
+  threshold: 100,
+  required: true,
+  check: ({ post, profile, interview }) =>
+    checkForbiddenPhrasesGate(post, getForbiddenPhraseList(profile, interview)),
+});
+registerQualityGate({
+  id: "specificity",
+  weight: 0.25,
+  threshold: 75,
+  check: ({ post }) => checkSpecificityGate(post),
+});
+registerQualityGate({
+  id: "voiceMatch",
+  weight: 0.15,
+  threshold: 70,
+  check: ({ post, profile, history }) => checkVoiceMatchGate(post, profile, history),
+  checkWithAI: ({ post, profile, history, llm }) => checkVoiceMatchGateAI(post, profile, history, llm),
+});
+registerQualityGate({
+  id: "hookStrength",
+  weight: 0.20,
+  threshold: 50,
+  check: ({ post }) => checkHookStrengthGate(post),
+});
+registerQualityGate({
+  id: "readability",
+  weight: 0.15,
+  threshold: 70,
+  check: ({ post }) => checkReadabilityGate(post),
+});
+registerQualityGate({
+  id: "formatting",
+  weight: 0.15,
+  threshold: 70,
+  check: ({ post, profile }) => checkFormattingGate(post, profile),
+});
+registerQualityGate({
+  id: "structuralTells",
+  weight: 0.15,
+  threshold: 70,
+  check: ({ post }) => checkStructuralTellsGate(post),
+});
+// Only when the interview is known (facts are checked against its answers)
+registerQualityGate({
+  id: "factConsistency",
+  weight: 0.20,
+  threshold: 100,
+  required: true,
+  check: ({ post, profile, interview }) =>
+    interview ? checkFactConsistencyGate(post, profile, interview) : null,
+});
+// Advisory: product, team and tool names look just like invented ones, so
+// these are flagged for the author without counting towards the score
+registerQualityGate({
+  id: "nameConsistency",
+  weight: 0,
+  threshold: 100,
+  check: ({ post, profile, interview }) =>
+    interview ? checkNameConsistencyGate(post, profile, interview) : null,
+});
+
+function collectGates(
+  resolved: ResolvedQualityGate[],
+  results: (QualityGate | null)[]
+): QualityReport["gates"] {
+  const gates: QualityReport["gates"] = {};
+  resolved.forEach((gate, i) => {
+    const result = results[i];
+    if (result) gates[gate.definition.id] = applyGateSettings(result, gate);
+  });
+  return gates;
+}
+
+export interface ValidationOptions {
+  // The author's own earlier posts (e.g. imported), used for voice matching
+  history?: string[];
+  // Workspace gate settings; the profile's own settings win over them
+  workspaceGates?: QualityGateConfig;
+  // Provider for model-backed checks (default: environment)
+  llm?: LLMSelection;
+}
 
 /**
- * Validate a post against all quality gates (sync version for quick checks)
+ * Validate a post against all quality gates (sync version for quick checks).
+ * With the interview, numbers and names are also checked against its answers,
+ * and its voice mode and phrase overrides join the forbidden list.
  */
-export function validatePost(post: string, profile: VoiceProfile): QualityReport {
-  const gates = {
-    forbiddenPhrases: checkForbiddenPhrasesGate(post),
-    specificity: checkSpecificityGate(post),
-    voiceMatch: checkVoiceMatchGate(post, profile),
-    hookStrength: checkHookStrengthGate(post),
-    formatting: checkFormattingGate(post, profile),
-  };
-
-  const overallScore = calculateOverallScore(gates);
+export function validatePost(
+  post: string,
+  profile: VoiceProfile,
+  interview?: InterviewResponse,
+  { history = [], workspaceGates }: ValidationOptions = {}
+): QualityReport {
+  const ctx: GateContext = { post, profile, interview, history };
+  const resolved = resolveQualityGates(profile.rules.qualityGates, workspaceGates);
+  const gates = collectGates(resolved, resolved.map(({ definition }) => definition.check(ctx)));
 
-  return {
-    overallScore,
-    passed: overallScore >= 85 && gates.forbiddenPhrases.passed,
-    gates,
-    timestamp: new Date().toISOString(),
-  };
+  return buildQualityReport(gates, resolved, getPassScore(profile.rules.qualityGates, workspaceGates));
 }
 
 /**
  * Validate a post against all quality gates with AI voice matching
  */
-export async function validatePostWithAI(post: string, profile: VoiceProfile): Promise<QualityReport> {
-  const [forbiddenPhrases, specificity, voiceMatch, hookStrength, formatting] = await Promise.all([
-    Promise.resolve(checkForbiddenPhrasesGate(post)),
-    Promise.resolve(checkSpecificityGate(post)),
-    checkVoiceMatchGateAI(post, profile),
-    Promise.resolve(checkHookStrengthGate(post)),
-    Promise.resolve(checkFormattingGate(post, profile)),
-  ]);
-
-  const gates = {
-    forbiddenPhrases,
-    specificity,
-    voiceMatch,
-    hookStrength,
-    formatting,
-  };
-
-  const overallScore = calculateOverallScore(gates);
+export async function validatePostWithAI(
+  post: string,
+  profile: VoiceProfile,
+  interview?: InterviewResponse,
+  { history = [], workspaceGates, llm }: ValidationOptions = {}
+): Promise<QualityReport> {
+  const ctx: GateContext = { post, profile, interview, history, llm };
+  const resolved = resolveQualityGates(profile.rules.qualityGates, workspaceGates);
+  const results = await Promise.all(
+    resolved.map(({ definition }) =>
+      definition.checkWithAI ? definition.checkWithAI(ctx) : Promise.resolve(definition.check(ctx))
+    )
+  );
 
-  return {
-    overallScore,
-    passed: overallScore >= 85 && gates.forbiddenPhrases.passed,
-    gates,
-    timestamp: new Date().toISOString(),
-  };
+  return buildQualityReport(
+    collectGates(resolved, results),
+    resolved,
+    getPassScore(profile.rules.qualityGates, workspaceGates)
+  );
 }
 
 /**
- * AI-based voice match scoring
+ * AI-based voice match scoring, averaged with the stylometric score (which
+ * covers every reference post, not just the two in the prompt)
  */
-async function checkVoiceMatchGateAI(post: string, profile: VoiceProfile): Promise<QualityGate> {
+async function checkVoiceMatchGateAI(
+  post: string,
+  profile: VoiceProfile,
+  history: string[] = [],
+  llm?: LLMSelection
+): Promise<QualityGate> {
   try {
     const referencePosts = profile.topPosts.slice(0, 2).map(p => p.content).join("\n\n---\n\n");
     
     if (!referencePosts || referencePosts.length < 50) {
       // Fall back to heuristic if no reference posts
-      return checkVoiceMatchGate(post, profile);
+      return checkVoiceMatchGate(post, profile, history);
     }
 
     const prompt = `You are an expert writing analyst. Compare a generated post to reference posts and score voice similarity.
@@ -91,7 +200,7 @@ ${post}
   "suggestions": ["suggestion 1", "suggestion 2"]
 }`;
 
-    const result = await generate(prompt);
+    const result = await generate(prompt, undefined, undefined, llm);
     
     // Parse the JSON response
     let parsed;
@@ -103,34 +212,62 @@ ${post}
       parsed = JSON.parse(cleaned.trim());
     } catch {
       // Fall back to heuristic if JSON parsing fails
-      return checkVoiceMatchGate(post, profile);
+      return checkVoiceMatchGate(post, profile, history);
     }
 
+    const aiScore = Math.min(100, Math.max(0, parsed.score || 70));
+    const similarity = scoreVoiceSimilarity(post, profile, history);
+    const score = similarity ? Math.round((aiScore + similarity.score) / 2) : aiScore;
+
     return {
       name: "Voice Match",
-      passed: parsed.score >= 70,
-      score: Math.min(100, Math.max(0, parsed.score || 70)),
-      issues: parsed.issues || [],
+      passed: score >= 70,
+      score,
+      issues: [...(parsed.issues || []), ...(similarity?.deviations.map(d => d.message) || [])],
       suggestions: parsed.suggestions || [],
     };
   } catch (error) {
     console.error("AI voice match failed, using heuristic:", error);
-    return checkVoiceMatchGate(post, profile);
+    return checkVoiceMatchGate(post, profile, history);
   }
 }
 
 /**
- * Gate 1: Check for forbidden phrases
+ * Gate 1: Check for phrases on the merged forbidden list
  */
-function checkForbiddenPhrasesGate(post: string): QualityGate {
-  const matches = checkForForbiddenPhrases(post);
-  
+function checkForbiddenPhrasesGate(post: string, phrases: ForbiddenPhrase[]): QualityGate {
+  const matches = checkForForbiddenPhrases(post, phrases);
+  const fixes = matches.length > 0 ? autoFixSlop(post, phrases).fixes : [];
+
   return {
     name: "Forbidden Phrases",
     passed: matches.length === 0,
     score: Math.max(0, 100 - matches.length * 20),
     issues: matches.map(m => `Found "${m.phrase}" (${m.category})`),
-    suggestions: matches.map(m => `Remove or replace "${m.phrase}"`),
+    suggestions: matches.map(m =>
+      m.replacements.length > 0
+        ? `Replace "${m.text}" with ${m.replacements.map(r => `"${r}"`).join(" or ")}`
+        : `Remove or replace "${m.text}"`
+    ),
+    annotations: matches.map(m => ({
+      start: m.position,
+      end: m.position + m.text.length,
+      message: `Found "${m.phrase}" (${m.category})`,
+      fixes: fixes
+        .filter(fix => fix.start <= m.position && m.position < fix.end)
+        .map(fix => toQuickFix(fix, m)),
+    })),
+  };
+}
+
+// A removal can take the surrounding comma or spaces too, so label it by the phrase
+function toQuickFix(fix: SlopFix, match: ForbiddenPhraseMatch): QuickFix {
+  return {
+    label: fix.method === "removal" ? `Remove "${match.text}"` : `Replace with "${fix.after}"`,
+    start: fix.start,
+    end: fix.end,
+    before: fix.before,
+    replacement: fix.after,
   };
 }
 
@@ -170,18 +307,55 @@ function countSpecificDetails(text: string): { count: number; details: string[]
 }
 
 /**
- * Gate 3: Check voice match (simplified for MVP)
+ * Gate 3: Check voice match. Scored by stylometric similarity to the
+ * profile's reference posts and the author's earlier posts; the rules are
+ * used when there are too few.
  */
-function checkVoiceMatchGate(post: string, profile: VoiceProfile): QualityGate {
+export function checkVoiceMatchGate(
+  post: string,
+  profile: VoiceProfile,
+  history: string[] = []
+): QualityGate {
+  const similarity = scoreVoiceSimilarity(post, profile, history);
+  if (!similarity) {
+    return checkVoiceRulesGate(post, profile);
+  }
+
+  const issues = similarity.deviations.map(d => d.message);
+  const suggestions: string[] = [];
+  if (similarity.score < 70) {
+    suggestions.push("Reread your reference posts and match their sentence length, punctuation and paragraphing");
+  }
+  if (!usesSignaturePhrase(post, profile)) {
+    issues.push("No signature phrases found");
+    suggestions.push(`Consider using one of: ${profile.rules.signaturePhrases.slice(0, 2).join(", ")}`);
+  }
+
+  return {
+    name: "Voice Match",
+    passed: similarity.score >= 70,
+    score: similarity.score,
+    issues,
+    suggestions,
+  };
+}
+
+function usesSignaturePhrase(post: string, profile: VoiceProfile): boolean {
+  return profile.rules.signaturePhrases.some(phrase =>
+    post.toLowerCase().includes(phrase.toLowerCase())
+  );
+}
+
+/**
+ * Voice match from the rules alone: signature phrases and sentence length
+ */
+function checkVoiceRulesGate(post: string, profile: VoiceProfile): QualityGate {
   let score = 70; // Base score
   const issues: string[] = [];
   const suggestions: string[] = [];
   
   // Check for signature phrases
-  const signatureUsed = profile.rules.signaturePhrases.some(phrase =>
-    post.toLowerCase().includes(phrase.toLowerCase())
-  );
-  if (signatureUsed) {
+  if (usesSignaturePhrase(post, profile)) {
     score += 15;
   } else {
     issues.push("No signature phrases found");
@@ -207,13 +381,14 @@ function checkVoiceMatchGate(post: string, profile: VoiceProfile): QualityGate {
 }
 
 /**
- * Gate 4: Check hook strength
+ * Gate 4: Check hook strength (scores the first line, so a bare hook works too)
  */
-function checkHookStrengthGate(post: string): QualityGate {
+export function checkHookStrengthGate(post: string): QualityGate {
   const firstLine = post.split("\n")[0];
   let score = 0;
   const issues: string[] = [];
   const suggestions: string[] = [];
+  const annotations: QualityAnnotation[] = [];
   
   // Has specific number?
   if (/\d+/.test(firstLine)) {
@@ -246,8 +421,11 @@ function checkHookStrengthGate(post: string): QualityGate {
   
   // Generic opening penalty
   const genericOpeners = ["let me tell you", "imagine this", "picture this", "in my experience", "here's the thing"];
-  if (genericOpeners.some(o => firstLine.toLowerCase().includes(o))) {
+  const opener = genericOpeners.find(o => firstLine.toLowerCase().includes(o));
+  if (opener) {
     score -= 30;
+    const start = firstLine.toLowerCase().indexOf(opener);
+    annotations.push({ start, end: start + opener.length, message: "Generic opening phrase", fixes: [] });
     issues.push("Uses generic opening phrase");
     suggestions.push("Start with a specific number, action, or contrarian statement");
   }
@@ -255,6 +433,9 @@ function checkHookStrengthGate(post: string): QualityGate {
   if (score < 50) {
     issues.push("Hook lacks specific or compelling elements");
     suggestions.push("Add a specific number, contrarian claim, or personal stake to the first line");
+    if (firstLine.trim()) {
+      annotations.push({ start: 0, end: firstLine.length, message: "Hook lacks specific or compelling elements", fixes: [] });
+    }
   }
   
   return {
@@ -263,6 +444,80 @@ function checkHookStrengthGate(post: string): QualityGate {
     score: Math.min(100, Math.max(0, score)),
     issues,
     suggestions,
+    annotations,
+  };
+}
+
+// Past these a post reads like a report, or like a wall of text on mobile
+const MAX_READING_GRADE = 9;
+const MAX_LINE_LENGTH = 200;
+const MIN_WHITESPACE_RATIO = 0.2;
+const FOLD_PENALTY: Record<FoldDevice, number> = { desktop: 25, mobile: 15 };
+
+/**
+ * Gate 4b: Check readability and what shows before "…see more". The hook
+ * gate scores the first line; this one checks readers actually see it.
+ */
+export function checkReadabilityGate(post: string): QualityGate {
+  const report = analyzeReadability(post);
+  let score = 100;
+  const issues: string[] = [];
+  const suggestions: string[] = [];
+  const annotations: QualityAnnotation[] = [];
+
+  if (report.fleschKincaidGrade > MAX_READING_GRADE) {
+    score -= 15;
+    issues.push(`Reads at grade ${report.fleschKincaidGrade} (aim for ${MAX_READING_GRADE} or below)`);
+    suggestions.push("Use shorter sentences and plainer words");
+  }
+
+  if (report.longestLine.length > MAX_LINE_LENGTH) {
+    score -= 10;
+    issues.push(`Longest line is ${report.longestLine.length} characters`);
+    suggestions.push("Split long lines; they fill the whole screen on mobile");
+    const start = post.indexOf(report.longestLine.text);
+    annotations.push({
+      start,
+      end: start + report.longestLine.length,
+      message: `Line is ${report.longestLine.length} characters`,
+      fixes: [],
+    });
+  }
+
+  const lineCount = post.trim().split("\n").length;
+  if (lineCount >= 4 && report.whitespaceRatio < MIN_WHITESPACE_RATIO) {
+    score -= 10;
+    issues.push(`Only ${Math.round(report.whitespaceRatio * 100)}% of lines are blank`);
+    suggestions.push("Put a blank line between paragraphs");
+  }
+
+  const cutOn = (Object.keys(FOLD_LIMITS) as FoldDevice[]).filter(device => report.fold[device].hookCut);
+  for (const device of cutOn) {
+    score -= FOLD_PENALTY[device];
+    const lastWords = report.fold[device].visible.split(/\s+/).slice(-4).join(" ");
+    issues.push(`Hook is cut mid-sentence by "see more" on ${device}, after "${lastWords}"`);
+    // The rest of the opening line, which readers only see after expanding
+    const { end } = report.fold[device];
+    const lineEnd = post.indexOf("\n", end);
+    annotations.push({
+      start: end,
+      end: lineEnd === -1 ? post.trimEnd().length : lineEnd,
+      message: `Hidden behind "see more" on ${device}`,
+      fixes: [],
+    });
+  }
+  if (cutOn.length > 0) {
+    const limit = Math.min(...cutOn.map(device => FOLD_LIMITS[device].chars));
+    suggestions.push(`Make the hook a complete thought in under ${limit} characters`);
+  }
+
+  return {
+    name: "Readability",
+    passed: score >= 70,
+    score: Math.max(0, score),
+    issues,
+    suggestions,
+    annotations,
   };
 }
 
@@ -273,12 +528,14 @@ function checkFormattingGate(post: string, profile: VoiceProfile): QualityGate {
   let score = 100;
   const issues: string[] = [];
   const suggestions: string[] = [];
+  let annotations: QualityAnnotation[] = [];
   
   // Check em-dash usage
   if (!profile.rules.formattingRules.useEmDash && post.includes("—")) {
     score -= 20;
     issues.push("Uses em-dashes when forbidden");
     suggestions.push("Replace em-dashes with periods or commas");
+    annotations = locateEmDashes(post);
   }
   
   // Check paragraph breaks
@@ -312,28 +569,118 @@ function checkFormattingGate(post: string, profile: VoiceProfile): QualityGate {
     score,
     issues,
     suggestions,
+    annotations,
   };
 }
 
 /**
- * Calculate overall score from gates
+ * Em-dashes with the spaces around them. Mid-sentence ones can become a
+ * comma; one opening a line needs a rewrite.
  */
-function calculateOverallScore(gates: QualityReport["gates"]): number {
-  const weights = {
-    forbiddenPhrases: 0.25,
-    specificity: 0.25,
-    hookStrength: 0.20,
-    voiceMatch: 0.15,
-    formatting: 0.15,
-  };
-  
-  let totalScore = 0;
-  for (const [key, gate] of Object.entries(gates)) {
-    const weight = weights[key as keyof typeof weights] || 0;
-    totalScore += (gate.score || 0) * weight;
+function locateEmDashes(post: string): QualityAnnotation[] {
+  const annotations: QualityAnnotation[] = [];
+  const pattern = /[ \t]*—[ \t]*/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(post)) !== null) {
+    const start = match.index;
+    const end = start + match[0].length;
+    const midSentence = start > 0 && post[start - 1] !== "\n" && end < post.length && post[end] !== "\n";
+    annotations.push({
+      start,
+      end,
+      message: "Em-dash",
+      fixes: midSentence
+        ? [{ label: "Replace with a comma", start, end, before: match[0], replacement: ", " }]
+        : [],
+    });
   }
-  
-  return Math.round(totalScore);
+  return annotations;
+}
+
+function findUnsupportedFacts(
+  post: string,
+  profile: VoiceProfile,
+  interview: InterviewResponse
+): ExtractedFact[] {
+  // Signature phrases are the author's own words too
+  const sources = [...getFactSources(interview), ...profile.rules.signaturePhrases];
+  return checkFactConsistency(post, sources).unsupported;
+}
+
+function unsupportedFactsGate(name: string, unsupported: ExtractedFact[], suggestion: string): QualityGate {
+  return {
+    name,
+    passed: unsupported.length === 0,
+    score: Math.max(0, 100 - unsupported.length * 25),
+    issues: unsupported.map(f => `"${f.text}" (${describeFact(f)}) is not in the interview answers`),
+    suggestions: unsupported.length === 0 ? [] : [suggestion],
+    annotations: unsupported.map(f => ({
+      start: f.position,
+      end: f.position + f.text.length,
+      message: `Not in the interview answers (${describeFact(f)})`,
+      fixes: [],
+    })),
+  };
+}
+
+/**
+ * Gate 6: Check that every number comes from the interview
+ */
+export function checkFactConsistencyGate(
+  post: string,
+  profile: VoiceProfile,
+  interview: InterviewResponse
+): QualityGate {
+  return unsupportedFactsGate(
+    "Fact Consistency",
+    findUnsupportedFacts(post, profile, interview).filter(f => f.kind !== "proper-noun"),
+    "Use only numbers from the interview, or remove the invented ones"
+  );
+}
+
+/**
+ * Gate 6b: Check that names come from the interview
+ */
+export function checkNameConsistencyGate(
+  post: string,
+  profile: VoiceProfile,
+  interview: InterviewResponse
+): QualityGate {
+  return unsupportedFactsGate(
+    "Names",
+    findUnsupportedFacts(post, profile, interview).filter(f => f.kind === "proper-noun"),
+    "Check these names come from the interview, or remove them"
+  );
+}
+
+function describeFact(fact: ExtractedFact): string {
+  return fact.kind === "proper-noun" ? "name" : fact.kind;
+}
+
+/**
+ * Gate 7: Check for structural AI tells (antitheses, rule-of-three lists,
+ * punchline endings and the like)
+ */
+export function checkStructuralTellsGate(post: string): QualityGate {
+  const tells = detectStructuralTells(post);
+  const occurrences = tells.reduce((sum, t) => sum + t.count, 0);
+  const score = Math.max(0, 100 - occurrences * 15);
+
+  return {
+    name: "Structural Tells",
+    passed: score >= 70,
+    score,
+    issues: tells.map(t => `${t.label} (${t.count}x), e.g. "${t.locations[0].text}"`),
+    suggestions: tells.map(t => STRUCTURAL_TELL_ADVICE[t.kind]),
+    annotations: tells.flatMap(t =>
+      t.locations.map(l => ({
+        start: l.start,
+        end: l.end,
+        message: `${t.label}. ${STRUCTURAL_TELL_ADVICE[t.kind]}`,
+        fixes: [],
+      }))
+    ),
+  };
 }
 
 /**
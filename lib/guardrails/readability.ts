@@ -0,0 +1,131 @@
+/**
+ * Readability and platform fit: Flesch-Kincaid grade, line length,
+ * whitespace, and what LinkedIn shows before "…see more".
+ */
+
+export type FoldDevice = "desktop" | "mobile";
+
+// LinkedIn cuts the feed preview at about this many characters or visual
+// lines, whichever comes first. Long lines wrap at about `lineWidth`.
+export const FOLD_LIMITS: Record<FoldDevice, { chars: number; lines: number; lineWidth: number }> = {
+  desktop: { chars: 210, lines: 3, lineWidth: 70 },
+  mobile: { chars: 140, lines: 3, lineWidth: 47 },
+};
+
+export interface FoldPreview {
+  device: FoldDevice;
+  // Text shown before "…see more"
+  visible: string;
+  // Offset in the post where the fold falls
+  end: number;
+  truncated: boolean;
+  // The fold splits a sentence instead of falling at a line or sentence end
+  cutMidSentence: boolean;
+  // The fold falls inside the opening line
+  hookCut: boolean;
+}
+
+export interface ReadabilityReport {
+  fleschKincaidGrade: number;
+  longestLine: { length: number; text: string };
+  // Share of lines that are blank
+  whitespaceRatio: number;
+  fold: Record<FoldDevice, FoldPreview>;
+}
+
+const SENTENCE_END = /[.!?…:]["'”’)]*$/;
+
+/**
+ * Syllables in a word, by vowel groups (the usual English heuristic)
+ */
+export function countSyllables(word: string): number {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (!letters) return /\d/.test(word) ? 1 : 0;
+  if (letters.length <= 3) return 1;
+
+  const trimmed = letters.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, "").replace(/^y/, "");
+  return Math.max(1, trimmed.match(/[aeiouy]{1,2}/g)?.length ?? 1);
+}
+
+/**
+ * Flesch-Kincaid grade level. Line breaks end sentences too, since posts
+ * often leave the period off one-line paragraphs.
+ */
+export function fleschKincaidGrade(text: string): number {
+  const sentences = text.split(/[.!?…]+(?=\s|$)|\n+/).filter(s => /[\p{L}\p{N}]/u.test(s));
+  const words = text.split(/\s+/).filter(w => /[\p{L}\p{N}]/u.test(w));
+  if (sentences.length === 0 || words.length === 0) return 0;
+
+  const syllables = words.reduce((sum, w) => sum + countSyllables(w), 0);
+  const grade = 0.39 * (words.length / sentences.length) + 11.8 * (syllables / words.length) - 15.59;
+  return Math.round(Math.max(0, grade) * 10) / 10;
+}
+
+/**
+ * Where LinkedIn folds the post on a device
+ */
+export function getFoldPreview(post: string, device: FoldDevice): FoldPreview {
+  const { chars, lines: maxRows, lineWidth } = FOLD_LIMITS[device];
+  const text = post.trimEnd();
+
+  let end = text.length;
+  let offset = 0;
+  let rows = 0;
+  for (const line of text.split("\n")) {
+    const needed = Math.max(1, Math.ceil(line.length / lineWidth));
+    if (rows + needed > maxRows) {
+      end = offset + (maxRows - rows) * lineWidth;
+      break;
+    }
+    rows += needed;
+    offset += line.length + 1;
+    if (rows === maxRows) {
+      end = offset - 1;
+      break;
+    }
+  }
+  end = Math.min(end, chars, text.length);
+
+  // The preview breaks between words
+  if (end < text.length && /\S/.test(text[end]) && /\S/.test(text[end - 1] ?? "")) {
+    const lastSpace = text.slice(0, end).search(/\s\S*$/);
+    if (lastSpace > 0) end = lastSpace;
+  }
+
+  const visible = text.slice(0, end).trimEnd();
+  const truncated = end < text.length;
+  const atLineEnd = /^[ \t]*(?:\n|$)/.test(text.slice(end));
+  const cutMidSentence = truncated && !atLineEnd && !SENTENCE_END.test(visible);
+
+  const hookStart = text.search(/\S/);
+  const hookLineEnd = text.indexOf("\n", Math.max(0, hookStart));
+  const hookEnd = hookLineEnd === -1 ? text.length : hookLineEnd;
+
+  return {
+    device,
+    visible,
+    end,
+    truncated,
+    cutMidSentence,
+    hookCut: cutMidSentence && end < hookEnd,
+  };
+}
+
+/**
+ * Readability and platform-fit measurements for a post
+ */
+export function analyzeReadability(post: string): ReadabilityReport {
+  const lines = post.trim().split("\n");
+  const longest = lines.reduce((a, b) => (b.trim().length > a.trim().length ? b : a), "");
+  const blank = lines.filter(line => !line.trim()).length;
+
+  return {
+    fleschKincaidGrade: fleschKincaidGrade(post),
+    longestLine: { length: longest.trim().length, text: longest.trim() },
+    whitespaceRatio: lines.length > 0 ? Math.round((blank / lines.length) * 100) / 100 : 0,
+    fold: {
+      desktop: getFoldPreview(post, "desktop"),
+      mobile: getFoldPreview(post, "mobile"),
+    },
+  };
+}
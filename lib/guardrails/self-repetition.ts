@@ -0,0 +1,159 @@
+import { HistoricalPost, PostHistoryEntry, RepetitionWarning } from "@/lib/types";
+import { extractNumericFacts } from "./fact-consistency";
+
+// Dice similarity of two hooks' word pairs, numbers ignored ("Spent ₹8L in
+// 4 months" and "Spent $20K in 3 months" have the same shape)
+const HOOK_SIMILARITY_THRESHOLD = 0.6;
+// Distinctive numbers both posts use
+const SHARED_NUMBERS_THRESHOLD = 2;
+// Share of the shorter post's 3-word shingles found in the other
+const PHRASE_OVERLAP_THRESHOLD = 0.3;
+const SHINGLE_SIZE = 3;
+
+// Hooks of this many recent posts go into the prompts
+export const RECENT_HOOK_LIMIT = 10;
+
+/**
+ * The opening line of a post
+ */
+export function extractHook(post: string): string {
+  return post.split("\n").map(line => line.trim()).find(Boolean) ?? "";
+}
+
+/**
+ * Generated posts and the imported back catalogue as one history, newest
+ * first. Imported posts are dated by when they were published, or when
+ * they were imported if the export had no date.
+ */
+export function mergePostHistory(
+  generated: PostHistoryEntry[],
+  imported: HistoricalPost[]
+): PostHistoryEntry[] {
+  const importedEntries = imported
+    .filter(post => post.content.trim() !== "")
+    .map(post => ({
+      id: post.id,
+      createdAt: post.publishedAt ?? post.importedAt,
+      content: post.content,
+      imported: true,
+    }));
+  return [...generated, ...importedEntries].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Hooks of the most recent posts, newest first, without duplicates
+ */
+export function getRecentHooks(history: PostHistoryEntry[], limit: number = RECENT_HOOK_LIMIT): string[] {
+  const sorted = [...history].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const hooks = sorted.map(entry => extractHook(entry.content)).filter(Boolean);
+  return [...new Set(hooks)].slice(0, limit);
+}
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/\s+/)
+    .map(w => w.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ""))
+    .filter(Boolean)
+    .map(w => (/\d/.test(w) ? "#" : w));
+}
+
+function pairs(items: string[]): Set<string> {
+  const result = new Set<string>();
+  for (let i = 0; i < items.length - 1; i++) {
+    result.add(`${items[i]} ${items[i + 1]}`);
+  }
+  return result;
+}
+
+function shingles(text: string): Set<string> {
+  const tokens = words(text);
+  const result = new Set<string>();
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    result.add(tokens.slice(i, i + SHINGLE_SIZE).join(" "));
+  }
+  return result;
+}
+
+function intersectionSize(a: Set<string>, b: Set<string>): number {
+  let count = 0;
+  for (const item of a) if (b.has(item)) count++;
+  return count;
+}
+
+/**
+ * How alike two hooks are in shape, 0-1
+ */
+export function hookSimilarity(a: string, b: string): number {
+  const pairsA = pairs(words(a));
+  const pairsB = pairs(words(b));
+  if (pairsA.size === 0 || pairsB.size === 0) return 0;
+  return (2 * intersectionSize(pairsA, pairsB)) / (pairsA.size + pairsB.size);
+}
+
+/**
+ * Numbers a story can be recognized by, keyed by value so "$20K" and
+ * "$20,000" or "2 weeks" and "14 days" count as the same
+ */
+function keyNumbers(post: string): Map<string, string> {
+  const numbers = new Map<string, string>();
+  for (const fact of extractNumericFacts(post)) {
+    const key = `${fact.kind}:${fact.currency ?? ""}:${fact.days ?? fact.value}`;
+    if (!numbers.has(key)) numbers.set(key, fact.text);
+  }
+  return numbers;
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Compare a post with earlier posts for the same voice profile. Returns the
+ * earlier posts it repeats (hook shape, key numbers or phrasing past a
+ * threshold), most similar first.
+ */
+export function checkSelfRepetition(post: string, history: PostHistoryEntry[]): RepetitionWarning[] {
+  const hook = extractHook(post);
+  const numbers = keyNumbers(post);
+  const postShingles = shingles(post);
+
+  const warnings: RepetitionWarning[] = [];
+  for (const entry of history) {
+    const earlierShingles = shingles(entry.content);
+    const smaller = Math.min(postShingles.size, earlierShingles.size);
+    const phraseOverlap = smaller > 0 ? intersectionSize(postShingles, earlierShingles) / smaller : 0;
+
+    const earlierNumbers = keyNumbers(entry.content);
+    const sharedNumbers = [...numbers.entries()]
+      .filter(([key]) => earlierNumbers.has(key))
+      .map(([, text]) => text);
+
+    const hookScore = hookSimilarity(hook, extractHook(entry.content));
+
+    const date = entry.createdAt.slice(0, 10);
+    const reasons: string[] = [];
+    if (hookScore >= HOOK_SIMILARITY_THRESHOLD) {
+      reasons.push(`Hook is ${percent(hookScore)} like the one from ${date}`);
+    }
+    if (sharedNumbers.length >= SHARED_NUMBERS_THRESHOLD) {
+      reasons.push(`Reuses ${sharedNumbers.join(", ")} from the post on ${date}`);
+    }
+    if (phraseOverlap >= PHRASE_OVERLAP_THRESHOLD) {
+      reasons.push(`${percent(phraseOverlap)} of its phrasing appears in the post from ${date}`);
+    }
+    if (reasons.length === 0) continue;
+
+    warnings.push({
+      postId: entry.id,
+      createdAt: entry.createdAt,
+      hookSimilarity: Math.round(hookScore * 100) / 100,
+      sharedNumbers,
+      phraseOverlap: Math.round(phraseOverlap * 100) / 100,
+      reasons,
+    });
+  }
+
+  const strength = (w: RepetitionWarning) => Math.max(w.hookSimilarity, w.phraseOverlap) + w.sharedNumbers.length / 10;
+  return warnings.sort((a, b) => strength(b) - strength(a));
+}
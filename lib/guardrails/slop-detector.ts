@@ -1,4 +1,14 @@
-import { checkForForbiddenPhrases, ForbiddenPhraseMatch } from "./forbidden-phrases";
+import {
+  checkForForbiddenPhrases,
+  ForbiddenPhrase,
+  ForbiddenPhraseMatch,
+  GLOBAL_FORBIDDEN_PHRASES,
+  PhraseSeverity,
+} from "./forbidden-phrases";
+import { generate } from "@/lib/llm";
+import { getSlopRewritePrompt } from "@/lib/prompts/generation";
+import { slopRewriteOutputSchema } from "@/lib/validation/schemas";
+import { parseStructuredOutput } from "@/lib/pipeline/structured-output";
 
 export interface SlopAnalysis {
   hasSop: boolean;
@@ -7,25 +17,40 @@ export interface SlopAnalysis {
   suggestions: string[];
 }
 
+// One "moreover" outweighs a handful of "quite"s
+const SEVERITY_WEIGHT: Record<PhraseSeverity, number> = {
+  low: 1,
+  medium: 2,
+  high: 4,
+};
+
 /**
- * Analyze text for AI slop
+ * Analyze text for AI slop against the merged forbidden list (global only
+ * by default). Severity follows the matches' combined weight, not their count.
  */
-export function detectSlop(text: string): SlopAnalysis {
-  const matches = checkForForbiddenPhrases(text);
+export function detectSlop(
+  text: string,
+  phrases: ForbiddenPhrase[] = GLOBAL_FORBIDDEN_PHRASES
+): SlopAnalysis {
+  const matches = checkForForbiddenPhrases(text, phrases);
+  
+  const weight = matches.reduce((sum, m) => sum + SEVERITY_WEIGHT[m.severity], 0);
   
   let severity: SlopAnalysis["severity"];
-  if (matches.length === 0) {
+  if (weight === 0) {
     severity = "none";
-  } else if (matches.length <= 2) {
+  } else if (weight <= 4) {
     severity = "low";
-  } else if (matches.length <= 5) {
+  } else if (weight <= 10) {
     severity = "medium";
   } else {
     severity = "high";
   }
 
   const suggestions = matches.map(m => 
-    `Remove or replace "${m.phrase}" found in: ${m.context}`
+    m.replacements.length > 0
+      ? `Replace "${m.text}" with ${m.replacements.map(r => `"${r}"`).join(" or ")} in: ${m.context}`
+      : `Remove or replace "${m.text}" found in: ${m.context}`
   );
 
   return {
@@ -37,63 +62,321 @@ export function detectSlop(text: string): SlopAnalysis {
 }
 
 /**
- * Attempt to auto-fix common slop patterns
+ * One change the fixer made, as a span of the original text
+ */
+export interface SlopFix {
+  start: number;
+  end: number;
+  before: string;
+  after: string;
+  // Forbidden phrases the change removes
+  phrases: string[];
+  method: "replacement" | "removal" | "rewrite";
+}
+
+export interface SlopFixResult {
+  fixed: string;
+  changes: string[];
+  fixes: SlopFix[];
+  // Matches still in the fixed text
+  remaining: ForbiddenPhraseMatch[];
+}
+
+// Global phrases with a replacement that reads naturally in place. An
+// empty string removes the phrase; anything not listed needs a rewrite.
+const AUTO_FIXES: Record<string, string> = {
+  "delve into": "look at",
+  "in today's world": "",
+  "in this day and age": "",
+  "at the end of the day": "ultimately",
+  "it's worth noting that": "",
+  "needless to say": "",
+  "moreover": "also",
+  "furthermore": "also",
+  "additionally": "also",
+  "in conclusion": "",
+  "to summarize": "",
+  "in summary": "",
+  "leverage": "use",
+  "utilize": "use",
+  "synergy": "collaboration",
+  "paradigm": "approach",
+  "ecosystem": "community",
+  "optimize": "improve",
+};
+
+function autoReplacement(match: ForbiddenPhraseMatch): string | undefined {
+  // Profile and post rules can name their own replacement ("hustle -> work")
+  if (match.layer !== "global") {
+    const [first] = match.replacements;
+    return first && !first.startsWith("(") ? first : undefined;
+  }
+  return AUTO_FIXES[match.phrase.toLowerCase()];
+}
+
+/**
+ * Give the replacement's first word the ending the matched word had:
+ * "leveraging" -> "using", "ecosystems" -> "communities"
+ */
+function inflectLike(replacement: string, matched: string, phrase: string): string {
+  const word = matched.split(/\s+/)[0].toLowerCase();
+  const base = phrase.split(/\s+/)[0].toLowerCase();
+  if (word === base) return replacement;
+
+  const [first, ...rest] = replacement.split(" ");
+  let inflected: string;
+  if (word.endsWith("ing")) {
+    inflected = `${first.replace(/e$/, "")}ing`;
+  } else if (word.endsWith("s")) {
+    inflected = /[^aeiou]y$/.test(first) ? `${first.slice(0, -1)}ies`
+      : /(s|sh|ch|x)$/.test(first) ? `${first}es`
+      : `${first}s`;
+  } else {
+    // -ed and irregular past forms
+    inflected = first.endsWith("e") ? `${first}d`
+      : /[^aeiou]y$/.test(first) ? `${first.slice(0, -1)}ied`
+      : `${first}ed`;
+  }
+  return [inflected, ...rest].join(" ");
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function startsSentence(text: string, index: number): boolean {
+  const before = text.slice(0, index).replace(/[ \t]+$/, "");
+  return before === "" || /([.!?]["'”’)]*|\n)$/.test(before);
+}
+
+/**
+ * Keep the earliest of any overlapping matches, longest first
+ */
+function selectMatches(matches: ForbiddenPhraseMatch[]): ForbiddenPhraseMatch[] {
+  const sorted = [...matches].sort((a, b) => a.position - b.position || b.text.length - a.text.length);
+  const selected: ForbiddenPhraseMatch[] = [];
+  let lastEnd = 0;
+  for (const match of sorted) {
+    if (match.position < lastEnd) continue;
+    selected.push(match);
+    lastEnd = match.position + match.text.length;
+  }
+  return selected;
+}
+
+function planFix(text: string, match: ForbiddenPhraseMatch): SlopFix | null {
+  const replacement = autoReplacement(match);
+  if (replacement === undefined) return null;
+
+  let start = match.position;
+  let end = start + match.text.length;
+
+  if (replacement) {
+    const after = inflectLike(replacement, match.text, match.phrase);
+    return {
+      start,
+      end,
+      before: match.text,
+      after: /^\p{Lu}/u.test(match.text) ? capitalize(after) : after,
+      phrases: [match.phrase],
+      method: "replacement",
+    };
+  }
+
+  // Take a trailing comma or colon and the spaces after it, never a line break
+  end += /^[,:]?[ \t]*/.exec(text.slice(end))?.[0].length ?? 0;
+  // At the end of a clause, take the spaces before it instead
+  if (/^([.,;:!?]|\n|$)/.test(text.slice(end))) {
+    while (start > 0 && /[ \t]/.test(text[start - 1])) start--;
+  }
+
+  return { start, end, before: text.slice(start, end), after: "", phrases: [match.phrase], method: "removal" };
+}
+
+/**
+ * Deterministic fixes for the matches that have one, in text order
  */
-export function autoFixSlop(text: string): { fixed: string; changes: string[] } {
-  const changes: string[] = [];
-  let fixed = text;
-
-  // Simple replacements for common AI phrases
-  const replacements: Record<string, string> = {
-    "dive deep into": "examine",
-    "delve into": "look at",
-    "let's explore": "here's",
-    "in today's world": "",
-    "at the end of the day": "ultimately",
-    "it's worth noting that": "",
-    "it's important to note that": "",
-    "moreover": "also",
-    "furthermore": "and",
-    "additionally": "also",
-    "in conclusion": "",
-    "leverage": "use",
-    "utilize": "use",
-    "implement": "add",
-    "synergy": "collaboration",
-    "paradigm": "approach",
-    "ecosystem": "community",
+function planFixes(text: string, matches: ForbiddenPhraseMatch[]): SlopFix[] {
+  const fixes: SlopFix[] = [];
+  let lastEnd = 0;
+  for (const match of selectMatches(matches)) {
+    if (match.position < lastEnd) continue;
+    const fix = planFix(text, match);
+    if (!fix) continue;
+    fixes.push(fix);
+    lastEnd = fix.end;
+  }
+
+  // A removal at the start of a sentence hands its capital letter on
+  fixes.forEach((fix, i) => {
+    if (fix.method !== "removal" || !startsSentence(text, fix.start)) return;
+    const next = fixes[i + 1];
+    if (next && next.start === fix.end) {
+      next.after = capitalize(next.after);
+      return;
+    }
+    const letter = text.charAt(fix.end);
+    if (/\p{Ll}/u.test(letter)) {
+      fix.end += 1;
+      fix.before = text.slice(fix.start, fix.end);
+      fix.after = letter.toUpperCase();
+    }
+  });
+
+  return fixes;
+}
+
+function applyFixes(text: string, fixes: SlopFix[]): string {
+  let result = "";
+  let cursor = 0;
+  for (const fix of fixes) {
+    result += text.slice(cursor, fix.start) + fix.after;
+    cursor = fix.end;
+  }
+  return result + text.slice(cursor);
+}
+
+function describeFix(fix: SlopFix): string {
+  if (fix.method === "rewrite") return `Rewrote "${fix.before}" as "${fix.after}"`;
+  if (fix.method === "removal") return `Removed "${fix.phrases.join('", "')}"`;
+  return `Replaced "${fix.before}" with "${fix.after}"`;
+}
+
+function finishFixes(text: string, fixes: SlopFix[], phrases: ForbiddenPhrase[]): SlopFixResult {
+  const sorted = [...fixes].sort((a, b) => a.start - b.start);
+  const fixed = applyFixes(text, sorted);
+  return {
+    fixed,
+    changes: sorted.map(describeFix),
+    fixes: sorted,
+    remaining: checkForForbiddenPhrases(fixed, phrases),
   };
+}
+
+/**
+ * Auto-fix forbidden phrases that have a safe in-place replacement. Only the
+ * flagged spans change, so line breaks and the rest of the text stay as
+ * written. With a merged list, allow-listed phrases are left alone.
+ */
+export function autoFixSlop(
+  text: string,
+  phrases: ForbiddenPhrase[] = GLOBAL_FORBIDDEN_PHRASES
+): SlopFixResult {
+  const fixes = planFixes(text, checkForForbiddenPhrases(text, phrases));
+  return finishFixes(text, fixes, phrases);
+}
 
-  for (const [phrase, replacement] of Object.entries(replacements)) {
-    const regex = new RegExp(phrase, "gi");
-    if (regex.test(fixed)) {
-      fixed = fixed.replace(regex, replacement);
-      changes.push(`Replaced "${phrase}" with "${replacement || "(removed)"}"`);
+/**
+ * The sentence around a position: bounded by sentence punctuation followed
+ * by whitespace, and never crossing a line break
+ */
+function sentenceAt(text: string, index: number): { start: number; end: number } {
+  const lineStart = text.lastIndexOf("\n", index - 1) + 1;
+  const lineBreak = text.indexOf("\n", index);
+  const lineEnd = lineBreak === -1 ? text.length : lineBreak;
+  const line = text.slice(lineStart, lineEnd);
+
+  let start = lineStart;
+  let end = lineEnd;
+  const boundary = /[.!?]+["'”’)]*(?=\s|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(line)) !== null) {
+    const stop = lineStart + match.index + match[0].length;
+    if (stop <= index) {
+      start = stop;
+    } else {
+      end = stop;
+      break;
     }
   }
 
-  // Clean up double spaces
-  fixed = fixed.replace(/\s+/g, " ").trim();
+  while (start < end && /\s/.test(text[start])) start++;
+  return { start, end };
+}
+
+/**
+ * A rewrite stays on one line, keeps every number, doesn't balloon, and
+ * doesn't trade one forbidden phrase for another
+ */
+function isSafeRewrite(original: string, rewritten: string, phrases: ForbiddenPhrase[]): boolean {
+  if (rewritten.includes("\n") || rewritten.length > original.length * 1.5 + 20) return false;
+  if (checkForForbiddenPhrases(rewritten, phrases).length > 0) return false;
+  const numbers = original.match(/\d+(?:[.,]\d+)*/g) ?? [];
+  return numbers.every(n => rewritten.includes(n));
+}
+
+async function rewriteSentence(
+  sentence: string,
+  flagged: string[],
+  phrases: ForbiddenPhrase[]
+): Promise<string | null> {
+  try {
+    const output = await generate(getSlopRewritePrompt(sentence, flagged, phrases));
+    const parsed = parseStructuredOutput(output, slopRewriteOutputSchema);
+    if (!parsed.success) return null;
+    return isSafeRewrite(sentence, parsed.data.sentence, phrases) ? parsed.data.sentence : null;
+  } catch (error) {
+    console.error("Slop rewrite failed, keeping the sentence:", error);
+    return null;
+  }
+}
+
+/**
+ * Fix forbidden phrases in two passes: safe in-place replacements first,
+ * then a constrained LLM rewrite of just the sentence for phrases without
+ * one. A rewrite that fails the checks leaves its sentence as it was.
+ */
+export async function fixSlop(
+  text: string,
+  phrases: ForbiddenPhrase[] = GLOBAL_FORBIDDEN_PHRASES
+): Promise<SlopFixResult> {
+  const matches = checkForForbiddenPhrases(text, phrases);
+  let fixes = planFixes(text, matches);
 
-  // Clean up orphaned punctuation
-  fixed = fixed.replace(/\s+([,.])/g, "$1");
-  fixed = fixed.replace(/([,.])([A-Za-z])/g, "$1 $2");
+  const isFixed = (match: ForbiddenPhraseMatch) =>
+    fixes.some(fix => match.position >= fix.start && match.position < fix.end);
+  const sentences = new Map<number, { start: number; end: number }>();
+  for (const match of matches.filter(m => !isFixed(m))) {
+    const sentence = sentenceAt(text, match.position);
+    sentences.set(sentence.start, sentence);
+  }
+
+  for (const { start, end } of sentences.values()) {
+    const inSentence = matches.filter(m => m.position >= start && m.position < end);
+    const original = text.slice(start, end);
+    const rewritten = await rewriteSentence(original, [...new Set(inSentence.map(m => m.text))], phrases);
+    if (!rewritten) continue;
+
+    // The rewrite replaces any in-place fixes inside the sentence
+    fixes = fixes.filter(fix => fix.end <= start || fix.start >= end);
+    fixes.push({
+      start,
+      end,
+      before: original,
+      after: rewritten,
+      phrases: [...new Set(inSentence.map(m => m.phrase))],
+      method: "rewrite",
+    });
+  }
 
-  return { fixed, changes };
+  return finishFixes(text, fixes, phrases);
 }
 
 /**
  * Check if text passes the slop threshold
  */
-export function passesSlopThreshold(text: string): boolean {
-  const analysis = detectSlop(text);
+export function passesSlopThreshold(
+  text: string,
+  phrases: ForbiddenPhrase[] = GLOBAL_FORBIDDEN_PHRASES
+): boolean {
+  const analysis = detectSlop(text, phrases);
   return analysis.severity === "none" || analysis.severity === "low";
 }
 
 /**
  * Get a clean version of text with slop removed
  */
-export function cleanText(text: string): string {
-  const { fixed } = autoFixSlop(text);
+export function cleanText(text: string, phrases?: ForbiddenPhrase[]): string {
+  const { fixed } = autoFixSlop(text, phrases);
   return fixed;
 }
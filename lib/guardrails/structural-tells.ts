@@ -0,0 +1,198 @@
+/**
+ * AI tells that are patterns rather than phrases: antitheses, rule-of-three
+ * lists, punchline paragraph endings, "Here's why:" setups, repeated
+ * sentence openers and stacked rhetorical questions. The phrase lists in
+ * forbidden-phrases.ts can't see these.
+ */
+
+export type StructuralTellKind =
+  | "antithesis"
+  | "ruleOfThree"
+  | "punchlineEndings"
+  | "colonSetup"
+  | "repeatedOpeners"
+  | "rhetoricalQuestions";
+
+export interface TellLocation {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface StructuralTell {
+  kind: StructuralTellKind;
+  label: string;
+  count: number;
+  locations: TellLocation[];
+}
+
+export const STRUCTURAL_TELL_LABELS: Record<StructuralTellKind, string> = {
+  antithesis: "\"It's not X. It's Y.\" antithesis",
+  ruleOfThree: "Rule-of-three lists",
+  punchlineEndings: "Paragraphs ending in a one-word punchline",
+  colonSetup: "\"Here's why:\" setups",
+  repeatedOpeners: "Sentences opening with the same word",
+  rhetoricalQuestions: "Stacked rhetorical questions",
+};
+
+export const STRUCTURAL_TELL_ADVICE: Record<StructuralTellKind, string> = {
+  antithesis: "Say what it is directly instead of knocking down what it isn't",
+  ruleOfThree: "Keep the one or two items that matter instead of listing three",
+  punchlineEndings: "End some paragraphs on a full sentence",
+  colonSetup: "Drop the setup and make the point",
+  repeatedOpeners: "Vary how consecutive sentences start",
+  rhetoricalQuestions: "Answer the question, or ask only one",
+};
+
+// Once is a writing choice; this many times is a habit
+const MIN_TRIADS = 2;
+const MIN_PUNCHLINE_PARAGRAPHS = 3;
+const PUNCHLINE_RATIO = 0.6;
+const MAX_PUNCHLINE_WORDS = 2;
+const MIN_OPENER_RUN = 3;
+const MIN_QUESTION_RUN = 2;
+
+const SUBJECT = "(?:it|this|that|they)";
+
+const ANTITHESIS = new RegExp(
+  `\\b${SUBJECT}(?:['’]s not|['’]re not| is not| are not| was not| isn['’]t| aren['’]t| wasn['’]t)\\s[^.!?\\n]{1,60}?[.;,—–-]\\s*${SUBJECT}(?:['’]s|['’]re| is| are| was)\\s[^.!?\\n]*[.!?]?`,
+  "gi"
+);
+
+const TRIAD_ITEM = "[\\p{L}\\p{N}'’-]+(?:\\s[\\p{L}\\p{N}'’-]+){0,2}";
+const TRIAD = new RegExp(`${TRIAD_ITEM}, ${TRIAD_ITEM},? and ${TRIAD_ITEM}(?=[.!?\\n]|$)`, "gu");
+
+// A short lead-in that ends in a colon, at the start of a line or sentence
+const COLON_SETUP = /(?:^|(?<=[.!?]\s))(?:here['’]s|here is|the|my|this is|that['’]s)\b[^:\n.!?]{0,30}:(?=\s|$)/gim;
+
+interface Sentence extends TellLocation {
+  paragraph: number;
+}
+
+/**
+ * Sentences with their spans, split on sentence punctuation followed by
+ * whitespace and on line breaks. Blank lines start a new paragraph.
+ */
+function splitSentences(text: string): Sentence[] {
+  const sentences: Sentence[] = [];
+  const boundary = /[.!?]+["'”’)]*(?=\s|$)/g;
+  let paragraph = 0;
+  let lineStart = 0;
+
+  for (const line of text.split("\n")) {
+    if (!line.trim()) {
+      if (sentences.length > 0 && sentences[sentences.length - 1].paragraph === paragraph) paragraph++;
+    } else {
+      let start = 0;
+      const push = (end: number) => {
+        const raw = line.slice(start, end);
+        const trimmed = raw.trim();
+        if (trimmed) {
+          const offset = lineStart + start + raw.indexOf(trimmed);
+          sentences.push({ start: offset, end: offset + trimmed.length, text: trimmed, paragraph });
+        }
+        start = end;
+      };
+      boundary.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = boundary.exec(line)) !== null) {
+        push(match.index + match[0].length);
+      }
+      push(line.length);
+    }
+    lineStart += line.length + 1;
+  }
+
+  return sentences;
+}
+
+function wordsOf(sentence: string): string[] {
+  return sentence.split(/\s+/).map(w => w.replace(/[^\p{L}\p{N}'’]/gu, "")).filter(Boolean);
+}
+
+function findAll(text: string, pattern: RegExp): TellLocation[] {
+  const locations: TellLocation[] = [];
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const found = match[0].trimEnd();
+    locations.push({ start: match.index, end: match.index + found.length, text: found });
+  }
+  return locations;
+}
+
+/**
+ * Runs of consecutive sentences that satisfy `same`, at least `minLength` long
+ */
+function findRuns(
+  sentences: Sentence[],
+  minLength: number,
+  same: (a: Sentence, b: Sentence) => boolean
+): TellLocation[][] {
+  const runs: TellLocation[][] = [];
+  let run: Sentence[] = [];
+  for (const sentence of sentences) {
+    if (run.length > 0 && !same(run[run.length - 1], sentence)) {
+      if (run.length >= minLength) runs.push(run);
+      run = [];
+    }
+    run.push(sentence);
+  }
+  if (run.length >= minLength) runs.push(run);
+  return runs;
+}
+
+function spanOf(text: string, run: TellLocation[]): TellLocation {
+  const start = run[0].start;
+  const end = run[run.length - 1].end;
+  return { start, end, text: text.slice(start, end) };
+}
+
+function firstWord(sentence: Sentence): string {
+  return (wordsOf(sentence.text)[0] ?? "").toLowerCase();
+}
+
+function isQuestion(sentence: Sentence): boolean {
+  return /\?["'”’)]*$/.test(sentence.text);
+}
+
+function findPunchlineEndings(sentences: Sentence[]): TellLocation[] {
+  const lastByParagraph = new Map<number, Sentence>();
+  for (const sentence of sentences) lastByParagraph.set(sentence.paragraph, sentence);
+
+  const paragraphs = [...lastByParagraph.values()];
+  const punchlines = paragraphs.filter(s => wordsOf(s.text).length <= MAX_PUNCHLINE_WORDS);
+
+  return punchlines.length >= MIN_PUNCHLINE_PARAGRAPHS && punchlines.length / paragraphs.length >= PUNCHLINE_RATIO
+    ? punchlines.map(({ start, end, text }) => ({ start, end, text }))
+    : [];
+}
+
+/**
+ * Find the structural tells in a post. Only patterns past their threshold
+ * are returned, each with how often it occurs and where.
+ */
+export function detectStructuralTells(text: string): StructuralTell[] {
+  const sentences = splitSentences(text);
+
+  const triads = findAll(text, TRIAD);
+  const found: Record<StructuralTellKind, TellLocation[]> = {
+    antithesis: findAll(text, ANTITHESIS),
+    ruleOfThree: triads.length >= MIN_TRIADS ? triads : [],
+    punchlineEndings: findPunchlineEndings(sentences),
+    colonSetup: findAll(text, COLON_SETUP),
+    repeatedOpeners: findRuns(sentences, MIN_OPENER_RUN, (a, b) => firstWord(a) !== "" && firstWord(a) === firstWord(b))
+      .map(run => spanOf(text, run)),
+    rhetoricalQuestions: findRuns(sentences, MIN_QUESTION_RUN, (a, b) => isQuestion(a) && isQuestion(b))
+      .map(run => spanOf(text, run)),
+  };
+
+  return (Object.keys(found) as StructuralTellKind[])
+    .filter(kind => found[kind].length > 0)
+    .map(kind => ({
+      kind,
+      label: STRUCTURAL_TELL_LABELS[kind],
+      count: found[kind].length,
+      locations: found[kind],
+    }));
+}
@@ -0,0 +1,128 @@
+/**
+ * LLM Configuration
+ *
+ * Provider and model are chosen through environment variables:
+ *
+ *   LLM_PROVIDER=gemini|anthropic|openai|mock   (default: gemini)
+ *   LLM_MODEL=<model id>                        (default: per provider)
+ *   LLM_BASE_URL=<url>                          (OpenAI-compatible only)
+ *
+ * API keys stay server-side: GEMINI_API_KEY, ANTHROPIC_API_KEY, OPENAI_API_KEY.
+ * A workspace or request can pick a different provider and model per call
+ * (see resolveLLMConfig); its key is read from the same variables.
+ */
+
+import { LLMConfig, LLMProviderId, LLMSelection, ModelPricing } from "./types";
+
+// Only the LLM_* / *_API_KEY variables are read
+type LLMEnv = Record<string, string | undefined>;
+
+const PROVIDER_IDS: LLMProviderId[] = ["gemini", "anthropic", "openai", "mock"];
+
+export const DEFAULT_MODELS: Record<LLMProviderId, string> = {
+  gemini: "gemini-2.5-flash",
+  anthropic: "claude-sonnet-4-5",
+  openai: "gpt-4o-mini",
+  mock: "mock-deterministic",
+};
+
+const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+// Pricing per 1K tokens (USD). Unknown models fall back to the env override or zero.
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  "gemini-2.5-flash": { prompt: 0.00025, completion: 0.001 },
+  "gemini-2.5-pro": { prompt: 0.00125, completion: 0.01 },
+  "claude-sonnet-4-5": { prompt: 0.003, completion: 0.015 },
+  "claude-haiku-4-5": { prompt: 0.001, completion: 0.005 },
+  "claude-opus-4-1": { prompt: 0.015, completion: 0.075 },
+  "gpt-4o-mini": { prompt: 0.00015, completion: 0.0006 },
+  "gpt-4o": { prompt: 0.0025, completion: 0.01 },
+};
+
+const API_KEY_ENV: Record<LLMProviderId, string | null> = {
+  gemini: "GEMINI_API_KEY",
+  anthropic: "ANTHROPIC_API_KEY",
+  openai: "OPENAI_API_KEY",
+  mock: null,
+};
+
+/**
+ * Parse provider id, falling back to Gemini for unknown values
+ */
+function parseProviderId(value: string | undefined): LLMProviderId {
+  const normalized = value?.trim().toLowerCase();
+  if (normalized && (PROVIDER_IDS as string[]).includes(normalized)) {
+    return normalized as LLMProviderId;
+  }
+  if (normalized) {
+    console.warn(`[LLM] Unknown LLM_PROVIDER "${value}", falling back to gemini`);
+  }
+  return "gemini";
+}
+
+/**
+ * Build the LLM configuration from environment variables
+ */
+export function loadLLMConfigFromEnv(env: LLMEnv = process.env): LLMConfig {
+  const provider = parseProviderId(env.LLM_PROVIDER);
+  const keyEnv = API_KEY_ENV[provider];
+
+  return {
+    provider,
+    model: env.LLM_MODEL?.trim() || DEFAULT_MODELS[provider],
+    temperature: env.LLM_TEMPERATURE ? parseFloat(env.LLM_TEMPERATURE) : 0.7,
+    maxOutputTokens: env.LLM_MAX_OUTPUT_TOKENS ? parseInt(env.LLM_MAX_OUTPUT_TOKENS) : 4096,
+    apiKey: keyEnv ? env[keyEnv] : undefined,
+    baseUrl: provider === "openai" ? env.LLM_BASE_URL?.trim() || DEFAULT_OPENAI_BASE_URL : undefined,
+  };
+}
+
+/**
+ * Build the configuration for a provider picked per workspace or request.
+ * LLM_MODEL only applies when the selection keeps the environment's provider.
+ */
+export function resolveLLMConfig(selection: LLMSelection, env: LLMEnv = process.env): LLMConfig {
+  const sameProvider = parseProviderId(env.LLM_PROVIDER) === selection.provider;
+  return loadLLMConfigFromEnv({
+    ...env,
+    LLM_PROVIDER: selection.provider,
+    LLM_MODEL: selection.model ?? (sameProvider ? env.LLM_MODEL : undefined),
+  });
+}
+
+/**
+ * Whether the provider can run with this config.
+ * Local OpenAI-compatible servers (custom base URL) don't need a key.
+ */
+export function isConfigComplete(config: LLMConfig): boolean {
+  if (config.provider === "mock") return true;
+  if (config.provider === "openai" && config.baseUrl !== DEFAULT_OPENAI_BASE_URL) return true;
+  return !!config.apiKey;
+}
+
+/**
+ * Human-readable explanation of what's missing from the config
+ */
+export function describeMissingConfig(config: LLMConfig): string {
+  const keyEnv = API_KEY_ENV[config.provider];
+  return (
+    `${keyEnv} is not configured for LLM_PROVIDER=${config.provider}. ` +
+    "Please add it to your .env.local file."
+  );
+}
+
+/**
+ * Get token pricing for the configured model
+ */
+export function getModelPricing(
+  config: LLMConfig,
+  env: LLMEnv = process.env
+): ModelPricing {
+  if (env.LLM_COST_PROMPT_PER_1K || env.LLM_COST_COMPLETION_PER_1K) {
+    return {
+      prompt: parseFloat(env.LLM_COST_PROMPT_PER_1K || "0"),
+      completion: parseFloat(env.LLM_COST_COMPLETION_PER_1K || "0"),
+    };
+  }
+  return MODEL_PRICING[config.model] || { prompt: 0, completion: 0 };
+}
@@ -0,0 +1,414 @@
+import { enqueue, getQueueStats, isQueueHealthy } from "@/lib/utils/request-queue";
+import {
+  loadLLMConfigFromEnv,
+  resolveLLMConfig,
+  isConfigComplete,
+  describeMissingConfig,
+  getModelPricing,
+} from "./config";
+import { createGeminiProvider } from "./providers/gemini";
+import { createAnthropicProvider } from "./providers/anthropic";
+import { createOpenAICompatibleProvider } from "./providers/openai-compatible";
+import { createMockProvider } from "./providers/mock";
+import { LLMConfig, LLMProvider, LLMResult, LLMSelection, ModelPricing, TokenUsage } from "./types";
+
+export type { LLMConfig, LLMProvider, LLMProviderId, LLMResult, LLMSelection } from "./types";
+
+// ==========================================
+// CONFIGURATION
+// ==========================================
+
+// Default timeout for API calls (30 seconds)
+const DEFAULT_TIMEOUT_MS = 30000;
+
+let activeConfig: LLMConfig = loadLLMConfigFromEnv();
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Instantiate the provider for a config
+ */
+export function createProvider(config: LLMConfig): LLMProvider {
+  switch (config.provider) {
+    case "gemini":
+      return createGeminiProvider(config);
+    case "anthropic":
+      return createAnthropicProvider(config);
+    case "openai":
+      return createOpenAICompatibleProvider(config);
+    case "mock":
+      return createMockProvider(config);
+  }
+}
+
+/**
+ * Get the active provider, creating it on first use.
+ * Fails fast (server-side) when the selected provider has no API key.
+ */
+export function getProvider(): LLMProvider {
+  if (!activeProvider) {
+    if (!isConfigComplete(activeConfig)) {
+      throw new Error(describeMissingConfig(activeConfig));
+    }
+    activeProvider = createProvider(activeConfig);
+  }
+  return activeProvider;
+}
+
+/**
+ * The provider and config for one call: a provider created for `selection`
+ * (e.g. a workspace's choice), or the active one without it
+ */
+function resolveProvider(selection?: LLMSelection): { provider: LLMProvider; config: LLMConfig } {
+  if (!selection) {
+    const provider = getProvider();
+    return { provider, config: activeConfig };
+  }
+  const config = resolveLLMConfig(selection);
+  if (!isConfigComplete(config)) {
+    throw new Error(describeMissingConfig(config));
+  }
+  return { provider: createProvider(config), config };
+}
+
+/**
+ * Install a pre-built provider (used for mocks with custom responders)
+ */
+export function setProvider(provider: LLMProvider | null): void {
+  activeProvider = provider;
+  if (provider) {
+    activeConfig = { ...activeConfig, provider: provider.id, model: provider.model };
+  }
+}
+
+/**
+ * Restore the environment-derived configuration
+ */
+export function resetLLMConfig(): void {
+  activeConfig = loadLLMConfigFromEnv();
+  activeProvider = null;
+}
+
+/**
+ * Check if the selected provider is properly configured
+ */
+export function isLLMConfigured(): boolean {
+  return activeProvider !== null || isConfigComplete(activeConfig);
+}
+
+/**
+ * Describe the active provider and model (no secrets)
+ */
+export function getLLMInfo(): { provider: string; model: string; configured: boolean } {
+  return {
+    provider: activeConfig.provider,
+    model: activeConfig.model,
+    configured: isLLMConfigured(),
+  };
+}
+
+// ==========================================
+// COST TRACKING
+// ==========================================
+
+interface UsageMetrics {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCost: number;
+  requestCount: number;
+}
+
+// Track usage per session (resets on server restart)
+const sessionUsage: UsageMetrics = {
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  estimatedCost: 0,
+  requestCount: 0,
+};
+
+// Daily cost warning threshold
+const DAILY_COST_WARNING_THRESHOLD = 10; // $10
+
+/**
+ * Track API usage for cost monitoring
+ */
+function trackUsage(usage: TokenUsage, config: LLMConfig): void {
+  const pricing: ModelPricing = getModelPricing(config);
+  const { promptTokens, completionTokens } = usage;
+  sessionUsage.promptTokens += promptTokens;
+  sessionUsage.completionTokens += completionTokens;
+  sessionUsage.totalTokens += promptTokens + completionTokens;
+  sessionUsage.requestCount += 1;
+  sessionUsage.estimatedCost +=
+    (promptTokens / 1000) * pricing.prompt +
+    (completionTokens / 1000) * pricing.completion;
+
+  // Log usage in development
+  if (process.env.NODE_ENV === "development") {
+    console.log(`[LLM:${config.provider}] Tokens: ${promptTokens}+${completionTokens}, Total cost: $${sessionUsage.estimatedCost.toFixed(4)}`);
+  }
+
+  // Warn if cost exceeds threshold
+  if (sessionUsage.estimatedCost > DAILY_COST_WARNING_THRESHOLD) {
+    console.warn(`[COST WARNING] Session cost: $${sessionUsage.estimatedCost.toFixed(2)} exceeds $${DAILY_COST_WARNING_THRESHOLD} threshold`);
+  }
+}
+
+/**
+ * Get current usage metrics
+ */
+export function getUsageMetrics(): UsageMetrics {
+  return { ...sessionUsage };
+}
+
+/**
+ * Reset usage metrics (call at start of billing period)
+ */
+export function resetUsageMetrics(): void {
+  sessionUsage.promptTokens = 0;
+  sessionUsage.completionTokens = 0;
+  sessionUsage.totalTokens = 0;
+  sessionUsage.estimatedCost = 0;
+  sessionUsage.requestCount = 0;
+}
+
+// ==========================================
+// UTILITY FUNCTIONS
+// ==========================================
+
+/**
+ * Run a provider call with a timeout, aborting the underlying request on expiry
+ */
+async function withTimeout<T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS,
+  operation: string = "API call"
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`${operation} timeout after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Validate a provider result and extract its text
+ */
+function validateResponse(result: LLMResult, prompt: string, config: LLMConfig): string {
+  // Check for safety blocks
+  if (result.blockReason) {
+    throw new Error(`Content blocked by safety filter: ${result.blockReason}`);
+  }
+
+  // Track token usage (estimated from text length if the backend didn't report it)
+  trackUsage(
+    result.usage || {
+      promptTokens: Math.ceil(prompt.length / 4),
+      completionTokens: Math.ceil(result.text.length / 4),
+    },
+    config
+  );
+
+  if (!result.text || result.text.trim().length === 0) {
+    throw new Error("Empty response from AI model");
+  }
+
+  return result.text;
+}
+
+// ==========================================
+// GENERATION FUNCTIONS
+// ==========================================
+
+/**
+ * Generate content with a single prompt
+ * Includes queue management, timeout handling, response validation, and cost tracking.
+ * `llm` runs the call on another provider than the environment's.
+ */
+export async function generate(
+  prompt: string,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS,
+  priority: "normal" | "high" = "normal",
+  llm?: LLMSelection
+): Promise<string> {
+  const { provider, config } = resolveProvider(llm);
+
+  // Check queue health before adding more requests
+  if (!isQueueHealthy()) {
+    console.warn("[LLM] Queue is backing up, request may be delayed");
+  }
+
+  // Enqueue the request to respect rate limits
+  return enqueue(async () => {
+    const result = await withTimeout(
+      (signal) => provider.generate({ prompt, signal }),
+      timeoutMs,
+      "Content generation"
+    );
+    return validateResponse(result, prompt, config);
+  }, priority);
+}
+
+/**
+ * Generate multiple versions of content
+ */
+export async function generateMultiple(
+  prompt: string,
+  count: number,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS,
+  llm?: LLMSelection
+): Promise<string[]> {
+  const { provider, config } = resolveProvider(llm);
+  const multiPrompt = `${prompt}\n\nGenerate ${count} completely different versions. Number each version as VERSION 1, VERSION 2, etc.`;
+
+  // Enqueue the request
+  const text = await enqueue(async () => {
+    const result = await withTimeout(
+      (signal) => provider.generate({ prompt: multiPrompt, signal }),
+      timeoutMs,
+      "Multiple content generation"
+    );
+    return validateResponse(result, multiPrompt, config);
+  });
+
+  // Parse versions from response
+  const versions: string[] = [];
+  const versionRegex = /VERSION\s*(\d+):\s*([\s\S]*?)(?=VERSION\s*\d+:|$)/gi;
+  let match;
+
+  while ((match = versionRegex.exec(text)) !== null) {
+    versions.push(match[2].trim());
+  }
+
+  // If parsing failed, return the whole response as one version
+  if (versions.length === 0) {
+    versions.push(text);
+  }
+
+  return versions;
+}
+
+/**
+ * Generate with retry logic (exponential backoff)
+ * Handles transient errors and rate limits gracefully
+ */
+export async function generateWithRetry(
+  prompt: string,
+  maxAttempts: number = 3,
+  baseDelay: number = 1000,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS,
+  llm?: LLMSelection
+): Promise<string> {
+  let lastError: Error | null = null;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      return await generate(prompt, timeoutMs, "normal", llm);
+    } catch (error) {
+      lastError = error as Error;
+
+      // Don't retry on safety blocks - they won't change
+      if (lastError.message.includes("Content blocked")) {
+        throw lastError;
+      }
+
+      if (attempt < maxAttempts) {
+        const delay = baseDelay * Math.pow(2, attempt - 1);
+        // Add jitter to prevent thundering herd
+        const jitter = Math.random() * 500;
+        await new Promise(resolve => setTimeout(resolve, delay + jitter));
+      }
+    }
+  }
+
+  throw lastError || new Error("Generation failed after all retries");
+}
+
+/**
+ * Generate with streaming response
+ * Note: Streaming doesn't go through queue as it needs real-time chunks
+ */
+export async function generateStream(
+  prompt: string,
+  onChunk: (chunk: string) => void,
+  timeoutMs: number = 60000, // Longer timeout for streaming
+  llm?: LLMSelection
+): Promise<string> {
+  const { provider, config } = resolveProvider(llm);
+
+  // Check queue health - streaming doesn't queue but we still check rate limits
+  const stats = getQueueStats();
+  if (stats.pending > 10) {
+    console.warn("[LLM] High queue load, streaming may impact rate limits");
+  }
+
+  const result = await withTimeout(
+    (signal) => provider.generateStream({ prompt, signal }, onChunk),
+    timeoutMs,
+    "Stream generation"
+  );
+
+  if (!result.blockReason && (!result.text || result.text.trim().length === 0)) {
+    throw new Error("Empty streaming response from AI model");
+  }
+
+  return validateResponse(result, prompt, config);
+}
+
+/**
+ * Parse JSON out of a model reply.
+ * Tolerates markdown code fences and prose around a single top-level object.
+ */
+export function parseJSONResponse<T = unknown>(text: string): T {
+  // Clean up response - remove markdown code blocks if present
+  let cleaned = text.trim();
+  if (cleaned.startsWith("```json")) {
+    cleaned = cleaned.slice(7);
+  } else if (cleaned.startsWith("```")) {
+    cleaned = cleaned.slice(3);
+  }
+  if (cleaned.endsWith("```")) {
+    cleaned = cleaned.slice(0, -3);
+  }
+  cleaned = cleaned.trim();
+
+  try {
+    return JSON.parse(cleaned) as T;
+  } catch (parseError) {
+    // Fall back to the outermost object if the model wrapped it in prose
+    const start = cleaned.indexOf("{");
+    const end = cleaned.lastIndexOf("}");
+    if (start !== -1 && end > start) {
+      try {
+        return JSON.parse(cleaned.slice(start, end + 1)) as T;
+      } catch {
+        // Report the original error below
+      }
+    }
+    throw new Error(`Failed to parse AI response as JSON: ${parseError instanceof Error ? parseError.message : "Unknown error"}`);
+  }
+}
+
+/**
+ * Extract structured JSON from AI response
+ */
+export async function generateJSON<T>(
+  prompt: string,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS,
+  llm?: LLMSelection
+): Promise<T> {
+  const jsonPrompt = `${prompt}\n\nRespond ONLY with valid JSON, no markdown or explanation.`;
+  const result = await generate(jsonPrompt, timeoutMs, "normal", llm);
+  return parseJSONResponse<T>(result);
+}
@@ -0,0 +1,101 @@
+import { readSSEStream } from "@/lib/utils/sse";
+import { LLMConfig, LLMProvider, LLMRequest, LLMResult } from "../types";
+
+const ANTHROPIC_API_URL = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_VERSION = "2023-06-01";
+
+interface AnthropicMessageResponse {
+  content: { type: string; text?: string }[];
+  stop_reason: string | null;
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+interface AnthropicStreamEvent {
+  message?: { usage?: { input_tokens: number } };
+  delta?: { type?: string; text?: string; stop_reason?: string | null };
+  usage?: { output_tokens: number };
+  error?: { message: string };
+}
+
+/**
+ * Anthropic Messages API provider (plain fetch, no SDK)
+ */
+export function createAnthropicProvider(config: LLMConfig): LLMProvider {
+  const request = (prompt: string, stream: boolean, signal?: AbortSignal) =>
+    fetch(ANTHROPIC_API_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": config.apiKey!,
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: config.model,
+        max_tokens: config.maxOutputTokens,
+        temperature: config.temperature,
+        messages: [{ role: "user", content: prompt }],
+        stream,
+      }),
+      signal,
+    });
+
+  const assertOk = async (response: Response) => {
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new Error(`Anthropic API error ${response.status}: ${detail.slice(0, 200)}`);
+    }
+  };
+
+  return {
+    id: "anthropic",
+    model: config.model,
+
+    async generate({ prompt, signal }: LLMRequest): Promise<LLMResult> {
+      const response = await request(prompt, false, signal);
+      await assertOk(response);
+      const data = (await response.json()) as AnthropicMessageResponse;
+
+      return {
+        text: data.content
+          .filter(block => block.type === "text")
+          .map(block => block.text || "")
+          .join(""),
+        blockReason: data.stop_reason === "refusal" ? "REFUSAL" : undefined,
+        usage: data.usage
+          ? {
+              promptTokens: data.usage.input_tokens,
+              completionTokens: data.usage.output_tokens,
+            }
+          : undefined,
+      };
+    },
+
+    async generateStream({ prompt, signal }: LLMRequest, onChunk): Promise<LLMResult> {
+      const response = await request(prompt, true, signal);
+      await assertOk(response);
+      if (!response.body) throw new Error("Anthropic API returned no stream body");
+
+      let text = "";
+      let blockReason: string | undefined;
+      const usage = { promptTokens: 0, completionTokens: 0 };
+
+      await readSSEStream(response.body, ({ event, data }) => {
+        const payload = data as AnthropicStreamEvent;
+        if (event === "message_start") {
+          usage.promptTokens = payload.message?.usage?.input_tokens || 0;
+        } else if (event === "content_block_delta" && payload.delta?.type === "text_delta") {
+          const delta = payload.delta.text || "";
+          text += delta;
+          onChunk(delta);
+        } else if (event === "message_delta") {
+          usage.completionTokens = payload.usage?.output_tokens || usage.completionTokens;
+          if (payload.delta?.stop_reason === "refusal") blockReason = "REFUSAL";
+        } else if (event === "error") {
+          throw new Error(`Anthropic stream error: ${payload.error?.message || "unknown"}`);
+        }
+      });
+
+      return { text, usage, blockReason };
+    },
+  };
+}
@@ -0,0 +1,94 @@
+import {
+  GoogleGenerativeAI,
+  GenerativeModel,
+  GenerateContentResponse,
+  HarmCategory,
+  HarmBlockThreshold,
+} from "@google/generative-ai";
+import { LLMConfig, LLMProvider, LLMRequest, LLMResult } from "../types";
+
+/**
+ * Safety settings to prevent harmful content generation
+ * Using BLOCK_MEDIUM_AND_ABOVE for balanced content safety
+ */
+const safetySettings = [
+  {
+    category: HarmCategory.HARM_CATEGORY_HARASSMENT,
+    threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+  },
+  {
+    category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+    threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+  },
+  {
+    category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+    threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+  },
+  {
+    category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+    threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+  },
+];
+
+/**
+ * Convert a Gemini response into a provider-neutral result
+ */
+function toResult(response: GenerateContentResponse, text: string): LLMResult {
+  const blockReason =
+    response.promptFeedback?.blockReason ||
+    (response.candidates?.[0]?.finishReason === "SAFETY" ? "SAFETY" : undefined);
+
+  return {
+    text,
+    blockReason,
+    usage: response.usageMetadata
+      ? {
+          promptTokens: response.usageMetadata.promptTokenCount || 0,
+          completionTokens: response.usageMetadata.candidatesTokenCount || 0,
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Google Gemini provider (default)
+ */
+export function createGeminiProvider(config: LLMConfig): LLMProvider {
+  // API key is server-side only, never exposed to client
+  const genAI = new GoogleGenerativeAI(config.apiKey!);
+  const model: GenerativeModel = genAI.getGenerativeModel({
+    model: config.model,
+    generationConfig: {
+      temperature: config.temperature,
+      maxOutputTokens: config.maxOutputTokens,
+    },
+    safetySettings,
+  });
+
+  return {
+    id: "gemini",
+    model: config.model,
+
+    async generate({ prompt, signal }: LLMRequest): Promise<LLMResult> {
+      const result = await model.generateContent(prompt, { signal });
+      const response = result.response;
+      // text() throws when the response was blocked, so check feedback first
+      const blocked = toResult(response, "");
+      if (blocked.blockReason) return blocked;
+      return toResult(response, response.text());
+    },
+
+    async generateStream({ prompt, signal }: LLMRequest, onChunk): Promise<LLMResult> {
+      const result = await model.generateContentStream(prompt, { signal });
+      let fullText = "";
+
+      for await (const chunk of result.stream) {
+        const chunkText = chunk.text();
+        fullText += chunkText;
+        onChunk(chunkText);
+      }
+
+      return toResult(await result.response, fullText);
+    },
+  };
+}
@@ -0,0 +1,63 @@
+import { LLMConfig, LLMProvider, LLMRequest, LLMResult } from "../types";
+
+export type MockResponder = (prompt: string) => string;
+
+/**
+ * Stable 32-bit FNV-1a hash of a prompt, as 8 hex chars
+ */
+export function hashPrompt(prompt: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < prompt.length; i++) {
+    hash ^= prompt.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Default responder: same prompt always yields the same text
+ */
+const defaultResponder: MockResponder = (prompt) =>
+  `MOCK RESPONSE ${hashPrompt(prompt)}`;
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Deterministic mock provider for local development and tests.
+ * Never touches the network and reports zero cost.
+ */
+export function createMockProvider(
+  config: Pick<LLMConfig, "model">,
+  responder: MockResponder = defaultResponder
+): LLMProvider {
+  const respond = (prompt: string): LLMResult => {
+    const text = responder(prompt);
+    return {
+      text,
+      usage: {
+        promptTokens: estimateTokens(prompt),
+        completionTokens: estimateTokens(text),
+      },
+    };
+  };
+
+  return {
+    id: "mock",
+    model: config.model,
+
+    async generate({ prompt }: LLMRequest): Promise<LLMResult> {
+      return respond(prompt);
+    },
+
+    async generateStream({ prompt }: LLMRequest, onChunk): Promise<LLMResult> {
+      const result = respond(prompt);
+      // Emit line by line so stream consumers see more than one chunk
+      for (const line of result.text.split(/(?<=\n)/)) {
+        onChunk(line);
+      }
+      return result;
+    },
+  };
+}
@@ -0,0 +1,101 @@
+import { readSSEStream } from "@/lib/utils/sse";
+import { LLMConfig, LLMProvider, LLMRequest, LLMResult } from "../types";
+
+interface ChatCompletionResponse {
+  choices: { message?: { content: string | null }; finish_reason: string | null }[];
+  usage?: { prompt_tokens: number; completion_tokens: number };
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null }; finish_reason: string | null }[];
+  usage?: { prompt_tokens: number; completion_tokens: number } | null;
+}
+
+/**
+ * OpenAI-compatible chat completions provider
+ *
+ * Works with OpenAI itself and with local servers that expose the same API
+ * (Ollama at http://localhost:11434/v1, llama.cpp server, vLLM, LM Studio).
+ */
+export function createOpenAICompatibleProvider(config: LLMConfig): LLMProvider {
+  const baseUrl = (config.baseUrl || "").replace(/\/+$/, "");
+
+  const request = (prompt: string, stream: boolean, signal?: AbortSignal) =>
+    fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: config.model,
+        messages: [{ role: "user", content: prompt }],
+        temperature: config.temperature,
+        max_tokens: config.maxOutputTokens,
+        stream,
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+      }),
+      signal,
+    });
+
+  const assertOk = async (response: Response) => {
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new Error(`OpenAI-compatible API error ${response.status}: ${detail.slice(0, 200)}`);
+    }
+  };
+
+  return {
+    id: "openai",
+    model: config.model,
+
+    async generate({ prompt, signal }: LLMRequest): Promise<LLMResult> {
+      const response = await request(prompt, false, signal);
+      await assertOk(response);
+      const data = (await response.json()) as ChatCompletionResponse;
+      const choice = data.choices[0];
+
+      return {
+        text: choice?.message?.content || "",
+        blockReason: choice?.finish_reason === "content_filter" ? "CONTENT_FILTER" : undefined,
+        usage: data.usage
+          ? {
+              promptTokens: data.usage.prompt_tokens,
+              completionTokens: data.usage.completion_tokens,
+            }
+          : undefined,
+      };
+    },
+
+    async generateStream({ prompt, signal }: LLMRequest, onChunk): Promise<LLMResult> {
+      const response = await request(prompt, true, signal);
+      await assertOk(response);
+      if (!response.body) throw new Error("OpenAI-compatible API returned no stream body");
+
+      let text = "";
+      let blockReason: string | undefined;
+      let usage: LLMResult["usage"];
+
+      await readSSEStream(response.body, ({ data }) => {
+        // The stream terminates with a literal "[DONE]"
+        if (typeof data !== "object" || data === null) return;
+        const chunk = data as ChatCompletionChunk;
+        const choice = chunk.choices?.[0];
+        const delta = choice?.delta?.content;
+        if (delta) {
+          text += delta;
+          onChunk(delta);
+        }
+        if (choice?.finish_reason === "content_filter") blockReason = "CONTENT_FILTER";
+        if (chunk.usage) {
+          usage = {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+          };
+        }
+      });
+
+      return { text, usage, blockReason };
+    },
+  };
+}
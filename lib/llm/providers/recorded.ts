@@ -0,0 +1,87 @@
+import { LLMProvider, LLMRequest, LLMResult } from "../types";
+import { hashPrompt } from "./mock";
+
+/**
+ * Recorded responses keyed by prompt hash.
+ * Multiple responses for the same prompt are replayed in order (the last
+ * one repeats), which is how retries of an identical prompt are captured.
+ */
+export type PromptRecordings = Record<string, string[]>;
+
+export interface RecordedProviderOptions {
+  recordings: PromptRecordings;
+  // When set, misses are forwarded here and the response is recorded
+  passthrough?: LLMProvider;
+}
+
+export interface RecordedProvider extends LLMProvider {
+  // Responses served during this session, keyed by prompt hash
+  getRecordings(): PromptRecordings;
+  // Full prompt text for each hash served during this session
+  getPrompts(): Record<string, string>;
+  getMisses(): string[];
+}
+
+/**
+ * Fixture-replay provider.
+ *
+ * Replay mode (no passthrough): every prompt must have a recording, otherwise
+ * the call fails with the prompt hash so the fixture can be re-recorded.
+ * Record mode (passthrough): unknown prompts go to the live provider.
+ */
+export function createRecordedProvider({
+  recordings,
+  passthrough,
+}: RecordedProviderOptions): RecordedProvider {
+  const recorded: PromptRecordings = {};
+  const prompts: Record<string, string> = {};
+  const cursors = new Map<string, number>();
+  const misses: string[] = [];
+
+  const replay = async (request: LLMRequest): Promise<LLMResult> => {
+    const hash = hashPrompt(request.prompt);
+    prompts[hash] = request.prompt;
+    const responses = recordings[hash];
+
+    if (!responses || responses.length === 0) {
+      misses.push(hash);
+      if (!passthrough) {
+        const preview = request.prompt.slice(0, 80).replace(/\s+/g, " ");
+        throw new Error(`No recorded response for prompt ${hash} ("${preview}...")`);
+      }
+      const result = await passthrough.generate(request);
+      recorded[hash] = [...(recorded[hash] || []), result.text];
+      return result;
+    }
+
+    const cursor = cursors.get(hash) || 0;
+    cursors.set(hash, cursor + 1);
+    const text = responses[Math.min(cursor, responses.length - 1)];
+    recorded[hash] = [...(recorded[hash] || []), text];
+
+    return {
+      text,
+      usage: {
+        promptTokens: Math.ceil(request.prompt.length / 4),
+        completionTokens: Math.ceil(text.length / 4),
+      },
+    };
+  };
+
+  return {
+    id: passthrough?.id ?? "mock",
+    model: passthrough?.model ?? "recorded",
+
+    generate: replay,
+
+    async generateStream(request: LLMRequest, onChunk): Promise<LLMResult> {
+      const result = await replay(request);
+      onChunk(result.text);
+      return result;
+    },
+
+    getRecordings: () => recorded,
+    getPrompts: () => ({ ...prompts }),
+    getMisses: () => [...misses],
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * LLM Provider Types
+ *
+ * Every backend (Gemini, Anthropic, OpenAI-compatible, mock) implements
+ * LLMProvider. Queueing, timeouts, cost tracking and response validation
+ * live in lib/llm/index.ts and apply to all providers equally.
+ */
+
+export type LLMProviderId = "gemini" | "anthropic" | "openai" | "mock";
+
+export interface LLMConfig {
+  provider: LLMProviderId;
+  model: string;
+  temperature: number;
+  maxOutputTokens: number;
+  apiKey?: string;
+  // Only used by the OpenAI-compatible provider (e.g. Ollama, llama.cpp)
+  baseUrl?: string;
+}
+
+// Provider (and optionally model) picked for a workspace or a single request.
+// API keys and the other settings still come from the environment.
+export interface LLMSelection {
+  provider: LLMProviderId;
+  model?: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMRequest {
+  prompt: string;
+  signal?: AbortSignal;
+}
+
+export interface LLMResult {
+  text: string;
+  // Omitted when the backend doesn't report usage; the caller estimates it
+  usage?: TokenUsage;
+  // Set when the backend refused the prompt or the completion
+  blockReason?: string;
+}
+
+export interface LLMProvider {
+  readonly id: LLMProviderId;
+  readonly model: string;
+  generate(request: LLMRequest): Promise<LLMResult>;
+  generateStream(
+    request: LLMRequest,
+    onChunk: (chunk: string) => void
+  ): Promise<LLMResult>;
+}
+
+export interface ModelPricing {
+  // USD per 1K tokens
+  prompt: number;
+  completion: number;
+}
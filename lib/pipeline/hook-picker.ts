@@ -0,0 +1,66 @@
+import { GeneratedPost, QualityGate, QualityReport } from "@/lib/types";
+import { checkHookStrengthGate, validatePost } from "@/lib/guardrails/quality-gates";
+import { appendRevision, reviseContent } from "@/lib/pipeline/revisions";
+
+export interface ScoredHook {
+  hook: string;
+  gate: QualityGate;
+}
+
+/**
+ * Score every hook candidate with the hook strength gate, keeping stage 4's order
+ */
+export function scoreHookOptions(hooks: string[]): ScoredHook[] {
+  return hooks.map(hook => ({ hook, gate: checkHookStrengthGate(hook) }));
+}
+
+/**
+ * Opening of a post: the first paragraph, or the first line if there are no
+ * paragraph breaks (hooks are 1-2 lines)
+ */
+export function getOpening(content: string): string {
+  const text = content.trimStart();
+  const match = text.match(/^[\s\S]*?(?=\n\s*\n)/) ?? text.match(/^[^\n]*/);
+  return match ? match[0] : "";
+}
+
+/**
+ * Replace the opening of a post with `hook`, keeping the rest untouched
+ */
+export function swapHook(content: string, hook: string): string {
+  const text = content.trimStart();
+  return hook.trim() + text.slice(getOpening(text).length);
+}
+
+/**
+ * Re-stitch the post around `hook` and re-run the quality gates without saving
+ */
+export function previewHookSwap(
+  post: GeneratedPost,
+  hook: string
+): { content: string; report: QualityReport } {
+  const content = swapHook(post.outputs.linkedin.post, hook);
+  return { content, report: validatePost(content, post.voiceProfile, post.interviewData) };
+}
+
+/**
+ * Updates that save `hook` as the post's opening, as a new revision.
+ *
+ * The later pipeline versions are re-stitched too, so regenerating
+ * personality or the final check afterwards keeps the chosen hook.
+ */
+export function applyHookChoice(post: GeneratedPost, hook: string): Partial<GeneratedPost> {
+  const { content, report } = previewHookSwap(post, hook);
+  const next = reviseContent(post, content, report, {
+    ...post.pipeline,
+    selectedHook: hook.trim(),
+    hookOptimizedVersion: swapHook(post.pipeline.hookOptimizedVersion, hook),
+    personalityVersion: swapHook(post.pipeline.personalityVersion, hook),
+    finalVersion: content,
+  });
+
+  return {
+    ...next,
+    revisions: appendRevision(post, next, "hook-swap"),
+  };
+}
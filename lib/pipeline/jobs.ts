@@ -0,0 +1,91 @@
+import { GeneratedPost, GenerationJob, PipelineStageId, PostHistoryEntry } from "@/lib/types";
+import {
+  generatePost,
+  clearCheckpointsFrom,
+  getLastCompletedStage,
+  ProgressCallback,
+} from "@/lib/pipeline/multi-stage";
+import {
+  saveGenerationCheckpoint,
+  updateGenerationJobStatus,
+} from "@/lib/supabase/generation-jobs";
+
+// A "running" job this quiet is assumed dead (route maxDuration is 60s)
+export const STALE_JOB_MS = 2 * 60 * 1000;
+
+/**
+ * Why a job can't be resumed, or null if it can
+ */
+export function getResumeBlocker(job: GenerationJob, now: number = Date.now()): string | null {
+  if (job.status === "completed") {
+    return "Job already completed";
+  }
+  if (job.status === "running" && now - new Date(job.updatedAt).getTime() < STALE_JOB_MS) {
+    return "Job is still running";
+  }
+  return null;
+}
+
+/**
+ * Prepare a job for another run, optionally discarding checkpoints from a stage
+ */
+export function prepareJobForResume(job: GenerationJob, fromStage?: PipelineStageId): GenerationJob {
+  return {
+    ...job,
+    status: "running",
+    error: undefined,
+    checkpoints: fromStage ? clearCheckpointsFrom(job.checkpoints, fromStage) : job.checkpoints,
+  };
+}
+
+/**
+ * Run (or resume) a persisted generation job.
+ *
+ * Every completed stage is saved to the job, so a timeout or crash loses at
+ * most the stage in flight. Checkpoint write failures are logged but don't
+ * stop generation. If the job is cancelled from another request the
+ * pipeline stops at the next stage boundary. `history` is the profile's
+ * earlier posts (see GenerationOptions.history).
+ */
+export async function runGenerationJob(
+  job: GenerationJob,
+  userId: string,
+  onProgress?: ProgressCallback,
+  history: PostHistoryEntry[] = []
+): Promise<GeneratedPost> {
+  const controller = new AbortController();
+
+  try {
+    const post = await generatePost(job.interviewData, job.voiceProfile, onProgress, {
+      checkpoints: job.checkpoints,
+      parseFailures: job.parseFailures,
+      attempt: job.attempt,
+      retryFromStage: job.retryFromStage,
+      signal: controller.signal,
+      history,
+      onCheckpoint: async ({ checkpoints, parseFailures, attempt }) => {
+        const { active } = await saveGenerationCheckpoint(userId, job.id, {
+          checkpoints,
+          parseFailures,
+          lastCompletedStage: getLastCompletedStage(checkpoints),
+          attempt,
+        });
+        if (!active) {
+          controller.abort();
+        }
+      },
+    });
+
+    await updateGenerationJobStatus(userId, job.id, "completed", { resultPost: post, error: null });
+    return post;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    await updateGenerationJobStatus(
+      userId,
+      job.id,
+      controller.signal.aborted ? "cancelled" : "failed",
+      { error: message }
+    );
+    throw error;
+  }
+}
@@ -2,9 +2,15 @@ import {
   InterviewResponse, 
   VoiceProfile, 
   GeneratedPost, 
-  VoiceModeId 
+  VoiceModeId,
+  VoiceMode,
+  StageParseFailure,
+  PipelineStageId,
+  PipelineCheckpoints,
+  PostHistoryEntry,
+  QualityGateConfig,
 } from "@/lib/types";
-import { generate, generateMultiple } from "@/lib/gemini";
+import { generateMultiple, LLMSelection } from "@/lib/llm";
 import { VOICE_MODES } from "@/data/voice-modes";
 import { 
   getStage1Prompt,
@@ -13,34 +19,332 @@ import {
   getStage4Prompt,
   getStage5Prompt,
   getStage6Prompt,
-  parseStage2Output,
-  parseStage3Output,
-  parseStage4Output,
-  parseStage5Output,
-  parseStage6Output,
 } from "@/lib/prompts/generation";
-import { checkForForbiddenPhrases } from "@/lib/guardrails/forbidden-phrases";
+import {
+  stage2OutputSchema,
+  stage3OutputSchema,
+  stage4OutputSchema,
+  stage5OutputSchema,
+  stage6OutputSchema,
+} from "@/lib/validation/schemas";
+import { generateStructured } from "@/lib/pipeline/structured-output";
+import { getVersionSelection } from "@/lib/pipeline/revisions";
+import { checkForForbiddenPhrases, getForbiddenPhraseList } from "@/lib/guardrails/forbidden-phrases";
+import { detectStructuralTells } from "@/lib/guardrails/structural-tells";
+import { checkSelfRepetition, getRecentHooks } from "@/lib/guardrails/self-repetition";
+import { checkVoiceMatchGate, validatePostWithAI } from "@/lib/guardrails/quality-gates";
+import { describeQualityFailure, getPassScore } from "@/lib/guardrails/gate-registry";
 import { generateId } from "@/lib/utils/storage";
 import { convertToTwitterThread } from "@/lib/utils/platform-converter";
 
+/**
+ * Intermediate output produced by a completed stage
+ */
+export type PipelineArtifact =
+  | { type: "initialVersions"; versions: string[] }
+  | { type: "selectedVersion"; content: string; reasoning: string }
+  | { type: "refinedVersion"; content: string; changes: string[] }
+  | { type: "hooks"; hooks: string[]; selectedHook: string }
+  | { type: "personalityVersion"; content: string; injectedElements: string[] }
+  | { type: "finalVersion"; content: string; score: number; passScore: number };
+
 export interface PipelineProgress {
   stage: string;
   percent: number;
   message: string;
+  attempt?: number;
+  artifact?: PipelineArtifact;
 }
 
 export type ProgressCallback = (progress: PipelineProgress) => void;
 
 const MAX_RETRIES = 3;
 
+// Execution order; a checkpoint is only valid if every earlier stage has one
+export const PIPELINE_STAGES: PipelineStageId[] = [
+  "initial",
+  "selected",
+  "refined",
+  "hook-optimized",
+  "personality",
+  "final",
+];
+
+/**
+ * Pipeline state handed to the checkpoint callback after each stage
+ */
+export interface CheckpointState {
+  checkpoints: PipelineCheckpoints;
+  parseFailures: StageParseFailure[];
+  attempt: number;
+}
+
+export type CheckpointCallback = (state: CheckpointState) => Promise<void> | void;
+
+export interface GenerationOptions {
+  // Outputs of stages that already ran (e.g. from a failed job) - not re-run
+  checkpoints?: PipelineCheckpoints;
+  parseFailures?: StageParseFailure[];
+  // Called after every completed stage and after a quality retry resets stages
+  onCheckpoint?: CheckpointCallback;
+  // Quality retries keep checkpoints before this stage (default: start over)
+  retryFromStage?: PipelineStageId;
+  // Attempt number to continue counting from when resuming
+  attempt?: number;
+  // Checked between stages
+  signal?: AbortSignal;
+  // Earlier posts for the same voice profile: their hooks are kept out of
+  // stages 1 and 4, and the finished post is checked against them. Imported
+  // ones are the author's own writing, so voice matching uses them too.
+  history?: PostHistoryEntry[];
+  // Workspace gate settings; the profile's own settings win over them
+  workspaceGates?: QualityGateConfig;
+  // Provider for every stage (e.g. the workspace's choice; default: environment)
+  llm?: LLMSelection;
+}
+
+/**
+ * Copy the first `limit` checkpoints, stopping at the first gap
+ */
+function contiguousCheckpoints(
+  checkpoints: PipelineCheckpoints,
+  limit: number = PIPELINE_STAGES.length
+): PipelineCheckpoints {
+  const kept: PipelineCheckpoints = {};
+  for (const id of PIPELINE_STAGES.slice(0, limit)) {
+    if (!checkpoints[id]) break;
+    Object.assign(kept, { [id]: checkpoints[id] });
+  }
+  return kept;
+}
+
+/**
+ * Drop the checkpoint for `stage` and every stage after it
+ */
+export function clearCheckpointsFrom(
+  checkpoints: PipelineCheckpoints,
+  stage: PipelineStageId
+): PipelineCheckpoints {
+  return contiguousCheckpoints(checkpoints, PIPELINE_STAGES.indexOf(stage));
+}
+
+/**
+ * Last stage with a usable checkpoint, if any
+ */
+export function getLastCompletedStage(
+  checkpoints: PipelineCheckpoints
+): PipelineStageId | undefined {
+  let last: PipelineStageId | undefined;
+  for (const id of PIPELINE_STAGES) {
+    if (!checkpoints[id]) break;
+    last = id;
+  }
+  return last;
+}
+
+/**
+ * Rebuild checkpoints from a finished post's stored pipeline.
+ * Stage 6's own verdict isn't stored, so the final stage always re-runs.
+ */
+export function checkpointsFromPipeline(
+  pipeline: GeneratedPost["pipeline"]
+): PipelineCheckpoints {
+  return {
+    initial: { versions: pipeline.initialVersions },
+    selected: {
+      selectedVersion: pipeline.selectedVersion,
+      reasoning: pipeline.selectionReasoning,
+      versionScores: pipeline.versionScores ?? [],
+      override: pipeline.selectionOverride,
+    },
+    refined: {
+      refinedVersion: pipeline.refinedVersion,
+      changes: pipeline.refinementChanges,
+    },
+    "hook-optimized": {
+      hooks: pipeline.hookOptions,
+      selectedHook: pipeline.selectedHook,
+      hookOptimizedVersion: pipeline.hookOptimizedVersion,
+    },
+    personality: {
+      personalityVersion: pipeline.personalityVersion,
+      injectedElements: pipeline.injectedElements,
+    },
+  };
+}
+
+interface AttemptContext {
+  interview: InterviewResponse;
+  voiceMode: VoiceMode;
+  voiceProfile: VoiceProfile;
+  checkpoints: PipelineCheckpoints;
+  parseFailures: StageParseFailure[];
+  attempt: number;
+  recentHooks: string[];
+  onProgress?: ProgressCallback;
+  onCheckpoint?: CheckpointCallback;
+  signal?: AbortSignal;
+  llm?: LLMSelection;
+}
+
+/**
+ * Run every stage that has no checkpoint yet, saving each one as it completes
+ */
+async function runAttempt(ctx: AttemptContext): Promise<Required<PipelineCheckpoints>> {
+  const { interview, voiceMode, voiceProfile, checkpoints, parseFailures, attempt, recentHooks, onProgress, llm } = ctx;
+  const forbiddenPhrases = getForbiddenPhraseList(voiceProfile, interview);
+
+  const startStage = (stage: string, percent: number, message: string) => {
+    if (ctx.signal?.aborted) {
+      throw new Error("Generation cancelled");
+    }
+    onProgress?.({ stage, percent, message, attempt });
+  };
+
+  const save = async () => {
+    await ctx.onCheckpoint?.({ checkpoints, parseFailures, attempt });
+  };
+
+  // Restored stages still report their artifact so the client can show it
+  const restored = (message: string, wasRestored: boolean) =>
+    wasRestored ? `${message} (restored from checkpoint)` : message;
+
+  // Stage 1: Generate 5 versions
+  const stage1Restored = !!checkpoints.initial;
+  if (!checkpoints.initial) {
+    startStage("initial", 10, "Generating 5 unique versions...");
+    const stage1Prompt = getStage1Prompt(interview, voiceMode, voiceProfile, forbiddenPhrases, recentHooks);
+    checkpoints.initial = { versions: await generateMultiple(stage1Prompt, 5, undefined, llm) };
+    await save();
+  }
+  const { versions } = checkpoints.initial;
+  onProgress?.({
+    stage: "initial",
+    percent: 20,
+    message: restored(`Generated ${versions.length} versions`, stage1Restored),
+    attempt,
+    artifact: { type: "initialVersions", versions },
+  });
+
+  // Stage 2: Select best version
+  const stage2Restored = !!checkpoints.selected;
+  if (!checkpoints.selected) {
+    startStage("selecting", 25, "Evaluating and selecting best version...");
+    const stage2Prompt = getStage2Prompt(versions);
+    const stage2Schema = stage2OutputSchema.refine(
+      (output) => output.selectedVersion <= versions.length,
+      { message: `Must be between 1 and ${versions.length}`, path: ["selectedVersion"] }
+    );
+    const stage2 = await generateStructured("selected", stage2Prompt, stage2Schema, parseFailures, llm);
+    checkpoints.selected = {
+      selectedVersion: versions[stage2.selectedVersion - 1],
+      reasoning: stage2.reasoning,
+      versionScores: stage2.scores,
+    };
+    await save();
+  }
+  const { selectedVersion, reasoning } = checkpoints.selected;
+  onProgress?.({
+    stage: "selecting",
+    percent: 35,
+    message: restored("Best version selected", stage2Restored),
+    attempt,
+    artifact: { type: "selectedVersion", content: selectedVersion, reasoning },
+  });
+
+  // Stage 3: Refine
+  const stage3Restored = !!checkpoints.refined;
+  if (!checkpoints.refined) {
+    startStage("refining", 40, "Removing AI tells and polishing...");
+    const stage3Prompt = getStage3Prompt(selectedVersion, forbiddenPhrases, detectStructuralTells(selectedVersion));
+    checkpoints.refined = await generateStructured(
+      "refined", stage3Prompt, stage3OutputSchema, parseFailures, llm
+    );
+    await save();
+  }
+  const { refinedVersion, changes } = checkpoints.refined;
+  onProgress?.({
+    stage: "refining",
+    percent: 50,
+    message: restored(`Refined with ${changes.length} changes`, stage3Restored),
+    attempt,
+    artifact: { type: "refinedVersion", content: refinedVersion, changes },
+  });
+
+  // Stage 4: Hook optimization
+  const stage4Restored = !!checkpoints["hook-optimized"];
+  if (!checkpoints["hook-optimized"]) {
+    startStage("hooks", 55, "Testing different hooks...");
+    const stage4Prompt = getStage4Prompt(refinedVersion, recentHooks);
+    const stage4 = await generateStructured("hook-optimized", stage4Prompt, stage4OutputSchema, parseFailures, llm);
+    checkpoints["hook-optimized"] = {
+      hooks: stage4.hooks,
+      selectedHook: stage4.hooks[stage4.selectedHook - 1],
+      hookOptimizedVersion: stage4.postWithNewHook,
+    };
+    await save();
+  }
+  const { hooks, selectedHook, hookOptimizedVersion } = checkpoints["hook-optimized"];
+  onProgress?.({
+    stage: "hooks",
+    percent: 65,
+    message: restored(`Selected hook from ${hooks.length} options`, stage4Restored),
+    attempt,
+    artifact: { type: "hooks", hooks, selectedHook },
+  });
+
+  // Stage 5: Personality injection
+  const stage5Restored = !!checkpoints.personality;
+  if (!checkpoints.personality) {
+    startStage("personality", 70, "Injecting your unique voice...");
+    const stage5Prompt = getStage5Prompt(hookOptimizedVersion, voiceProfile);
+    const stage5 = await generateStructured("personality", stage5Prompt, stage5OutputSchema, parseFailures, llm);
+    checkpoints.personality = {
+      personalityVersion: stage5.personalizedVersion,
+      injectedElements: stage5.injectedElements,
+    };
+    await save();
+  }
+  const { personalityVersion, injectedElements } = checkpoints.personality;
+  onProgress?.({
+    stage: "personality",
+    percent: 80,
+    message: restored("Voice injected", stage5Restored),
+    attempt,
+    artifact: { type: "personalityVersion", content: personalityVersion, injectedElements },
+  });
+
+  // Stage 6: Quality check
+  if (!checkpoints.final) {
+    startStage("quality", 85, "Running quality checks...");
+    const stage6Prompt = getStage6Prompt(personalityVersion, voiceProfile, forbiddenPhrases);
+    const stage6 = await generateStructured("final", stage6Prompt, stage6OutputSchema, parseFailures, llm);
+    checkpoints.final = {
+      // Stored as an integer (posts.self_score); models sometimes answer 87.5
+      score: Math.round(stage6.qualityScore),
+      passed: stage6.overall === "PASS",
+      finalVersion: stage6.finalPost,
+    };
+    await save();
+  }
+
+  return checkpoints as Required<PipelineCheckpoints>;
+}
+
 /**
  * Main pipeline orchestrator - runs all 6 stages
+ *
+ * Stages with a checkpoint in `options.checkpoints` are skipped, so a failed
+ * or cancelled job resumes from its last good stage. The final post is
+ * scored by the quality gates (the model's own stage 6 score is kept as
+ * `quality.selfScore`); quality retries restart from
+ * `options.retryFromStage` instead of always from stage 1.
  */
 export async function generatePost(
   interview: InterviewResponse,
   voiceProfile: VoiceProfile,
   onProgress?: ProgressCallback,
-  attempt: number = 1
+  options: GenerationOptions = {}
 ): Promise<GeneratedPost> {
   const voiceMode = VOICE_MODES[interview.voiceModeId];
   
@@ -48,153 +352,195 @@ export async function generatePost(
     throw new Error(`Invalid voice mode: ${interview.voiceModeId}`);
   }
 
-  const pipeline: Partial<GeneratedPost["pipeline"]> = {};
-  
+  const retryFromStage = options.retryFromStage ?? "initial";
+  const parseFailures: StageParseFailure[] = [...(options.parseFailures ?? [])];
+  // Ignore anything after a gap - later stages depend on earlier outputs
+  let checkpoints = contiguousCheckpoints(options.checkpoints ?? {});
+  let attempt = options.attempt ?? 1;
+  const history = options.history ?? [];
+  const recentHooks = getRecentHooks(history);
+  const styleHistory = history.filter(entry => entry.imported).map(entry => entry.content);
+  const passScore = getPassScore(voiceProfile.rules.qualityGates, options.workspaceGates);
+
   try {
-    // Stage 1: Generate 5 versions
-    onProgress?.({
-      stage: "initial",
-      percent: 10,
-      message: "Generating 5 unique versions...",
-    });
-    
-    const stage1Prompt = getStage1Prompt(interview, voiceMode, voiceProfile);
-    const versions = await generateMultiple(stage1Prompt, 5);
-    pipeline.initialVersions = versions;
-
-    // Stage 2: Select best version
-    onProgress?.({
-      stage: "selecting",
-      percent: 25,
-      message: "Evaluating and selecting best version...",
-    });
-    
-    const stage2Prompt = getStage2Prompt(versions);
-    const stage2Output = await generate(stage2Prompt);
-    const { selectedVersion, reasoning } = parseStage2Output(stage2Output);
-    pipeline.selectedVersion = selectedVersion;
-    pipeline.selectionReasoning = reasoning;
-
-    // Stage 3: Refine
-    onProgress?.({
-      stage: "refining",
-      percent: 40,
-      message: "Removing AI tells and polishing...",
-    });
-    
-    const stage3Prompt = getStage3Prompt(selectedVersion);
-    const stage3Output = await generate(stage3Prompt);
-    const { refinedVersion, changes } = parseStage3Output(stage3Output);
-    pipeline.refinedVersion = refinedVersion;
-    pipeline.refinementChanges = changes;
-
-    // Stage 4: Hook optimization
-    onProgress?.({
-      stage: "hooks",
-      percent: 55,
-      message: "Testing different hooks...",
-    });
-    
-    const stage4Prompt = getStage4Prompt(refinedVersion);
-    const stage4Output = await generate(stage4Prompt);
-    const { hooks, selectedHook, hookOptimizedVersion } = parseStage4Output(stage4Output);
-    pipeline.hookOptions = hooks;
-    pipeline.selectedHook = selectedHook;
-    pipeline.hookOptimizedVersion = hookOptimizedVersion;
-
-    // Stage 5: Personality injection
-    onProgress?.({
-      stage: "personality",
-      percent: 70,
-      message: "Injecting your unique voice...",
-    });
-    
-    const stage5Prompt = getStage5Prompt(hookOptimizedVersion, voiceProfile);
-    const stage5Output = await generate(stage5Prompt);
-    const { personalityVersion, injectedElements } = parseStage5Output(stage5Output);
-    pipeline.personalityVersion = personalityVersion;
-    pipeline.injectedElements = injectedElements;
-
-    // Stage 6: Quality check
-    onProgress?.({
-      stage: "quality",
-      percent: 85,
-      message: "Running quality checks...",
-    });
-    
-    const stage6Prompt = getStage6Prompt(personalityVersion, voiceProfile);
-    const stage6Output = await generate(stage6Prompt);
-    const { score, passed, issues, finalVersion } = parseStage6Output(stage6Output);
-    pipeline.finalVersion = finalVersion;
-
-    // Check if quality score meets threshold
-    const forbiddenMatches = checkForForbiddenPhrases(finalVersion);
-    const actualScore = forbiddenMatches.length > 0 ? Math.min(score, 70) : score;
-
-    // If quality failed and we have retries left
-    if ((actualScore < 85 || !passed) && attempt < MAX_RETRIES) {
+    for (;;) {
+      const completed = await runAttempt({
+        interview,
+        voiceMode,
+        voiceProfile,
+        checkpoints,
+        parseFailures,
+        attempt,
+        recentHooks,
+        onProgress,
+        onCheckpoint: options.onCheckpoint,
+        signal: options.signal,
+        llm: options.llm,
+      });
+      const { score: selfScore, finalVersion } = completed.final;
+
+      // Measure the post with the quality gates rather than trusting the
+      // score the model gave itself
+      const report = await validatePostWithAI(finalVersion, voiceProfile, interview, {
+        history: styleHistory,
+        workspaceGates: options.workspaceGates,
+        llm: options.llm,
+      });
+      const score = report.overallScore;
+      onProgress?.({
+        stage: "quality",
+        percent: 88,
+        message: `Quality score: ${score}/100 (model said ${selfScore})`,
+        attempt,
+        artifact: { type: "finalVersion", content: finalVersion, score, passScore },
+      });
+
+      // If quality failed and we have retries left
+      if (!report.passed && attempt < MAX_RETRIES) {
+        attempt += 1;
+        checkpoints = clearCheckpointsFrom(completed, retryFromStage);
+        await options.onCheckpoint?.({ checkpoints, parseFailures, attempt });
+
+        onProgress?.({
+          stage: "retry",
+          percent: 90,
+          message: `Quality check failed (${score}/100). Regenerating (attempt ${attempt}/${MAX_RETRIES})...`,
+          attempt,
+        });
+        continue;
+      }
+
+      // Generate Twitter version
       onProgress?.({
-        stage: "retry",
-        percent: 90,
-        message: `Quality check failed (${actualScore}/100). Regenerating (attempt ${attempt + 1}/${MAX_RETRIES})...`,
+        stage: "converting",
+        percent: 95,
+        message: "Creating Twitter thread version...",
+        attempt,
       });
       
-      return generatePost(interview, voiceProfile, onProgress, attempt + 1);
-    }
+      const twitterThread = convertToTwitterThread(finalVersion);
+
+      // Build final post object
+      onProgress?.({
+        stage: "complete",
+        percent: 100,
+        message: "Generation complete!",
+        attempt,
+      });
 
-    // Generate Twitter version
-    onProgress?.({
-      stage: "converting",
-      percent: 95,
-      message: "Creating Twitter thread version...",
-    });
-    
-    const twitterThread = convertToTwitterThread(finalVersion);
-
-    // Build final post object
-    onProgress?.({
-      stage: "complete",
-      percent: 100,
-      message: "Generation complete!",
-    });
-
-    const post: GeneratedPost = {
-      id: generateId(),
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      interviewData: interview,
-      voiceProfileId: voiceProfile.id,
-      voiceProfile: voiceProfile,
-      pipeline: pipeline as GeneratedPost["pipeline"],
-      quality: {
-        score: actualScore,
-        similarityScore: 90, // Simplified for MVP
-        specificityCount: countSpecificDetails(finalVersion),
-        slopDetected: forbiddenMatches.map(m => m.phrase),
-        passedGates: passed && forbiddenMatches.length === 0,
-      },
-      outputs: {
-        linkedin: {
-          post: finalVersion,
-          characterCount: finalVersion.length,
-          hashtagCount: (finalVersion.match(/#\w+/g) || []).length,
+      const post: GeneratedPost = {
+        id: generateId(),
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        interviewData: interview,
+        voiceProfileId: voiceProfile.id,
+        voiceProfile: voiceProfile,
+        voiceProfileVersion: voiceProfile.version,
+        pipeline: {
+          parseFailures,
+          initialVersions: completed.initial.versions,
+          versionScores: completed.selected.versionScores,
+          selectedVersion: completed.selected.selectedVersion,
+          selectionReasoning: completed.selected.reasoning,
+          selectionOverride: completed.selected.override,
+          refinedVersion: completed.refined.refinedVersion,
+          refinementChanges: completed.refined.changes,
+          hookOptions: completed["hook-optimized"].hooks,
+          selectedHook: completed["hook-optimized"].selectedHook,
+          hookOptimizedVersion: completed["hook-optimized"].hookOptimizedVersion,
+          personalityVersion: completed.personality.personalityVersion,
+          injectedElements: completed.personality.injectedElements,
+          finalVersion,
         },
-        twitter: {
-          thread: twitterThread,
-          characterCounts: twitterThread.map(t => t.length),
+        quality: {
+          score,
+          selfScore,
+          report,
+          similarityScore: report.gates.voiceMatch?.score ?? checkVoiceMatchGate(finalVersion, voiceProfile, styleHistory).score ?? 0,
+          specificityCount: countSpecificDetails(finalVersion),
+          slopDetected: checkForForbiddenPhrases(finalVersion, getForbiddenPhraseList(voiceProfile, interview))
+            .map(m => m.phrase),
+          passedGates: report.passed,
+          ...(history.length > 0 ? { repetition: checkSelfRepetition(finalVersion, history) } : {}),
         },
-      },
-      status: actualScore >= 85 ? "passed" : "failed",
-      failureReason: actualScore < 85 ? `Quality score ${actualScore} below threshold` : undefined,
-    };
+        outputs: {
+          linkedin: {
+            post: finalVersion,
+            characterCount: finalVersion.length,
+            hashtagCount: (finalVersion.match(/#\w+/g) || []).length,
+          },
+          twitter: {
+            thread: twitterThread,
+            characterCounts: twitterThread.map(t => t.length),
+          },
+        },
+        status: report.passed ? "passed" : "failed",
+        failureReason: describeQualityFailure(report, passScore),
+      };
 
-    return post;
+      return post;
+    }
   } catch (error) {
     console.error("Pipeline error:", error);
     throw error;
   }
 }
 
+/**
+ * Re-run one stage of an existing post and every stage after it.
+ *
+ * Earlier stages are restored from the post's stored pipeline, and quality
+ * retries restart from `fromStage` too, so only the requested part of the
+ * post changes. Returns a freshly built post; callers decide how to merge it
+ * into the original (see applyRegeneration).
+ */
+export async function regenerateFromStage(
+  post: Pick<GeneratedPost, "interviewData" | "voiceProfile" | "pipeline">,
+  fromStage: PipelineStageId,
+  onProgress?: ProgressCallback
+): Promise<GeneratedPost> {
+  return generatePost(post.interviewData, post.voiceProfile, onProgress, {
+    checkpoints: clearCheckpointsFrom(checkpointsFromPipeline(post.pipeline), fromStage),
+    retryFromStage: fromStage,
+  });
+}
+
+/**
+ * Continue an existing post from a different initial version.
+ *
+ * Stage 2's pick is replaced by the writer's choice (recorded as a
+ * selection override) and stages 3-6 run on that draft.
+ */
+export async function continueFromVersion(
+  post: Pick<GeneratedPost, "interviewData" | "voiceProfile" | "pipeline">,
+  version: number,
+  onProgress?: ProgressCallback
+): Promise<GeneratedPost> {
+  const { pipeline } = post;
+  const selectedVersion = pipeline.initialVersions[version - 1];
+  if (!selectedVersion) {
+    throw new Error(`Version ${version} does not exist`);
+  }
+
+  const { modelVersion } = getVersionSelection(pipeline);
+
+  const checkpoints = clearCheckpointsFrom(checkpointsFromPipeline(pipeline), "selected");
+  checkpoints.selected = {
+    selectedVersion,
+    reasoning: pipeline.selectionReasoning,
+    versionScores: pipeline.versionScores ?? [],
+    override: version === modelVersion
+      ? undefined
+      : { version, modelVersion, overriddenAt: new Date().toISOString() },
+  };
+
+  return generatePost(post.interviewData, post.voiceProfile, onProgress, {
+    checkpoints,
+    retryFromStage: "refined",
+  });
+}
+
+
 /**
  * Count specific details (numbers, names, dates) in text
  */
@@ -0,0 +1,38 @@
+import { InterviewResponse, VoiceProfile } from "@/lib/types";
+import { getRevisionPrompt } from "@/lib/prompts/generation";
+import { revisionOutputSchema } from "@/lib/validation/schemas";
+import { generateStructured } from "@/lib/pipeline/structured-output";
+import { validatePost } from "@/lib/guardrails/quality-gates";
+import { getForbiddenPhraseList } from "@/lib/guardrails/forbidden-phrases";
+import type { ChatRevisionReply } from "@/lib/pipeline/revisions";
+
+/**
+ * Apply one revision chat instruction to the current post text.
+ *
+ * The reply is schema-validated (with repair/retry like the pipeline stages)
+ * and the revised post is scored with validatePost so the user sees whether
+ * the change kept it above the quality bar (and, with the interview, whether
+ * it invented any facts).
+ */
+export async function reviseWithInstruction(
+  content: string,
+  instruction: string,
+  voiceProfile: VoiceProfile,
+  previousInstructions: string[] = [],
+  interview?: InterviewResponse
+): Promise<ChatRevisionReply> {
+  const prompt = getRevisionPrompt(
+    content, instruction, voiceProfile, previousInstructions, getForbiddenPhraseList(voiceProfile, interview)
+  );
+
+  // Chat revisions edit the final text; their parse failures aren't kept
+  const { revisedPost, summary } = await generateStructured(
+    "final", prompt, revisionOutputSchema, []
+  );
+
+  return {
+    revisedPost,
+    summary,
+    report: validatePost(revisedPost, voiceProfile, interview),
+  };
+}
@@ -0,0 +1,333 @@
+import {
+  GeneratedPost,
+  PipelineStageId,
+  PostEdit,
+  PostRevision,
+  PostRevisionSource,
+  QualityReport,
+} from "@/lib/types";
+import { checkForForbiddenPhrases, getForbiddenPhraseList } from "@/lib/guardrails/forbidden-phrases";
+import { describeQualityFailure, getPassScore } from "@/lib/guardrails/gate-registry";
+import { validatePost } from "@/lib/guardrails/quality-gates";
+import { convertToTwitterThread } from "@/lib/utils/platform-converter";
+import { generateId } from "@/lib/utils/storage";
+
+// Optional context recorded with a revision
+export type RevisionDetails = Pick<PostRevision, "fromStage" | "instruction" | "summary" | "restoredFrom">;
+
+type RevisionContent = Pick<GeneratedPost, "pipeline" | "quality" | "outputs">;
+
+// Stages that can be re-run on an existing post from the editor
+export const REGENERATABLE_STAGES = ["hook-optimized", "personality", "final"] as const;
+
+export type RegeneratableStage = (typeof REGENERATABLE_STAGES)[number];
+
+export const REGENERATABLE_STAGE_LABELS: Record<RegeneratableStage, string> = {
+  "hook-optimized": "Re-run hook optimization",
+  personality: "Re-run personality injection",
+  final: "Re-run final quality check",
+};
+
+/**
+ * Which initial version the post currently continues from, and which one
+ * stage 2 picked (1-based; undefined when the text no longer matches)
+ */
+export function getVersionSelection(pipeline: GeneratedPost["pipeline"]): {
+  currentVersion?: number;
+  modelVersion?: number;
+} {
+  const index = pipeline.initialVersions.indexOf(pipeline.selectedVersion);
+  const currentVersion = index >= 0 ? index + 1 : undefined;
+
+  // The override keeps pointing at the model's original pick
+  return pipeline.selectionOverride
+    ? { currentVersion, modelVersion: pipeline.selectionOverride.modelVersion }
+    : { currentVersion, modelVersion: currentVersion };
+}
+
+/**
+ * Snapshot the post's current generated content
+ */
+export function createPostRevision(
+  post: RevisionContent,
+  source: PostRevisionSource,
+  details: RevisionDetails = {}
+): PostRevision {
+  return {
+    id: generateId(),
+    createdAt: new Date().toISOString(),
+    source,
+    ...details,
+    pipeline: post.pipeline,
+    quality: post.quality,
+    outputs: post.outputs,
+  };
+}
+
+/**
+ * Revision history with `next` appended as the newest revision.
+ * The first call also records the post's content before it was revised
+ * (including manual edits).
+ */
+export function appendRevision(
+  post: GeneratedPost,
+  next: RevisionContent,
+  source: PostRevisionSource,
+  details: RevisionDetails = {}
+): PostRevision[] {
+  const history = post.revisions?.length
+    ? post.revisions
+    : [createPostRevision(post, "generated")];
+
+  return [...history, createPostRevision(next, source, details)];
+}
+
+/**
+ * Passed/failed status for revised content, with the same failure reason
+ * generation gives. Exported and scheduled posts keep their workflow status.
+ */
+function revisedStatus(
+  post: GeneratedPost,
+  quality: GeneratedPost["quality"]
+): Partial<Pick<GeneratedPost, "status" | "failureReason">> {
+  if (post.status !== "passed" && post.status !== "failed") {
+    return {};
+  }
+  if (quality.passedGates) {
+    return { status: "passed", failureReason: undefined };
+  }
+  return {
+    status: "failed",
+    // Revisions saved before reports were kept only have the score
+    failureReason: quality.report
+      ? describeQualityFailure(quality.report, getPassScore(post.voiceProfile?.rules.qualityGates))
+      : `Quality score ${quality.score} below threshold`,
+  };
+}
+
+/**
+ * Quality for `content` as the post's new text, scored by a validatePost
+ * report. Specificity is carried over.
+ */
+function revisedQuality(
+  post: GeneratedPost,
+  content: string,
+  report: QualityReport
+): GeneratedPost["quality"] {
+  return {
+    ...post.quality,
+    score: report.overallScore,
+    selfScore: undefined,
+    report,
+    similarityScore: report.gates.voiceMatch?.score ?? 0,
+    slopDetected: checkForForbiddenPhrases(
+      content, getForbiddenPhraseList(post.voiceProfile, post.interviewData)
+    ).map(m => m.phrase),
+    passedGates: report.passed,
+  };
+}
+
+/**
+ * Content fields for `content` as the post's new text, scored by a
+ * validatePost report
+ */
+export function reviseContent(
+  post: GeneratedPost,
+  content: string,
+  report: QualityReport,
+  pipeline: GeneratedPost["pipeline"]
+): RevisionContent & Partial<Pick<GeneratedPost, "status" | "failureReason">> {
+  const twitterThread = convertToTwitterThread(content);
+  const quality = revisedQuality(post, content, report);
+
+  return {
+    pipeline,
+    quality,
+    outputs: {
+      linkedin: {
+        post: content,
+        characterCount: content.length,
+        hashtagCount: (content.match(/#\w+/g) || []).length,
+      },
+      twitter: {
+        thread: twitterThread,
+        characterCounts: twitterThread.map(t => t.length),
+      },
+    },
+    ...revisedStatus(post, quality),
+  };
+}
+
+/**
+ * Updates that save a manual edit of the LinkedIn post. The edited text is
+ * re-scored with the sync gates, so the stored report always describes the
+ * text it's shown next to. Posts without a voice profile can't be scored
+ * and keep their quality.
+ */
+export function applyManualEdit(
+  post: GeneratedPost,
+  content: string,
+  edit: PostEdit
+): Partial<GeneratedPost> {
+  const updates: Partial<GeneratedPost> = {
+    outputs: {
+      ...post.outputs,
+      linkedin: {
+        ...post.outputs.linkedin,
+        post: content,
+        characterCount: content.length,
+      },
+    },
+    // Kept so the profile can learn from what was changed
+    manualEdits: [...(post.manualEdits ?? []), edit],
+  };
+  if (!post.voiceProfile) return updates;
+
+  const quality = revisedQuality(post, content, validatePost(content, post.voiceProfile, post.interviewData));
+  return { ...updates, quality, ...revisedStatus(post, quality) };
+}
+
+/**
+ * Updates that make a regenerated post the newest revision of `post`.
+ * The post keeps its id, inputs and carousel.
+ */
+export function applyRegeneration(
+  post: GeneratedPost,
+  regenerated: GeneratedPost,
+  fromStage: PipelineStageId
+): Partial<GeneratedPost> {
+  return {
+    pipeline: regenerated.pipeline,
+    quality: regenerated.quality,
+    outputs: regenerated.outputs,
+    status: regenerated.status,
+    failureReason: regenerated.failureReason,
+    revisions: appendRevision(post, regenerated, "regenerated", { fromStage }),
+  };
+}
+
+/**
+ * Reply from the revision chat for one instruction
+ */
+export interface ChatRevisionReply {
+  revisedPost: string;
+  summary: string;
+  report: QualityReport;
+}
+
+/**
+ * Updates that save a revision chat reply as the newest revision
+ */
+export function applyChatRevision(
+  post: GeneratedPost,
+  instruction: string,
+  reply: ChatRevisionReply
+): Partial<GeneratedPost> {
+  const next = reviseContent(post, reply.revisedPost, reply.report, {
+    ...post.pipeline,
+    finalVersion: reply.revisedPost,
+  });
+
+  return {
+    ...next,
+    revisions: appendRevision(post, next, "chat", { instruction, summary: reply.summary }),
+  };
+}
+
+/**
+ * Instructions from earlier chat revisions, oldest first
+ */
+export function getChatInstructions(post: GeneratedPost): string[] {
+  return (post.revisions || [])
+    .filter(r => r.source === "chat" && r.instruction)
+    .map(r => r.instruction as string);
+}
+
+/**
+ * Updates that bring back an earlier revision's content.
+ * History is never rewritten: the restored content becomes a new revision.
+ */
+export function restoreRevision(post: GeneratedPost, revisionId: string): Partial<GeneratedPost> {
+  const revision = post.revisions?.find(r => r.id === revisionId);
+  if (!revision) {
+    throw new Error(`Revision ${revisionId} not found`);
+  }
+
+  const next: RevisionContent = {
+    pipeline: revision.pipeline,
+    quality: revision.quality,
+    outputs: revision.outputs,
+  };
+
+  return {
+    ...next,
+    ...revisedStatus(post, revision.quality),
+    revisions: appendRevision(post, next, "restored", { restoredFrom: revision.id }),
+  };
+}
+
+/**
+ * Ask the server to re-run the pipeline from `fromStage` on an existing post.
+ * `selectedVersion` continues from a different initial version (stages 3-6).
+ */
+export async function requestRegeneration(
+  post: GeneratedPost,
+  fromStage: PipelineStageId,
+  selectedVersion?: number
+): Promise<GeneratedPost> {
+  const response = await fetch("/api/generate/regenerate", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      interview: post.interviewData,
+      voiceProfile: post.voiceProfile,
+      pipeline: post.pipeline,
+      fromStage,
+      selectedVersion,
+    }),
+  });
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.success) {
+    if (response.status === 401) {
+      throw new Error("Please sign in to regenerate posts.");
+    }
+    throw new Error(result.error?.message || "Regeneration failed. Please try again.");
+  }
+
+  return result.data as GeneratedPost;
+}
+
+/**
+ * Ask the server to apply one revision chat instruction to the post
+ */
+export async function requestChatRevision(
+  post: GeneratedPost,
+  instruction: string
+): Promise<ChatRevisionReply> {
+  const response = await fetch("/api/generate/revise", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      content: post.outputs.linkedin.post,
+      instruction,
+      voiceProfile: post.voiceProfile,
+      interview: post.interviewData,
+      previousInstructions: getChatInstructions(post).slice(-10),
+    }),
+  });
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.success) {
+    if (response.status === 401) {
+      throw new Error("Please sign in to revise posts.");
+    }
+    throw new Error(result.error?.message || "Revision failed. Please try again.");
+  }
+
+  return result.data as ChatRevisionReply;
+}
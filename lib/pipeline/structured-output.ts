@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { StageParseFailure } from "@/lib/types";
+import { generate, LLMSelection, parseJSONResponse } from "@/lib/llm";
+import { getRepairPrompt } from "@/lib/prompts/generation";
+import { validateRequest } from "@/lib/validation/schemas";
+
+// Original reply + one repair + one fresh retry
+const MAX_STAGE_ATTEMPTS = 3;
+
+// Raw replies are kept for debugging, not for replay
+const MAX_STORED_OUTPUT_LENGTH = 2000;
+
+export type StructuredParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+/**
+ * Parse a model reply as JSON and validate it against a stage schema
+ */
+export function parseStructuredOutput<T>(
+  output: string,
+  schema: z.ZodType<T>
+): StructuredParseResult<T> {
+  let json: unknown;
+  try {
+    json = parseJSONResponse(output);
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "Invalid JSON" };
+  }
+
+  const result = validateRequest(schema, json);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, error: result.error };
+}
+
+/**
+ * Run a stage prompt and return schema-validated output.
+ *
+ * An invalid reply is first sent back with the validation errors for repair;
+ * if the repair is also invalid the original prompt is retried from scratch.
+ * Every rejected reply is appended to `failures`. Throws once attempts run out
+ * rather than continuing with a partial post. `llm` picks another provider.
+ */
+export async function generateStructured<T>(
+  stage: StageParseFailure["stage"],
+  prompt: string,
+  schema: z.ZodType<T>,
+  failures: StageParseFailure[],
+  llm?: LLMSelection
+): Promise<T> {
+  let output = await generate(prompt, undefined, undefined, llm);
+
+  for (let attempt = 1; ; attempt++) {
+    const parsed = parseStructuredOutput(output, schema);
+    if (parsed.success) {
+      return parsed.data;
+    }
+
+    failures.push({
+      stage,
+      attempt,
+      error: parsed.error,
+      output: output.slice(0, MAX_STORED_OUTPUT_LENGTH),
+    });
+
+    if (attempt >= MAX_STAGE_ATTEMPTS) {
+      throw new Error(`Stage "${stage}" returned invalid output after ${attempt} attempts: ${parsed.error}`);
+    }
+
+    output = attempt === 1
+      ? await generate(getRepairPrompt(prompt, output, parsed.error), undefined, undefined, llm)
+      : await generate(prompt, undefined, undefined, llm);
+  }
+}
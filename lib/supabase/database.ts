@@ -11,6 +11,7 @@
  */
 
 import { createClient } from "./client";
+import { checkVoiceMatchGate } from "@/lib/guardrails/quality-gates";
 import type {
   VoiceProfile as DbVoiceProfile,
   VoiceProfileInsert,
@@ -25,8 +26,22 @@ import type {
   InterviewDataJson,
   PipelineDataJson,
   OutputsJson,
+  PostRevisionJson,
+  PostEditJson,
+  QualityReportJson,
+  HistoricalPostRow,
+  HistoricalPostInsert,
+  VoiceProfileVersionRow,
+  VoiceProfileVersionInsert,
 } from "./types";
-import type { VoiceProfile, GeneratedPost } from "@/lib/types";
+import type {
+  VoiceProfile,
+  GeneratedPost,
+  HistoricalPost,
+  ImportedPost,
+  QualityReport,
+  VoiceProfileVersion,
+} from "@/lib/types";
 
 // ============================================================================
 // TYPE CONVERTERS
@@ -46,6 +61,7 @@ export function dbToAppVoiceProfile(db: DbVoiceProfile): VoiceProfile {
     topPosts: db.top_posts as VoiceProfile["topPosts"],
     brandColors: db.brand_colors as VoiceProfile["brandColors"],
     stats: db.stats as VoiceProfile["stats"],
+    version: db.version,
   };
 }
 
@@ -63,6 +79,7 @@ export function appToDbVoiceProfile(
     top_posts: app.topPosts as unknown as TopPostJson[],
     brand_colors: app.brandColors as unknown as BrandColorsJson,
     stats: app.stats as unknown as VoiceProfileStatsJson | null,
+    version: app.version ?? 1,
   };
 }
 
@@ -80,15 +97,22 @@ export function dbToAppGeneratedPost(
     interviewData: db.interview_data as unknown as GeneratedPost["interviewData"],
     voiceProfileId: db.voice_profile_id,
     voiceProfile: voiceProfile,
+    voiceProfileVersion: db.voice_profile_version ?? undefined,
     pipeline: db.pipeline_data as unknown as GeneratedPost["pipeline"],
     quality: {
       score: db.quality_score,
-      similarityScore: 0, // Not stored in DB, computed at runtime
+      similarityScore: checkVoiceMatchGate(db.outputs.linkedin.post, voiceProfile).score ?? 0, // Not stored in DB
       specificityCount: 0,
       slopDetected: [],
-      passedGates: db.status === "passed",
+      passedGates: db.quality_report?.passed ?? db.status === "passed",
+      selfScore: db.self_score ?? undefined,
+      report: (db.quality_report as QualityReport | null) ?? undefined,
     },
     outputs: db.outputs as unknown as GeneratedPost["outputs"],
+    revisions: db.revisions?.length
+      ? (db.revisions as unknown as GeneratedPost["revisions"])
+      : undefined,
+    manualEdits: db.manual_edits?.length ? db.manual_edits : undefined,
     status: db.status,
     failureReason: db.failure_reason || undefined,
     exportedAt: db.exported_at || undefined,
@@ -107,10 +131,15 @@ export function appToDbGeneratedPost(
     id: app.id,
     user_id: userId,
     voice_profile_id: app.voiceProfileId,
+    voice_profile_version: app.voiceProfileVersion ?? null,
     interview_data: app.interviewData as unknown as InterviewDataJson,
     pipeline_data: app.pipeline as unknown as PipelineDataJson,
     outputs: app.outputs as unknown as OutputsJson,
+    revisions: (app.revisions || []) as unknown as PostRevisionJson[],
+    manual_edits: (app.manualEdits || []) as PostEditJson[],
     quality_score: app.quality.score,
+    quality_report: (app.quality.report as QualityReportJson | undefined) ?? null,
+    self_score: app.quality.selfScore ?? null,
     tokens_used: 0, // Can be updated later
     api_cost_usd: 0, // Can be updated later
     status: app.status,
@@ -120,6 +149,42 @@ export function appToDbGeneratedPost(
   };
 }
 
+/**
+ * Convert database historical post to application type
+ */
+export function dbToAppHistoricalPost(db: HistoricalPostRow): HistoricalPost {
+  return {
+    id: db.id,
+    voiceProfileId: db.voice_profile_id,
+    importedAt: db.created_at,
+    content: db.content,
+    platform: db.platform,
+    source: db.source,
+    publishedAt: db.published_at || undefined,
+    url: db.url || undefined,
+    engagement: db.engagement ?? undefined,
+  };
+}
+
+/**
+ * Convert database voice profile version to application type
+ */
+export function dbToAppVoiceProfileVersion(db: VoiceProfileVersionRow): VoiceProfileVersion {
+  return {
+    id: db.id,
+    voiceProfileId: db.voice_profile_id,
+    version: db.version,
+    createdAt: db.created_at,
+    snapshot: {
+      name: db.name,
+      rules: db.rules as VoiceProfile["rules"],
+      topPosts: db.top_posts as VoiceProfile["topPosts"],
+      brandColors: db.brand_colors as VoiceProfile["brandColors"],
+    },
+    restoredFrom: db.restored_from ?? undefined,
+  };
+}
+
 // ============================================================================
 // VOICE PROFILE OPERATIONS
 // ============================================================================
@@ -261,6 +326,7 @@ export async function updateVoiceProfile(
     if (updates.topPosts !== undefined) dbUpdates.top_posts = updates.topPosts as unknown as TopPostJson[];
     if (updates.brandColors !== undefined) dbUpdates.brand_colors = updates.brandColors as unknown as BrandColorsJson;
     if (updates.stats !== undefined) dbUpdates.stats = updates.stats as unknown as VoiceProfileStatsJson | null;
+    if (updates.version !== undefined) dbUpdates.version = updates.version;
 
     const { data, error } = await supabase
       .from("voice_profiles")
@@ -318,6 +384,86 @@ export async function deleteVoiceProfile(id: string): Promise<{
   }
 }
 
+// ============================================================================
+// VOICE PROFILE VERSION OPERATIONS
+// ============================================================================
+
+/**
+ * Fetch every saved version of a voice profile, oldest first
+ */
+export async function fetchVoiceProfileVersions(voiceProfileId: string): Promise<{
+  data: VoiceProfileVersion[];
+  error: string | null;
+}> {
+  try {
+    const supabase = createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return { data: [], error: null };
+    }
+
+    const { data, error } = await supabase
+      .from("voice_profile_versions")
+      .select("*")
+      .eq("user_id", user.id)
+      .eq("voice_profile_id", voiceProfileId)
+      .order("version", { ascending: true });
+
+    if (error) {
+      console.error("[DB] Fetch voice profile versions error:", error.message);
+      return { data: [], error: error.message };
+    }
+
+    return { data: (data || []).map(dbToAppVoiceProfileVersion), error: null };
+  } catch (err) {
+    console.error("[DB] Fetch voice profile versions exception:", err);
+    return { data: [], error: "Failed to fetch profile versions" };
+  }
+}
+
+/**
+ * Save a version of a voice profile. Versions are never updated afterwards.
+ */
+export async function createVoiceProfileVersion(version: VoiceProfileVersion): Promise<{
+  success: boolean;
+  error: string | null;
+}> {
+  try {
+    const supabase = createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const row: VoiceProfileVersionInsert = {
+      user_id: user.id,
+      voice_profile_id: version.voiceProfileId,
+      version: version.version,
+      name: version.snapshot.name,
+      rules: version.snapshot.rules as unknown as VoiceRulesJson,
+      top_posts: version.snapshot.topPosts as unknown as TopPostJson[],
+      brand_colors: version.snapshot.brandColors as unknown as BrandColorsJson,
+      restored_from: version.restoredFrom ?? null,
+    };
+
+    const { error } = await supabase
+      .from("voice_profile_versions")
+      .insert(row);
+
+    if (error) {
+      console.error("[DB] Create voice profile version error:", error.message);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, error: null };
+  } catch (err) {
+    console.error("[DB] Create voice profile version exception:", err);
+    return { success: false, error: "Failed to save profile version" };
+  }
+}
+
 // ============================================================================
 // GENERATED POSTS OPERATIONS
 // ============================================================================
@@ -409,11 +555,14 @@ export async function createGeneratedPost(
 }
 
 /**
- * Update a generated post
+ * Update a generated post (workflow status, or content when a new revision is saved)
  */
 export async function updateGeneratedPost(
   id: string,
-  updates: Partial<Pick<GeneratedPost, "status" | "exportedAt" | "scheduledFor" | "failureReason">>
+  updates: Partial<Pick<
+    GeneratedPost,
+    "status" | "exportedAt" | "scheduledFor" | "failureReason" | "pipeline" | "quality" | "outputs" | "revisions" | "manualEdits"
+  >>
 ): Promise<{
   success: boolean;
   error: string | null;
@@ -431,6 +580,15 @@ export async function updateGeneratedPost(
     if (updates.exportedAt !== undefined) dbUpdates.exported_at = updates.exportedAt;
     if (updates.scheduledFor !== undefined) dbUpdates.scheduled_for = updates.scheduledFor;
     if (updates.failureReason !== undefined) dbUpdates.failure_reason = updates.failureReason;
+    if (updates.pipeline !== undefined) dbUpdates.pipeline_data = updates.pipeline as unknown as PipelineDataJson;
+    if (updates.quality !== undefined) {
+      dbUpdates.quality_score = updates.quality.score;
+      dbUpdates.quality_report = (updates.quality.report as QualityReportJson | undefined) ?? null;
+      dbUpdates.self_score = updates.quality.selfScore ?? null;
+    }
+    if (updates.outputs !== undefined) dbUpdates.outputs = updates.outputs as unknown as OutputsJson;
+    if (updates.revisions !== undefined) dbUpdates.revisions = updates.revisions as unknown as PostRevisionJson[];
+    if (updates.manualEdits !== undefined) dbUpdates.manual_edits = updates.manualEdits;
 
     const { error } = await supabase
       .from("generated_posts")
@@ -483,6 +641,98 @@ export async function deleteGeneratedPost(id: string): Promise<{
   }
 }
 
+// ============================================================================
+// HISTORICAL POSTS OPERATIONS
+// ============================================================================
+
+/**
+ * Fetch the imported post history of a voice profile, newest first
+ */
+export async function fetchHistoricalPosts(voiceProfileId: string): Promise<{
+  data: HistoricalPost[];
+  error: string | null;
+}> {
+  try {
+    const supabase = createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return { data: [], error: null };
+    }
+
+    const { data, error } = await supabase
+      .from("historical_posts")
+      .select("*")
+      .eq("user_id", user.id)
+      .eq("voice_profile_id", voiceProfileId)
+      .order("published_at", { ascending: false, nullsFirst: false });
+
+    if (error) {
+      console.error("[DB] Fetch historical posts error:", error.message);
+      return { data: [], error: error.message };
+    }
+
+    return { data: (data || []).map(dbToAppHistoricalPost), error: null };
+  } catch (err) {
+    console.error("[DB] Fetch historical posts exception:", err);
+    return { data: [], error: "Failed to fetch post history" };
+  }
+}
+
+/**
+ * Store imported posts against a voice profile. Posts already stored
+ * (same text on the same platform) are skipped; returns how many were added.
+ */
+export async function createHistoricalPosts(
+  voiceProfileId: string,
+  posts: ImportedPost[]
+): Promise<{
+  data: number;
+  error: string | null;
+}> {
+  try {
+    const supabase = createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return { data: 0, error: "Not authenticated" };
+    }
+
+    if (posts.length === 0) {
+      return { data: 0, error: null };
+    }
+
+    const rows: HistoricalPostInsert[] = posts.map((post) => ({
+      user_id: user.id,
+      voice_profile_id: voiceProfileId,
+      platform: post.platform,
+      source: post.source,
+      content: post.content,
+      published_at: post.publishedAt || null,
+      url: post.url || null,
+      engagement: post.engagement ?? null,
+    }));
+
+    const { data, error } = await supabase
+      .from("historical_posts")
+      .upsert(rows, {
+        onConflict: "user_id,voice_profile_id,platform,content_hash",
+        ignoreDuplicates: true,
+      })
+      .select("id");
+
+    if (error) {
+      console.error("[DB] Create historical posts error:", error.message);
+      return { data: 0, error: error.message };
+    }
+
+    return { data: data?.length ?? 0, error: null };
+  } catch (err) {
+    console.error("[DB] Create historical posts exception:", err);
+    return { data: 0, error: "Failed to save post history" };
+  }
+}
+
 // ============================================================================
 // USER PROFILE OPERATIONS
 // ============================================================================
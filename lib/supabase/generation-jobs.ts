@@ -0,0 +1,305 @@
+/**
+ * Generation Job Operations (server-side)
+ *
+ * Persistence for checkpointed generation runs, plus the post history a run
+ * is checked against. Reads use the route handler client, so RLS applies.
+ * Jobs are written with the admin client: users can't write them themselves
+ * (migration 010), since a resume runs on the stored inputs and checkpoints.
+ *
+ * SECURITY NOTES:
+ * - All queries filtered by user_id (writes bypass RLS, so this is required)
+ * - Callers pass the user id from authenticateRequest()
+ */
+
+import { createAdminClient, createRouteHandlerClient } from "./server";
+import { dbToAppHistoricalPost } from "./database";
+import { mergePostHistory } from "@/lib/guardrails/self-repetition";
+import type {
+  GenerationJobRow,
+  GenerationJobInsert,
+  GenerationJobUpdate,
+  InterviewDataJson,
+  Json,
+  OutputsJson,
+  PipelineCheckpointsJson,
+  StageParseFailureJson,
+} from "./types";
+import type {
+  GenerationJob,
+  GenerationJobStatus,
+  GeneratedPost,
+  InterviewResponse,
+  PipelineCheckpoints,
+  PostHistoryEntry,
+  PipelineStageId,
+  StageParseFailure,
+  VoiceProfile,
+} from "@/lib/types";
+
+// ============================================================================
+// TYPE CONVERTERS
+// ============================================================================
+
+/**
+ * Convert database generation job to application type
+ */
+export function dbToAppGenerationJob(db: GenerationJobRow): GenerationJob {
+  return {
+    id: db.id,
+    createdAt: db.created_at,
+    updatedAt: db.updated_at,
+    interviewData: db.interview_data as unknown as InterviewResponse,
+    voiceProfileId: db.voice_profile_id,
+    voiceProfile: db.voice_profile_data as unknown as VoiceProfile,
+    status: db.status,
+    checkpoints: db.checkpoints as unknown as PipelineCheckpoints,
+    parseFailures: db.parse_failures as unknown as StageParseFailure[],
+    lastCompletedStage: db.last_completed_stage || undefined,
+    attempt: db.attempt,
+    retryFromStage: db.retry_from_stage,
+    resultPost: (db.result_post as unknown as GeneratedPost | null) || undefined,
+    error: db.error || undefined,
+  };
+}
+
+// ============================================================================
+// GENERATION JOB OPERATIONS
+// ============================================================================
+
+/**
+ * Create a running job for a new generation
+ */
+export async function createGenerationJob(
+  userId: string,
+  input: {
+    interview: InterviewResponse;
+    voiceProfile: VoiceProfile;
+    retryFromStage?: PipelineStageId;
+  }
+): Promise<{
+  data: GenerationJob | null;
+  error: string | null;
+}> {
+  try {
+    const supabase = createAdminClient();
+
+    const insert: GenerationJobInsert = {
+      user_id: userId,
+      voice_profile_id: input.voiceProfile.id,
+      interview_data: input.interview as unknown as InterviewDataJson,
+      voice_profile_data: input.voiceProfile as unknown as Json,
+      retry_from_stage: input.retryFromStage,
+    };
+
+    const { data, error } = await supabase
+      .from("generation_jobs")
+      .insert(insert)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("[DB] Create generation job error:", error.message);
+      return { data: null, error: error.message };
+    }
+
+    return { data: data ? dbToAppGenerationJob(data) : null, error: null };
+  } catch (err) {
+    console.error("[DB] Create generation job exception:", err);
+    return { data: null, error: "Failed to create generation job" };
+  }
+}
+
+/**
+ * Fetch a single job by ID
+ */
+export async function fetchGenerationJob(
+  userId: string,
+  id: string
+): Promise<{
+  data: GenerationJob | null;
+  error: string | null;
+}> {
+  try {
+    const supabase = await createRouteHandlerClient();
+
+    const { data, error } = await supabase
+      .from("generation_jobs")
+      .select("*")
+      .eq("id", id)
+      .eq("user_id", userId) // Defense in depth
+      .single();
+
+    if (error) {
+      console.error("[DB] Fetch generation job error:", error.message);
+      return { data: null, error: error.message };
+    }
+
+    return { data: data ? dbToAppGenerationJob(data) : null, error: null };
+  } catch (err) {
+    console.error("[DB] Fetch generation job exception:", err);
+    return { data: null, error: "Failed to fetch generation job" };
+  }
+}
+
+/**
+ * Save checkpoints for a running job.
+ * `active` is false when the job is no longer running (e.g. cancelled
+ * from another request) so the caller can stop the pipeline.
+ */
+export async function saveGenerationCheckpoint(
+  userId: string,
+  id: string,
+  state: {
+    checkpoints: PipelineCheckpoints;
+    parseFailures: StageParseFailure[];
+    lastCompletedStage?: PipelineStageId;
+    attempt: number;
+  }
+): Promise<{
+  active: boolean;
+  error: string | null;
+}> {
+  try {
+    const supabase = createAdminClient();
+
+    const updates: GenerationJobUpdate = {
+      checkpoints: state.checkpoints as unknown as PipelineCheckpointsJson,
+      parse_failures: state.parseFailures as unknown as StageParseFailureJson[],
+      last_completed_stage: state.lastCompletedStage ?? null,
+      attempt: state.attempt,
+    };
+
+    const { data, error } = await supabase
+      .from("generation_jobs")
+      .update(updates)
+      .eq("id", id)
+      .eq("user_id", userId)
+      .eq("status", "running")
+      .select("id");
+
+    if (error) {
+      console.error("[DB] Save generation checkpoint error:", error.message);
+      return { active: true, error: error.message };
+    }
+
+    return { active: (data || []).length > 0, error: null };
+  } catch (err) {
+    console.error("[DB] Save generation checkpoint exception:", err);
+    return { active: true, error: "Failed to save checkpoint" };
+  }
+}
+
+/**
+ * Move a job to a new status, optionally recording the outcome.
+ * `fromStatuses` restricts the transition (e.g. only resume failed jobs).
+ */
+export async function updateGenerationJobStatus(
+  userId: string,
+  id: string,
+  status: GenerationJobStatus,
+  outcome: {
+    resultPost?: GeneratedPost;
+    error?: string | null;
+    retryFromStage?: PipelineStageId;
+    fromStatuses?: GenerationJobStatus[];
+  } = {}
+): Promise<{
+  success: boolean;
+  error: string | null;
+}> {
+  try {
+    const supabase = createAdminClient();
+
+    const updates: GenerationJobUpdate = { status };
+    if (outcome.resultPost !== undefined) updates.result_post = outcome.resultPost as unknown as Json;
+    if (outcome.error !== undefined) updates.error = outcome.error;
+    if (outcome.retryFromStage !== undefined) updates.retry_from_stage = outcome.retryFromStage;
+
+    let query = supabase
+      .from("generation_jobs")
+      .update(updates)
+      .eq("id", id)
+      .eq("user_id", userId);
+    if (outcome.fromStatuses) {
+      query = query.in("status", outcome.fromStatuses);
+    }
+
+    const { data, error } = await query.select("id");
+
+    if (error) {
+      console.error("[DB] Update generation job error:", error.message);
+      return { success: false, error: error.message };
+    }
+    if ((data || []).length === 0) {
+      return { success: false, error: "Job not found or not in an updatable state" };
+    }
+
+    return { success: true, error: null };
+  } catch (err) {
+    console.error("[DB] Update generation job exception:", err);
+    return { success: false, error: "Failed to update generation job" };
+  }
+}
+
+// ============================================================================
+// POST HISTORY
+// ============================================================================
+
+/**
+ * Fetch the latest posts written with a voice profile, newest first: the
+ * last `limit` generated posts and the last `limit` imported ones
+ */
+export async function fetchPostHistory(
+  userId: string,
+  voiceProfileId: string,
+  limit: number = 30
+): Promise<{
+  data: PostHistoryEntry[];
+  error: string | null;
+}> {
+  try {
+    const supabase = await createRouteHandlerClient();
+
+    const [generated, imported] = await Promise.all([
+      supabase
+        .from("generated_posts")
+        .select("id, created_at, outputs")
+        .eq("user_id", userId) // Defense in depth
+        .eq("voice_profile_id", voiceProfileId)
+        .order("created_at", { ascending: false })
+        .limit(limit),
+      supabase
+        .from("historical_posts")
+        .select("*")
+        .eq("user_id", userId) // Defense in depth
+        .eq("voice_profile_id", voiceProfileId)
+        .order("published_at", { ascending: false, nullsFirst: false })
+        .limit(limit),
+    ]);
+
+    if (generated.error) {
+      console.error("[DB] Fetch post history error:", generated.error.message);
+      return { data: [], error: generated.error.message };
+    }
+    // Generated posts are still checked without the imported ones
+    if (imported.error) {
+      console.error("[DB] Fetch imported post history error:", imported.error.message);
+    }
+
+    const history = (generated.data || [])
+      .map(row => ({
+        id: row.id,
+        createdAt: row.created_at,
+        content: (row.outputs as OutputsJson | null)?.linkedin?.post ?? "",
+      }))
+      .filter(entry => entry.content.trim() !== "");
+
+    return {
+      data: mergePostHistory(history, (imported.data || []).map(dbToAppHistoricalPost)),
+      error: null,
+    };
+  } catch (err) {
+    console.error("[DB] Fetch post history exception:", err);
+    return { data: [], error: "Failed to fetch post history" };
+  }
+}
@@ -75,6 +75,16 @@ export {
   appToDbGeneratedPost,
 } from "./database";
 
+// Generation jobs (server-side)
+export {
+  createGenerationJob,
+  fetchGenerationJob,
+  saveGenerationCheckpoint,
+  updateGenerationJobStatus,
+  fetchPostHistory,
+  dbToAppGenerationJob,
+} from "./generation-jobs";
+
 // Database types
 export type {
   Database,
@@ -83,14 +93,17 @@ export type {
   Profile,
   VoiceProfile,
   GeneratedPost,
+  GenerationJobRow,
   // Insert types
   ProfileInsert,
   VoiceProfileInsert,
   GeneratedPostInsert,
+  GenerationJobInsert,
   // Update types
   ProfileUpdate,
   VoiceProfileUpdate,
   GeneratedPostUpdate,
+  GenerationJobUpdate,
   // JSON column types
   VoiceRulesJson,
   TopPostJson,
@@ -99,7 +112,12 @@ export type {
   InterviewDataJson,
   PipelineDataJson,
   OutputsJson,
+  QualityReportJson,
+  PipelineCheckpointsJson,
+  StageParseFailureJson,
+  PipelineStageName,
   PostStatus,
+  GenerationJobStatus,
   // Helper types
   TableRow,
   TableInsert,
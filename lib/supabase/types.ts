@@ -62,6 +62,7 @@ export interface Database {
           top_posts: TopPostJson[];
           brand_colors: BrandColorsJson;
           stats: VoiceProfileStatsJson | null;
+          version: number;
           created_at: string;
           updated_at: string;
         };
@@ -73,6 +74,7 @@ export interface Database {
           top_posts?: TopPostJson[];
           brand_colors?: BrandColorsJson;
           stats?: VoiceProfileStatsJson | null;
+          version?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -84,6 +86,7 @@ export interface Database {
           top_posts?: TopPostJson[];
           brand_colors?: BrandColorsJson;
           stats?: VoiceProfileStatsJson | null;
+          version?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -104,13 +107,18 @@ export interface Database {
           interview_data: InterviewDataJson;
           pipeline_data: PipelineDataJson;
           outputs: OutputsJson;
+          revisions: PostRevisionJson[];
+          manual_edits: PostEditJson[];
           quality_score: number;
+          quality_report: QualityReportJson | null;
+          self_score: number | null;
           tokens_used: number;
           api_cost_usd: number;
           status: PostStatus;
           failure_reason: string | null;
           exported_at: string | null;
           scheduled_for: string | null;
+          voice_profile_version: number | null;
           created_at: string;
           updated_at: string;
         };
@@ -121,13 +129,18 @@ export interface Database {
           interview_data: InterviewDataJson;
           pipeline_data: PipelineDataJson;
           outputs: OutputsJson;
+          revisions?: PostRevisionJson[];
+          manual_edits?: PostEditJson[];
           quality_score: number;
+          quality_report?: QualityReportJson | null;
+          self_score?: number | null;
           tokens_used?: number;
           api_cost_usd?: number;
           status?: PostStatus;
           failure_reason?: string | null;
           exported_at?: string | null;
           scheduled_for?: string | null;
+          voice_profile_version?: number | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -138,13 +151,18 @@ export interface Database {
           interview_data?: InterviewDataJson;
           pipeline_data?: PipelineDataJson;
           outputs?: OutputsJson;
+          revisions?: PostRevisionJson[];
+          manual_edits?: PostEditJson[];
           quality_score?: number;
+          quality_report?: QualityReportJson | null;
+          self_score?: number | null;
           tokens_used?: number;
           api_cost_usd?: number;
           status?: PostStatus;
           failure_reason?: string | null;
           exported_at?: string | null;
           scheduled_for?: string | null;
+          voice_profile_version?: number | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -163,6 +181,172 @@ export interface Database {
           }
         ];
       };
+      generation_jobs: {
+        Row: {
+          id: string;
+          user_id: string;
+          voice_profile_id: string;
+          interview_data: InterviewDataJson;
+          voice_profile_data: Json;
+          status: GenerationJobStatus;
+          checkpoints: PipelineCheckpointsJson;
+          parse_failures: StageParseFailureJson[];
+          last_completed_stage: PipelineStageName | null;
+          attempt: number;
+          retry_from_stage: PipelineStageName;
+          result_post: Json | null;
+          error: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          voice_profile_id: string;
+          interview_data: InterviewDataJson;
+          voice_profile_data: Json;
+          status?: GenerationJobStatus;
+          checkpoints?: PipelineCheckpointsJson;
+          parse_failures?: StageParseFailureJson[];
+          last_completed_stage?: PipelineStageName | null;
+          attempt?: number;
+          retry_from_stage?: PipelineStageName;
+          result_post?: Json | null;
+          error?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          voice_profile_id?: string;
+          interview_data?: InterviewDataJson;
+          voice_profile_data?: Json;
+          status?: GenerationJobStatus;
+          checkpoints?: PipelineCheckpointsJson;
+          parse_failures?: StageParseFailureJson[];
+          last_completed_stage?: PipelineStageName | null;
+          attempt?: number;
+          retry_from_stage?: PipelineStageName;
+          result_post?: Json | null;
+          error?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "generation_jobs_user_id_fkey";
+            columns: ["user_id"];
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      historical_posts: {
+        Row: {
+          id: string;
+          user_id: string;
+          voice_profile_id: string;
+          platform: "linkedin" | "twitter";
+          source: HistoricalPostSource;
+          content: string;
+          content_hash: string;
+          published_at: string | null;
+          url: string | null;
+          engagement: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          voice_profile_id: string;
+          platform: "linkedin" | "twitter";
+          source: HistoricalPostSource;
+          content: string;
+          published_at?: string | null;
+          url?: string | null;
+          engagement?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          voice_profile_id?: string;
+          platform?: "linkedin" | "twitter";
+          source?: HistoricalPostSource;
+          content?: string;
+          published_at?: string | null;
+          url?: string | null;
+          engagement?: number | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "historical_posts_user_id_fkey";
+            columns: ["user_id"];
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "historical_posts_voice_profile_id_fkey";
+            columns: ["voice_profile_id"];
+            referencedRelation: "voice_profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      voice_profile_versions: {
+        Row: {
+          id: string;
+          user_id: string;
+          voice_profile_id: string;
+          version: number;
+          name: string;
+          rules: VoiceRulesJson;
+          top_posts: TopPostJson[];
+          brand_colors: BrandColorsJson;
+          restored_from: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          voice_profile_id: string;
+          version: number;
+          name: string;
+          rules: VoiceRulesJson;
+          top_posts: TopPostJson[];
+          brand_colors: BrandColorsJson;
+          restored_from?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          voice_profile_id?: string;
+          version?: number;
+          name?: string;
+          rules?: VoiceRulesJson;
+          top_posts?: TopPostJson[];
+          brand_colors?: BrandColorsJson;
+          restored_from?: number | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "voice_profile_versions_user_id_fkey";
+            columns: ["user_id"];
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "voice_profile_versions_voice_profile_id_fkey";
+            columns: ["voice_profile_id"];
+            referencedRelation: "voice_profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
     };
     Views: {};
     Functions: {};
@@ -181,6 +365,7 @@ export interface Database {
 export interface VoiceRulesJson {
   sentencePatterns: string[];
   forbiddenWords: string[];
+  allowedPhrases?: string[];
   signaturePhrases: string[];
   rhythmPreferences: {
     avgSentenceLength: number;
@@ -244,6 +429,10 @@ export interface InterviewDataJson {
   extractedInsight?: string;
   platform: "linkedin" | "twitter" | "both";
   targetAudience?: string;
+  phraseOverrides?: {
+    forbidden?: string[];
+    allowed?: string[];
+  };
 }
 
 /**
@@ -261,8 +450,70 @@ export interface PipelineDataJson {
   personalityVersion: string;
   injectedElements: string[];
   finalVersion: string;
+  versionScores?: {
+    version: number;
+    total: number;
+    specificity: number;
+    voice: number;
+    hook: number;
+    noSlop: number;
+  }[];
+  selectionOverride?: SelectionOverrideJson;
+  parseFailures?: StageParseFailureJson[];
+}
+
+/**
+ * Human override of the stage 2 version selection
+ */
+export interface SelectionOverrideJson {
+  version: number;
+  modelVersion?: number;
+  overriddenAt: string;
+}
+
+/**
+ * Stage reply that failed schema validation
+ */
+export interface StageParseFailureJson {
+  stage: string;
+  attempt: number;
+  error: string;
+  output: string;
 }
 
+/**
+ * Pipeline stage identifiers (execution order)
+ */
+export type PipelineStageName =
+  | "initial"
+  | "selected"
+  | "refined"
+  | "hook-optimized"
+  | "personality"
+  | "final";
+
+/**
+ * Generation job checkpoints - output of each completed stage
+ */
+export interface PipelineCheckpointsJson {
+  initial?: { versions: string[] };
+  selected?: {
+    selectedVersion: string;
+    reasoning: string;
+    versionScores: NonNullable<PipelineDataJson["versionScores"]>;
+    override?: SelectionOverrideJson;
+  };
+  refined?: { refinedVersion: string; changes: string[] };
+  "hook-optimized"?: { hooks: string[]; selectedHook: string; hookOptimizedVersion: string };
+  personality?: { personalityVersion: string; injectedElements: string[] };
+  final?: { score: number; passed: boolean; finalVersion: string };
+}
+
+/**
+ * Generation job status enum
+ */
+export type GenerationJobStatus = "running" | "completed" | "failed" | "cancelled";
+
 /**
  * Platform outputs structure
  */
@@ -278,6 +529,69 @@ export interface OutputsJson {
   };
 }
 
+/**
+ * Manual edit - post text before and after the user changed it
+ */
+export interface PostEditJson {
+  id: string;
+  createdAt: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * Quality report - result of every quality gate, keyed by gate id
+ */
+export interface QualityReportJson {
+  overallScore: number;
+  passed: boolean;
+  gates: Record<string, {
+    name: string;
+    passed: boolean;
+    score?: number;
+    issues: string[];
+    suggestions: string[];
+    weight?: number;
+    threshold?: number;
+    annotations?: {
+      start: number;
+      end: number;
+      message: string;
+      fixes: { label: string; start: number; end: number; before: string; replacement: string }[];
+    }[];
+  }>;
+  timestamp: string;
+}
+
+/**
+ * Post revision - snapshot of generated content (pipeline, quality, outputs)
+ */
+export interface PostRevisionJson {
+  id: string;
+  createdAt: string;
+  source: "generated" | "regenerated" | "hook-swap" | "chat" | "restored";
+  fromStage?: PipelineStageName;
+  instruction?: string;
+  summary?: string;
+  restoredFrom?: string;
+  pipeline: PipelineDataJson;
+  quality: {
+    score: number;
+    similarityScore: number;
+    specificityCount: number;
+    slopDetected: string[];
+    passedGates: boolean;
+    selfScore?: number;
+    report?: QualityReportJson;
+  };
+  outputs: OutputsJson;
+}
+
+/**
+ * Where an imported historical post came from
+ */
+export type HistoricalPostSource = "linkedin-export" | "twitter-archive";
+
 /**
  * Post status enum
  */
@@ -317,3 +631,13 @@ export type VoiceProfileUpdate = TableUpdate<"voice_profiles">;
 export type GeneratedPost = TableRow<"generated_posts">;
 export type GeneratedPostInsert = TableInsert<"generated_posts">;
 export type GeneratedPostUpdate = TableUpdate<"generated_posts">;
+
+export type GenerationJobRow = TableRow<"generation_jobs">;
+export type GenerationJobInsert = TableInsert<"generation_jobs">;
+export type GenerationJobUpdate = TableUpdate<"generation_jobs">;
+
+export type HistoricalPostRow = TableRow<"historical_posts">;
+export type HistoricalPostInsert = TableInsert<"historical_posts">;
+
+export type VoiceProfileVersionRow = TableRow<"voice_profile_versions">;
+export type VoiceProfileVersionInsert = TableInsert<"voice_profile_versions">;
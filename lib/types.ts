@@ -15,6 +15,12 @@ export interface VoiceProfile {
     
     // Words to avoid (beyond global forbidden list)
     forbiddenWords: string[];
+
+    // Globally forbidden phrases this author really does use
+    allowedPhrases?: string[];
+
+    // Quality gates turned off, re-weighted or re-thresholded for this author
+    qualityGates?: QualityGateConfig;
     
     // Signature phrases that make it recognizable
     signaturePhrases: string[];
@@ -57,6 +63,46 @@ export interface VoiceProfile {
     avgQualityScore: number;
     lastUsed: string;
   };
+
+  // Current version number; every edit to the fields in VoiceProfileSnapshot adds one
+  version?: number;
+}
+
+// The parts of a profile that are versioned
+export type VoiceProfileSnapshot = Pick<VoiceProfile, 'name' | 'rules' | 'topPosts' | 'brandColors'>;
+
+// Immutable copy of a profile as it was saved
+export interface VoiceProfileVersion {
+  id: string;
+  voiceProfileId: string;
+  version: number;
+  createdAt: string;
+  snapshot: VoiceProfileSnapshot;
+  // Set when this version was created by rolling back to an earlier one
+  restoredFrom?: number;
+}
+
+// ==========================================
+// HISTORICAL POST TYPES
+// ==========================================
+
+export type HistoricalPostSource = 'linkedin-export' | 'twitter-archive';
+
+// A past post read from a platform data export
+export interface ImportedPost {
+  content: string;
+  platform: 'linkedin' | 'twitter';
+  source: HistoricalPostSource;
+  publishedAt?: string;
+  url?: string;
+  engagement?: number;
+}
+
+// An imported post stored as the author's back catalogue for a voice profile
+export interface HistoricalPost extends ImportedPost {
+  id: string;
+  voiceProfileId: string;
+  importedAt: string;
 }
 
 // ==========================================
@@ -125,6 +171,15 @@ export interface InterviewResponse {
   // Metadata
   platform: 'linkedin' | 'twitter' | 'both';
   targetAudience?: string;
+
+  // Forbidden-phrase changes for this post only
+  phraseOverrides?: PhraseOverrides;
+}
+
+// Phrases one layer of the forbidden list adds or exempts
+export interface PhraseOverrides {
+  forbidden?: string[];
+  allowed?: string[];
 }
 
 // ==========================================
@@ -138,6 +193,94 @@ export interface GenerationPipeline {
   qualityScore?: number;
 }
 
+// Stage 2 score breakdown for one initial version
+export interface VersionScore {
+  version: number; // 1-based index into initialVersions
+  total: number;
+  specificity: number;
+  voice: number;
+  hook: number;
+  noSlop: number;
+}
+
+// The writer continued from a different stage 2 version than the model picked
+export interface SelectionOverride {
+  version: number; // 1-based index into initialVersions chosen by the writer
+  modelVersion?: number; // 1-based index the model selected, if known
+  overriddenAt: string;
+}
+
+// A stage reply that failed schema validation
+export interface StageParseFailure {
+  stage: GenerationPipeline['stage'];
+  attempt: number; // 1 = original reply, then repair / retry replies
+  error: string;
+  output: string; // raw reply, truncated
+}
+
+export type PipelineStageId = GenerationPipeline['stage'];
+
+// Output of each completed stage - enough to resume without re-running it
+export interface PipelineCheckpoints {
+  initial?: { versions: string[] };
+  selected?: {
+    selectedVersion: string;
+    reasoning: string;
+    versionScores: VersionScore[];
+    override?: SelectionOverride;
+  };
+  refined?: { refinedVersion: string; changes: string[] };
+  'hook-optimized'?: { hooks: string[]; selectedHook: string; hookOptimizedVersion: string };
+  personality?: { personalityVersion: string; injectedElements: string[] };
+  final?: { score: number; passed: boolean; finalVersion: string };
+}
+
+export type GenerationJobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface GenerationJob {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+
+  // Inputs (snapshotted so a resume uses exactly what the first run used)
+  interviewData: InterviewResponse;
+  voiceProfileId: string;
+  voiceProfile: VoiceProfile;
+
+  // Progress
+  status: GenerationJobStatus;
+  checkpoints: PipelineCheckpoints;
+  parseFailures: StageParseFailure[];
+  lastCompletedStage?: PipelineStageId;
+  attempt: number;
+  retryFromStage: PipelineStageId; // where quality retries restart
+
+  // Outcome
+  resultPost?: GeneratedPost;
+  error?: string;
+}
+
+// An earlier post for the same voice profile, for repetition checks
+export interface PostHistoryEntry {
+  id: string;
+  createdAt: string;
+  content: string;
+  // From the author's imported back catalogue rather than generated here
+  imported?: boolean;
+}
+
+// An earlier post that a new one repeats too closely
+export interface RepetitionWarning {
+  postId: string;
+  createdAt: string;
+  // 0-1, by word pairs with numbers ignored
+  hookSimilarity: number;
+  sharedNumbers: string[];
+  // 0-1, share of 3-word shingles in common
+  phraseOverlap: number;
+  reasons: string[];
+}
+
 export interface GeneratedPost {
   id: string;
   createdAt: string;
@@ -147,6 +290,8 @@ export interface GeneratedPost {
   interviewData: InterviewResponse;
   voiceProfileId: string;
   voiceProfile: VoiceProfile;
+  // Profile version the post was generated with
+  voiceProfileVersion?: number;
   
   // Generation Pipeline Results
   pipeline: {
@@ -161,6 +306,9 @@ export interface GeneratedPost {
     personalityVersion: string;
     injectedElements: string[];
     finalVersion: string;
+    versionScores?: VersionScore[];
+    selectionOverride?: SelectionOverride;
+    parseFailures?: StageParseFailure[];
   };
   
   // Quality Metrics
@@ -170,6 +318,14 @@ export interface GeneratedPost {
     specificityCount: number;
     slopDetected: string[];
     passedGates: boolean;
+    // Score the model gave itself in the final stage; `score` is measured
+    // by the quality gates. Missing on posts generated before the pipeline
+    // ran the gates, and dropped once the content is revised.
+    selfScore?: number;
+    // Gate results behind `score`
+    report?: QualityReport;
+    // Earlier posts for the same profile this one repeats
+    repetition?: RepetitionWarning[];
   };
   
   // Platform-Specific Outputs
@@ -197,6 +353,36 @@ export interface GeneratedPost {
   failureReason?: string;
   exportedAt?: string;
   scheduledFor?: string;
+
+  // Content history, oldest first (absent until the post is first revised)
+  revisions?: PostRevision[];
+
+  // Text changes the user made by hand, oldest first
+  manualEdits?: PostEdit[];
+}
+
+export type PostRevisionSource = 'generated' | 'regenerated' | 'hook-swap' | 'chat' | 'restored';
+
+// Snapshot of a post's generated content at one point in its history
+export interface PostRevision {
+  id: string;
+  createdAt: string;
+  source: PostRevisionSource;
+  fromStage?: PipelineStageId; // first stage re-run for a 'regenerated' revision
+  instruction?: string; // what the user asked for in a 'chat' revision
+  summary?: string; // the model's note on what it changed
+  restoredFrom?: string; // revision id copied by a 'restored' revision
+  pipeline: GeneratedPost['pipeline'];
+  quality: GeneratedPost['quality'];
+  outputs: GeneratedPost['outputs'];
+}
+
+// LinkedIn post text before and after a manual edit
+export interface PostEdit {
+  id: string;
+  createdAt: string;
+  before: string;
+  after: string;
 }
 
 // ==========================================
@@ -236,24 +422,58 @@ export interface CarouselPage {
 // QUALITY GATE TYPES
 // ==========================================
 
+// A deterministic edit: replace post[start, end) with `replacement`
+export interface QuickFix {
+  label: string;
+  start: number;
+  end: number;
+  // Text the fix expects at [start, end), so a stale fix is never applied
+  before: string;
+  replacement: string;
+}
+
+// A character range in the post that a gate flags
+export interface QualityAnnotation {
+  start: number;
+  end: number;
+  message: string;
+  fixes: QuickFix[];
+}
+
 export interface QualityGate {
   name: string;
   passed: boolean;
   score?: number;
   issues: string[];
   suggestions: string[];
+  // Where in the post the issues are, for gates that can point at them
+  annotations?: QualityAnnotation[];
+  // Effective settings the gate was judged with (see lib/guardrails/gate-registry.ts)
+  weight?: number;
+  threshold?: number;
+}
+
+// Overrides for one registered gate; unset fields keep its defaults
+export interface QualityGateOverride {
+  enabled?: boolean;
+  weight?: number;
+  threshold?: number;
+}
+
+export interface QualityGateConfig {
+  // Keyed by gate id
+  gates?: Record<string, QualityGateOverride>;
+  // Overall score a post needs to pass
+  passScore?: number;
 }
 
 export interface QualityReport {
   overallScore: number;
   passed: boolean;
-  gates: {
-    forbiddenPhrases: QualityGate;
-    specificity: QualityGate;
-    voiceMatch: QualityGate;
-    hookStrength: QualityGate;
-    formatting: QualityGate;
-  };
+  // Keyed by gate id, in registration order. Gates that are turned off or
+  // don't apply (the fact and name gates without an interview) are missing, as are
+  // gates added after a report was stored.
+  gates: Record<string, QualityGate>;
   timestamp: string;
 }
 
@@ -291,6 +511,10 @@ export interface VoiceProfileContextType {
   updateProfile: (id: string, updates: Partial<VoiceProfile>) => Promise<void>;
   deleteProfile: (id: string) => Promise<void>;
   refreshProfiles: () => Promise<void>;
+  importHistoricalPosts: (profileId: string, posts: ImportedPost[]) => Promise<number>;
+  getHistoricalPosts: (profileId: string) => Promise<HistoricalPost[]>;
+  getProfileVersions: (profileId: string) => Promise<VoiceProfileVersion[]>;
+  restoreProfileVersion: (profileId: string, version: number) => Promise<void>;
 }
 
 export interface PostContextType {
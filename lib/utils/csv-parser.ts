@@ -0,0 +1,60 @@
+/**
+ * Parse CSV text (RFC 4180): quoted fields may contain commas, escaped
+ * quotes ("") and line breaks. A leading byte order mark is ignored.
+ */
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines parse as a single empty field
+  return rows.filter(r => r.length > 1 || r[0] !== "");
+}
+
+/**
+ * Parse CSV text with a header row into records keyed by column name
+ */
+export function parseCSVRecords(text: string): Record<string, string>[] {
+  const [headers, ...rows] = parseCSV(text);
+  if (!headers) return [];
+
+  const keys = headers.map(h => h.trim());
+  return rows.map(row =>
+    Object.fromEntries(keys.map((key, i) => [key, row[i] ?? ""]))
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * Server-Sent Events Helpers
+ *
+ * Encoding on the server side and incremental parsing on the client side.
+ * The client uses fetch() rather than EventSource because generation
+ * requests are POSTs with a JSON body.
+ */
+
+export interface SSEMessage {
+  event: string;
+  data: unknown;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Encode a single SSE message as bytes
+ */
+export function encodeSSE(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Parse one raw SSE block ("event: x\ndata: {...}") into a message
+ */
+function parseSSEBlock(block: string): SSEMessage | null {
+  let event = "message";
+  const dataLines: string[] = [];
+
+  for (const line of block.split("\n")) {
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+
+  try {
+    return { event, data: JSON.parse(dataLines.join("\n")) };
+  } catch {
+    return { event, data: dataLines.join("\n") };
+  }
+}
+
+/**
+ * Read an SSE response body and invoke the callback for every message
+ */
+export async function readSSEStream(
+  body: ReadableStream<Uint8Array>,
+  onMessage: (message: SSEMessage) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const message = parseSSEBlock(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (message) onMessage(message);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+
+  // Flush a trailing message without the final blank line
+  const message = parseSSEBlock(buffer.trim());
+  if (message) onMessage(message);
+}
@@ -1,11 +1,21 @@
-import { VoiceProfile, GeneratedPost, InterviewResponse } from "@/lib/types";
+import {
+  VoiceProfile,
+  GeneratedPost,
+  InterviewResponse,
+  HistoricalPost,
+  ImportedPost,
+  VoiceProfileVersion,
+} from "@/lib/types";
 import { secureStorage } from "@/lib/security/encryption";
+import { getContentKey } from "@/lib/voice/archive-import";
 
 const STORAGE_KEYS = {
   VOICE_PROFILES: "william_voice_profiles",
   POSTS: "william_posts",
   ACTIVE_PROFILE: "william_active_profile",
   INTERVIEW_DRAFT: "william_interview_draft",
+  HISTORICAL_POSTS: "william_historical_posts",
+  PROFILE_VERSIONS: "william_profile_versions",
   STORAGE_VERSION: "william_storage_version",
 } as const;
 
@@ -147,6 +157,8 @@ export function saveVoiceProfile(profile: VoiceProfile): void {
 export function deleteVoiceProfile(id: string): void {
   const profiles = loadVoiceProfiles().filter(p => p.id !== id);
   saveVoiceProfiles(profiles);
+  deleteHistoricalPosts(id);
+  deleteProfileVersions(id);
 }
 
 export function getActiveProfileId(): string | null {
@@ -233,6 +245,128 @@ export function getPostsByProfile(profileId: string): GeneratedPost[] {
   return loadPosts().filter(p => p.voiceProfileId === profileId);
 }
 
+// ==========================================
+// PROFILE VERSIONS
+// ==========================================
+
+function loadAllProfileVersions(): VoiceProfileVersion[] {
+  try {
+    const data = localStorage.getItem(STORAGE_KEYS.PROFILE_VERSIONS);
+    if (!data) return [];
+
+    const parsed = JSON.parse(data);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error("Failed to load profile versions - data corrupted. Resetting.", error);
+    localStorage.removeItem(STORAGE_KEYS.PROFILE_VERSIONS);
+    return [];
+  }
+}
+
+/**
+ * Add a profile version. An existing version with the same number is kept.
+ */
+export function saveProfileVersion(version: VoiceProfileVersion): void {
+  const versions = loadAllProfileVersions();
+  if (versions.some(v => v.voiceProfileId === version.voiceProfileId && v.version === version.version)) {
+    return;
+  }
+
+  try {
+    localStorage.setItem(STORAGE_KEYS.PROFILE_VERSIONS, JSON.stringify([...versions, version]));
+  } catch (error) {
+    console.error("Failed to save profile version:", error);
+    throw new Error("Storage quota exceeded");
+  }
+}
+
+/**
+ * Every saved version of a profile, oldest first
+ */
+export function loadProfileVersions(profileId: string): VoiceProfileVersion[] {
+  return loadAllProfileVersions()
+    .filter(v => v.voiceProfileId === profileId)
+    .sort((a, b) => a.version - b.version);
+}
+
+export function deleteProfileVersions(profileId: string): void {
+  const remaining = loadAllProfileVersions().filter(v => v.voiceProfileId !== profileId);
+  if (remaining.length > 0) {
+    localStorage.setItem(STORAGE_KEYS.PROFILE_VERSIONS, JSON.stringify(remaining));
+  } else {
+    localStorage.removeItem(STORAGE_KEYS.PROFILE_VERSIONS);
+  }
+}
+
+// ==========================================
+// HISTORICAL POSTS
+// ==========================================
+
+function loadAllHistoricalPosts(): HistoricalPost[] {
+  try {
+    const data = localStorage.getItem(STORAGE_KEYS.HISTORICAL_POSTS);
+    if (!data) return [];
+
+    const parsed = JSON.parse(data);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error("Failed to load post history - data corrupted. Resetting.", error);
+    localStorage.removeItem(STORAGE_KEYS.HISTORICAL_POSTS);
+    return [];
+  }
+}
+
+/**
+ * Add imported posts to a profile's history, skipping ones already stored.
+ * Returns how many were added.
+ */
+export function saveHistoricalPosts(profileId: string, posts: ImportedPost[]): number {
+  const all = loadAllHistoricalPosts();
+  const seen = new Set(
+    all
+      .filter(p => p.voiceProfileId === profileId)
+      .map(p => `${p.platform}:${getContentKey(p.content)}`)
+  );
+  const importedAt = new Date().toISOString();
+
+  const added: HistoricalPost[] = [];
+  for (const post of posts) {
+    const key = `${post.platform}:${getContentKey(post.content)}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    added.push({ ...post, id: generateId(), voiceProfileId: profileId, importedAt });
+  }
+
+  if (added.length > 0) {
+    try {
+      localStorage.setItem(STORAGE_KEYS.HISTORICAL_POSTS, JSON.stringify([...all, ...added]));
+    } catch (error) {
+      console.error("Failed to save post history:", error);
+      throw new Error("Storage quota exceeded");
+    }
+  }
+
+  return added.length;
+}
+
+/**
+ * A profile's imported post history, newest first
+ */
+export function loadHistoricalPosts(profileId: string): HistoricalPost[] {
+  return loadAllHistoricalPosts()
+    .filter(p => p.voiceProfileId === profileId)
+    .sort((a, b) => (b.publishedAt ?? "").localeCompare(a.publishedAt ?? ""));
+}
+
+export function deleteHistoricalPosts(profileId: string): void {
+  const remaining = loadAllHistoricalPosts().filter(p => p.voiceProfileId !== profileId);
+  if (remaining.length > 0) {
+    localStorage.setItem(STORAGE_KEYS.HISTORICAL_POSTS, JSON.stringify(remaining));
+  } else {
+    localStorage.removeItem(STORAGE_KEYS.HISTORICAL_POSTS);
+  }
+}
+
 // ==========================================
 // INTERVIEW DRAFTS
 // ==========================================
@@ -273,12 +407,16 @@ export function clearDraft(): void {
 export async function exportAllUserData(): Promise<{
   voiceProfiles: VoiceProfile[];
   posts: GeneratedPost[];
+  historicalPosts: HistoricalPost[];
+  profileVersions: VoiceProfileVersion[];
   activeProfileId: string | null;
   exportedAt: string;
 }> {
   return {
     voiceProfiles: loadVoiceProfiles(),
     posts: loadPosts(),
+    historicalPosts: loadAllHistoricalPosts(),
+    profileVersions: loadAllProfileVersions(),
     activeProfileId: getActiveProfileId(),
     exportedAt: new Date().toISOString(),
   };
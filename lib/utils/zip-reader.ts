@@ -0,0 +1,126 @@
+/**
+ * Minimal ZIP reader for platform data exports.
+ *
+ * Reads the central directory and inflates entries with the built-in
+ * DecompressionStream, so it runs in the browser and on the server without
+ * a dependency. Stored and deflated entries are supported; ZIP64 and
+ * encrypted archives are not (platform exports use neither).
+ */
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+export interface ZipEntry {
+  name: string;
+  compressionMethod: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  encrypted: boolean;
+  localHeaderOffset: number;
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The record is 22 bytes plus an optional comment of up to 65535 bytes
+  const stop = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= stop; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error("Not a ZIP archive");
+}
+
+/**
+ * List every file in the archive (directories are skipped)
+ */
+export function listZipEntries(data: Uint8Array): ZipEntry[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder();
+  const end = findEndOfCentralDirectory(view);
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (offset === 0xffffffff || count === 0xffff) {
+    throw new Error("ZIP64 archives are not supported");
+  }
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > view.byteLength || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error("Corrupted ZIP archive");
+    }
+
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+
+    if (!name.endsWith("/")) {
+      entries.push({
+        name,
+        compressionMethod: view.getUint16(offset + 10, true),
+        compressedSize: view.getUint32(offset + 20, true),
+        uncompressedSize: view.getUint32(offset + 24, true),
+        encrypted: (view.getUint16(offset + 8, true) & 0x1) === 1,
+        localHeaderOffset: view.getUint32(offset + 42, true),
+      });
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+async function inflateRaw(compressed: Uint8Array): Promise<Uint8Array> {
+  const input = new ReadableStream<BufferSource>({
+    start(controller) {
+      controller.enqueue(new Uint8Array(compressed));
+      controller.close();
+    },
+  });
+  const output = input.pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+/**
+ * Read the contents of one entry
+ */
+export async function readZipEntry(data: Uint8Array, entry: ZipEntry): Promise<Uint8Array> {
+  if (entry.encrypted) {
+    throw new Error(`${entry.name} is encrypted`);
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const header = entry.localHeaderOffset;
+  if (view.getUint32(header, true) !== LOCAL_FILE_HEADER) {
+    throw new Error("Corrupted ZIP archive");
+  }
+
+  const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const compressed = data.subarray(start, start + entry.compressedSize);
+
+  switch (entry.compressionMethod) {
+    case 0:
+      return compressed;
+    case 8:
+      return inflateRaw(compressed);
+    default:
+      throw new Error(`${entry.name} uses an unsupported compression method`);
+  }
+}
+
+/**
+ * Find an entry by file name (case-insensitive, in any folder) and read it as text
+ */
+export async function readZipText(data: Uint8Array, fileName: string): Promise<string | null> {
+  const target = fileName.toLowerCase();
+  const entry = listZipEntries(data).find(e => {
+    const name = e.name.toLowerCase();
+    return name === target || name.endsWith(`/${target}`);
+  });
+
+  if (!entry) return null;
+  return new TextDecoder().decode(await readZipEntry(data, entry));
+}
@@ -6,6 +6,7 @@
  */
 
 import { z } from "zod";
+import { checkPhraseRule } from "@/lib/guardrails/forbidden-phrases";
 
 // ==========================================
 // COMMON VALIDATORS
@@ -17,6 +18,12 @@ const MAX_SIGNATURE_PHRASE_LENGTH = 200;
 const MAX_POST_CONTENT_LENGTH = 10000;
 const MAX_ARRAY_LENGTH = 50;
 
+// A forbidden phrase or /regex/ rule; unsafe or broken regexes are rejected
+const phraseRuleSchema = z.string().min(1).max(100).superRefine((rule, ctx) => {
+  const problem = checkPhraseRule(rule);
+  if (problem) ctx.addIssue({ code: "custom", message: problem });
+});
+
 // Voice Mode IDs
 export const voiceModeIdSchema = z.enum([
   "thought-leader",
@@ -32,6 +39,16 @@ export const platformSchema = z.enum(["linkedin", "twitter", "both"]);
 // Flow types
 export const flowTypeSchema = z.enum(["experience", "pattern"]);
 
+// Pipeline stages (execution order)
+export const pipelineStageSchema = z.enum([
+  "initial",
+  "selected",
+  "refined",
+  "hook-optimized",
+  "personality",
+  "final",
+]);
+
 // ==========================================
 // VOICE PROFILE SCHEMAS
 // ==========================================
@@ -50,6 +67,20 @@ export const formattingRulesSchema = z.object({
   emojiUsage: z.enum(["never", "rare", "moderate", "frequent"]),
 });
 
+export const qualityGateConfigSchema = z.object({
+  gates: z
+    .record(
+      z.string().min(1).max(50),
+      z.object({
+        enabled: z.boolean().optional(),
+        weight: z.number().min(0).max(10).optional(),
+        threshold: z.number().min(0).max(100).optional(),
+      })
+    )
+    .optional(),
+  passScore: z.number().min(0).max(100).optional(),
+});
+
 // Minimum total rules required for a valid voice profile
 const MIN_TOTAL_RULES = 20;
 
@@ -58,8 +89,13 @@ export const voiceRulesSchema = z.object({
     .array(z.string().min(1).max(500))
     .max(MAX_ARRAY_LENGTH),
   forbiddenWords: z
-    .array(z.string().min(1).max(100))
+    .array(phraseRuleSchema)
     .max(MAX_ARRAY_LENGTH),
+  allowedPhrases: z
+    .array(z.string().min(1).max(100))
+    .max(MAX_ARRAY_LENGTH)
+    .optional(),
+  qualityGates: qualityGateConfigSchema.optional(),
   signaturePhrases: z
     .array(z.string().min(1).max(MAX_SIGNATURE_PHRASE_LENGTH))
     .max(MAX_ARRAY_LENGTH),
@@ -122,6 +158,11 @@ export const interviewAnswersSchema = z.object({
   q6: z.string().max(MAX_ANSWER_LENGTH).optional(),
 });
 
+export const phraseOverridesSchema = z.object({
+  forbidden: z.array(phraseRuleSchema).max(MAX_ARRAY_LENGTH).optional(),
+  allowed: z.array(z.string().min(1).max(100)).max(MAX_ARRAY_LENGTH).optional(),
+});
+
 export const interviewResponseSchema = z.object({
   id: z.string().min(1).max(100),
   flowType: flowTypeSchema,
@@ -132,6 +173,7 @@ export const interviewResponseSchema = z.object({
   extractedInsight: z.string().max(MAX_ANSWER_LENGTH).optional(),
   platform: platformSchema,
   targetAudience: z.string().max(500).optional(),
+  phraseOverrides: phraseOverridesSchema.optional(),
 });
 
 // ==========================================
@@ -144,6 +186,18 @@ export const interviewResponseSchema = z.object({
 export const generateRequestSchema = z.object({
   interview: interviewResponseSchema,
   voiceProfile: voiceProfileSchema,
+  // Where quality retries restart (default: from scratch)
+  retryFromStage: pipelineStageSchema.optional(),
+});
+
+/**
+ * Schema for resuming a generation job (/api/generate/stream with jobId)
+ */
+export const resumeGenerationRequestSchema = z.object({
+  jobId: z.string().uuid(),
+  // Discard checkpoints from this stage on and regenerate them
+  fromStage: pipelineStageSchema.optional(),
+  retryFromStage: pipelineStageSchema.optional(),
 });
 
 /**
@@ -155,14 +209,208 @@ export const extractInsightRequestSchema = z.object({
   voiceModeId: voiceModeIdSchema.optional(),
 });
 
+// ==========================================
+// PIPELINE STAGE OUTPUT SCHEMAS
+// ==========================================
+
+const MAX_HOOK_LENGTH = 300;
+const pipelinePostSchema = z.string().trim().min(1).max(MAX_POST_CONTENT_LENGTH);
+
+/**
+ * Stage 2: score every version and pick one by number
+ */
+export const versionScoreSchema = z.object({
+  version: z.number().int().min(1),
+  total: z.number().min(0).max(100),
+  specificity: z.number().min(0).max(30),
+  voice: z.number().min(0).max(25),
+  hook: z.number().min(0).max(25),
+  noSlop: z.number().min(0).max(20),
+});
+
+export const stage2OutputSchema = z.object({
+  scores: z.array(versionScoreSchema).min(1),
+  selectedVersion: z.number().int().min(1),
+  reasoning: z.string().trim().min(1),
+});
+
+/**
+ * Stage 3: refined post plus the list of edits
+ */
+export const stage3OutputSchema = z.object({
+  refinedVersion: pipelinePostSchema,
+  changes: z.array(z.string().trim().min(1)).max(MAX_ARRAY_LENGTH),
+});
+
+/**
+ * Stage 4: exactly 10 hook candidates, one selected by number
+ */
+export const stage4OutputSchema = z.object({
+  hooks: z.array(z.string().trim().min(1).max(MAX_HOOK_LENGTH)).length(10),
+  selectedHook: z.number().int().min(1).max(10),
+  reasoning: z.string().trim().min(1),
+  postWithNewHook: pipelinePostSchema,
+});
+
+/**
+ * Stage 5: personalized post plus what was injected
+ */
+export const stage5OutputSchema = z.object({
+  personalizedVersion: pipelinePostSchema,
+  injectedElements: z.array(z.string().trim().min(1)).max(MAX_ARRAY_LENGTH),
+});
+
+/**
+ * Stage 6: self-assessed score, verdict and final post
+ */
+export const stage6OutputSchema = z.object({
+  qualityScore: z.number().min(0).max(100),
+  overall: z.enum(["PASS", "FAIL"]),
+  issues: z.array(z.string().trim().min(1)).max(MAX_ARRAY_LENGTH),
+  finalPost: pipelinePostSchema,
+});
+
+/**
+ * Revision chat: revised post plus a short note on what changed
+ */
+export const revisionOutputSchema = z.object({
+  revisedPost: pipelinePostSchema,
+  summary: z.string().trim().min(1).max(500),
+});
+
+/**
+ * Slop fix: one sentence rewritten without its flagged phrases
+ */
+export const slopRewriteOutputSchema = z.object({
+  sentence: z.string().trim().min(1).max(1000),
+});
+
+// ==========================================
+// POST REVISION SCHEMAS
+// ==========================================
+
+const storedTextSchema = z.string().max(MAX_POST_CONTENT_LENGTH);
+const storedListSchema = z.array(storedTextSchema).max(MAX_ARRAY_LENGTH);
+
+const selectionOverrideSchema = z.object({
+  version: z.number().int().min(1),
+  modelVersion: z.number().int().min(1).optional(),
+  overriddenAt: z.string().datetime(),
+});
+
+/**
+ * Pipeline stored on a finished post. Only the inputs to the regenerated
+ * stages (refined, hook-optimized and personality versions) must be non-empty.
+ */
+export const storedPipelineSchema = z.object({
+  initialVersions: storedListSchema,
+  selectedVersion: storedTextSchema,
+  selectionReasoning: storedTextSchema,
+  refinedVersion: pipelinePostSchema,
+  refinementChanges: storedListSchema,
+  hookOptions: storedListSchema,
+  selectedHook: storedTextSchema,
+  hookOptimizedVersion: pipelinePostSchema,
+  personalityVersion: pipelinePostSchema,
+  injectedElements: storedListSchema,
+  finalVersion: storedTextSchema,
+  versionScores: z.array(versionScoreSchema).max(MAX_ARRAY_LENGTH).optional(),
+  selectionOverride: selectionOverrideSchema.optional(),
+});
+
+/**
+ * Checkpoints stored on a generation job. The same rules as a stored
+ * pipeline: only the inputs to later stages must be non-empty.
+ */
+export const pipelineCheckpointsSchema = z.object({
+  initial: z.object({ versions: storedListSchema }).optional(),
+  selected: z.object({
+    selectedVersion: storedTextSchema,
+    reasoning: storedTextSchema,
+    versionScores: z.array(versionScoreSchema).max(MAX_ARRAY_LENGTH),
+    override: selectionOverrideSchema.optional(),
+  }).optional(),
+  refined: z.object({
+    refinedVersion: pipelinePostSchema,
+    changes: storedListSchema,
+  }).optional(),
+  "hook-optimized": z.object({
+    hooks: storedListSchema,
+    selectedHook: storedTextSchema,
+    hookOptimizedVersion: pipelinePostSchema,
+  }).optional(),
+  personality: z.object({
+    personalityVersion: pipelinePostSchema,
+    injectedElements: storedListSchema,
+  }).optional(),
+  final: z.object({
+    score: z.number().min(0).max(100),
+    passed: z.boolean(),
+    finalVersion: storedTextSchema,
+  }).optional(),
+});
+
+/**
+ * What a resumed generation job runs on. It comes back from the database,
+ * so it's checked like a new request before the pipeline uses it.
+ */
+export const storedGenerationJobSchema = z.object({
+  interview: interviewResponseSchema,
+  voiceProfile: voiceProfileSchema,
+  checkpoints: pipelineCheckpointsSchema,
+});
+
+/**
+ * Schema for /api/generate/regenerate POST request
+ */
+export const regenerateStageRequestSchema = z.object({
+  interview: interviewResponseSchema,
+  voiceProfile: voiceProfileSchema,
+  pipeline: storedPipelineSchema,
+  // This stage and every later one are re-run
+  fromStage: z.enum(["refined", "hook-optimized", "personality", "final"]),
+  // 1-based initial version to continue from instead of stage 2's pick
+  selectedVersion: z.number().int().min(1).optional(),
+}).refine(
+  (request) => request.selectedVersion === undefined || request.fromStage === "refined",
+  { message: "selectedVersion requires fromStage \"refined\"", path: ["selectedVersion"] }
+).refine(
+  (request) => (request.selectedVersion ?? 1) <= request.pipeline.initialVersions.length,
+  { message: "selectedVersion is out of range", path: ["selectedVersion"] }
+);
+
+const MAX_INSTRUCTION_LENGTH = 500;
+
+/**
+ * Schema for /api/generate/revise POST request (revision chat)
+ */
+export const revisePostRequestSchema = z.object({
+  content: pipelinePostSchema,
+  instruction: z.string().trim().min(1).max(MAX_INSTRUCTION_LENGTH),
+  voiceProfile: voiceProfileSchema,
+  // Facts in the revised post are checked against the interview when sent
+  interview: interviewResponseSchema.optional(),
+  // Earlier chat instructions, oldest first, for context
+  previousInstructions: z.array(z.string().max(MAX_INSTRUCTION_LENGTH)).max(10).optional(),
+});
+
 // ==========================================
 // VALIDATION HELPERS
 // ==========================================
 
 export type GenerateRequest = z.infer<typeof generateRequestSchema>;
+export type ResumeGenerationRequest = z.infer<typeof resumeGenerationRequestSchema>;
+export type RegenerateStageRequest = z.infer<typeof regenerateStageRequestSchema>;
+export type RevisePostRequest = z.infer<typeof revisePostRequestSchema>;
 export type ExtractInsightRequest = z.infer<typeof extractInsightRequestSchema>;
 export type VoiceProfile = z.infer<typeof voiceProfileSchema>;
 export type InterviewResponse = z.infer<typeof interviewResponseSchema>;
+export type Stage2Output = z.infer<typeof stage2OutputSchema>;
+export type Stage3Output = z.infer<typeof stage3OutputSchema>;
+export type Stage4Output = z.infer<typeof stage4OutputSchema>;
+export type Stage5Output = z.infer<typeof stage5OutputSchema>;
+export type Stage6Output = z.infer<typeof stage6OutputSchema>;
+export type RevisionOutput = z.infer<typeof revisionOutputSchema>;
 
 /**
  * Validate and parse request body with helpful error messages
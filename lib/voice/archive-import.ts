@@ -0,0 +1,86 @@
+import { ImportedPost } from "@/lib/types";
+import { importLinkedInExport } from "./linkedin-export";
+import { importTwitterArchive, isTwitterArchive } from "./twitter-archive";
+
+/**
+ * Key two posts share when they are the same text (case and whitespace aside)
+ */
+export function getContentKey(content: string): string {
+  return content.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Drop repeated posts, keeping the earliest copy (the original, not a re-share)
+ */
+export function dedupePosts(posts: ImportedPost[]): ImportedPost[] {
+  const sorted = [...posts].sort((a, b) =>
+    (a.publishedAt ?? "").localeCompare(b.publishedAt ?? "")
+  );
+  const seen = new Set<string>();
+
+  return sorted.filter(post => {
+    const key = `${post.platform}:${getContentKey(post.content)}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * How much of the author's voice a post shows: longer, paragraphed posts
+ * without links say more than one-line link shares
+ */
+function substanceScore(post: ImportedPost): number {
+  const withoutLinks = post.content.replace(/https?:\/\/\S+/g, "");
+  const words = withoutLinks.split(/\s+/).filter(Boolean).length;
+  const paragraphs = withoutLinks.split(/\n\s*\n/).filter(p => p.trim()).length;
+
+  let score = Math.min(words, 250);
+  if (paragraphs >= 3) score += 50;
+  if (withoutLinks.length < post.content.length) score -= 50;
+  return score;
+}
+
+/**
+ * Best candidates for VoiceProfile.topPosts. Ranked by engagement when the
+ * export has it, otherwise by substance (LinkedIn's Shares.csv has no counts).
+ */
+export function suggestReferencePosts(posts: ImportedPost[], count = 3): ImportedPost[] {
+  const hasEngagement = posts.some(p => (p.engagement ?? 0) > 0);
+
+  return [...posts]
+    .sort((a, b) =>
+      hasEngagement
+        ? (b.engagement ?? 0) - (a.engagement ?? 0) || substanceScore(b) - substanceScore(a)
+        : substanceScore(b) - substanceScore(a)
+    )
+    .slice(0, count);
+}
+
+/**
+ * Read a platform export chosen by the user: a LinkedIn data export ZIP or
+ * its Shares.csv, or an X archive ZIP or its data/tweets.js. Returns deduped
+ * posts, newest first.
+ */
+export async function importArchive(fileName: string, data: Uint8Array): Promise<ImportedPost[]> {
+  const name = fileName.toLowerCase();
+  let posts: ImportedPost[];
+
+  if (name.endsWith(".js")) {
+    posts = await importTwitterArchive(fileName, data);
+  } else if (name.endsWith(".csv")) {
+    posts = await importLinkedInExport(fileName, data);
+  } else if (name.endsWith(".zip")) {
+    posts = isTwitterArchive(data)
+      ? await importTwitterArchive(fileName, data)
+      : await importLinkedInExport(fileName, data);
+  } else {
+    throw new Error("Upload a LinkedIn export (ZIP or Shares.csv) or an X archive (ZIP or tweets.js)");
+  }
+
+  if (posts.length === 0) {
+    throw new Error("No posts found in this export");
+  }
+
+  return dedupePosts(posts).reverse();
+}
@@ -0,0 +1,307 @@
+import { PostEdit, VoiceProfile } from "@/lib/types";
+import { generateId } from "@/lib/utils/storage";
+import { ForbiddenPhrase, hasForbiddenPhrases, parsePhraseRule } from "@/lib/guardrails/forbidden-phrases";
+
+type VoiceRules = VoiceProfile["rules"];
+
+/**
+ * What one manual edit changed
+ */
+export interface EditDiff {
+  // Content words in the original that the edit removed entirely
+  deletedWords: string[];
+  // Runs of 2-6 new words, as written
+  addedPhrases: string[];
+  // Places where one sentence became two, and the reverse
+  sentenceSplits: number;
+  sentenceMerges: number;
+  avgSentenceLengthBefore: number;
+  avgSentenceLengthAfter: number;
+}
+
+/**
+ * Habits that repeat across a profile's manual edits
+ */
+export interface EditPatterns {
+  editCount: number;
+  // Words deleted from at least 80% of the edits whose original contained them
+  deletedWords: { word: string; deleted: number; seen: number }[];
+  // Phrases added in at least two edits
+  addedPhrases: { phrase: string; edits: number }[];
+  editsWithSplits: number;
+  editsWithMerges: number;
+  // Average sentence length the edits produced, when they reshape sentences
+  editedSentenceLength: number | null;
+}
+
+export type EditRuleProposal =
+  | { kind: "forbiddenWord"; value: string; evidence: string }
+  | { kind: "signaturePhrase"; value: string; evidence: string }
+  | { kind: "avgSentenceLength"; value: number; evidence: string };
+
+const MIN_EDITS = 2;
+const ALWAYS_RATIO = 0.8;
+const MIN_PHRASE_WORDS = 2;
+const MAX_PHRASE_WORDS = 6;
+
+const STOPWORDS = new Set([
+  "a", "an", "the", "and", "or", "but", "so", "of", "to", "in", "on", "at", "for",
+  "with", "is", "it", "was", "be", "this", "that", "i", "we", "you", "my", "our",
+  "your", "me", "us", "they", "he", "she", "are", "were", "as", "by", "from", "if",
+  "not", "no", "do", "did", "have", "had", "has", "what", "when", "then", "just",
+  "its", "it's", "there", "their", "them", "than", "can", "will", "would", "all",
+]);
+
+interface Token {
+  // Lowercased, used for matching
+  word: string;
+  // As written, without surrounding punctuation
+  text: string;
+  endsSentence: boolean;
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const line of text.split("\n")) {
+    const lineTokens: Token[] = [];
+    for (const raw of line.split(/\s+/)) {
+      const stripped = raw.replace(/^[^\p{L}\p{N}']+|[^\p{L}\p{N}']+$/gu, "");
+      if (stripped) {
+        lineTokens.push({ word: stripped.toLowerCase(), text: stripped, endsSentence: /[.!?][)"'”’]*$/.test(raw) });
+      } else if (/[.!?]/.test(raw) && lineTokens.length > 0) {
+        lineTokens[lineTokens.length - 1].endsSentence = true;
+      }
+    }
+    // A line break ends a sentence, as it does for the style analysis
+    if (lineTokens.length > 0) lineTokens[lineTokens.length - 1].endsSentence = true;
+    tokens.push(...lineTokens);
+  }
+  return tokens;
+}
+
+/**
+ * Longest-common-subsequence alignment of two token lists: matched index
+ * pairs plus the runs only in `before` and only in `after`
+ */
+function alignTokens(before: Token[], after: Token[]) {
+  const n = before.length;
+  const m = after.length;
+  const lengths = Array.from({ length: n + 1 }, () => new Uint16Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] = before[i].word === after[j].word
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  const removed: Token[][] = [];
+  const added: Token[][] = [];
+  let removedRun: Token[] = [];
+  let addedRun: Token[] = [];
+  const flush = () => {
+    if (removedRun.length > 0) removed.push(removedRun);
+    if (addedRun.length > 0) added.push(addedRun);
+    removedRun = [];
+    addedRun = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && before[i].word === after[j].word) {
+      flush();
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (j >= m || (i < n && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      removedRun.push(before[i++]);
+    } else {
+      addedRun.push(after[j++]);
+    }
+  }
+  flush();
+
+  return { pairs, removed, added };
+}
+
+function avgSentenceLength(tokens: Token[]): number {
+  const sentences = tokens.filter(t => t.endsSentence).length;
+  return sentences > 0 ? Math.round((tokens.length / sentences) * 10) / 10 : 0;
+}
+
+function isContentWord(word: string): boolean {
+  return word.length >= 3 && /\p{L}/u.test(word) && !/\d/.test(word) && !STOPWORDS.has(word);
+}
+
+/**
+ * Record a manual edit of a post's text
+ */
+export function createPostEdit(before: string, after: string): PostEdit {
+  return {
+    id: generateId(),
+    createdAt: new Date().toISOString(),
+    before,
+    after,
+  };
+}
+
+/**
+ * Word-level diff of one edit: what was cut, what was added, and how
+ * sentences were reshaped
+ */
+export function analyzeEdit(before: string, after: string): EditDiff {
+  const beforeTokens = tokenize(before);
+  const afterTokens = tokenize(after);
+  const { pairs, added } = alignTokens(beforeTokens, afterTokens);
+
+  const afterWords = new Set(afterTokens.map(t => t.word));
+  const deletedWords = [...new Set(beforeTokens.map(t => t.word))]
+    .filter(word => isContentWord(word) && !afterWords.has(word));
+
+  const addedPhrases = added
+    .filter(run => run.length >= MIN_PHRASE_WORDS && run.length <= MAX_PHRASE_WORDS)
+    .filter(run => run.some(t => isContentWord(t.word)))
+    .map(run => run.map(t => t.text).join(" "));
+
+  // A matched word that ends a sentence on only one side marks a split or merge
+  let sentenceSplits = 0;
+  let sentenceMerges = 0;
+  for (const [i, j] of pairs) {
+    if (i === beforeTokens.length - 1 || j === afterTokens.length - 1) continue;
+    if (!beforeTokens[i].endsSentence && afterTokens[j].endsSentence) sentenceSplits++;
+    if (beforeTokens[i].endsSentence && !afterTokens[j].endsSentence) sentenceMerges++;
+  }
+
+  return {
+    deletedWords,
+    addedPhrases,
+    sentenceSplits,
+    sentenceMerges,
+    avgSentenceLengthBefore: avgSentenceLength(beforeTokens),
+    avgSentenceLengthAfter: avgSentenceLength(afterTokens),
+  };
+}
+
+/**
+ * Combine a profile's edits into the habits they share
+ */
+export function aggregateEdits(edits: PostEdit[]): EditPatterns {
+  const deleted = new Map<string, { deleted: number; seen: number }>();
+  const added = new Map<string, { phrase: string; edits: number }>();
+  let editsWithSplits = 0;
+  let editsWithMerges = 0;
+  const reshapedLengths: number[] = [];
+
+  for (const edit of edits) {
+    const diff = analyzeEdit(edit.before, edit.after);
+    const deletedInEdit = new Set(diff.deletedWords);
+
+    for (const word of new Set(tokenize(edit.before).map(t => t.word))) {
+      if (!isContentWord(word)) continue;
+      const entry = deleted.get(word) ?? { deleted: 0, seen: 0 };
+      entry.seen++;
+      if (deletedInEdit.has(word)) entry.deleted++;
+      deleted.set(word, entry);
+    }
+
+    for (const phrase of new Set(diff.addedPhrases)) {
+      const key = phrase.toLowerCase();
+      const entry = added.get(key) ?? { phrase, edits: 0 };
+      entry.edits++;
+      added.set(key, entry);
+    }
+
+    if (diff.sentenceSplits > diff.sentenceMerges) editsWithSplits++;
+    if (diff.sentenceMerges > diff.sentenceSplits) editsWithMerges++;
+    if (diff.sentenceSplits !== diff.sentenceMerges) reshapedLengths.push(diff.avgSentenceLengthAfter);
+  }
+
+  return {
+    editCount: edits.length,
+    deletedWords: [...deleted.entries()]
+      .filter(([, e]) => e.deleted >= MIN_EDITS && e.deleted / e.seen >= ALWAYS_RATIO)
+      .map(([word, e]) => ({ word, ...e }))
+      .sort((a, b) => b.deleted - a.deleted),
+    addedPhrases: [...added.values()]
+      .filter(e => e.edits >= MIN_EDITS)
+      .sort((a, b) => b.edits - a.edits),
+    editsWithSplits,
+    editsWithMerges,
+    editedSentenceLength: reshapedLengths.length > 0
+      ? Math.round(reshapedLengths.reduce((a, b) => a + b, 0) / reshapedLengths.length)
+      : null,
+  };
+}
+
+/**
+ * Rule changes backed by the profile's edits. Words the reference posts use
+ * are never proposed as forbidden, and rules already in place are skipped.
+ */
+export function proposeRulesFromEdits(profile: VoiceProfile, edits: PostEdit[]): EditRuleProposal[] {
+  const patterns = aggregateEdits(edits);
+  const { rules } = profile;
+  const proposals: EditRuleProposal[] = [];
+
+  const referenceWords = new Set(tokenize(profile.topPosts.map(p => p.content).join("\n")).map(t => t.word));
+  // Skip words the profile's rules already catch, inflected forms included
+  const forbidden = rules.forbiddenWords
+    .map(rule => parsePhraseRule(rule, "profile"))
+    .filter((entry): entry is ForbiddenPhrase => entry !== null);
+  for (const { word, deleted, seen } of patterns.deletedWords) {
+    if (hasForbiddenPhrases(word, forbidden) || referenceWords.has(word)) continue;
+    proposals.push({ kind: "forbiddenWord", value: word, evidence: `Deleted in ${deleted} of ${seen} edits` });
+  }
+
+  const signatures = rules.signaturePhrases.map(p => p.toLowerCase());
+  for (const { phrase, edits: count } of patterns.addedPhrases) {
+    if (signatures.some(s => s.includes(phrase.toLowerCase()))) continue;
+    proposals.push({ kind: "signaturePhrase", value: phrase, evidence: `Added in ${count} edits` });
+  }
+
+  const target = patterns.editedSentenceLength;
+  const current = rules.rhythmPreferences.avgSentenceLength;
+  const reshaped = patterns.editsWithSplits + patterns.editsWithMerges;
+  if (target !== null && reshaped >= MIN_EDITS) {
+    if (patterns.editsWithSplits / reshaped >= ALWAYS_RATIO && target < current) {
+      proposals.push({
+        kind: "avgSentenceLength",
+        value: target,
+        evidence: `Split sentences in ${patterns.editsWithSplits} edits; edited posts average ${target} words per sentence`,
+      });
+    } else if (patterns.editsWithMerges / reshaped >= ALWAYS_RATIO && target > current) {
+      proposals.push({
+        kind: "avgSentenceLength",
+        value: target,
+        evidence: `Joined sentences in ${patterns.editsWithMerges} edits; edited posts average ${target} words per sentence`,
+      });
+    }
+  }
+
+  return proposals;
+}
+
+/**
+ * The rules with the accepted proposals applied
+ */
+export function applyEditProposals(rules: VoiceRules, proposals: EditRuleProposal[]): VoiceRules {
+  const next: VoiceRules = {
+    ...rules,
+    forbiddenWords: [...rules.forbiddenWords],
+    signaturePhrases: [...rules.signaturePhrases],
+    rhythmPreferences: { ...rules.rhythmPreferences },
+  };
+
+  for (const proposal of proposals) {
+    if (proposal.kind === "forbiddenWord") {
+      next.forbiddenWords.push(proposal.value);
+    } else if (proposal.kind === "signaturePhrase") {
+      next.signaturePhrases.push(proposal.value);
+    } else {
+      next.rhythmPreferences.avgSentenceLength = proposal.value;
+    }
+  }
+
+  return next;
+}
@@ -0,0 +1,64 @@
+import { ImportedPost } from "@/lib/types";
+import { parseCSVRecords } from "@/lib/utils/csv-parser";
+import { readZipText } from "@/lib/utils/zip-reader";
+
+/**
+ * LinkedIn "Get a copy of your data" export.
+ *
+ * Shares.csv has one row per post:
+ *   Date, ShareLink, ShareCommentary, SharedUrl, MediaUrl, Visibility
+ * ShareCommentary is the post text; re-shares without commentary are empty.
+ */
+
+const SHARES_FILE = "Shares.csv";
+
+// "2024-03-05 14:22:10" (UTC) -> ISO string
+function parseShareDate(value: string): string | undefined {
+  const date = new Date(value.trim().replace(" ", "T") + "Z");
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+// Some exports wrap the whole commentary in an extra pair of quotes
+function cleanCommentary(value: string): string {
+  const text = value.replace(/\r\n/g, "\n").trim();
+  return /^"[\s\S]*"$/.test(text) ? text.slice(1, -1).trim() : text;
+}
+
+/**
+ * Posts in a Shares.csv file, in file order. Rows without text are skipped.
+ */
+export function parseLinkedInShares(csv: string): ImportedPost[] {
+  const records = parseCSVRecords(csv);
+  if (records.length > 0 && !("ShareCommentary" in records[0])) {
+    throw new Error("Shares.csv is missing the ShareCommentary column");
+  }
+
+  return records.flatMap(record => {
+    const content = cleanCommentary(record.ShareCommentary ?? "");
+    if (!content) return [];
+
+    const post: ImportedPost = {
+      content,
+      platform: "linkedin",
+      source: "linkedin-export",
+      publishedAt: parseShareDate(record.Date ?? ""),
+    };
+    if (record.ShareLink) post.url = record.ShareLink.trim();
+    return [post];
+  });
+}
+
+/**
+ * Posts from a LinkedIn export: the full ZIP or Shares.csv on its own
+ */
+export async function importLinkedInExport(fileName: string, data: Uint8Array): Promise<ImportedPost[]> {
+  if (fileName.toLowerCase().endsWith(".csv")) {
+    return parseLinkedInShares(new TextDecoder().decode(data));
+  }
+
+  const csv = await readZipText(data, SHARES_FILE);
+  if (csv === null) {
+    throw new Error(`${SHARES_FILE} not found in the archive`);
+  }
+  return parseLinkedInShares(csv);
+}
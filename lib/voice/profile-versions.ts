@@ -0,0 +1,148 @@
+import { VoiceProfile, VoiceProfileSnapshot, VoiceProfileVersion } from "@/lib/types";
+import { generateId } from "@/lib/utils/storage";
+
+type VoiceRules = VoiceProfile["rules"];
+
+const VERSIONED_FIELDS = ["name", "rules", "topPosts", "brandColors"] as const;
+
+export interface ProfileVersionChange {
+  // Human-readable field, e.g. "Forbidden words"
+  field: string;
+  kind: "added" | "removed" | "changed";
+  before?: string;
+  after?: string;
+}
+
+const RULE_LISTS: { key: "sentencePatterns" | "forbiddenWords" | "allowedPhrases" | "signaturePhrases"; label: string }[] = [
+  { key: "sentencePatterns", label: "Sentence patterns" },
+  { key: "forbiddenWords", label: "Forbidden words" },
+  { key: "allowedPhrases", label: "Allowed phrases" },
+  { key: "signaturePhrases", label: "Signature phrases" },
+];
+
+const RHYTHM_LABELS: Record<keyof VoiceRules["rhythmPreferences"], string> = {
+  avgSentenceLength: "Average sentence length",
+  paragraphBreaks: "Paragraph breaks",
+  punchlinePosition: "Punchline position",
+  questionUsage: "Question usage",
+};
+
+const FORMATTING_LABELS: Record<keyof VoiceRules["formattingRules"], string> = {
+  useEmDash: "Em-dashes",
+  useBulletPoints: "Bullet points",
+  useNumberedLists: "Numbered lists",
+  emojiUsage: "Emoji usage",
+};
+
+const BRAND_COLOR_LABELS: Record<keyof VoiceProfile["brandColors"], string> = {
+  primary: "Primary color",
+  secondary: "Secondary color",
+  accent: "Accent color",
+};
+
+export function getProfileSnapshot(profile: VoiceProfileSnapshot): VoiceProfileSnapshot {
+  return {
+    name: profile.name,
+    rules: profile.rules,
+    topPosts: profile.topPosts,
+    brandColors: profile.brandColors,
+  };
+}
+
+// JSON with sorted keys: JSONB columns don't keep the order keys were written in
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v
+  );
+}
+
+/**
+ * Whether applying `updates` changes any versioned field of the profile
+ */
+export function hasVersionedChanges(profile: VoiceProfile, updates: Partial<VoiceProfile>): boolean {
+  return VERSIONED_FIELDS.some(field =>
+    updates[field] !== undefined && stableStringify(updates[field]) !== stableStringify(profile[field])
+  );
+}
+
+/**
+ * Immutable record of the profile as it is now
+ */
+export function createProfileVersion(profile: VoiceProfile, restoredFrom?: number): VoiceProfileVersion {
+  return {
+    id: generateId(),
+    voiceProfileId: profile.id,
+    version: profile.version ?? 1,
+    createdAt: profile.updatedAt,
+    snapshot: getProfileSnapshot(profile),
+    restoredFrom,
+  };
+}
+
+function formatValue(value: string | number | boolean): string {
+  if (typeof value === "boolean") return value ? "on" : "off";
+  return String(value);
+}
+
+function excerpt(text: string, length = 80): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > length ? `${line.slice(0, length - 1)}…` : line;
+}
+
+/**
+ * Field-level changes from one version to another: list items added or
+ * removed, settings changed
+ */
+export function diffProfileVersions(from: VoiceProfileSnapshot, to: VoiceProfileSnapshot): ProfileVersionChange[] {
+  const changes: ProfileVersionChange[] = [];
+
+  if (from.name !== to.name) {
+    changes.push({ field: "Name", kind: "changed", before: from.name, after: to.name });
+  }
+
+  for (const { key, label } of RULE_LISTS) {
+    const before = from.rules[key] ?? [];
+    const after = to.rules[key] ?? [];
+    for (const item of before.filter(i => !after.includes(i))) {
+      changes.push({ field: label, kind: "removed", before: item });
+    }
+    for (const item of after.filter(i => !before.includes(i))) {
+      changes.push({ field: label, kind: "added", after: item });
+    }
+  }
+
+  for (const key of Object.keys(RHYTHM_LABELS) as (keyof VoiceRules["rhythmPreferences"])[]) {
+    const before = from.rules.rhythmPreferences[key];
+    const after = to.rules.rhythmPreferences[key];
+    if (before !== after) {
+      changes.push({ field: RHYTHM_LABELS[key], kind: "changed", before: formatValue(before), after: formatValue(after) });
+    }
+  }
+
+  for (const key of Object.keys(FORMATTING_LABELS) as (keyof VoiceRules["formattingRules"])[]) {
+    const before = from.rules.formattingRules[key];
+    const after = to.rules.formattingRules[key];
+    if (before !== after) {
+      changes.push({ field: FORMATTING_LABELS[key], kind: "changed", before: formatValue(before), after: formatValue(after) });
+    }
+  }
+
+  const beforePosts = from.topPosts.map(p => p.content);
+  const afterPosts = to.topPosts.map(p => p.content);
+  for (const post of beforePosts.filter(p => !afterPosts.includes(p))) {
+    changes.push({ field: "Reference posts", kind: "removed", before: excerpt(post) });
+  }
+  for (const post of afterPosts.filter(p => !beforePosts.includes(p))) {
+    changes.push({ field: "Reference posts", kind: "added", after: excerpt(post) });
+  }
+
+  for (const key of Object.keys(BRAND_COLOR_LABELS) as (keyof VoiceProfile["brandColors"])[]) {
+    if (from.brandColors[key] !== to.brandColors[key]) {
+      changes.push({ field: BRAND_COLOR_LABELS[key], kind: "changed", before: from.brandColors[key], after: to.brandColors[key] });
+    }
+  }
+
+  return changes;
+}
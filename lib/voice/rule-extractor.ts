@@ -0,0 +1,272 @@
+import { VoiceProfile } from "@/lib/types";
+
+type VoiceRules = VoiceProfile["rules"];
+
+/**
+ * Measured style of a set of reference posts (averages are per post unless noted)
+ */
+export interface PostStyleStats {
+  postCount: number;
+  sentenceCount: number;
+  avgSentenceLength: number;
+  // Share of sentences with 5 words or fewer
+  shortSentenceRatio: number;
+  sentencesPerParagraph: number;
+  questionRatio: number;
+  // Share of posts whose first line is a question
+  questionHookRatio: number;
+  emojisPerPost: number;
+  emDashesPerPost: number;
+  bulletLinesPerPost: number;
+  numberedLinesPerPost: number;
+  // Share of posts with a number in the first line
+  numberHookRatio: number;
+  // Share of posts ending on a short (≤ 12 words) final paragraph
+  shortEndingRatio: number;
+  firstPersonRatio: number;
+  contractionRatio: number;
+}
+
+export interface ProposedVoiceRules {
+  rules: VoiceRules;
+  stats: PostStyleStats;
+}
+
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/gu;
+const BULLET_PATTERN = /^\s*[-•*▪→✅✔️]\s+/;
+const NUMBERED_PATTERN = /^\s*\d+[.)]\s+/;
+
+// Corporate words suggested as forbidden when the author never uses them
+const FORBIDDEN_WORD_CANDIDATES = [
+  "utilize",
+  "implement",
+  "stakeholders",
+  "journey",
+  "passionate",
+  "excited to announce",
+  "humbled",
+  "thrilled",
+  "empower",
+  "unlock",
+  "elevate",
+  "optimize",
+  "impactful",
+  "thought leader",
+  "value-add",
+  "actionable",
+  "hustle",
+  "grind",
+  "ninja",
+  "rockstar",
+];
+
+// Phrases made only of these words aren't distinctive enough to be signatures
+const STOPWORDS = new Set([
+  "a", "an", "the", "and", "or", "but", "so", "of", "to", "in", "on", "at", "for",
+  "with", "is", "it", "was", "be", "this", "that", "i", "we", "you", "my", "our",
+  "your", "me", "us", "they", "he", "she", "are", "were", "as", "by", "from", "if",
+  "not", "no", "do", "did", "have", "had", "has", "what", "when", "then", "just",
+]);
+
+function splitParagraphs(post: string): string[] {
+  return post.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(s => s.trim())
+    .filter(s => /[A-Za-z0-9]/.test(s));
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(w => /[A-Za-z0-9]/.test(w)).length;
+}
+
+function ratio(count: number, total: number): number {
+  return total > 0 ? count / total : 0;
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Measure sentence rhythm, paragraphing and formatting habits across posts
+ */
+export function analyzePostStyle(posts: string[]): PostStyleStats {
+  const texts = posts.map(p => p.trim()).filter(Boolean);
+  const sentences = texts.flatMap(splitSentences);
+  const paragraphs = texts.flatMap(splitParagraphs);
+  const words = texts.flatMap(t => t.toLowerCase().match(/[a-z']+/g) || []);
+  const lines = texts.flatMap(t => t.split("\n"));
+  const firstLines = texts.map(t => t.split("\n")[0]);
+  const lastParagraphs = texts.map(t => splitParagraphs(t).at(-1) ?? "");
+
+  const sentenceLengths = sentences.map(countWords);
+  const postCount = texts.length;
+
+  return {
+    postCount,
+    sentenceCount: sentences.length,
+    avgSentenceLength: Math.round(ratio(sentenceLengths.reduce((a, b) => a + b, 0), sentences.length)),
+    shortSentenceRatio: round(ratio(sentenceLengths.filter(l => l <= 5).length, sentences.length)),
+    sentencesPerParagraph: round(ratio(sentences.length, paragraphs.length), 1),
+    questionRatio: round(ratio(sentences.filter(s => s.endsWith("?")).length, sentences.length)),
+    questionHookRatio: round(ratio(firstLines.filter(l => l.replace(EMOJI_PATTERN, "").trim().endsWith("?")).length, postCount)),
+    emojisPerPost: round(ratio(texts.join("").match(EMOJI_PATTERN)?.length ?? 0, postCount), 1),
+    emDashesPerPost: round(ratio(texts.join("").match(/—|\s--\s/g)?.length ?? 0, postCount), 1),
+    bulletLinesPerPost: round(ratio(lines.filter(l => BULLET_PATTERN.test(l)).length, postCount), 1),
+    numberedLinesPerPost: round(ratio(lines.filter(l => NUMBERED_PATTERN.test(l)).length, postCount), 1),
+    numberHookRatio: round(ratio(firstLines.filter(l => /\d/.test(l)).length, postCount)),
+    shortEndingRatio: round(ratio(lastParagraphs.filter(p => countWords(p) <= 12).length, postCount)),
+    firstPersonRatio: round(ratio(words.filter(w => /^(i|i'm|i've|i'd|me|my)$/.test(w)).length, words.length), 3),
+    contractionRatio: round(ratio(words.filter(w => /[a-z]'[a-z]/.test(w)).length, words.length), 3),
+  };
+}
+
+/**
+ * Recurring 3-6 word phrases, most widespread then longest first. A phrase
+ * must appear in at least two posts (or twice in a single post) and contain
+ * a content word.
+ * Short closing lines are added as sign-offs when few phrases recur.
+ */
+export function mineSignaturePhrases(posts: string[], limit = 8): string[] {
+  const counts = new Map<string, { text: string; posts: Set<number>; total: number }>();
+
+  posts.forEach((post, index) => {
+    for (const sentence of post.split(/[.!?\n]+/)) {
+      const tokens = sentence.trim().split(/\s+/).filter(Boolean);
+      for (let size = 6; size >= 3; size--) {
+        for (let start = 0; start + size <= tokens.length; start++) {
+          const phraseTokens = tokens.slice(start, start + size).map(t => t.replace(/^[^\w']+|[^\w']+$/g, ""));
+          if (phraseTokens.some(t => !t || /\d/.test(t))) continue;
+          if (phraseTokens.every(t => STOPWORDS.has(t.toLowerCase()))) continue;
+
+          const text = phraseTokens.join(" ");
+          const key = text.toLowerCase();
+          const entry = counts.get(key) ?? { text, posts: new Set<number>(), total: 0 };
+          entry.posts.add(index);
+          entry.total++;
+          counts.set(key, entry);
+        }
+      }
+    }
+  });
+
+  const recurring = [...counts.entries()]
+    .filter(([, entry]) => entry.posts.size >= 2 || entry.total >= 2)
+    .sort(([a, x], [b, y]) => y.posts.size - x.posts.size || b.split(" ").length - a.split(" ").length);
+
+  const phrases: string[] = [];
+  for (const [key, entry] of recurring) {
+    // Skip fragments of a phrase that's already in
+    if (phrases.some(p => p.toLowerCase().includes(key))) continue;
+    phrases.push(entry.text);
+    if (phrases.length >= limit) return phrases;
+  }
+
+  if (phrases.length < 3) {
+    for (const post of posts) {
+      const closing = post.trim().split("\n").at(-1)?.trim() ?? "";
+      const words = countWords(closing);
+      if (words >= 2 && words <= 8 && !/\d/.test(closing) && !phrases.includes(closing)) {
+        phrases.push(closing);
+      }
+      if (phrases.length >= limit) break;
+    }
+  }
+
+  return phrases;
+}
+
+/**
+ * Plain-language sentence patterns backed by the measured stats
+ */
+function describeSentencePatterns(stats: PostStyleStats): string[] {
+  const patterns = [`Keep sentences around ${stats.avgSentenceLength} words`];
+
+  if (stats.shortSentenceRatio >= 0.25) {
+    patterns.push("Mix in short fragments of 5 words or fewer");
+  } else {
+    patterns.push("Write full sentences rather than fragments");
+  }
+
+  if (stats.sentencesPerParagraph <= 1.5) {
+    patterns.push("One sentence per paragraph");
+  } else if (stats.sentencesPerParagraph <= 3) {
+    patterns.push("Keep paragraphs to 2-3 sentences");
+  } else {
+    patterns.push("Build longer paragraphs that develop one idea");
+  }
+
+  if (stats.numberHookRatio >= 0.5) {
+    patterns.push("Open with a specific number");
+  }
+  if (stats.questionHookRatio === 0) {
+    patterns.push("Never open with a question");
+  } else if (stats.questionHookRatio >= 0.5) {
+    patterns.push("Open with a question");
+  }
+  if (stats.shortEndingRatio >= 0.5) {
+    patterns.push("End on a short one-line takeaway");
+  }
+  if (stats.firstPersonRatio >= 0.03) {
+    patterns.push("Write in the first person from personal experience");
+  }
+  if (stats.contractionRatio >= 0.01) {
+    patterns.push("Use contractions (don't, it's, I'm)");
+  } else {
+    patterns.push("Avoid contractions");
+  }
+  patterns.push(stats.emDashesPerPost > 0 ? "Em-dashes are fine for asides" : "Never use em-dashes");
+  if (stats.bulletLinesPerPost === 0 && stats.numberedLinesPerPost === 0) {
+    patterns.push("No lists: write it as prose");
+  } else if (stats.numberedLinesPerPost > 0) {
+    patterns.push("Use numbered lists for steps or lessons");
+  }
+  patterns.push(stats.emojisPerPost === 0 ? "No emojis" : `Around ${Math.round(stats.emojisPerPost)} emojis per post at most`);
+
+  return patterns;
+}
+
+/**
+ * Propose a full rules object from the author's reference posts.
+ * Forbidden words are corporate clichés that never appear in the posts.
+ */
+export function proposeVoiceRules(posts: string[]): ProposedVoiceRules {
+  const texts = posts.map(p => p.trim()).filter(Boolean);
+  const stats = analyzePostStyle(texts);
+  const allText = texts.join("\n").toLowerCase();
+
+  const paragraphBreaks: VoiceRules["rhythmPreferences"]["paragraphBreaks"] =
+    stats.sentencesPerParagraph <= 1.5 ? "frequent" : stats.sentencesPerParagraph <= 3 ? "moderate" : "rare";
+  const questionUsage: VoiceRules["rhythmPreferences"]["questionUsage"] =
+    stats.questionRatio === 0 ? "never" : stats.questionRatio < 0.1 ? "occasional" : "frequent";
+  const emojiUsage: VoiceRules["formattingRules"]["emojiUsage"] =
+    stats.emojisPerPost === 0 ? "never" : stats.emojisPerPost < 1 ? "rare" : stats.emojisPerPost < 3 ? "moderate" : "frequent";
+  const punchlinePosition: VoiceRules["rhythmPreferences"]["punchlinePosition"] =
+    stats.shortEndingRatio >= 0.5 ? "end" : stats.numberHookRatio >= 0.5 ? "start" : "middle";
+
+  return {
+    stats,
+    rules: {
+      sentencePatterns: describeSentencePatterns(stats),
+      forbiddenWords: FORBIDDEN_WORD_CANDIDATES.filter(word => !allText.includes(word)),
+      signaturePhrases: mineSignaturePhrases(texts),
+      rhythmPreferences: {
+        avgSentenceLength: stats.avgSentenceLength || 15,
+        paragraphBreaks,
+        punchlinePosition,
+        questionUsage,
+      },
+      formattingRules: {
+        useEmDash: stats.emDashesPerPost > 0,
+        useBulletPoints: stats.bulletLinesPerPost > 0,
+        useNumberedLists: stats.numberedLinesPerPost > 0,
+        emojiUsage,
+      },
+    },
+  };
+}
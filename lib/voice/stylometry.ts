@@ -0,0 +1,385 @@
+import { VoiceProfile } from "@/lib/types";
+
+/**
+ * Stylometric voice similarity.
+ *
+ * Measures how a text is written rather than what it says: function-word
+ * habits, character trigrams, sentence-length spread, punctuation and
+ * paragraph shape. Deterministic and local, so every post and revision can
+ * be scored without a model call.
+ */
+
+// Closed-class words: frequent, topic-independent and characteristic of an author
+const FUNCTION_WORDS = [
+  "a", "about", "after", "all", "also", "an", "and", "any", "are", "as", "at",
+  "be", "because", "been", "before", "but", "by", "can", "could", "did", "do",
+  "for", "from", "had", "has", "have", "he", "her", "here", "his", "how", "i",
+  "if", "in", "into", "is", "it", "its", "just", "me", "more", "most", "my",
+  "no", "not", "now", "of", "on", "one", "only", "or", "our", "out", "over",
+  "so", "some", "than", "that", "the", "their", "them", "then", "there", "they",
+  "this", "to", "up", "us", "was", "we", "were", "what", "when", "which", "who",
+  "why", "will", "with", "would", "you", "your",
+];
+const FUNCTION_WORD_SET = new Set(FUNCTION_WORDS);
+
+// Sentence lengths in words: upper bound of each bucket
+const SENTENCE_LENGTH_BUCKETS = [4, 8, 12, 18, 25, Infinity];
+
+const PUNCTUATION_MARKS = {
+  comma: { pattern: /,/g, label: "commas" },
+  question: { pattern: /\?/g, label: "question marks" },
+  exclamation: { pattern: /!/g, label: "exclamation marks" },
+  colon: { pattern: /:/g, label: "colons" },
+  semicolon: { pattern: /;/g, label: "semicolons" },
+  dash: { pattern: /—|\s--?\s/g, label: "dashes" },
+  ellipsis: { pattern: /…|\.\.\./g, label: "ellipses" },
+  parenthesis: { pattern: /\(/g, label: "parentheses" },
+  quote: { pattern: /["“”]/g, label: "quotation marks" },
+} as const;
+
+type PunctuationMark = keyof typeof PUNCTUATION_MARKS;
+
+const NGRAM_SIZE = 3;
+const NGRAM_PROFILE_SIZE = 300;
+
+// Texts shorter than this don't say enough about a style to compare
+const MIN_REFERENCE_WORDS = 40;
+
+// Character trigrams carry topic as much as style, so they weigh least
+const COMPONENT_WEIGHTS = {
+  functionWords: 0.25,
+  charNgrams: 0.1,
+  sentenceLengths: 0.25,
+  punctuation: 0.2,
+  paragraphShape: 0.2,
+};
+
+// Added to every function word's share so short samples aren't judged on
+// words that just didn't come up
+const FUNCTION_WORD_SMOOTHING = 0.002;
+
+// A word gap is only named when it amounts to this many occurrences
+const MIN_WORD_GAP_COUNT = 3;
+
+export type StyleComponent = keyof typeof COMPONENT_WEIGHTS;
+
+export interface StyleFingerprint {
+  wordCount: number;
+  // Share of all words that are function words
+  functionWordDensity: number;
+  // Share of all words, per function word
+  functionWords: Record<string, number>;
+  // Share of all trigrams, for the most frequent ones
+  charNgrams: Record<string, number>;
+  // Share of sentences per SENTENCE_LENGTH_BUCKETS bucket
+  sentenceLengths: number[];
+  avgSentenceLength: number;
+  // Marks per sentence
+  punctuation: Record<PunctuationMark, number>;
+  sentencesPerParagraph: number;
+  wordsPerParagraph: number;
+  // Share of paragraphs that are a single sentence
+  singleSentenceParagraphs: number;
+}
+
+export interface StyleDeviation {
+  component: StyleComponent;
+  message: string;
+}
+
+export interface StyleSimilarity {
+  // 0-100, weighted over the components
+  score: number;
+  components: Record<StyleComponent, number>;
+  deviations: StyleDeviation[];
+}
+
+function splitParagraphs(text: string): string[] {
+  return text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?…])\s+|\n+/)
+    .map(s => s.trim())
+    .filter(s => /[A-Za-z0-9]/.test(s));
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+(?:'[a-z]+)?/g) || [];
+}
+
+function ratio(count: number, total: number): number {
+  return total > 0 ? count / total : 0;
+}
+
+function normalize(counts: Map<string, number>, total: number): Record<string, number> {
+  const shares: Record<string, number> = {};
+  for (const [key, count] of counts) {
+    shares[key] = ratio(count, total);
+  }
+  return shares;
+}
+
+/**
+ * Measure the style of one or more texts (treated as a single body of writing)
+ */
+export function buildStyleFingerprint(texts: string[]): StyleFingerprint {
+  const bodies = texts.map(t => t.trim()).filter(Boolean);
+  const words = bodies.flatMap(tokenize);
+  const sentences = bodies.flatMap(splitSentences);
+  const paragraphs = bodies.flatMap(splitParagraphs);
+
+  const functionWordCounts = new Map<string, number>();
+  for (const word of words) {
+    if (FUNCTION_WORD_SET.has(word)) {
+      functionWordCounts.set(word, (functionWordCounts.get(word) ?? 0) + 1);
+    }
+  }
+
+  const ngramCounts = new Map<string, number>();
+  let ngramTotal = 0;
+  for (const body of bodies) {
+    const normalized = body.toLowerCase().replace(/\s+/g, " ");
+    for (let i = 0; i + NGRAM_SIZE <= normalized.length; i++) {
+      const gram = normalized.slice(i, i + NGRAM_SIZE);
+      ngramCounts.set(gram, (ngramCounts.get(gram) ?? 0) + 1);
+      ngramTotal++;
+    }
+  }
+  const topNgrams = new Map(
+    [...ngramCounts.entries()].sort((a, b) => b[1] - a[1]).slice(0, NGRAM_PROFILE_SIZE)
+  );
+
+  const sentenceWordCounts = sentences.map(s => tokenize(s).length);
+  const buckets = SENTENCE_LENGTH_BUCKETS.map(() => 0);
+  for (const length of sentenceWordCounts) {
+    buckets[SENTENCE_LENGTH_BUCKETS.findIndex(max => length <= max)]++;
+  }
+
+  const joined = bodies.join("\n");
+  const punctuation = {} as Record<PunctuationMark, number>;
+  for (const [mark, { pattern }] of Object.entries(PUNCTUATION_MARKS)) {
+    punctuation[mark as PunctuationMark] = ratio(joined.match(pattern)?.length ?? 0, sentences.length);
+  }
+
+  return {
+    wordCount: words.length,
+    functionWordDensity: ratio([...functionWordCounts.values()].reduce((a, b) => a + b, 0), words.length),
+    functionWords: normalize(functionWordCounts, words.length),
+    charNgrams: normalize(topNgrams, ngramTotal),
+    sentenceLengths: buckets.map(count => ratio(count, sentences.length)),
+    avgSentenceLength: ratio(sentenceWordCounts.reduce((a, b) => a + b, 0), sentences.length),
+    punctuation,
+    sentencesPerParagraph: ratio(sentences.length, paragraphs.length),
+    wordsPerParagraph: ratio(words.length, paragraphs.length),
+    singleSentenceParagraphs: ratio(
+      paragraphs.filter(p => splitSentences(p).length <= 1).length,
+      paragraphs.length
+    ),
+  };
+}
+
+/**
+ * 1 - total variation distance: 1 for identical distributions, 0 for disjoint
+ */
+function distributionOverlap(a: Record<string, number> | number[], b: Record<string, number> | number[]): number {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  const totalA = Object.values(a).reduce((sum: number, v: number) => sum + v, 0);
+  const totalB = Object.values(b).reduce((sum: number, v: number) => sum + v, 0);
+  if (totalA === 0 || totalB === 0) return totalA === totalB ? 1 : 0;
+
+  let distance = 0;
+  for (const key of keys) {
+    const valueA = (a as Record<string, number>)[key] ?? 0;
+    const valueB = (b as Record<string, number>)[key] ?? 0;
+    distance += Math.abs(valueA / totalA - valueB / totalB);
+  }
+  return 1 - distance / 2;
+}
+
+function cosine(a: Record<string, number>, b: Record<string, number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (const [key, value] of Object.entries(a)) {
+    dot += value * (b[key] ?? 0);
+    normA += value * value;
+  }
+  for (const value of Object.values(b)) {
+    normB += value * value;
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Closeness of two rates: 1 when equal, falling with their relative gap.
+ * `floor` keeps tiny rates (0.02 vs 0.05) from counting as far apart.
+ */
+function rateSimilarity(a: number, b: number, floor: number): number {
+  return 1 - Math.min(1, Math.abs(a - b) / Math.max(a, b, floor));
+}
+
+function smoothFunctionWords(shares: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(FUNCTION_WORDS.map(word => [word, (shares[word] ?? 0) + FUNCTION_WORD_SMOOTHING]));
+}
+
+function compareFunctionWords(reference: StyleFingerprint, candidate: StyleFingerprint, deviations: StyleDeviation[]): number {
+  const overlap = distributionOverlap(
+    smoothFunctionWords(reference.functionWords),
+    smoothFunctionWords(candidate.functionWords)
+  );
+  const density = rateSimilarity(reference.functionWordDensity, candidate.functionWordDensity, 0.1);
+
+  if (density < 0.7) {
+    deviations.push({
+      component: "functionWords",
+      message: `${formatPercent(candidate.functionWordDensity)} of words are filler words like "the", "that" and "to"; yours are ${formatPercent(reference.functionWordDensity)}`,
+    });
+  }
+
+  // Name the function words used far more or less than the author does
+  const gaps = FUNCTION_WORDS
+    .map(word => ({
+      word,
+      reference: reference.functionWords[word] ?? 0,
+      candidate: candidate.functionWords[word] ?? 0,
+    }))
+    .filter(g => Math.abs(g.candidate - g.reference) * candidate.wordCount >= MIN_WORD_GAP_COUNT)
+    .sort((x, y) => Math.abs(y.candidate - y.reference) - Math.abs(x.candidate - x.reference))
+    .slice(0, 2);
+
+  for (const gap of gaps) {
+    const more = gap.candidate > gap.reference;
+    deviations.push({
+      component: "functionWords",
+      message: gap.reference === 0
+        ? `Uses "${gap.word}", which your posts never do`
+        : `Uses "${gap.word}" ${more ? "more" : "less"} often than your posts (${formatPercent(gap.candidate)} vs ${formatPercent(gap.reference)} of words)`,
+    });
+  }
+
+  return (overlap + density) / 2;
+}
+
+function compareSentenceLengths(reference: StyleFingerprint, candidate: StyleFingerprint, deviations: StyleDeviation[]): number {
+  const spread = distributionOverlap(reference.sentenceLengths, candidate.sentenceLengths);
+  const average = rateSimilarity(reference.avgSentenceLength, candidate.avgSentenceLength, 4);
+
+  if (average < 0.7) {
+    deviations.push({
+      component: "sentenceLengths",
+      message: `Sentences average ${Math.round(candidate.avgSentenceLength)} words; yours average ${Math.round(reference.avgSentenceLength)}`,
+    });
+  }
+
+  return (spread + average) / 2;
+}
+
+function comparePunctuation(reference: StyleFingerprint, candidate: StyleFingerprint, deviations: StyleDeviation[]): number {
+  // Marks neither text uses say nothing about the match
+  const marks = (Object.keys(PUNCTUATION_MARKS) as PunctuationMark[]).filter(
+    mark => reference.punctuation[mark] > 0 || candidate.punctuation[mark] > 0
+  );
+  if (marks.length === 0) return 1;
+
+  const similarities = marks.map(mark => {
+    const ref = reference.punctuation[mark];
+    const cand = candidate.punctuation[mark];
+    const similarity = rateSimilarity(ref, cand, 0.25);
+
+    if (similarity < 0.5) {
+      const label = PUNCTUATION_MARKS[mark].label;
+      deviations.push({
+        component: "punctuation",
+        message: ref === 0
+          ? `Uses ${label}, which your posts never do`
+          : cand === 0
+            ? `No ${label}, which your posts use`
+            : `Uses ${cand > ref ? "more" : "fewer"} ${label} than your posts`,
+      });
+    }
+    return similarity;
+  });
+
+  return similarities.reduce((a, b) => a + b, 0) / similarities.length;
+}
+
+function compareParagraphShape(reference: StyleFingerprint, candidate: StyleFingerprint, deviations: StyleDeviation[]): number {
+  const sentences = rateSimilarity(reference.sentencesPerParagraph, candidate.sentencesPerParagraph, 1);
+  const words = rateSimilarity(reference.wordsPerParagraph, candidate.wordsPerParagraph, 10);
+  const singles = 1 - Math.abs(reference.singleSentenceParagraphs - candidate.singleSentenceParagraphs);
+
+  if (sentences < 0.6 || words < 0.6) {
+    deviations.push({
+      component: "paragraphShape",
+      message: `Paragraphs run ${candidate.sentencesPerParagraph.toFixed(1)} sentences (${Math.round(candidate.wordsPerParagraph)} words); yours run ${reference.sentencesPerParagraph.toFixed(1)} (${Math.round(reference.wordsPerParagraph)} words)`,
+    });
+  }
+
+  return (sentences + words + singles) / 3;
+}
+
+function formatPercent(share: number): string {
+  return `${(share * 100).toFixed(1)}%`;
+}
+
+/**
+ * Compare a text's fingerprint against the author's. Deviations name the
+ * habits that differ most, for use as gate issues.
+ */
+export function compareStyle(reference: StyleFingerprint, candidate: StyleFingerprint): StyleSimilarity {
+  const deviations: StyleDeviation[] = [];
+
+  const components: Record<StyleComponent, number> = {
+    functionWords: compareFunctionWords(reference, candidate, deviations),
+    // Trigram profiles of two texts by the same author rarely exceed ~0.8
+    charNgrams: Math.min(1, cosine(reference.charNgrams, candidate.charNgrams) / 0.8),
+    sentenceLengths: compareSentenceLengths(reference, candidate, deviations),
+    punctuation: comparePunctuation(reference, candidate, deviations),
+    paragraphShape: compareParagraphShape(reference, candidate, deviations),
+  };
+
+  if (components.charNgrams < 0.5) {
+    deviations.push({
+      component: "charNgrams",
+      message: "Word choice and spelling patterns differ from your posts",
+    });
+  }
+
+  let score = 0;
+  for (const [component, weight] of Object.entries(COMPONENT_WEIGHTS)) {
+    score += components[component as StyleComponent] * weight;
+  }
+
+  return {
+    score: Math.round(score * 100),
+    components: Object.fromEntries(
+      Object.entries(components).map(([key, value]) => [key, Math.round(value * 100)])
+    ) as Record<StyleComponent, number>,
+    deviations,
+  };
+}
+
+/**
+ * Texts that show the author's voice: the profile's reference posts plus
+ * any extra history (e.g. imported posts)
+ */
+export function getStyleReferences(profile: VoiceProfile, history: string[] = []): string[] {
+  return [...profile.topPosts.map(p => p.content), ...history].filter(t => t.trim());
+}
+
+/**
+ * Stylometric similarity of a post to the profile's writing, or null when
+ * the profile has too little reference text to compare against
+ */
+export function scoreVoiceSimilarity(
+  post: string,
+  profile: VoiceProfile,
+  history: string[] = []
+): StyleSimilarity | null {
+  const reference = buildStyleFingerprint(getStyleReferences(profile, history));
+  if (reference.wordCount < MIN_REFERENCE_WORDS) return null;
+
+  return compareStyle(reference, buildStyleFingerprint([post]));
+}
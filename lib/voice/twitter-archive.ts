@@ -0,0 +1,164 @@
+import { ImportedPost } from "@/lib/types";
+import { listZipEntries, readZipEntry } from "@/lib/utils/zip-reader";
+
+/**
+ * X (Twitter) "Download an archive of your data" export.
+ *
+ * data/tweets.js (split into tweets-part1.js, ... for big accounts; tweet.js
+ * in older archives) is a script that assigns a JSON array:
+ *   window.YTD.tweets.part0 = [ { "tweet": { "id_str", "full_text", ... } } ]
+ * Every tweet in it is the owner's, so a reply to a tweet in the archive is
+ * a self-reply: a thread continuation.
+ */
+
+interface ArchiveUrlEntity {
+  url: string;
+  expanded_url?: string;
+}
+
+interface ArchiveTweet {
+  id_str: string;
+  full_text: string;
+  created_at?: string;
+  favorite_count?: string | number;
+  retweet_count?: string | number;
+  in_reply_to_status_id_str?: string;
+  in_reply_to_user_id_str?: string;
+  retweeted?: boolean;
+  entities?: { urls?: ArchiveUrlEntity[] };
+  extended_entities?: { media?: { url: string }[] };
+}
+
+const TWEETS_FILE_PATTERN = /(^|\/)tweets?(-part\d+)?\.js$/i;
+
+function toCount(value: string | number | undefined): number {
+  const count = typeof value === "number" ? value : parseInt(value ?? "", 10);
+  return isNaN(count) ? 0 : count;
+}
+
+// "Wed Oct 10 20:19:24 +0000 2018" -> ISO string
+function parseTweetDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&");
+}
+
+/**
+ * Tweet text as the author wrote it: t.co links expanded, media links
+ * removed, HTML entities decoded
+ */
+function cleanTweetText(tweet: ArchiveTweet): string {
+  let text = tweet.full_text;
+  for (const media of tweet.extended_entities?.media ?? []) {
+    text = text.split(media.url).join("");
+  }
+  for (const link of tweet.entities?.urls ?? []) {
+    if (link.expanded_url) text = text.split(link.url).join(link.expanded_url);
+  }
+  return decodeEntities(text).trim();
+}
+
+function isRetweet(tweet: ArchiveTweet): boolean {
+  return tweet.retweeted === true || /^RT @\w+:/.test(tweet.full_text);
+}
+
+/**
+ * Tweets in one tweets.js file
+ */
+export function parseTweetsJs(script: string): ArchiveTweet[] {
+  const start = script.indexOf("[");
+  if (start < 0) {
+    throw new Error("tweets.js is not in the X archive format");
+  }
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(script.slice(start).trim().replace(/;$/, ""));
+  } catch {
+    throw new Error("tweets.js is not in the X archive format");
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error("tweets.js is not in the X archive format");
+  }
+
+  return entries
+    .map(entry => (entry && typeof entry === "object" && "tweet" in entry ? entry.tweet : entry) as ArchiveTweet)
+    .filter(tweet => typeof tweet?.id_str === "string" && typeof tweet.full_text === "string");
+}
+
+/**
+ * Posts from archive tweets: retweets and replies to other people are
+ * dropped, self-reply chains are stitched into one post per thread.
+ * Engagement is the likes plus retweets of the opening tweet.
+ */
+export function tweetsToPosts(tweets: ArchiveTweet[]): ImportedPost[] {
+  const originals = tweets.filter(t => !isRetweet(t));
+  const byId = new Map(originals.map(t => [t.id_str, t]));
+
+  // First self-reply to each tweet continues its thread
+  const continuation = new Map<string, ArchiveTweet>();
+  const byDate = [...originals].sort((a, b) =>
+    (parseTweetDate(a.created_at) ?? "").localeCompare(parseTweetDate(b.created_at) ?? "")
+  );
+  for (const tweet of byDate) {
+    const parent = tweet.in_reply_to_status_id_str;
+    if (parent && byId.has(parent) && !continuation.has(parent)) {
+      continuation.set(parent, tweet);
+    }
+  }
+
+  const posts: ImportedPost[] = [];
+  for (const root of byDate) {
+    // Replies (to others or mid-thread) never start a post
+    if (root.in_reply_to_status_id_str || root.in_reply_to_user_id_str) continue;
+
+    const parts: string[] = [];
+    for (let tweet: ArchiveTweet | undefined = root; tweet; tweet = continuation.get(tweet.id_str)) {
+      const text = cleanTweetText(tweet);
+      if (text) parts.push(text);
+    }
+    if (parts.length === 0) continue;
+
+    posts.push({
+      content: parts.join("\n\n"),
+      platform: "twitter",
+      source: "twitter-archive",
+      publishedAt: parseTweetDate(root.created_at),
+      url: `https://x.com/i/web/status/${root.id_str}`,
+      engagement: toCount(root.favorite_count) + toCount(root.retweet_count),
+    });
+  }
+
+  return posts;
+}
+
+/**
+ * Whether a ZIP archive is an X data export
+ */
+export function isTwitterArchive(data: Uint8Array): boolean {
+  return listZipEntries(data).some(e => TWEETS_FILE_PATTERN.test(e.name));
+}
+
+/**
+ * Posts from an X archive: the full ZIP or data/tweets.js on its own
+ */
+export async function importTwitterArchive(fileName: string, data: Uint8Array): Promise<ImportedPost[]> {
+  if (fileName.toLowerCase().endsWith(".js")) {
+    return tweetsToPosts(parseTweetsJs(new TextDecoder().decode(data)));
+  }
+
+  const entries = listZipEntries(data).filter(e => TWEETS_FILE_PATTERN.test(e.name));
+  if (entries.length === 0) {
+    throw new Error("data/tweets.js not found in the archive");
+  }
+
+  const tweets: ArchiveTweet[] = [];
+  for (const entry of entries) {
+    tweets.push(...parseTweetsJs(new TextDecoder().decode(await readZipEntry(data, entry))));
+  }
+  return tweetsToPosts(tweets);
+}
@@ -0,0 +1,55 @@
+/**
+ * Pipeline Fixture Recorder
+ *
+ * Run with: npx tsx scripts/record-pipeline-fixtures.ts <fixture-name>
+ *
+ * Runs generatePost once against the configured live provider (LLM_PROVIDER,
+ * see .env.example) using the inputs in tests/fixtures/pipeline/inputs.ts,
+ * and writes every prompt/response pair to
+ * tests/fixtures/pipeline/<fixture-name>.json keyed by prompt hash.
+ *
+ * Edge-case fixtures (retries, parser drift, forbidden phrases) start from a
+ * recording and have individual responses edited by hand.
+ */
+
+import * as dotenv from 'dotenv'
+import { writeFileSync } from 'fs'
+import { resolve } from 'path'
+
+dotenv.config({ path: resolve(process.cwd(), '.env.local') })
+
+async function main() {
+  const name = process.argv[2]
+  if (!name) {
+    console.error('Usage: npx tsx scripts/record-pipeline-fixtures.ts <fixture-name>')
+    process.exit(1)
+  }
+
+  // Import after dotenv so the provider picks up the keys
+  const { getProvider, setProvider } = await import('../lib/llm')
+  const { createRecordedProvider } = await import('../lib/llm/providers/recorded')
+  const { generatePost } = await import('../lib/pipeline/multi-stage')
+  const { interview, voiceProfile } = await import('../tests/fixtures/pipeline/inputs')
+  const { toFixtureFile } = await import('../tests/fixtures/pipeline/load')
+
+  const live = getProvider()
+  const recorder = createRecordedProvider({ recordings: {}, passthrough: live })
+  setProvider(recorder)
+
+  process.stdout.write(`Recording with ${live.id} (${live.model})...\n`)
+  const post = await generatePost(interview, voiceProfile, (p) => process.stdout.write(`  ${p.percent}% ${p.message}\n`))
+
+  const file = resolve(process.cwd(), 'tests/fixtures/pipeline', `${name}.json`)
+  writeFileSync(
+    file,
+    JSON.stringify(toFixtureFile(`Recorded from ${live.id}/${live.model}`, recorder.getRecordings(), recorder.getPrompts()), null, 2) + '\n'
+  )
+
+  process.stdout.write(`\nWrote ${Object.keys(recorder.getRecordings()).length} prompts to ${file}\n`)
+  process.stdout.write(`Final score: ${post.quality.score} (${post.status})\n`)
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,113 @@
+-- ============================================================================
+-- William.ai Generation Jobs
+-- Migration: 003_generation_jobs.sql
+--
+-- Persists each pipeline stage as a checkpoint so a failed or cancelled
+-- generation can resume from its last good stage instead of starting over.
+--
+-- SECURITY NOTES:
+-- - RLS enabled in this migration (same zero-trust model as 002)
+-- - Inputs are snapshotted as JSONB: voice profiles may exist only in the
+--   browser, so voice_profile_id is NOT a foreign key
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: generation_jobs
+-- ============================================================================
+
+CREATE TABLE public.generation_jobs (
+  -- Auto-generated UUID primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Owner reference (required, cascades on user deletion)
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+
+  -- Inputs (snapshot taken when the job was created)
+  voice_profile_id TEXT NOT NULL,
+  interview_data JSONB NOT NULL,
+  voice_profile_data JSONB NOT NULL,
+
+  -- Workflow status
+  status TEXT DEFAULT 'running' NOT NULL,
+
+  -- Completed stage outputs keyed by stage id
+  -- Structure: { initial?: { versions }, selected?: {...}, refined?: {...}, "hook-optimized"?: {...}, personality?: {...}, final?: {...} }
+  checkpoints JSONB NOT NULL DEFAULT '{}',
+
+  -- Stage replies that failed schema validation
+  -- Structure: [{ stage, attempt, error, output }]
+  parse_failures JSONB NOT NULL DEFAULT '[]',
+
+  last_completed_stage TEXT,
+  attempt INTEGER DEFAULT 1 NOT NULL,
+  retry_from_stage TEXT DEFAULT 'initial' NOT NULL,
+
+  -- Outcome
+  result_post JSONB,
+  error TEXT,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- CONSTRAINTS
+  CONSTRAINT valid_job_status CHECK (status IN ('running', 'completed', 'failed', 'cancelled')),
+  CONSTRAINT valid_last_completed_stage CHECK (
+    last_completed_stage IS NULL OR
+    last_completed_stage IN ('initial', 'selected', 'refined', 'hook-optimized', 'personality', 'final')
+  ),
+  CONSTRAINT valid_retry_from_stage CHECK (
+    retry_from_stage IN ('initial', 'selected', 'refined', 'hook-optimized', 'personality', 'final')
+  ),
+  CONSTRAINT positive_attempt CHECK (attempt >= 1)
+);
+
+-- INDEXES: Jobs are always looked up per user, newest first
+CREATE INDEX idx_generation_jobs_user_created ON public.generation_jobs(user_id, created_at DESC);
+
+COMMENT ON TABLE public.generation_jobs IS 'Checkpointed generation runs that can be resumed from the last completed stage';
+COMMENT ON COLUMN public.generation_jobs.checkpoints IS 'Output of each completed pipeline stage, keyed by stage id';
+COMMENT ON COLUMN public.generation_jobs.retry_from_stage IS 'Stage that quality retries restart from (earlier checkpoints are reused)';
+
+-- Auto-update updated_at (function defined in 001)
+CREATE TRIGGER update_generation_jobs_updated_at
+  BEFORE UPDATE ON public.generation_jobs
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+
+-- ============================================================================
+-- GENERATION_JOBS TABLE POLICIES
+--
+-- Standard pattern: user_id = auth.uid()
+-- ============================================================================
+
+ALTER TABLE public.generation_jobs ENABLE ROW LEVEL SECURITY;
+
+-- SELECT: Users can only read their own jobs
+CREATE POLICY "generation_jobs_select_own"
+  ON public.generation_jobs
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- INSERT: Users can only create jobs for themselves
+CREATE POLICY "generation_jobs_insert_own"
+  ON public.generation_jobs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+-- UPDATE: Users can only update their own jobs
+CREATE POLICY "generation_jobs_update_own"
+  ON public.generation_jobs
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- DELETE: Users can only delete their own jobs
+CREATE POLICY "generation_jobs_delete_own"
+  ON public.generation_jobs
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
@@ -0,0 +1,17 @@
+-- ============================================================================
+-- William.ai Post Revisions
+-- Migration: 004_post_revisions.sql
+--
+-- Keeps the content history of a post when individual pipeline stages are
+-- re-run from the editor. The row's pipeline_data / outputs / quality_score
+-- always hold the current revision.
+--
+-- SECURITY NOTES:
+-- - Column added to an existing table; RLS policies from 002 still apply
+-- ============================================================================
+
+-- Structure: [{ id, createdAt, source, fromStage?, pipeline, quality, outputs }], oldest first
+ALTER TABLE public.generated_posts
+  ADD COLUMN revisions JSONB NOT NULL DEFAULT '[]';
+
+COMMENT ON COLUMN public.generated_posts.revisions IS 'Snapshots of earlier and current generated content, oldest first';
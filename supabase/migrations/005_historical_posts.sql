@@ -0,0 +1,91 @@
+-- ============================================================================
+-- William.ai Historical Posts
+-- Migration: 005_historical_posts.sql
+--
+-- The author's back catalogue, imported from platform data exports (e.g. the
+-- LinkedIn "Get a copy of your data" archive). Voice matching and repetition
+-- checks read these instead of only the reference posts on the profile.
+--
+-- SECURITY NOTES:
+-- - RLS enabled in this migration (same zero-trust model as 002)
+-- - Re-importing the same export is a no-op: posts are unique per profile,
+--   platform and normalized content
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: historical_posts
+-- ============================================================================
+
+CREATE TABLE public.historical_posts (
+  -- Auto-generated UUID primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Owner reference (required, cascades on user deletion)
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+
+  -- The voice profile this catalogue belongs to
+  voice_profile_id UUID NOT NULL REFERENCES public.voice_profiles(id) ON DELETE CASCADE,
+
+  platform TEXT NOT NULL,
+  source TEXT NOT NULL,
+  content TEXT NOT NULL,
+
+  -- Dedupe key: case and whitespace differences don't make a new post
+  content_hash TEXT GENERATED ALWAYS AS (
+    md5(lower(regexp_replace(btrim(content), '\s+', ' ', 'g')))
+  ) STORED,
+
+  -- Metadata from the export (optional)
+  published_at TIMESTAMPTZ,
+  url TEXT,
+  engagement INTEGER,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- CONSTRAINTS
+  CONSTRAINT valid_historical_platform CHECK (platform IN ('linkedin', 'twitter')),
+  CONSTRAINT valid_historical_source CHECK (source IN ('linkedin-export')),
+  CONSTRAINT historical_content_not_empty CHECK (char_length(btrim(content)) >= 1),
+  CONSTRAINT historical_content_max_length CHECK (char_length(content) <= 10000),
+  CONSTRAINT unique_historical_post UNIQUE (user_id, voice_profile_id, platform, content_hash)
+);
+
+-- INDEXES: Catalogues are always read per profile, newest first
+CREATE INDEX idx_historical_posts_profile_published
+  ON public.historical_posts(voice_profile_id, published_at DESC NULLS LAST);
+
+COMMENT ON TABLE public.historical_posts IS 'Past posts imported from platform exports, per voice profile';
+COMMENT ON COLUMN public.historical_posts.source IS 'Export the post came from (linkedin-export)';
+COMMENT ON COLUMN public.historical_posts.content_hash IS 'md5 of the lowercased, whitespace-collapsed content (dedupe key)';
+
+
+-- ============================================================================
+-- HISTORICAL_POSTS TABLE POLICIES
+--
+-- Standard pattern: user_id = auth.uid()
+-- Posts are immutable once imported, so there is no UPDATE policy
+-- ============================================================================
+
+ALTER TABLE public.historical_posts ENABLE ROW LEVEL SECURITY;
+
+-- SELECT: Users can only read their own posts
+CREATE POLICY "historical_posts_select_own"
+  ON public.historical_posts
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- INSERT: Users can only import posts for themselves
+CREATE POLICY "historical_posts_insert_own"
+  ON public.historical_posts
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+-- DELETE: Users can only delete their own posts
+CREATE POLICY "historical_posts_delete_own"
+  ON public.historical_posts
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
@@ -0,0 +1,16 @@
+-- ============================================================================
+-- William.ai Twitter Archive Import
+-- Migration: 006_twitter_archive_source.sql
+--
+-- Allows historical posts imported from an X (Twitter) data archive
+-- (data/tweets.js). Threads are stored as one post.
+--
+-- SECURITY NOTES:
+-- - Constraint change only; RLS policies from 005 still apply
+-- ============================================================================
+
+ALTER TABLE public.historical_posts
+  DROP CONSTRAINT valid_historical_source,
+  ADD CONSTRAINT valid_historical_source CHECK (source IN ('linkedin-export', 'twitter-archive'));
+
+COMMENT ON COLUMN public.historical_posts.source IS 'Export the post came from (linkedin-export, twitter-archive)';
@@ -0,0 +1,95 @@
+-- ============================================================================
+-- William.ai Voice Profile Versions
+-- Migration: 007_voice_profile_versions.sql
+--
+-- Every edit to a voice profile's name, rules, reference posts or brand
+-- colors is saved as an immutable version, so voice drift can be traced and
+-- rolled back. Generated posts record the version they were written with.
+--
+-- SECURITY NOTES:
+-- - RLS enabled in this migration (same zero-trust model as 002)
+-- - Versions are immutable: there is no UPDATE policy, and they are only
+--   deleted with their voice profile
+-- ============================================================================
+
+-- Current version of each profile (incremented by the app on every edit)
+ALTER TABLE public.voice_profiles
+  ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+
+-- Profile version a post was generated with (NULL for posts from before versioning)
+ALTER TABLE public.generated_posts
+  ADD COLUMN voice_profile_version INTEGER;
+
+COMMENT ON COLUMN public.voice_profiles.version IS 'Current version number; matches the latest row in voice_profile_versions';
+COMMENT ON COLUMN public.generated_posts.voice_profile_version IS 'Voice profile version used to generate the post';
+
+-- ============================================================================
+-- TABLE: voice_profile_versions
+-- ============================================================================
+
+CREATE TABLE public.voice_profile_versions (
+  -- Auto-generated UUID primary key
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Owner reference (required, cascades on user deletion)
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+
+  -- The profile this is a version of
+  voice_profile_id UUID NOT NULL REFERENCES public.voice_profiles(id) ON DELETE CASCADE,
+
+  version INTEGER NOT NULL,
+
+  -- Snapshot of the versioned fields (same structure as voice_profiles)
+  name TEXT NOT NULL,
+  rules JSONB NOT NULL,
+  top_posts JSONB NOT NULL,
+  brand_colors JSONB NOT NULL,
+
+  -- Set when the version was created by rolling back to an earlier one
+  restored_from INTEGER,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  -- CONSTRAINTS
+  CONSTRAINT version_positive CHECK (version >= 1),
+  CONSTRAINT unique_profile_version UNIQUE (voice_profile_id, version)
+);
+
+-- INDEXES: unique_profile_version covers lookups by profile
+
+COMMENT ON TABLE public.voice_profile_versions IS 'Immutable snapshots of voice profiles, one per edit';
+
+-- Existing profiles start their history at version 1
+INSERT INTO public.voice_profile_versions (user_id, voice_profile_id, version, name, rules, top_posts, brand_colors, created_at)
+SELECT user_id, id, version, name, rules, top_posts, brand_colors, updated_at
+FROM public.voice_profiles;
+
+
+-- ============================================================================
+-- VOICE_PROFILE_VERSIONS TABLE POLICIES
+--
+-- Standard pattern: user_id = auth.uid()
+-- ============================================================================
+
+ALTER TABLE public.voice_profile_versions ENABLE ROW LEVEL SECURITY;
+
+-- SELECT: Users can only read versions of their own profiles
+CREATE POLICY "voice_profile_versions_select_own"
+  ON public.voice_profile_versions
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- INSERT: Users can only add versions to their own profiles
+CREATE POLICY "voice_profile_versions_insert_own"
+  ON public.voice_profile_versions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.voice_profiles
+      WHERE id = voice_profile_id AND user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,17 @@
+-- ============================================================================
+-- William.ai Post Manual Edits
+-- Migration: 008_post_manual_edits.sql
+--
+-- Keeps the before/after text of every manual edit to a post. Edits across a
+-- voice profile's posts are mined for rule suggestions (words the user always
+-- deletes, phrases they always add, sentences they always split).
+--
+-- SECURITY NOTES:
+-- - Column added to an existing table; RLS policies from 002 still apply
+-- ============================================================================
+
+-- Structure: [{ id, createdAt, before, after }], oldest first
+ALTER TABLE public.generated_posts
+  ADD COLUMN manual_edits JSONB NOT NULL DEFAULT '[]';
+
+COMMENT ON COLUMN public.generated_posts.manual_edits IS 'LinkedIn post text before and after each manual edit, oldest first';
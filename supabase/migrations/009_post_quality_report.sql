@@ -0,0 +1,20 @@
+-- ============================================================================
+-- William.ai Post Quality Reports
+-- Migration: 009_post_quality_report.sql
+--
+-- Stores the quality gate results behind quality_score, and the score the
+-- model gave itself in stage 6, so the two can be compared over time.
+-- Both are NULL for posts generated before the pipeline ran the gates.
+--
+-- SECURITY NOTES:
+-- - Columns added to an existing table; RLS policies from 002 still apply
+-- ============================================================================
+
+-- Structure: { overallScore, passed, gates: { [gateId]: { name, passed, score?, issues, suggestions, weight?, threshold? } }, timestamp }
+ALTER TABLE public.generated_posts
+  ADD COLUMN quality_report JSONB,
+  ADD COLUMN self_score INTEGER,
+  ADD CONSTRAINT self_score_range CHECK (self_score >= 0 AND self_score <= 100);
+
+COMMENT ON COLUMN public.generated_posts.quality_report IS 'Quality gate results behind quality_score';
+COMMENT ON COLUMN public.generated_posts.self_score IS 'Score the model gave the post in the final stage, for comparison with quality_score';
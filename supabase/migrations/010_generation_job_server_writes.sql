@@ -0,0 +1,21 @@
+-- ============================================================================
+-- William.ai Server-Only Generation Job Writes
+-- Migration: 010_generation_job_server_writes.sql
+--
+-- A resumed job runs on the inputs and checkpoints stored with it, so users
+-- must not be able to write them straight through the API with their own
+-- session. Jobs are now created and updated only by the API routes, with the
+-- service role; users can still read and delete their own jobs.
+--
+-- SECURITY NOTES:
+-- - The service role bypasses RLS: every server write filters by user_id
+-- - Resumes re-validate the stored inputs and checkpoints as well
+-- ============================================================================
+
+DROP POLICY IF EXISTS "generation_jobs_insert_own" ON public.generation_jobs;
+DROP POLICY IF EXISTS "generation_jobs_update_own" ON public.generation_jobs;
+
+-- Without a policy RLS already blocks these; revoking makes it explicit
+REVOKE INSERT, UPDATE ON public.generation_jobs FROM authenticated, anon;
+
+COMMENT ON TABLE public.generation_jobs IS 'Checkpointed generation runs that can be resumed from the last completed stage (written by the server only)';
@@ -0,0 +1,80 @@
+import { InterviewResponse, VoiceProfile } from "@/lib/types";
+
+/**
+ * Fixed pipeline inputs. Prompt hashes in the recorded fixtures depend on
+ * these values - changing them (or any stage prompt) requires re-recording
+ * with scripts/record-pipeline-fixtures.ts.
+ */
+export const interview: InterviewResponse = {
+  id: "interview-fixture-1",
+  flowType: "experience",
+  voiceModeId: "thought-leader",
+  voiceProfileId: "profile-fixture-1",
+  createdAt: "2026-01-15T09:00:00.000Z",
+  answers: {
+    q1: "Spent ₹8L on Meta ads over 4 months for our B2B invoicing tool.",
+    q2: "Zero qualified meetings. 3,200 clicks, mostly students.",
+    q3: "Felt stupid. My co-founder Priya wanted to shut down paid entirely.",
+    q4: "Went on one niche podcast for CFOs instead.",
+    q5: "12 inbound calls in 2 weeks. Closed ₹15L in annual contracts.",
+    q6: "Trust transfers from the host. Ads have none.",
+  },
+  extractedInsight: "One trusted podcast beat ₹8L of ads because trust transfers.",
+  platform: "linkedin",
+};
+
+export const voiceProfile: VoiceProfile = {
+  id: "profile-fixture-1",
+  name: "Founder Voice",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  rules: {
+    sentencePatterns: [
+      "Short declarative sentences",
+      "Numbers before adjectives",
+      "One idea per line",
+      "End with a plain takeaway",
+      "No rhetorical questions in the hook",
+      "Admit mistakes plainly",
+      "Name real people",
+    ],
+    forbiddenWords: ["hustle", "grind", "crushing it", "ninja", "rockstar", "guru", "10x"],
+    signaturePhrases: [
+      "Here's the part nobody tells you",
+      "Math doesn't lie",
+      "Trust is the channel",
+      "Learned this the expensive way",
+      "Small rooms, big deals",
+      "Receipts below",
+    ],
+    rhythmPreferences: {
+      avgSentenceLength: 9,
+      paragraphBreaks: "frequent",
+      punchlinePosition: "end",
+      questionUsage: "never",
+    },
+    formattingRules: {
+      useEmDash: false,
+      useBulletPoints: false,
+      useNumberedLists: true,
+      emojiUsage: "never",
+    },
+  },
+  topPosts: [
+    {
+      content: "Lost our biggest client in March.\n\n40% of revenue. Gone in one email.\n\nLearned this the expensive way: never let one logo own you.\n\nWe now cap any client at 15%.",
+      platform: "linkedin",
+      engagement: 412,
+    },
+    {
+      content: "Hired 6 engineers in 2023. Kept 2.\n\nThe 2 who stayed asked about our customers in the interview.\n\nMath doesn't lie. Curiosity beats pedigree.",
+      platform: "linkedin",
+      engagement: 389,
+    },
+  ],
+  brandColors: {
+    primary: "#111111",
+    secondary: "#ffffff",
+    accent: "#0066cc",
+  },
+};
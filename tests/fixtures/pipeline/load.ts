@@ -0,0 +1,78 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import type { PromptRecordings } from "@/lib/llm/providers/recorded";
+
+/**
+ * On-disk fixture format. The stage label is for humans editing the file;
+ * replay only uses the hash and responses.
+ */
+export interface PipelineFixtureFile {
+  description: string;
+  recordings: Record<string, { stage: string; responses: string[] }>;
+}
+
+const STAGE_MARKERS: [string, string][] = [
+  ["Generate 5 COMPLETELY DIFFERENT versions", "stage1-versions"],
+  ["evaluating 5 versions", "stage2-select"],
+  ["refining a LinkedIn post", "stage3-refine"],
+  ["optimizing the opening line", "stage4-hooks"],
+  ["adding personality", "stage5-personality"],
+  ["final quality validation", "stage6-quality"],
+  ["Compare a generated post to reference posts", "quality-voice-match"],
+];
+
+const REPAIR_MARKER = "Your previous reply did not match the required JSON format";
+
+/**
+ * Best-effort stage name for a prompt
+ */
+export function labelStage(prompt: string): string {
+  const stage = STAGE_MARKERS.find(([marker]) => prompt.includes(marker))?.[1] || "other";
+  // Repair prompts embed the original stage prompt
+  return prompt.startsWith(REPAIR_MARKER) ? `${stage}-repair` : stage;
+}
+
+/**
+ * Drop trailing duplicates - replay repeats the last response anyway
+ */
+function collapseRepeats(responses: string[]): string[] {
+  const collapsed = [...responses];
+  while (collapsed.length > 1 && collapsed[collapsed.length - 1] === collapsed[collapsed.length - 2]) {
+    collapsed.pop();
+  }
+  return collapsed;
+}
+
+export function toFixtureFile(
+  description: string,
+  recordings: PromptRecordings,
+  prompts: Record<string, string>
+): PipelineFixtureFile {
+  return {
+    description,
+    recordings: Object.fromEntries(
+      Object.entries(recordings).map(([hash, responses]) => [
+        hash,
+        { stage: labelStage(prompts[hash] || ""), responses: collapseRepeats(responses) },
+      ])
+    ),
+  };
+}
+
+/**
+ * Read tests/fixtures/pipeline/<name>.json as stored (with stage labels)
+ */
+export function readPipelineFixture(name: string): PipelineFixtureFile {
+  const file = resolve(__dirname, `${name}.json`);
+  return JSON.parse(readFileSync(file, "utf-8")) as PipelineFixtureFile;
+}
+
+/**
+ * Load a fixture's recordings for replay
+ */
+export function loadPipelineFixture(name: string): PromptRecordings {
+  const fixture = readPipelineFixture(name);
+  return Object.fromEntries(
+    Object.entries(fixture.recordings).map(([hash, entry]) => [hash, entry.responses])
+  );
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { validatePost } from "@/lib/guardrails/quality-gates";
+import { applyQuickFix, collectAnnotations, segmentByAnnotations } from "@/lib/guardrails/annotations";
+import { interview, voiceProfile } from "../fixtures/pipeline/inputs";
+
+const POST = voiceProfile.topPosts[0].content;
+
+describe("gate annotations", () => {
+  it("should point at a forbidden phrase and fix it in place", () => {
+    const post = `We leveraged the host's audience.\n\n${POST}`;
+    const [annotation] = validatePost(post, voiceProfile).gates.forbiddenPhrases.annotations!;
+
+    expect(post.slice(annotation.start, annotation.end)).toBe("leveraged");
+    expect(annotation.message).toBe('Found "leverage" (buzzwords)');
+    expect(annotation.fixes.map(f => f.label)).toEqual(['Replace with "used"']);
+
+    const fixed = applyQuickFix(post, annotation.fixes[0])!;
+    expect(fixed.startsWith("We used the host's audience.")).toBe(true);
+    expect(validatePost(fixed, voiceProfile).gates.forbiddenPhrases.passed).toBe(true);
+  });
+
+  it("should not apply a fix once the text under it has changed", () => {
+    const post = `We leveraged it.\n\n${POST}`;
+    const [fix] = validatePost(post, voiceProfile).gates.forbiddenPhrases.annotations![0].fixes;
+
+    expect(applyQuickFix(`Honestly, ${post}`, fix)).toBeNull();
+  });
+
+  it("should point at invented numbers and offer commas for em-dashes", () => {
+    const post = `${POST}\n\nWe spent ₹9L — twice the plan.`;
+    const report = validatePost(post, voiceProfile, interview);
+
+    const facts = report.gates.factConsistency.annotations!;
+    expect(facts.map(a => post.slice(a.start, a.end))).toContain("₹9L");
+    expect(facts.every(a => a.fixes.length === 0)).toBe(true);
+
+    const [dash] = report.gates.formatting.annotations!;
+    expect(applyQuickFix(post, dash.fixes[0])!.endsWith("We spent ₹9L, twice the plan.")).toBe(true);
+  });
+
+  it("should collect annotations in text order and split overlaps into segments", () => {
+    const post = "Let me tell you how we leveraged Meta ads.";
+    const annotations = collectAnnotations(validatePost(post, voiceProfile), post);
+
+    expect(annotations.map(a => a.gateId)).toEqual(
+      expect.arrayContaining(["hookStrength", "forbiddenPhrases"])
+    );
+    expect(annotations[0].start).toBe(0);
+
+    const segments = segmentByAnnotations(post, annotations);
+    expect(segments.map(s => s.text).join("")).toBe(post);
+    const leveraged = segments.find(s => s.text === "leveraged")!;
+    expect(leveraged.annotations.map(a => a.gateId)).toEqual(
+      expect.arrayContaining(["hookStrength", "forbiddenPhrases"])
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkFactConsistency,
+  extractFacts,
+  getFactSources,
+} from "@/lib/guardrails/fact-consistency";
+import { validatePost } from "@/lib/guardrails/quality-gates";
+import { interview, voiceProfile } from "../fixtures/pipeline/inputs";
+import happyPath from "../pipeline/__golden__/happy-path.json";
+
+const sources = getFactSources(interview);
+
+describe("extractFacts", () => {
+  it("should classify currencies, percentages, durations and numbers", () => {
+    const facts = extractFacts("We spent ₹8L and $1.2M, grew 40% in 2 weeks and got 3,200 clicks.");
+
+    expect(facts.map(f => [f.kind, f.text, f.value])).toEqual([
+      ["currency", "₹8L", 800000],
+      ["currency", "$1.2M", 1200000],
+      ["percentage", "40%", 40],
+      ["duration", "2 weeks", 2],
+      ["number", "3,200", 3200],
+    ]);
+  });
+
+  it("should skip list markers, single-digit counts and numbers inside words", () => {
+    const facts = extractFacts("3 lessons from our B2B launch:\n1. Ship\n12. Sell to 3rd parties");
+    expect(facts).toEqual([]);
+  });
+
+  it("should join consecutive capitalized words into one name and skip sentence starts", () => {
+    const facts = extractFacts("Last week I met Priya Sharma at Zentrix. Nobody expected it. #Startups");
+    expect(facts.map(f => f.text)).toEqual(["Priya Sharma", "Zentrix"]);
+  });
+});
+
+describe("checkFactConsistency", () => {
+  it("should accept facts from the answers, including equivalent values", () => {
+    const { unsupported } = checkFactConsistency(
+      "After ₹8 lakh on Meta ads we got 12 inbound calls in 14 days from one CFO podcast with Priya's help.",
+      sources
+    );
+    expect(unsupported).toEqual([]);
+  });
+
+  it("should flag invented numbers, currencies and names", () => {
+    const { unsupported } = checkFactConsistency(
+      "We closed ₹25L with 40% more calls after Rahul joined Zentrix for 6 months.",
+      sources
+    );
+    expect(unsupported.map(f => f.text)).toEqual(["₹25L", "40%", "Rahul", "Zentrix", "6 months"]);
+  });
+
+  it("should not treat dates, quarters, funding rounds or common tools as invented names", () => {
+    const { unsupported } = checkFactConsistency(
+      "Every Monday and Tuesday in Q3 2024 we shared notes on Slack and Google Docs after our Series A.\n- Notion for plans",
+      sources
+    );
+    expect(unsupported).toEqual([]);
+  });
+
+  it("should not treat acronyms as invented names", () => {
+    const { unsupported } = checkFactConsistency(
+      "Our SDR team moved every lead into the CRM. The KPIs and OKRs followed, and the GTM plan for SaaS buyers got simpler.",
+      sources
+    );
+    expect(unsupported).toEqual([]);
+  });
+
+  it("should not accept a percentage backed only by a plain number", () => {
+    const { unsupported } = checkFactConsistency("Conversion went up 12%.", sources);
+    expect(unsupported.map(f => f.text)).toEqual(["12%"]);
+  });
+
+  it("should accept spelled-out numbers in the answers", () => {
+    const { unsupported } = checkFactConsistency("We waited 3 weeks.", ["It took three weeks."]);
+    expect(unsupported).toEqual([]);
+  });
+});
+
+describe("fact consistency gate", () => {
+  it("should pass the recorded happy-path post", () => {
+    const report = validatePost(happyPath.outputs.linkedin.post, voiceProfile, interview);
+    expect(report.gates.factConsistency?.issues).toEqual([]);
+    expect(report.gates.factConsistency?.passed).toBe(true);
+  });
+
+  it("should fail the report when a fact is invented", () => {
+    const post = happyPath.outputs.linkedin.post.replace("₹15L closed", "₹50L closed");
+    const report = validatePost(post, voiceProfile, interview);
+
+    expect(report.gates.factConsistency?.passed).toBe(false);
+    expect(report.gates.factConsistency?.issues).toEqual([
+      "\"₹50L\" (currency) is not in the interview answers",
+    ]);
+    expect(report.passed).toBe(false);
+  });
+
+  it("should flag an invented name without failing the report", () => {
+    const post = `${happyPath.outputs.linkedin.post}\n\nThanks to everyone at Zentrix.`;
+    const report = validatePost(post, voiceProfile, interview);
+
+    expect(report.gates.factConsistency?.passed).toBe(true);
+    expect(report.gates.nameConsistency?.passed).toBe(false);
+    expect(report.gates.nameConsistency?.issues).toEqual([
+      "\"Zentrix\" (name) is not in the interview answers",
+    ]);
+    expect(report.passed).toBe(true);
+  });
+
+  it("should leave the gates out without an interview", () => {
+    const report = validatePost(happyPath.outputs.linkedin.post, voiceProfile);
+    expect(report.gates.factConsistency).toBeUndefined();
+    expect(report.gates.nameConsistency).toBeUndefined();
+  });
+});
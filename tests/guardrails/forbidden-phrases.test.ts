@@ -6,7 +6,15 @@ import {
   hasForbiddenPhrases,
   getSuggestions,
   calculateForbiddenPhraseScore,
+  buildForbiddenPhraseList,
+  getForbiddenPhraseList,
+  parsePhraseRule,
+  checkPhraseRule,
+  GLOBAL_FORBIDDEN_PHRASES,
 } from "@/lib/guardrails/forbidden-phrases";
+import { detectSlop, autoFixSlop } from "@/lib/guardrails/slop-detector";
+import { validatePost } from "@/lib/guardrails/quality-gates";
+import { interview, voiceProfile } from "../fixtures/pipeline/inputs";
 
 describe("FORBIDDEN_PHRASES", () => {
   it("should have all expected categories", () => {
@@ -134,6 +142,11 @@ describe("getSuggestions", () => {
     expect(suggestions[0]).toContain("removing");
   });
 
+  it("should find suggestions for inflected forms", () => {
+    expect(getSuggestions("leveraging")).toContain("use");
+    expect(getSuggestions("Reached out")).toContain("email");
+  });
+
   it("should be case insensitive", () => {
     expect(getSuggestions("LEVERAGE")).toContain("use");
     expect(getSuggestions("Leverage")).toContain("use");
@@ -160,7 +173,7 @@ describe("calculateForbiddenPhraseScore", () => {
     expect(cleanScore).toBe(105); // 100 + 5 bonus
   });
 
-  it("should deduct 5 points per forbidden phrase", () => {
+  it("should deduct 5 points per medium-severity phrase", () => {
     // One forbidden phrase
     const textOne = "We need to leverage this opportunity.";
     const scoreOne = calculateForbiddenPhraseScore(textOne);
@@ -183,6 +196,13 @@ describe("calculateForbiddenPhraseScore", () => {
     expect(score).toBeGreaterThanOrEqual(70); // 100 - 30 max
   });
 
+  it("should weight deductions by severity", () => {
+    // high
+    expect(calculateForbiddenPhraseScore("Moreover, we shipped on Friday.")).toBe(90);
+    // low
+    expect(calculateForbiddenPhraseScore("The launch went quite well.")).toBe(98);
+  });
+
   it("should never return negative scores", () => {
     // Even with absurd amount of slop
     const text = Array(50).fill("leverage synergy ecosystem paradigm").join(" ");
@@ -191,3 +211,160 @@ describe("calculateForbiddenPhraseScore", () => {
     expect(score).toBeGreaterThanOrEqual(0);
   });
 });
+
+describe("buildForbiddenPhraseList", () => {
+  const phrases = (list: ReturnType<typeof buildForbiddenPhraseList>) => list.map(p => p.phrase);
+
+  it("should start from the global list", () => {
+    expect(buildForbiddenPhraseList()).toEqual(GLOBAL_FORBIDDEN_PHRASES);
+    expect(phrases(GLOBAL_FORBIDDEN_PHRASES).slice(0, ALL_FORBIDDEN_PHRASES.length)).toEqual(ALL_FORBIDDEN_PHRASES);
+  });
+
+  it("should add each layer's phrases with the layer they came from", () => {
+    const list = buildForbiddenPhraseList({
+      voiceMode: { forbidden: ["maybe"] },
+      profile: { forbidden: ["hustle"] },
+      post: { forbidden: ["pivot"] },
+    });
+
+    expect(list.slice(-3)).toEqual([
+      { phrase: "maybe", category: "voiceMode", layer: "voiceMode", severity: "medium", inflect: true },
+      { phrase: "hustle", category: "profile", layer: "profile", severity: "high", inflect: true },
+      { phrase: "pivot", category: "post", layer: "post", severity: "high", inflect: true },
+    ]);
+  });
+
+  it("should let a later layer allow what an earlier one forbids", () => {
+    const list = buildForbiddenPhraseList({
+      voiceMode: { forbidden: ["maybe"] },
+      profile: { allowed: ["Leverage", "maybe"] },
+    });
+
+    expect(phrases(list)).not.toContain("leverage");
+    expect(phrases(list)).not.toContain("maybe");
+  });
+
+  it("should let a later layer forbid what an earlier one allows", () => {
+    const list = buildForbiddenPhraseList({
+      profile: { allowed: ["leverage"] },
+      post: { forbidden: ["leverage"] },
+    });
+
+    expect(list.find(p => p.phrase === "leverage")?.layer).toBe("post");
+  });
+
+  it("should not list a phrase twice", () => {
+    const list = buildForbiddenPhraseList({ profile: { forbidden: ["Synergy", " synergy "] } });
+    expect(phrases(list).filter(p => p.toLowerCase() === "synergy")).toHaveLength(1);
+  });
+});
+
+describe("matching", () => {
+  const found = (text: string, phrases = GLOBAL_FORBIDDEN_PHRASES) =>
+    checkForForbiddenPhrases(text, phrases).map(m => [m.phrase, m.text]);
+
+  it("should catch inflected forms", () => {
+    expect(found("We leveraged it, then kept leveraging it. Delving into synergies.")).toEqual([
+      ["leverage", "leveraged"],
+      ["leverage", "leveraging"],
+      ["synergy", "synergies"],
+      ["delve into", "Delving into"],
+    ]);
+    expect(found("He dove deep into the logs.")).toEqual([["dive deep", "dove deep"]]);
+  });
+
+  it("should leave fixed phrases and short words uninflected", () => {
+    expect(found("I thought about it for weeks.")).toEqual([]);
+    expect(found("She pictured this moment.")).toEqual([]);
+  });
+
+  it("should match whole words only", () => {
+    const list = buildForbiddenPhraseList({ voiceMode: { forbidden: ["just"] } });
+    expect(found("Adjust the plan. Rather unjustly.", list)).toEqual([["rather", "Rather"]]);
+    expect(found("It was just right.", list)).toEqual([["just", "just"]]);
+  });
+
+  it("should accept curly apostrophes and spaced hyphens", () => {
+    expect(found("In today’s world, cutting edge means nothing.")).toEqual([
+      ["cutting-edge", "cutting edge"],
+      ["in today's world", "In today’s world"],
+    ]);
+  });
+
+  it("should match the built-in pattern rules", () => {
+    const [match] = checkForForbiddenPhrases("This is not just a tool, but a movement.");
+    expect(match).toMatchObject({ phrase: "not just X, but Y", category: "aiTells", severity: "high" });
+    expect(match.text).toBe("not just a tool, but ");
+  });
+});
+
+describe("parsePhraseRule", () => {
+  it("should read replacements after an arrow", () => {
+    expect(parsePhraseRule("hustle -> work, effort", "profile")).toEqual({
+      phrase: "hustle",
+      category: "profile",
+      layer: "profile",
+      severity: "high",
+      inflect: true,
+      replacements: ["work", "effort"],
+    });
+  });
+
+  it("should reject /regex/ rules, which could run for minutes on a long post", () => {
+    for (const rule of ["/[a-z]+[a-z0-9]+x/", "/\\w+\\s*\\w+x/", "/\\bq[1-4] planning\\b/ -> plan"]) {
+      expect(checkPhraseRule(rule)).toContain("Regex rules like");
+      expect(parsePhraseRule(rule, "profile")).toBeNull();
+    }
+    expect(parsePhraseRule("  ", "profile")).toBeNull();
+    expect(buildForbiddenPhraseList({ profile: { forbidden: ["/(a+)+$/"] } })).toEqual(GLOBAL_FORBIDDEN_PHRASES);
+    expect(checkPhraseRule("hustle -> work")).toBeNull();
+  });
+});
+
+describe("getForbiddenPhraseList", () => {
+  it("should merge the interview's voice mode, the profile and the post overrides", () => {
+    const list = getForbiddenPhraseList(
+      { rules: { ...voiceProfile.rules, allowedPhrases: ["leverage"] } },
+      { ...interview, phraseOverrides: { forbidden: ["podcast"], allowed: ["hustle"] } }
+    );
+    const byPhrase = new Map(list.map(p => [p.phrase, p.layer]));
+
+    // thought-leader mode
+    expect(byPhrase.get("perhaps")).toBe("voiceMode");
+    expect(byPhrase.get("guru")).toBe("profile");
+    expect(byPhrase.get("podcast")).toBe("post");
+    expect(byPhrase.has("leverage")).toBe(false);
+    expect(byPhrase.has("hustle")).toBe(false);
+  });
+});
+
+describe("detectSlop severity", () => {
+  it("should weigh matches by severity rather than count", () => {
+    expect(detectSlop("It's quite good and fairly cheap.").severity).toBe("low");
+    // Two of them would have been "low" by count
+    expect(detectSlop("Moreover, it works. Furthermore, it's cheap.").severity).toBe("medium");
+    expect(detectSlop("Moreover, it works. Furthermore, it's cheap. Additionally, it ships.").severity).toBe("high");
+  });
+
+  it("should suggest the entry's replacements", () => {
+    expect(detectSlop("We leveraged it.").suggestions[0]).toContain('Replace "leveraged" with "use"');
+  });
+});
+
+describe("merged list in the guardrails", () => {
+  const client = { ...voiceProfile, rules: { ...voiceProfile.rules, allowedPhrases: ["leverage"] } };
+  const post = "We leverage 12 podcasts a year.\n\nNo ninja tricks.";
+
+  it("should flag profile words and skip allowed ones in the forbidden-phrase gate", () => {
+    const gate = validatePost(post, client, interview).gates.forbiddenPhrases;
+    expect(gate.issues).toEqual(['Found "ninja" (profile)']);
+  });
+
+  it("should use the merged list in the slop detector", () => {
+    const list = getForbiddenPhraseList(client, interview);
+
+    expect(detectSlop(post, list).matches.map(m => m.phrase)).toEqual(["ninja"]);
+    expect(autoFixSlop(post, list).fixed).toContain("leverage");
+    expect(autoFixSlop(post).fixed).not.toContain("leverage");
+  });
+});
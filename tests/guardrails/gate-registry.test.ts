@@ -0,0 +1,109 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { validatePost } from "@/lib/guardrails/quality-gates";
+import {
+  DEFAULT_PASS_SCORE,
+  getPassScore,
+  registerQualityGate,
+  resolveQualityGates,
+  unregisterQualityGate,
+} from "@/lib/guardrails/gate-registry";
+import { QualityGateConfig, VoiceProfile } from "@/lib/types";
+import { voiceProfile } from "../fixtures/pipeline/inputs";
+
+const POST = voiceProfile.topPosts[0].content;
+
+function withGates(qualityGates: QualityGateConfig): VoiceProfile {
+  return { ...voiceProfile, rules: { ...voiceProfile.rules, qualityGates } };
+}
+
+describe("gate registry", () => {
+  afterEach(() => {
+    unregisterQualityGate("length");
+  });
+
+  it("should run the built-in gates with their weights and thresholds", () => {
+    const report = validatePost(POST, voiceProfile);
+
+    expect(Object.keys(report.gates)).toEqual([
+      "forbiddenPhrases",
+      "specificity",
+      "voiceMatch",
+      "hookStrength",
+      "readability",
+      "formatting",
+      "structuralTells",
+    ]);
+    expect(report.gates.forbiddenPhrases).toMatchObject({ weight: 0.25, threshold: 100 });
+    expect(report.gates.hookStrength).toMatchObject({ weight: 0.2, threshold: 50 });
+  });
+
+  it("should let a profile turn gates off, re-weight them and move thresholds", () => {
+    const report = validatePost(
+      "No numbers here.",
+      withGates({
+        gates: {
+          formatting: { enabled: false },
+          voiceMatch: { weight: 0 },
+          specificity: { threshold: 0 },
+        },
+      })
+    );
+
+    expect(report.gates.formatting).toBeUndefined();
+    expect(report.gates.voiceMatch.weight).toBe(0);
+    expect(report.gates.specificity).toMatchObject({ score: 0, passed: true });
+    expect(validatePost("No numbers here.", voiceProfile).gates.specificity.passed).toBe(false);
+  });
+
+  it("should score and report registered gates", () => {
+    registerQualityGate({
+      id: "length",
+      weight: 1,
+      threshold: 50,
+      check: ({ post }) => ({
+        name: "Length",
+        passed: true,
+        score: post.length > 100 ? 0 : 100,
+        issues: [],
+        suggestions: [],
+      }),
+    });
+
+    const report = validatePost("Short post.", withGates({ gates: { length: { weight: 100 } } }));
+
+    expect(report.gates.length).toMatchObject({ name: "Length", score: 100, passed: true, weight: 100 });
+    expect(report.overallScore).toBeGreaterThan(95);
+  });
+
+  it("should fail a post on a required gate whatever its score", () => {
+    const report = validatePost(
+      `${POST}\n\nLet's dive deep.`,
+      withGates({ passScore: 0 })
+    );
+
+    expect(report.gates.forbiddenPhrases.passed).toBe(false);
+    expect(report.passed).toBe(false);
+  });
+
+  it("should apply workspace settings under the profile's", () => {
+    const workspaceGates: QualityGateConfig = { passScore: 70, gates: { formatting: { enabled: false } } };
+
+    expect(getPassScore({}, workspaceGates)).toBe(70);
+    expect(getPassScore({ passScore: 90 }, workspaceGates)).toBe(90);
+    expect(validatePost(POST, voiceProfile, undefined, { workspaceGates }).gates.formatting).toBeUndefined();
+    expect(
+      validatePost(POST, withGates({ gates: { formatting: { enabled: true } } }), undefined, { workspaceGates })
+        .gates.formatting
+    ).toBeDefined();
+  });
+
+  it("should keep workspace settings to the call they're passed to", () => {
+    const workspaceGates: QualityGateConfig = { passScore: 70, gates: { formatting: { enabled: false } } };
+    resolveQualityGates({}, workspaceGates);
+    validatePost(POST, voiceProfile, undefined, { workspaceGates });
+
+    expect(getPassScore()).toBe(DEFAULT_PASS_SCORE);
+    expect(resolveQualityGates().map(g => g.definition.id)).toContain("formatting");
+    expect(validatePost(POST, voiceProfile).gates.formatting).toBeDefined();
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import {
+  analyzeReadability,
+  countSyllables,
+  fleschKincaidGrade,
+  getFoldPreview,
+} from "@/lib/guardrails/readability";
+import { checkReadabilityGate, validatePost } from "@/lib/guardrails/quality-gates";
+import { voiceProfile } from "../fixtures/pipeline/inputs";
+
+const LONG_HOOK =
+  "After spending eight lakh rupees on Meta advertising campaigns over four months for our " +
+  "business-to-business invoicing software, we realized that trust transfers from the host " +
+  "and advertisements have none, which changed everything.\n\nHere is what happened next.";
+
+describe("readability measures", () => {
+  it("should count syllables by vowel groups", () => {
+    expect(["the", "table", "beautiful", "organization", "meetings"].map(countSyllables)).toEqual([1, 2, 4, 5, 2]);
+  });
+
+  it("should grade plain posts low and dense prose high", () => {
+    expect(fleschKincaidGrade(voiceProfile.topPosts[0].content)).toBeLessThan(5);
+    expect(fleschKincaidGrade(LONG_HOOK)).toBeGreaterThan(12);
+  });
+
+  it("should report the longest line and the share of blank lines", () => {
+    const report = analyzeReadability("Short.\n\nA much longer line here.\n\nEnd.");
+
+    expect(report.longestLine).toEqual({ length: 24, text: "A much longer line here." });
+    expect(report.whitespaceRatio).toBe(0.4);
+  });
+});
+
+describe("getFoldPreview", () => {
+  it("should stop after three lines at a line break", () => {
+    const post = "Lost our biggest client.\n\n40% of revenue. Gone.\n\nHere's what we did next.";
+    const fold = getFoldPreview(post, "desktop");
+
+    expect(fold.visible).toBe("Lost our biggest client.\n\n40% of revenue. Gone.");
+    expect(fold).toMatchObject({ truncated: true, cutMidSentence: false, hookCut: false });
+  });
+
+  it("should fold sooner on mobile and break between words", () => {
+    const desktop = getFoldPreview(LONG_HOOK, "desktop");
+    const mobile = getFoldPreview(LONG_HOOK, "mobile");
+
+    expect(mobile.visible.length).toBeLessThanOrEqual(140);
+    expect(desktop.visible.length).toBeGreaterThan(mobile.visible.length);
+    expect(LONG_HOOK.startsWith(`${mobile.visible} `)).toBe(true);
+    expect(mobile).toMatchObject({ truncated: true, cutMidSentence: true, hookCut: true });
+  });
+
+  it("should show short posts whole", () => {
+    expect(getFoldPreview("Shipped it.\n\nDone.", "mobile")).toMatchObject({
+      visible: "Shipped it.\n\nDone.",
+      truncated: false,
+      hookCut: false,
+    });
+  });
+});
+
+describe("readability gate", () => {
+  it("should flag a hook cut by the fold, dense prose and long lines", () => {
+    const gate = checkReadabilityGate(LONG_HOOK);
+
+    expect(gate.passed).toBe(false);
+    expect(gate.score).toBe(35);
+    expect(gate.issues).toContain('Hook is cut mid-sentence by "see more" on mobile, after "invoicing software, we realized"');
+    expect(gate.suggestions).toContain("Make the hook a complete thought in under 140 characters");
+  });
+
+  it("should pass the reference posts and sit next to the hook gate", () => {
+    const report = validatePost(voiceProfile.topPosts[0].content, voiceProfile);
+
+    expect(report.gates.readability).toMatchObject({ passed: true, score: 100 });
+    const ids = Object.keys(report.gates);
+    expect(ids.indexOf("readability")).toBe(ids.indexOf("hookStrength") + 1);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkSelfRepetition,
+  extractHook,
+  getRecentHooks,
+  hookSimilarity,
+  mergePostHistory,
+} from "@/lib/guardrails/self-repetition";
+import { getStage1Prompt, getStage4Prompt } from "@/lib/prompts/generation";
+import { GLOBAL_FORBIDDEN_PHRASES } from "@/lib/guardrails/forbidden-phrases";
+import { VOICE_MODES } from "@/data/voice-modes";
+import { HistoricalPost, PostHistoryEntry } from "@/lib/types";
+import { interview, voiceProfile } from "../fixtures/pipeline/inputs";
+
+const HISTORY: PostHistoryEntry[] = [
+  {
+    id: "post-1",
+    createdAt: "2026-03-02T10:00:00.000Z",
+    content: "Spent ₹8L on Meta ads in 4 months.\n\nGot zero meetings. Then one CFO podcast brought 12 calls in 2 weeks.",
+  },
+  {
+    id: "post-2",
+    createdAt: "2026-03-09T10:00:00.000Z",
+    content: "Hiring our first engineer took 90 days.\n\nThe offer we almost didn't send is the one that worked.",
+  },
+];
+
+describe("hookSimilarity", () => {
+  it("should compare the shape of a hook, not its numbers", () => {
+    expect(hookSimilarity("Spent ₹8L on Meta ads in 4 months.", "Spent $20K on Meta ads in 3 months.")).toBe(1);
+    expect(hookSimilarity("Spent ₹8L on Meta ads in 4 months.", "Our churn halved after one call.")).toBe(0);
+  });
+});
+
+describe("checkSelfRepetition", () => {
+  it("should flag a post that reuses an earlier hook and numbers", () => {
+    const post = "Spent ₹8L on Meta ads in 4 months.\n\nThe podcast brought 12 calls in 2 weeks, so we cut paid.";
+    const warnings = checkSelfRepetition(post, HISTORY);
+
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatchObject({ postId: "post-1", hookSimilarity: 1 });
+    expect(warnings[0].sharedNumbers).toEqual(["₹8L", "4 months", "12", "2 weeks"]);
+    expect(warnings[0].reasons[0]).toBe("Hook is 100% like the one from 2026-03-02");
+  });
+
+  it("should let a fresh post through", () => {
+    expect(checkSelfRepetition("Our churn halved after one call.\n\nWe asked why people left.", HISTORY)).toEqual([]);
+  });
+});
+
+describe("mergePostHistory", () => {
+  const IMPORTED: HistoricalPost[] = [
+    {
+      id: "imported-1",
+      voiceProfileId: voiceProfile.id,
+      importedAt: "2026-04-01T09:00:00.000Z",
+      publishedAt: "2025-11-20T08:00:00.000Z",
+      content: "We burned ₹6L on cold email in 3 months.\n\nOne warm intro closed more than all of it.",
+      platform: "linkedin",
+      source: "linkedin-export",
+    },
+    {
+      id: "imported-2",
+      voiceProfileId: voiceProfile.id,
+      importedAt: "2026-04-01T09:00:00.000Z",
+      content: "Pricing page rewrite, week one.\n\nNobody read past the first line.",
+      platform: "linkedin",
+      source: "linkedin-export",
+    },
+  ];
+
+  it("should date imported posts by when they were published, newest first", () => {
+    const history = mergePostHistory(HISTORY, IMPORTED);
+
+    expect(history.map(entry => [entry.id, entry.createdAt, entry.imported])).toEqual([
+      ["imported-2", "2026-04-01T09:00:00.000Z", true],
+      ["post-2", "2026-03-09T10:00:00.000Z", undefined],
+      ["post-1", "2026-03-02T10:00:00.000Z", undefined],
+      ["imported-1", "2025-11-20T08:00:00.000Z", true],
+    ]);
+  });
+
+  it("should warn when a post repeats one from the imported back catalogue", () => {
+    const post = "We burned ₹6L on cold email in 3 months.\n\nThen a single intro changed how we sell.";
+    const [warning] = checkSelfRepetition(post, mergePostHistory(HISTORY, IMPORTED));
+
+    expect(warning).toMatchObject({ postId: "imported-1", hookSimilarity: 1 });
+    expect(warning.reasons[0]).toBe("Hook is 100% like the one from 2025-11-20");
+  });
+});
+
+describe("getRecentHooks", () => {
+  it("should list hooks newest first without duplicates", () => {
+    const history = [...HISTORY, { id: "post-3", createdAt: "2026-01-01T00:00:00.000Z", content: HISTORY[1].content }];
+
+    expect(getRecentHooks(history)).toEqual([
+      "Hiring our first engineer took 90 days.",
+      "Spent ₹8L on Meta ads in 4 months.",
+    ]);
+    expect(getRecentHooks(history, 1)).toHaveLength(1);
+  });
+
+  it("should skip leading blank lines", () => {
+    expect(extractHook("\n\n  First line  \nSecond")).toBe("First line");
+  });
+});
+
+describe("recent hooks in prompts", () => {
+  const voiceMode = VOICE_MODES[interview.voiceModeId];
+  const hooks = getRecentHooks(HISTORY);
+
+  it("should list recent hooks in stages 1 and 4", () => {
+    for (const prompt of [
+      getStage1Prompt(interview, voiceMode, voiceProfile, GLOBAL_FORBIDDEN_PHRASES, hooks),
+      getStage4Prompt("Draft post.", hooks),
+    ]) {
+      expect(prompt).toContain("=== RECENT HOOKS (DO NOT REPEAT) ===");
+      expect(prompt).toContain("- Hiring our first engineer took 90 days.");
+    }
+  });
+
+  it("should leave the section out without history", () => {
+    expect(getStage4Prompt("Draft post.", [])).not.toContain("RECENT HOOKS");
+  });
+});
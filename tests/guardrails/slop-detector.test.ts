@@ -0,0 +1,82 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { autoFixSlop, fixSlop } from "@/lib/guardrails/slop-detector";
+import { buildForbiddenPhraseList } from "@/lib/guardrails/forbidden-phrases";
+import { createMockProvider } from "@/lib/llm/providers/mock";
+import { resetLLMConfig, setProvider } from "@/lib/llm";
+
+const POST = "We leveraged 3 tools.\n\nMoreover, it worked.\n\nIn today's world, speed wins.";
+
+describe("autoFixSlop", () => {
+  it("should fix only the flagged spans and keep the line breaks", () => {
+    const result = autoFixSlop(POST);
+
+    expect(result.fixed).toBe("We used 3 tools.\n\nAlso, it worked.\n\nSpeed wins.");
+    expect(result.remaining).toEqual([]);
+    expect(result.fixes.map(f => f.method)).toEqual(["replacement", "replacement", "removal"]);
+    expect(result.changes).toEqual([
+      'Replaced "leveraged" with "used"',
+      'Replaced "Moreover" with "Also"',
+      `Removed "in today's world"`,
+    ]);
+  });
+
+  it("should record each fix as a span of the original text", () => {
+    const { fixes } = autoFixSlop(POST);
+
+    for (const fix of fixes) {
+      expect(POST.slice(fix.start, fix.end)).toBe(fix.before);
+    }
+    expect(fixes[2]).toMatchObject({ before: "In today's world, s", after: "S" });
+  });
+
+  it("should tidy the space a removal leaves at the end of a clause", () => {
+    expect(autoFixSlop("We shipped fast in today's world.\nNext line.").fixed)
+      .toBe("We shipped fast.\nNext line.");
+  });
+
+  it("should use a profile rule's own replacement", () => {
+    const phrases = buildForbiddenPhraseList({ profile: { forbidden: ["hustle -> work"] } });
+    expect(autoFixSlop("Hustle beats talent.", phrases).fixed).toBe("Work beats talent.");
+  });
+
+  it("should leave phrases without a safe replacement for a rewrite", () => {
+    const result = autoFixSlop("Let me tell you, it was hard.");
+
+    expect(result.fixed).toBe("Let me tell you, it was hard.");
+    expect(result.remaining.map(m => m.phrase)).toEqual(["let me tell you"]);
+  });
+});
+
+describe("fixSlop", () => {
+  afterEach(() => {
+    resetLLMConfig();
+  });
+
+  const text = "Let me tell you, 40 calls taught me more than any course.\n\nWe leveraged every one.";
+
+  it("should rewrite just the sentence a replacement can't fix", async () => {
+    const responder = vi.fn(() => '{"sentence": "40 calls taught me more than any course."}');
+    setProvider(createMockProvider({ model: "mock" }, responder));
+
+    const result = await fixSlop(text);
+
+    expect(result.fixed).toBe("40 calls taught me more than any course.\n\nWe used every one.");
+    expect(result.fixes.map(f => f.method)).toEqual(["rewrite", "replacement"]);
+    expect(result.fixes[0]).toMatchObject({ start: 0, phrases: ["let me tell you"] });
+    expect(result.remaining).toEqual([]);
+
+    expect(responder).toHaveBeenCalledTimes(1);
+    expect(responder.mock.calls[0]).toEqual([expect.stringContaining("- Let me tell you")]);
+  });
+
+  it("should keep the sentence when the rewrite drops a number or adds slop", async () => {
+    for (const sentence of ["Calls taught me more than any course.", "Moreover, 40 calls taught me a lot."]) {
+      setProvider(createMockProvider({ model: "mock" }, () => JSON.stringify({ sentence })));
+
+      const result = await fixSlop(text);
+
+      expect(result.fixed).toBe("Let me tell you, 40 calls taught me more than any course.\n\nWe used every one.");
+      expect(result.remaining.map(m => m.phrase)).toEqual(["let me tell you"]);
+    }
+  });
+});
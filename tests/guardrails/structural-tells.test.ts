@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { detectStructuralTells } from "@/lib/guardrails/structural-tells";
+import { checkStructuralTellsGate, validatePost } from "@/lib/guardrails/quality-gates";
+import { getStage3Prompt } from "@/lib/prompts/generation";
+import { GLOBAL_FORBIDDEN_PHRASES } from "@/lib/guardrails/forbidden-phrases";
+import { voiceProfile } from "../fixtures/pipeline/inputs";
+
+const SLOPPY = [
+  "It's not about the money. It's about the freedom.",
+  "Here's why:\nWe tried ads. We tried SEO. We tried cold email.",
+  "What changed? Why now?",
+  "Speed, focus, and grit. Ship, learn, and repeat.",
+].join("\n\n");
+
+const found = (text: string) =>
+  Object.fromEntries(detectStructuralTells(text).map(t => [t.kind, t.locations.map(l => l.text)]));
+
+describe("detectStructuralTells", () => {
+  it("should find each pattern with its text", () => {
+    expect(found(SLOPPY)).toEqual({
+      antithesis: ["It's not about the money. It's about the freedom."],
+      ruleOfThree: ["Speed, focus, and grit", "Ship, learn, and repeat"],
+      colonSetup: ["Here's why:"],
+      repeatedOpeners: ["We tried ads. We tried SEO. We tried cold email."],
+      rhetoricalQuestions: ["What changed? Why now?"],
+    });
+  });
+
+  it("should report locations as spans of the text", () => {
+    for (const tell of detectStructuralTells(SLOPPY)) {
+      expect(tell.count).toBe(tell.locations.length);
+      for (const location of tell.locations) {
+        expect(SLOPPY.slice(location.start, location.end)).toBe(location.text);
+      }
+    }
+  });
+
+  it("should flag punchline endings only when most paragraphs end that way", () => {
+    const punchy = "Lost the client in March.\nGone.\n\nRebuilt the pipeline in April.\nBrutal.\n\nSigned two more in May.\nWorth it.";
+    expect(found(punchy).punchlineEndings).toEqual(["Gone.", "Brutal.", "Worth it."]);
+
+    const mixed = "Lost the client in March.\nGone.\n\nRebuilt the pipeline in April and it took every weekend.\n\nSigned two more in May.";
+    expect(found(mixed).punchlineEndings).toBeUndefined();
+  });
+
+  it("should let single uses of a pattern through", () => {
+    expect(found("We cut costs, hired slowly, and grew 3x.\n\nWhy? Cash.")).toEqual({});
+  });
+
+  it("should find nothing in the reference posts", () => {
+    for (const post of voiceProfile.topPosts) {
+      expect(detectStructuralTells(post.content)).toEqual([]);
+    }
+  });
+});
+
+describe("structural tells gate", () => {
+  it("should deduct per occurrence and explain each tell", () => {
+    const gate = checkStructuralTellsGate(SLOPPY);
+
+    // 6 occurrences
+    expect(gate.score).toBe(10);
+    expect(gate.passed).toBe(false);
+    expect(gate.issues[0]).toBe(
+      `"It's not X. It's Y." antithesis (1x), e.g. "It's not about the money. It's about the freedom."`
+    );
+    expect(gate.suggestions).toHaveLength(5);
+  });
+
+  it("should be part of every quality report", () => {
+    expect(validatePost(voiceProfile.topPosts[0].content, voiceProfile).gates.structuralTells).toMatchObject({
+      passed: true,
+      score: 100,
+    });
+  });
+});
+
+describe("stage 3 prompt", () => {
+  it("should quote the tells found in the draft", () => {
+    const prompt = getStage3Prompt(SLOPPY, GLOBAL_FORBIDDEN_PHRASES, detectStructuralTells(SLOPPY));
+
+    expect(prompt).toContain("=== STRUCTURAL AI TELLS FOUND ===");
+    expect(prompt).toContain(`- "Here's why:" setups: "Here's why:"`);
+  });
+
+  it("should leave the section out for a clean draft", () => {
+    expect(getStage3Prompt("Clean draft.", GLOBAL_FORBIDDEN_PHRASES, [])).not.toContain("STRUCTURAL");
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { loadLLMConfigFromEnv, resolveLLMConfig, isConfigComplete, getModelPricing } from "@/lib/llm/config";
+import { createMockProvider, hashPrompt } from "@/lib/llm/providers/mock";
+import { createOpenAICompatibleProvider } from "@/lib/llm/providers/openai-compatible";
+import {
+  generate,
+  generateMultiple,
+  generateWithRetry,
+  setProvider,
+  resetLLMConfig,
+  getUsageMetrics,
+  resetUsageMetrics,
+  LLMProvider,
+} from "@/lib/llm";
+
+describe("loadLLMConfigFromEnv", () => {
+  it("should default to gemini with the flash model", () => {
+    const config = loadLLMConfigFromEnv({ GEMINI_API_KEY: "key" });
+    expect(config.provider).toBe("gemini");
+    expect(config.model).toBe("gemini-2.5-flash");
+    expect(config.apiKey).toBe("key");
+  });
+
+  it("should pick provider-specific key and model override", () => {
+    const config = loadLLMConfigFromEnv({
+      LLM_PROVIDER: "anthropic",
+      LLM_MODEL: "claude-haiku-4-5",
+      ANTHROPIC_API_KEY: "sk-ant",
+    });
+    expect(config.provider).toBe("anthropic");
+    expect(config.model).toBe("claude-haiku-4-5");
+    expect(config.apiKey).toBe("sk-ant");
+  });
+
+  it("should treat a local OpenAI-compatible server as configured without a key", () => {
+    const config = loadLLMConfigFromEnv({
+      LLM_PROVIDER: "openai",
+      LLM_BASE_URL: "http://localhost:11434/v1",
+    });
+    expect(isConfigComplete(config)).toBe(true);
+  });
+
+  it("should require a key for hosted OpenAI", () => {
+    const config = loadLLMConfigFromEnv({ LLM_PROVIDER: "openai" });
+    expect(isConfigComplete(config)).toBe(false);
+  });
+
+  it("should build a per-workspace config with that provider's key and model", () => {
+    const env = { LLM_PROVIDER: "gemini", LLM_MODEL: "gemini-2.5-pro", ANTHROPIC_API_KEY: "sk-ant" };
+
+    expect(resolveLLMConfig({ provider: "anthropic" }, env)).toMatchObject({
+      provider: "anthropic",
+      model: "claude-sonnet-4-5",
+      apiKey: "sk-ant",
+    });
+    expect(resolveLLMConfig({ provider: "anthropic", model: "claude-haiku-4-5" }, env).model).toBe("claude-haiku-4-5");
+    expect(resolveLLMConfig({ provider: "gemini" }, env).model).toBe("gemini-2.5-pro");
+  });
+
+  it("should honour pricing overrides", () => {
+    const config = loadLLMConfigFromEnv({ LLM_PROVIDER: "mock" });
+    expect(getModelPricing(config, {})).toEqual({ prompt: 0, completion: 0 });
+    expect(
+      getModelPricing(config, { LLM_COST_PROMPT_PER_1K: "0.5" }).prompt
+    ).toBe(0.5);
+  });
+});
+
+describe("mock provider", () => {
+  it("should be deterministic", async () => {
+    const provider = createMockProvider({ model: "mock" });
+    const a = await provider.generate({ prompt: "hello" });
+    const b = await provider.generate({ prompt: "hello" });
+    expect(a.text).toBe(b.text);
+    expect(a.text).toContain(hashPrompt("hello"));
+  });
+});
+
+describe("generation facade", () => {
+  beforeEach(() => {
+    resetUsageMetrics();
+  });
+
+  afterEach(() => {
+    resetLLMConfig();
+    vi.unstubAllEnvs();
+  });
+
+  it("should route through the active provider and track usage", async () => {
+    setProvider(createMockProvider({ model: "mock" }, () => "VERSION 1: one\nVERSION 2: two"));
+
+    const versions = await generateMultiple("write", 2);
+
+    expect(versions).toEqual(["one", "two"]);
+    expect(getUsageMetrics().requestCount).toBe(1);
+    expect(getUsageMetrics().totalTokens).toBeGreaterThan(0);
+  });
+
+  it("should surface safety blocks and not retry them", async () => {
+    const blocked: LLMProvider = {
+      id: "mock",
+      model: "mock",
+      generate: vi.fn(async () => ({ text: "", blockReason: "SAFETY" })),
+      generateStream: async () => ({ text: "", blockReason: "SAFETY" }),
+    };
+    setProvider(blocked);
+
+    await expect(generateWithRetry("x", 3, 1)).rejects.toThrow("Content blocked by safety filter: SAFETY");
+    expect(blocked.generate).toHaveBeenCalledTimes(1);
+  });
+
+  it("should run a call on the provider it selects, leaving the active one alone", async () => {
+    setProvider(createMockProvider({ model: "mock" }, () => "active"));
+
+    expect(await generate("hello", undefined, undefined, { provider: "mock" })).toContain(hashPrompt("hello"));
+    expect(await generate("hello")).toBe("active");
+  });
+
+  it("should fail a call whose selected provider has no key", async () => {
+    vi.stubEnv("ANTHROPIC_API_KEY", "");
+    setProvider(createMockProvider({ model: "mock" }, () => "active"));
+
+    await expect(generate("x", undefined, undefined, { provider: "anthropic" })).rejects.toThrow(
+      "ANTHROPIC_API_KEY is not configured"
+    );
+  });
+
+  it("should reject empty responses", async () => {
+    setProvider(createMockProvider({ model: "mock" }, () => "   "));
+    await expect(generate("x")).rejects.toThrow("Empty response from AI model");
+  });
+});
+
+describe("OpenAI-compatible provider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should call chat completions and map usage", async () => {
+    const fetchMock = vi.fn(async () =>
+      new Response(
+        JSON.stringify({
+          choices: [{ message: { content: "hi" }, finish_reason: "stop" }],
+          usage: { prompt_tokens: 3, completion_tokens: 1 },
+        }),
+        { status: 200 }
+      )
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const provider = createOpenAICompatibleProvider({
+      provider: "openai",
+      model: "llama3",
+      temperature: 0.7,
+      maxOutputTokens: 100,
+      baseUrl: "http://localhost:11434/v1/",
+    });
+    const result = await provider.generate({ prompt: "hello" });
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "http://localhost:11434/v1/chat/completions",
+      expect.objectContaining({ method: "POST" })
+    );
+    expect(result).toEqual({
+      text: "hi",
+      blockReason: undefined,
+      usage: { promptTokens: 3, completionTokens: 1 },
+    });
+  });
+
+  it("should report content filter as a block", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () =>
+      new Response(JSON.stringify({ choices: [{ message: { content: null }, finish_reason: "content_filter" }] }))
+    ));
+
+    const provider = createOpenAICompatibleProvider({
+      provider: "openai",
+      model: "gpt-4o-mini",
+      temperature: 0.7,
+      maxOutputTokens: 100,
+      apiKey: "k",
+      baseUrl: "https://api.openai.com/v1",
+    });
+
+    expect((await provider.generate({ prompt: "x" })).blockReason).toBe("CONTENT_FILTER");
+  });
+});
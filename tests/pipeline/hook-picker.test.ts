@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyHookChoice,
+  getOpening,
+  scoreHookOptions,
+  swapHook,
+} from "@/lib/pipeline/hook-picker";
+import { checkVoiceMatchGate } from "@/lib/guardrails/quality-gates";
+import { GeneratedPost } from "@/lib/types";
+import happyPath from "./__golden__/happy-path.json";
+
+const post = happyPath as unknown as GeneratedPost;
+
+describe("swapHook", () => {
+  it("should replace the first paragraph and keep the rest", () => {
+    const content = "Old hook.\nSecond hook line.\n\nBody one.\n\nBody two.";
+
+    expect(getOpening(content)).toBe("Old hook.\nSecond hook line.");
+    expect(swapHook(content, "  New hook.  ")).toBe("New hook.\n\nBody one.\n\nBody two.");
+  });
+
+  it("should replace only the first line when there are no paragraph breaks", () => {
+    expect(swapHook("Old hook.\nBody.", "New hook.")).toBe("New hook.\nBody.");
+  });
+});
+
+describe("scoreHookOptions", () => {
+  it("should score every option in stage 4 order", () => {
+    const scored = scoreHookOptions(post.pipeline.hookOptions);
+
+    expect(scored.map(s => s.hook)).toEqual(post.pipeline.hookOptions);
+    // Number + currency + action verb + short
+    expect(scored[0].gate.score).toBe(85);
+    expect(scored[2].gate.passed).toBe(true);
+  });
+});
+
+describe("applyHookChoice", () => {
+  it("should re-stitch the post, re-run the gates and record a revision", () => {
+    const hook = post.pipeline.hookOptions[4];
+    const updates = applyHookChoice(post, hook);
+
+    expect(updates.outputs?.linkedin.post.startsWith(`${hook}\n\nOne podcast.`)).toBe(true);
+    expect(updates.outputs?.linkedin.characterCount).toBe(updates.outputs?.linkedin.post.length);
+    expect(updates.pipeline?.selectedHook).toBe(hook);
+    expect(updates.pipeline?.hookOptimizedVersion.startsWith(hook)).toBe(true);
+    expect(updates.pipeline?.finalVersion).toBe(updates.outputs?.linkedin.post);
+    // Voice similarity is re-measured on the new text
+    expect(updates.quality?.similarityScore).toBe(
+      checkVoiceMatchGate(updates.outputs!.linkedin.post, post.voiceProfile).score
+    );
+    expect(updates.status).toBe(updates.quality?.passedGates ? "passed" : "failed");
+    expect(updates.revisions?.map(r => r.source)).toEqual(["generated", "hook-swap"]);
+  });
+
+  it("should keep the workflow status of exported posts", () => {
+    const updates = applyHookChoice({ ...post, status: "exported" }, "My own hook.");
+
+    expect(updates.status).toBeUndefined();
+    expect(updates.outputs?.linkedin.post.startsWith("My own hook.\n\n")).toBe(true);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("@/lib/utils/request-queue", () => ({
+  enqueue: <T>(fn: () => Promise<T>) => fn(),
+  isQueueHealthy: () => true,
+  getQueueStats: () => ({ pending: 0, size: 0, isPaused: false, concurrency: 1 }),
+}));
+
+vi.mock("@/lib/supabase/generation-jobs", () => ({
+  saveGenerationCheckpoint: vi.fn(),
+  updateGenerationJobStatus: vi.fn(),
+}));
+
+import { setProvider, resetLLMConfig } from "@/lib/llm";
+import { createRecordedProvider } from "@/lib/llm/providers/recorded";
+import {
+  getResumeBlocker,
+  prepareJobForResume,
+  runGenerationJob,
+  STALE_JOB_MS,
+} from "@/lib/pipeline/jobs";
+import {
+  saveGenerationCheckpoint,
+  updateGenerationJobStatus,
+} from "@/lib/supabase/generation-jobs";
+import { GenerationJob } from "@/lib/types";
+import { interview, voiceProfile } from "../fixtures/pipeline/inputs";
+import { loadPipelineFixture } from "../fixtures/pipeline/load";
+
+const NOW = Date.parse("2026-01-01T12:00:00.000Z");
+
+function makeJob(overrides: Partial<GenerationJob> = {}): GenerationJob {
+  return {
+    id: "job-1",
+    createdAt: new Date(NOW - 60_000).toISOString(),
+    updatedAt: new Date(NOW - 10_000).toISOString(),
+    interviewData: interview,
+    voiceProfileId: voiceProfile.id,
+    voiceProfile,
+    status: "failed",
+    checkpoints: {},
+    parseFailures: [],
+    attempt: 1,
+    retryFromStage: "initial",
+    ...overrides,
+  };
+}
+
+vi.spyOn(console, "error").mockImplementation(() => {});
+
+beforeEach(() => {
+  vi.mocked(saveGenerationCheckpoint).mockResolvedValue({ active: true, error: null });
+  vi.mocked(updateGenerationJobStatus).mockResolvedValue({ success: true, error: null });
+  setProvider(createRecordedProvider({ recordings: loadPipelineFixture("happy-path") }));
+});
+
+afterEach(() => {
+  vi.clearAllMocks();
+  resetLLMConfig();
+});
+
+describe("getResumeBlocker", () => {
+  it("should allow failed and cancelled jobs", () => {
+    expect(getResumeBlocker(makeJob({ status: "failed" }), NOW)).toBeNull();
+    expect(getResumeBlocker(makeJob({ status: "cancelled" }), NOW)).toBeNull();
+  });
+
+  it("should block completed and live running jobs", () => {
+    expect(getResumeBlocker(makeJob({ status: "completed" }), NOW)).toBe("Job already completed");
+    expect(getResumeBlocker(makeJob({ status: "running" }), NOW)).toBe("Job is still running");
+  });
+
+  it("should allow running jobs that went stale", () => {
+    const stale = makeJob({
+      status: "running",
+      updatedAt: new Date(NOW - STALE_JOB_MS - 1).toISOString(),
+    });
+    expect(getResumeBlocker(stale, NOW)).toBeNull();
+  });
+});
+
+describe("prepareJobForResume", () => {
+  it("should discard checkpoints from the requested stage", () => {
+    const job = makeJob({
+      error: "Content generation timeout after 30000ms",
+      checkpoints: {
+        initial: { versions: ["a"] },
+        selected: { selectedVersion: "a", reasoning: "r", versionScores: [] },
+      },
+    });
+
+    const prepared = prepareJobForResume(job, "selected");
+
+    expect(prepared.status).toBe("running");
+    expect(prepared.error).toBeUndefined();
+    expect(prepared.checkpoints).toEqual({ initial: { versions: ["a"] } });
+  });
+});
+
+describe("runGenerationJob", () => {
+  it("should persist every stage and store the finished post", async () => {
+    const post = await runGenerationJob(makeJob({ status: "running" }), "user-1");
+
+    expect(saveGenerationCheckpoint).toHaveBeenCalledTimes(6);
+    expect(vi.mocked(saveGenerationCheckpoint).mock.calls.at(-1)?.[2].lastCompletedStage).toBe("final");
+    expect(updateGenerationJobStatus).toHaveBeenCalledWith("user-1", "job-1", "completed", {
+      resultPost: post,
+      error: null,
+    });
+  });
+
+  it("should mark the job cancelled when it stops running elsewhere", async () => {
+    vi.mocked(saveGenerationCheckpoint).mockResolvedValue({ active: false, error: null });
+
+    await expect(runGenerationJob(makeJob({ status: "running" }), "user-1")).rejects.toThrow(
+      "Generation cancelled"
+    );
+    expect(saveGenerationCheckpoint).toHaveBeenCalledTimes(1);
+    expect(updateGenerationJobStatus).toHaveBeenCalledWith("user-1", "job-1", "cancelled", {
+      error: "Generation cancelled",
+    });
+  });
+
+  it("should mark the job failed when a stage throws", async () => {
+    setProvider(createRecordedProvider({ recordings: {} }));
+
+    await expect(runGenerationJob(makeJob({ status: "running" }), "user-1")).rejects.toThrow(
+      /No recorded response/
+    );
+    expect(updateGenerationJobStatus).toHaveBeenCalledWith(
+      "user-1",
+      "job-1",
+      "failed",
+      expect.objectContaining({ error: expect.stringContaining("No recorded response") })
+    );
+  });
+});
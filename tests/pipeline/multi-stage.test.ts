@@ -0,0 +1,346 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+// Replay is instant - skip the 1 req/s pacing of the real queue
+vi.mock("@/lib/utils/request-queue", () => ({
+  enqueue: <T>(fn: () => Promise<T>) => fn(),
+  isQueueHealthy: () => true,
+  getQueueStats: () => ({ pending: 0, size: 0, isPaused: false, concurrency: 1 }),
+}));
+
+import { setProvider, resetLLMConfig } from "@/lib/llm";
+import { createRecordedProvider, RecordedProvider } from "@/lib/llm/providers/recorded";
+import { createMockProvider } from "@/lib/llm/providers/mock";
+import {
+  generatePost,
+  regenerateFromStage,
+  continueFromVersion,
+  checkpointsFromPipeline,
+  clearCheckpointsFrom,
+  getLastCompletedStage,
+  CheckpointState,
+  GenerationOptions,
+  PipelineProgress,
+} from "@/lib/pipeline/multi-stage";
+import { GeneratedPost, PipelineCheckpoints } from "@/lib/types";
+import { interview, voiceProfile } from "../fixtures/pipeline/inputs";
+import { labelStage, loadPipelineFixture, readPipelineFixture } from "../fixtures/pipeline/load";
+
+/**
+ * Run the full pipeline against a recorded fixture
+ */
+async function runFixture(name: string, options?: GenerationOptions): Promise<{
+  post: GeneratedPost;
+  progress: PipelineProgress[];
+  provider: RecordedProvider;
+}> {
+  const provider = createRecordedProvider({ recordings: loadPipelineFixture(name) });
+  setProvider(provider);
+
+  const progress: PipelineProgress[] = [];
+  const post = await generatePost(interview, voiceProfile, (p) => progress.push(p), options);
+
+  return { post, progress, provider };
+}
+
+/**
+ * Strip non-deterministic fields before comparing against the golden file
+ */
+function toGolden(post: GeneratedPost): string {
+  return JSON.stringify(
+    {
+      ...post,
+      id: "<id>",
+      createdAt: "<timestamp>",
+      updatedAt: "<timestamp>",
+      quality: { ...post.quality, report: post.quality.report && { ...post.quality.report, timestamp: "<timestamp>" } },
+    },
+    null,
+    2
+  ) + "\n";
+}
+
+/**
+ * How many times each stage prompt was sent
+ */
+function stageCalls(provider: RecordedProvider): Record<string, number> {
+  const prompts = provider.getPrompts();
+  const calls: Record<string, number> = {};
+  for (const [hash, responses] of Object.entries(provider.getRecordings())) {
+    const label = labelStage(prompts[hash]);
+    calls[label] = (calls[label] || 0) + responses.length;
+  }
+  return calls;
+}
+
+vi.spyOn(console, "error").mockImplementation(() => {});
+
+afterEach(() => {
+  resetLLMConfig();
+});
+
+describe("generatePost (recorded fixtures)", () => {
+  it("should run all 6 stages on the happy path", async () => {
+    const { post, progress, provider } = await runFixture("happy-path");
+
+    expect(provider.getMisses()).toEqual([]);
+    expect(post.status).toBe("passed");
+    expect(post.quality.score).toBe(95);
+    expect(post.quality.selfScore).toBe(92);
+    expect(post.quality.report?.overallScore).toBe(95);
+    expect(post.quality.passedGates).toBe(true);
+    expect(post.pipeline.initialVersions).toHaveLength(5);
+    expect(post.pipeline.hookOptions).toHaveLength(10);
+    expect(post.pipeline.refinementChanges).toHaveLength(3);
+    expect(post.pipeline.versionScores?.map(v => v.total)).toEqual([84, 91, 80, 72, 83]);
+    expect(post.pipeline.selectedVersion).toBe(post.pipeline.initialVersions[1]);
+    expect(post.pipeline.parseFailures).toEqual([]);
+    expect(post.outputs.linkedin.post).toBe(post.pipeline.finalVersion);
+    expect(progress.at(-1)?.stage).toBe("complete");
+    expect(progress.some(p => p.stage === "retry")).toBe(false);
+
+    await expect(toGolden(post)).toMatchFileSnapshot("./__golden__/happy-path.json");
+  });
+
+  it("should retry when the quality gates fail", async () => {
+    const { post, progress, provider } = await runFixture("quality-retry");
+
+    expect(provider.getMisses()).toEqual([]);
+    const retries = progress.filter(p => p.stage === "retry");
+    expect(retries).toHaveLength(1);
+    expect(retries[0].message).toContain("91/100");
+    expect(retries[0].attempt).toBe(2);
+    expect(progress.find(p => p.stage === "quality" && p.artifact)?.message).toBe("Quality score: 91/100 (model said 72)");
+    expect(post.status).toBe("passed");
+    expect(post.quality.score).toBe(95);
+    expect(post.quality.selfScore).toBe(90);
+
+    await expect(toGolden(post)).toMatchFileSnapshot("./__golden__/quality-retry.json");
+  });
+
+  it("should repair or retry stage replies that fail schema validation", async () => {
+    const { post, provider } = await runFixture("repair");
+
+    expect(provider.getMisses()).toEqual([]);
+    expect(post.status).toBe("passed");
+    // Fenced JSON is accepted without a repair
+    expect(post.pipeline.selectedVersion).toBe(post.pipeline.initialVersions[1]);
+    expect(post.pipeline.refinementChanges).toHaveLength(3);
+    expect(post.pipeline.hookOptions).toHaveLength(10);
+    expect(post.pipeline.injectedElements).toHaveLength(2);
+    expect(post.pipeline.parseFailures?.map(f => [f.stage, f.attempt])).toEqual([
+      ["refined", 1],
+      ["hook-optimized", 1],
+      ["personality", 1],
+      ["personality", 2],
+    ]);
+    expect(post.pipeline.parseFailures?.[0].error).toContain("changes");
+    expect(post.pipeline.parseFailures?.[1].error).toContain("hooks");
+
+    await expect(toGolden(post)).toMatchFileSnapshot("./__golden__/repair.json");
+  });
+
+  it("should throw instead of continuing when a stage never validates", async () => {
+    const provider = createRecordedProvider({ recordings: loadPipelineFixture("invalid-output") });
+    setProvider(provider);
+
+    await expect(generatePost(interview, voiceProfile)).rejects.toThrow(
+      /Stage "refined" returned invalid output after 3 attempts/
+    );
+    expect(provider.getMisses()).toEqual([]);
+  });
+
+  it("should fail after retries when a forbidden phrase survives, whatever the model's score", async () => {
+    const { post, progress, provider } = await runFixture("forbidden-phrase");
+
+    expect(provider.getMisses()).toEqual([]);
+    expect(progress.filter(p => p.stage === "retry")).toHaveLength(2);
+    expect(post.quality.score).toBe(91);
+    expect(post.quality.selfScore).toBe(95);
+    expect(post.quality.report?.gates.forbiddenPhrases.passed).toBe(false);
+    expect(post.quality.slopDetected).toContain("leverage");
+    expect(post.quality.passedGates).toBe(false);
+    expect(post.status).toBe("failed");
+    expect(post.failureReason).toBe("Failed quality gates: Forbidden Phrases");
+
+    await expect(toGolden(post)).toMatchFileSnapshot("./__golden__/forbidden-phrase.json");
+  });
+
+  it("should fail loudly when a prompt has no recording", async () => {
+    setProvider(createRecordedProvider({ recordings: {} }));
+
+    await expect(generatePost(interview, voiceProfile)).rejects.toThrow(/No recorded response for prompt [0-9a-f]{8}/);
+  });
+});
+
+describe("generatePost checkpoints", () => {
+  it("should checkpoint after every stage", async () => {
+    const states: CheckpointState[] = [];
+    await runFixture("happy-path", {
+      onCheckpoint: (state) => {
+        states.push(structuredClone(state));
+      },
+    });
+
+    expect(states.map(s => getLastCompletedStage(s.checkpoints))).toEqual([
+      "initial",
+      "selected",
+      "refined",
+      "hook-optimized",
+      "personality",
+      "final",
+    ]);
+    expect(states.at(-1)?.checkpoints.final?.score).toBe(92);
+  });
+
+  it("should resume from the last checkpoint without re-running earlier stages", async () => {
+    const states: CheckpointState[] = [];
+    const { post: original } = await runFixture("happy-path", {
+      onCheckpoint: (state) => {
+        states.push(structuredClone(state));
+      },
+    });
+    // Simulate a timeout during stage 5
+    const afterHooks = states[3].checkpoints;
+
+    const { post, progress, provider } = await runFixture("happy-path", { checkpoints: afterHooks });
+
+    expect(stageCalls(provider)).toEqual({
+      "stage5-personality": 1,
+      "stage6-quality": 1,
+      "quality-voice-match": 1,
+    });
+    expect(progress.find(p => p.stage === "hooks")?.message).toContain("restored from checkpoint");
+    expect(post.pipeline).toEqual(original.pipeline);
+  });
+
+  it("should ignore checkpoints after a gap", async () => {
+    const checkpoints: PipelineCheckpoints = {
+      initial: { versions: ["a"] },
+      refined: { refinedVersion: "b", changes: [] },
+    };
+
+    expect(getLastCompletedStage(checkpoints)).toBe("initial");
+    expect(clearCheckpointsFrom(checkpoints, "final")).toEqual({ initial: { versions: ["a"] } });
+    expect(clearCheckpointsFrom(checkpoints, "initial")).toEqual({});
+  });
+
+  it("should restart quality retries from the chosen stage", async () => {
+    const { post, progress, provider } = await runFixture("quality-retry", {
+      retryFromStage: "personality",
+    });
+
+    expect(post.quality.score).toBe(95);
+    expect(progress.filter(p => p.stage === "retry")).toHaveLength(1);
+    expect(stageCalls(provider)).toEqual({
+      "stage1-versions": 1,
+      "stage2-select": 1,
+      "stage3-refine": 1,
+      "stage4-hooks": 1,
+      "stage5-personality": 2,
+      "stage6-quality": 2,
+      "quality-voice-match": 2,
+    });
+  });
+
+  it("should stop between stages when cancelled", async () => {
+    const controller = new AbortController();
+    const provider = createRecordedProvider({ recordings: loadPipelineFixture("happy-path") });
+    setProvider(provider);
+
+    await expect(
+      generatePost(interview, voiceProfile, undefined, {
+        signal: controller.signal,
+        onCheckpoint: ({ checkpoints }) => {
+          if (checkpoints.refined) controller.abort();
+        },
+      })
+    ).rejects.toThrow("Generation cancelled");
+    expect(stageCalls(provider)["stage4-hooks"]).toBeUndefined();
+  });
+});
+
+describe("regenerateFromStage", () => {
+  it("should rebuild every stage but the final one from a stored pipeline", async () => {
+    const { post } = await runFixture("happy-path");
+    const checkpoints = checkpointsFromPipeline(post.pipeline);
+
+    expect(getLastCompletedStage(checkpoints)).toBe("personality");
+    expect(checkpoints.selected?.versionScores).toEqual(post.pipeline.versionScores);
+  });
+
+  it("should only re-run the requested stage and the ones after it", async () => {
+    const { post: original } = await runFixture("happy-path");
+    const provider = createRecordedProvider({ recordings: loadPipelineFixture("happy-path") });
+    setProvider(provider);
+
+    const progress: PipelineProgress[] = [];
+    const post = await regenerateFromStage(original, "personality", (p) => progress.push(p));
+
+    expect(provider.getMisses()).toEqual([]);
+    expect(stageCalls(provider)).toEqual({
+      "stage5-personality": 1,
+      "stage6-quality": 1,
+      "quality-voice-match": 1,
+    });
+    expect(progress.find(p => p.stage === "hooks")?.message).toContain("restored from checkpoint");
+    expect(post.pipeline.hookOptimizedVersion).toBe(original.pipeline.hookOptimizedVersion);
+    expect(post.outputs).toEqual(original.outputs);
+  });
+});
+
+describe("continueFromVersion", () => {
+  /**
+   * Replay the happy path, answering the (unrecorded) stage 3 prompt for
+   * another draft with the recorded stage 3 reply
+   */
+  function useHappyPathWithAnyDraft(): RecordedProvider {
+    const fixture = readPipelineFixture("happy-path");
+    const stage3Reply = Object.values(fixture.recordings)
+      .find(r => r.stage === "stage3-refine")!.responses[0];
+    const provider = createRecordedProvider({
+      recordings: loadPipelineFixture("happy-path"),
+      passthrough: createMockProvider({ model: "mock" }, (prompt) =>
+        labelStage(prompt) === "stage3-refine" ? stage3Reply : ""
+      ),
+    });
+    setProvider(provider);
+    return provider;
+  }
+
+  it("should run stages 3-6 on the chosen draft and record the override", async () => {
+    const { post: original } = await runFixture("happy-path");
+    const provider = useHappyPathWithAnyDraft();
+
+    const post = await continueFromVersion(original, 3);
+
+    expect(stageCalls(provider)).toEqual({
+      "stage3-refine": 1,
+      "stage4-hooks": 1,
+      "stage5-personality": 1,
+      "stage6-quality": 1,
+      "quality-voice-match": 1,
+    });
+    expect(provider.getPrompts()[provider.getMisses()[0]]).toContain(original.pipeline.initialVersions[2]);
+    expect(post.pipeline.selectedVersion).toBe(original.pipeline.initialVersions[2]);
+    expect(post.pipeline.selectionReasoning).toBe(original.pipeline.selectionReasoning);
+    // Stage 2 picked version 2 in this fixture
+    expect(post.pipeline.selectionOverride).toMatchObject({ version: 3, modelVersion: 2 });
+  });
+
+  it("should clear the override when switching back to the model's pick", async () => {
+    const { post: original } = await runFixture("happy-path");
+    useHappyPathWithAnyDraft();
+
+    const overridden = await continueFromVersion(original, 3);
+    const restored = await continueFromVersion(overridden, 2);
+
+    expect(restored.pipeline.selectionOverride).toBeUndefined();
+    expect(restored.pipeline.selectedVersion).toBe(original.pipeline.selectedVersion);
+  });
+
+  it("should reject versions that don't exist", async () => {
+    const { post: original } = await runFixture("happy-path");
+
+    await expect(continueFromVersion(original, 6)).rejects.toThrow("Version 6 does not exist");
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+vi.mock("@/lib/utils/request-queue", () => ({
+  enqueue: <T>(fn: () => Promise<T>) => fn(),
+  isQueueHealthy: () => true,
+  getQueueStats: () => ({ pending: 0, size: 0, isPaused: false, concurrency: 1 }),
+}));
+
+import { setProvider, resetLLMConfig } from "@/lib/llm";
+import { createMockProvider } from "@/lib/llm/providers/mock";
+import { reviseWithInstruction } from "@/lib/pipeline/revision-chat";
+import { voiceProfile } from "../fixtures/pipeline/inputs";
+
+const content = "We cut onboarding from 14 days to 3.\n\nHere's what changed.\n\nWhat would you cut first?";
+
+afterEach(() => {
+  resetLLMConfig();
+});
+
+describe("reviseWithInstruction", () => {
+  it("should send the instruction, earlier instructions and voice rules", async () => {
+    const prompts: string[] = [];
+    setProvider(createMockProvider({ model: "test" }, (prompt) => {
+      prompts.push(prompt);
+      return JSON.stringify({ revisedPost: "We cut onboarding from 14 days to 3.", summary: "Trimmed to the hook" });
+    }));
+
+    const reply = await reviseWithInstruction(content, "make it shorter", voiceProfile, ["less salesy"]);
+
+    expect(reply.revisedPost).toBe("We cut onboarding from 14 days to 3.");
+    expect(reply.summary).toBe("Trimmed to the hook");
+    expect(reply.report.overallScore).toBeGreaterThan(0);
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0]).toContain("make it shorter");
+    expect(prompts[0]).toContain("less salesy");
+    expect(prompts[0]).toContain(content);
+  });
+
+  it("should retry replies that do not match the schema", async () => {
+    const replies = [
+      JSON.stringify({ revisedPost: "Shorter." }),
+      JSON.stringify({ revisedPost: "Shorter.", summary: "Cut it down" }),
+    ];
+    let calls = 0;
+    setProvider(createMockProvider({ model: "test" }, () => replies[Math.min(calls++, 1)]));
+
+    const reply = await reviseWithInstruction(content, "make it shorter", voiceProfile);
+
+    expect(reply.summary).toBe("Cut it down");
+    expect(calls).toBe(2);
+  });
+});
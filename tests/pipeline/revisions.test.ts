@@ -0,0 +1,159 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyChatRevision,
+  applyManualEdit,
+  applyRegeneration,
+  getChatInstructions,
+  restoreRevision,
+} from "@/lib/pipeline/revisions";
+import { validatePost } from "@/lib/guardrails/quality-gates";
+import { GeneratedPost } from "@/lib/types";
+import { interview, voiceProfile } from "../fixtures/pipeline/inputs";
+
+function makePost(content: string, score: number): GeneratedPost {
+  return {
+    id: "post-1",
+    createdAt: "2025-01-01T00:00:00.000Z",
+    updatedAt: "2025-01-01T00:00:00.000Z",
+    interviewData: interview,
+    voiceProfileId: voiceProfile.id,
+    voiceProfile,
+    pipeline: {
+      initialVersions: [content],
+      selectedVersion: content,
+      selectionReasoning: "Only version",
+      refinedVersion: content,
+      refinementChanges: [],
+      hookOptions: [],
+      selectedHook: "",
+      hookOptimizedVersion: content,
+      personalityVersion: content,
+      injectedElements: [],
+      finalVersion: content,
+    },
+    quality: {
+      score,
+      similarityScore: 90,
+      specificityCount: 0,
+      slopDetected: [],
+      passedGates: score >= 85,
+    },
+    outputs: {
+      linkedin: { post: content, characterCount: content.length, hashtagCount: 0 },
+      twitter: { thread: [content], characterCounts: [content.length] },
+    },
+    status: score >= 85 ? "passed" : "failed",
+  };
+}
+
+describe("applyRegeneration", () => {
+  it("should record the original content before the first regenerated revision", () => {
+    const post = makePost("Original post", 80);
+    const updates = applyRegeneration(post, makePost("New hook", 91), "hook-optimized");
+
+    expect(updates.outputs?.linkedin.post).toBe("New hook");
+    expect(updates.status).toBe("passed");
+    expect(updates.revisions?.map(r => [r.source, r.fromStage, r.outputs.linkedin.post])).toEqual([
+      ["generated", undefined, "Original post"],
+      ["regenerated", "hook-optimized", "New hook"],
+    ]);
+  });
+
+  it("should append to an existing history", () => {
+    const post = makePost("Original post", 80);
+    const first = { ...post, ...applyRegeneration(post, makePost("Second", 88), "final") };
+    const updates = applyRegeneration(first, makePost("Third", 90), "personality");
+
+    expect(updates.revisions).toHaveLength(3);
+    expect(updates.revisions?.[1]).toEqual(first.revisions?.[1]);
+    expect(updates.revisions?.[2].fromStage).toBe("personality");
+  });
+});
+
+describe("applyChatRevision", () => {
+  function reply(revisedPost: string) {
+    return {
+      revisedPost,
+      summary: "Cut the last paragraph",
+      report: validatePost(revisedPost, voiceProfile),
+    };
+  }
+
+  it("should save the instruction and summary with the new revision", () => {
+    const post = makePost("Original post\n\nClosing thought", 80);
+    const updates = applyChatRevision(post, "cut the last paragraph", reply("Original post"));
+
+    expect(updates.outputs?.linkedin.post).toBe("Original post");
+    expect(updates.pipeline?.finalVersion).toBe("Original post");
+    expect(updates.pipeline?.initialVersions).toEqual(post.pipeline.initialVersions);
+    expect(updates.revisions?.[1]).toMatchObject({
+      source: "chat",
+      instruction: "cut the last paragraph",
+      summary: "Cut the last paragraph",
+    });
+  });
+
+  it("should give the failed required gate as the reason, like generation does", () => {
+    const post = makePost("Original post", 90);
+    const report = validatePost(voiceProfile.topPosts[0].content, voiceProfile);
+    const failed = {
+      ...report,
+      overallScore: 95,
+      passed: false,
+      gates: { ...report.gates, forbiddenPhrases: { ...report.gates.forbiddenPhrases, passed: false } },
+    };
+    const updates = applyChatRevision(post, "add a hook", { revisedPost: "Revised", summary: "Added a hook", report: failed });
+
+    expect(updates.status).toBe("failed");
+    expect(updates.failureReason).toBe("Failed quality gates: Forbidden Phrases, Specificity");
+  });
+
+  it("should list earlier chat instructions oldest first", () => {
+    const post = makePost("Original post", 80);
+    const first = { ...post, ...applyChatRevision(post, "make it shorter", reply("Shorter")) };
+    const second = { ...first, ...applyRegeneration(first, makePost("Regenerated", 90), "final") };
+    const third = { ...second, ...applyChatRevision(second, "less salesy", reply("Calmer")) };
+
+    expect(getChatInstructions(third)).toEqual(["make it shorter", "less salesy"]);
+  });
+});
+
+describe("restoreRevision", () => {
+  it("should append the restored content as a new revision", () => {
+    const post = makePost("Original post", 80);
+    const revised = { ...post, ...applyRegeneration(post, makePost("New hook", 91), "hook-optimized") };
+    const original = revised.revisions![0];
+    const updates = restoreRevision(revised, original.id);
+
+    expect(updates.outputs?.linkedin.post).toBe("Original post");
+    expect(updates.status).toBe("failed");
+    expect(updates.revisions).toHaveLength(3);
+    expect(updates.revisions?.[2]).toMatchObject({ source: "restored", restoredFrom: original.id });
+  });
+
+  it("should throw for an unknown revision", () => {
+    expect(() => restoreRevision(makePost("Original post", 80), "missing")).toThrow(
+      "Revision missing not found"
+    );
+  });
+});
+
+describe("applyManualEdit", () => {
+  it("should re-score the edited text so the stored report matches it", () => {
+    const content = voiceProfile.topPosts[0].content;
+    const post = makePost(content, 90);
+    const edited = `We leveraged the host's audience.\n\n${content}`;
+    const edit = { id: "edit-1", createdAt: "2025-01-02T00:00:00.000Z", before: content, after: edited };
+    const updates = applyManualEdit(post, edited, edit);
+
+    expect(updates.outputs?.linkedin).toMatchObject({ post: edited, characterCount: edited.length });
+    expect(updates.outputs?.twitter).toEqual(post.outputs.twitter);
+    expect(updates.manualEdits).toEqual([edit]);
+    expect(updates.quality?.report).toEqual(
+      expect.objectContaining({ overallScore: validatePost(edited, voiceProfile, interview).overallScore })
+    );
+    expect(updates.quality?.report?.gates.forbiddenPhrases.passed).toBe(false);
+    expect(updates.quality?.slopDetected).toContain("leverage");
+    expect(updates.status).toBe("failed");
+  });
+});
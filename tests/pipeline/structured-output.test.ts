@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+vi.mock("@/lib/utils/request-queue", () => ({
+  enqueue: <T>(fn: () => Promise<T>) => fn(),
+  isQueueHealthy: () => true,
+  getQueueStats: () => ({ pending: 0, size: 0, isPaused: false, concurrency: 1 }),
+}));
+
+import { setProvider, resetLLMConfig } from "@/lib/llm";
+import { createMockProvider } from "@/lib/llm/providers/mock";
+import { generateStructured, parseStructuredOutput } from "@/lib/pipeline/structured-output";
+import { stage3OutputSchema, stage6OutputSchema } from "@/lib/validation/schemas";
+import { StageParseFailure } from "@/lib/types";
+
+const validStage3 = JSON.stringify({ refinedVersion: "Tight post.", changes: ["Cut filler"] });
+
+/**
+ * Install a mock that replies with each response in turn and records prompts
+ */
+function scriptReplies(responses: string[]): string[] {
+  const prompts: string[] = [];
+  setProvider(createMockProvider({ model: "test" }, (prompt) => {
+    prompts.push(prompt);
+    return responses[Math.min(prompts.length - 1, responses.length - 1)];
+  }));
+  return prompts;
+}
+
+afterEach(() => {
+  resetLLMConfig();
+});
+
+describe("parseStructuredOutput", () => {
+  it("should accept plain, fenced and prose-wrapped JSON", () => {
+    expect(parseStructuredOutput(validStage3, stage3OutputSchema).success).toBe(true);
+    expect(parseStructuredOutput("```json\n" + validStage3 + "\n```", stage3OutputSchema).success).toBe(true);
+    expect(parseStructuredOutput(`Here you go:\n${validStage3}\nHope this helps!`, stage3OutputSchema).success).toBe(true);
+  });
+
+  it("should report the failing field", () => {
+    const result = parseStructuredOutput(JSON.stringify({ refinedVersion: "Tight post." }), stage3OutputSchema);
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toMatch(/^Validation failed: changes:/);
+    }
+  });
+
+  it("should reject empty posts and unknown verdicts", () => {
+    const result = parseStructuredOutput(
+      JSON.stringify({ qualityScore: 90, overall: "MAYBE", issues: [], finalPost: "  " }),
+      stage6OutputSchema
+    );
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toContain("overall");
+      expect(result.error).toContain("finalPost");
+    }
+  });
+
+  it("should report non-JSON replies", () => {
+    const result = parseStructuredOutput("REFINED VERSION:\nTight post.", stage3OutputSchema);
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toContain("Failed to parse AI response as JSON");
+    }
+  });
+});
+
+describe("generateStructured", () => {
+  it("should return valid output without recording failures", async () => {
+    const prompts = scriptReplies([validStage3]);
+    const failures: StageParseFailure[] = [];
+
+    const output = await generateStructured("refined", "PROMPT", stage3OutputSchema, failures);
+
+    expect(output.changes).toEqual(["Cut filler"]);
+    expect(failures).toEqual([]);
+    expect(prompts).toHaveLength(1);
+  });
+
+  it("should send the validation error back for repair", async () => {
+    const prompts = scriptReplies(["not json", validStage3]);
+    const failures: StageParseFailure[] = [];
+
+    const output = await generateStructured("refined", "PROMPT", stage3OutputSchema, failures);
+
+    expect(output.refinedVersion).toBe("Tight post.");
+    expect(failures).toHaveLength(1);
+    expect(failures[0]).toMatchObject({ stage: "refined", attempt: 1, output: "not json" });
+    expect(prompts[1]).toContain("did not match the required JSON format");
+    expect(prompts[1]).toContain("PROMPT");
+    expect(prompts[1]).toContain(failures[0].error);
+  });
+
+  it("should retry the original prompt after a failed repair", async () => {
+    const prompts = scriptReplies(["not json", "still not json", validStage3]);
+    const failures: StageParseFailure[] = [];
+
+    await generateStructured("refined", "PROMPT", stage3OutputSchema, failures);
+
+    expect(failures.map(f => f.attempt)).toEqual([1, 2]);
+    expect(prompts[2]).toBe("PROMPT");
+  });
+
+  it("should throw after the last attempt and keep every failure", async () => {
+    scriptReplies(["not json"]);
+    const failures: StageParseFailure[] = [];
+
+    await expect(
+      generateStructured("refined", "PROMPT", stage3OutputSchema, failures)
+    ).rejects.toThrow('Stage "refined" returned invalid output after 3 attempts');
+    expect(failures).toHaveLength(3);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { encodeSSE, readSSEStream, SSEMessage } from "@/lib/utils/sse";
+
+function streamFromChunks(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+describe("encodeSSE", () => {
+  it("should encode event name and JSON data", () => {
+    const text = new TextDecoder().decode(encodeSSE("progress", { percent: 10 }));
+    expect(text).toBe('event: progress\ndata: {"percent":10}\n\n');
+  });
+});
+
+describe("readSSEStream", () => {
+  it("should parse messages split across chunks", async () => {
+    const raw =
+      new TextDecoder().decode(encodeSSE("progress", { stage: "initial" })) +
+      new TextDecoder().decode(encodeSSE("complete", { ok: true }));
+    const messages: SSEMessage[] = [];
+
+    await readSSEStream(
+      streamFromChunks([raw.slice(0, 7), raw.slice(7, 30), raw.slice(30)]),
+      (m) => messages.push(m)
+    );
+
+    expect(messages).toEqual([
+      { event: "progress", data: { stage: "initial" } },
+      { event: "complete", data: { ok: true } },
+    ]);
+  });
+
+  it("should flush a trailing message without a blank line", async () => {
+    const messages: SSEMessage[] = [];
+    await readSSEStream(streamFromChunks(['event: error\ndata: {"code":"X"}']), (m) => messages.push(m));
+    expect(messages).toEqual([{ event: "error", data: { code: "X" } }]);
+  });
+
+  it("should default the event name to message", async () => {
+    const messages: SSEMessage[] = [];
+    await readSSEStream(streamFromChunks(["data: 42\n\n"]), (m) => messages.push(m));
+    expect(messages).toEqual([{ event: "message", data: 42 }]);
+  });
+});
@@ -9,7 +9,12 @@ import {
   validateRequest,
   checkRequestSize,
   extractInsightRequestSchema,
+  regenerateStageRequestSchema,
+  storedGenerationJobSchema,
 } from "@/lib/validation/schemas";
+import { checkpointsFromPipeline } from "@/lib/pipeline/multi-stage";
+import { GeneratedPost } from "@/lib/types";
+import happyPath from "../pipeline/__golden__/happy-path.json";
 
 describe("voiceModeIdSchema", () => {
   it("should accept valid voice mode IDs", () => {
@@ -190,6 +195,19 @@ describe("voiceRulesSchema", () => {
     expect(result.success).toBe(true);
   });
 
+  it("should reject regex rules, which could backtrack without end", () => {
+    const result = voiceRulesSchema.safeParse({
+      sentencePatterns: Array(10).fill("Pattern"),
+      forbiddenWords: [...Array(9).fill("Word"), "/(a+)+$/"],
+      signaturePhrases: Array(5).fill("Phrase"),
+      rhythmPreferences: validRhythmPreferences,
+      formattingRules: validFormattingRules,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toContain("Regex rules like /(a+)+$/ aren't supported");
+  });
+
   it("should reject voice rules with fewer than 20 total rules", () => {
     const invalidRules = {
       sentencePatterns: Array(5).fill("Pattern"),
@@ -324,3 +342,66 @@ describe("extractInsightRequestSchema", () => {
     expect(result.success).toBe(false);
   });
 });
+
+describe("regenerateStageRequestSchema", () => {
+  const baseRequest = {
+    interview: happyPath.interviewData,
+    voiceProfile: happyPath.voiceProfile,
+    pipeline: happyPath.pipeline,
+  };
+
+  it("should accept a stored post pipeline", () => {
+    const result = regenerateStageRequestSchema.safeParse({ ...baseRequest, fromStage: "personality" });
+    expect(result.success).toBe(true);
+  });
+
+  it("should only accept selectedVersion when continuing from refinement", () => {
+    expect(regenerateStageRequestSchema.safeParse({
+      ...baseRequest, fromStage: "refined", selectedVersion: 3,
+    }).success).toBe(true);
+    expect(regenerateStageRequestSchema.safeParse({
+      ...baseRequest, fromStage: "final", selectedVersion: 3,
+    }).success).toBe(false);
+  });
+
+  it("should reject versions beyond the stored drafts", () => {
+    const result = regenerateStageRequestSchema.safeParse({
+      ...baseRequest, fromStage: "refined", selectedVersion: 6,
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject stages before refinement", () => {
+    const result = regenerateStageRequestSchema.safeParse({ ...baseRequest, fromStage: "selected" });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("storedGenerationJobSchema", () => {
+  const storedJob = {
+    interview: happyPath.interviewData,
+    voiceProfile: happyPath.voiceProfile,
+    checkpoints: checkpointsFromPipeline(happyPath.pipeline as GeneratedPost["pipeline"]),
+  };
+
+  it("should accept a job's stored inputs and checkpoints", () => {
+    expect(storedGenerationJobSchema.safeParse(storedJob).success).toBe(true);
+    expect(storedGenerationJobSchema.safeParse({ ...storedJob, checkpoints: {} }).success).toBe(true);
+  });
+
+  it("should reject checkpoints a later stage can't continue from", () => {
+    const result = storedGenerationJobSchema.safeParse({
+      ...storedJob,
+      checkpoints: { ...storedJob.checkpoints, refined: { refinedVersion: "", changes: [] } },
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject stored inputs a new request couldn't send", () => {
+    const result = storedGenerationJobSchema.safeParse({
+      ...storedJob,
+      voiceProfile: { ...storedJob.voiceProfile, topPosts: "not a list" },
+    });
+    expect(result.success).toBe(false);
+  });
+});
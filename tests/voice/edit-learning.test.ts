@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import {
+  aggregateEdits,
+  analyzeEdit,
+  applyEditProposals,
+  createPostEdit,
+  proposeRulesFromEdits,
+} from "@/lib/voice/edit-learning";
+import { voiceProfile } from "../fixtures/pipeline/inputs";
+
+const EDITS = [
+  createPostEdit(
+    "We leveraged our network and closed the round in six weeks because investors trusted the numbers.",
+    "We used our network. Closed the round in six weeks. Receipts below."
+  ),
+  createPostEdit(
+    "I leveraged one customer call to rewrite the pitch and it changed how every meeting went after that.",
+    "One customer call rewrote the pitch. It changed every meeting after that. Receipts below."
+  ),
+  createPostEdit(
+    "Our team leveraged feedback from churned users to fix onboarding and the numbers moved within a month.",
+    "Our team used feedback from churned users to fix onboarding. The numbers moved within a month. Receipts below."
+  ),
+];
+
+describe("analyzeEdit", () => {
+  it("should find deleted words, added phrases and split sentences", () => {
+    const diff = analyzeEdit(
+      "We leveraged our network and closed the round in six weeks.",
+      "We used our network. Closed the round in six weeks. Receipts below."
+    );
+
+    expect(diff.deletedWords).toEqual(["leveraged"]);
+    expect(diff.addedPhrases).toEqual(["Receipts below"]);
+    expect(diff.sentenceSplits).toBe(1);
+    expect(diff.sentenceMerges).toBe(0);
+    expect(diff.avgSentenceLengthBefore).toBe(11);
+    expect(diff.avgSentenceLengthAfter).toBe(4);
+  });
+
+  it("should report nothing for an unchanged post", () => {
+    const text = "Shipped it.\n\nMath doesn't lie.";
+    expect(analyzeEdit(text, text)).toMatchObject({
+      deletedWords: [],
+      addedPhrases: [],
+      sentenceSplits: 0,
+      sentenceMerges: 0,
+    });
+  });
+});
+
+describe("aggregateEdits", () => {
+  it("should keep only habits repeated across edits", () => {
+    const patterns = aggregateEdits(EDITS);
+
+    expect(patterns.editCount).toBe(3);
+    expect(patterns.deletedWords[0]).toEqual({ word: "leveraged", deleted: 3, seen: 3 });
+    // "numbers" was cut once and kept once
+    expect(patterns.deletedWords.some(w => w.word === "numbers")).toBe(false);
+    expect(patterns.addedPhrases).toEqual([{ phrase: "Receipts below", edits: 3 }]);
+    expect(patterns.editsWithSplits).toBe(3);
+    expect(patterns.editsWithMerges).toBe(0);
+  });
+});
+
+describe("proposeRulesFromEdits", () => {
+  const profile = {
+    ...voiceProfile,
+    rules: {
+      ...voiceProfile.rules,
+      signaturePhrases: ["Math doesn't lie"],
+      rhythmPreferences: { ...voiceProfile.rules.rhythmPreferences, avgSentenceLength: 15 },
+    },
+  };
+
+  it("should propose a forbidden word, a signature phrase and shorter sentences", () => {
+    const proposals = proposeRulesFromEdits(profile, EDITS);
+
+    expect(proposals).toContainEqual({ kind: "forbiddenWord", value: "leveraged", evidence: "Deleted in 3 of 3 edits" });
+    expect(proposals).toContainEqual({ kind: "signaturePhrase", value: "Receipts below", evidence: "Added in 3 edits" });
+    expect(proposals.find(p => p.kind === "avgSentenceLength")?.value).toBeLessThan(15);
+  });
+
+  it("should skip rules the profile already has", () => {
+    const proposals = proposeRulesFromEdits(
+      { ...profile, rules: { ...profile.rules, forbiddenWords: ["leveraged"], signaturePhrases: ["Receipts below"] } },
+      EDITS
+    );
+
+    expect(proposals.map(p => p.kind)).toEqual(["avgSentenceLength"]);
+  });
+
+  it("should need more than one edit", () => {
+    expect(proposeRulesFromEdits(profile, EDITS.slice(0, 1))).toEqual([]);
+  });
+});
+
+describe("applyEditProposals", () => {
+  it("should add accepted proposals without touching the original rules", () => {
+    const rules = applyEditProposals(voiceProfile.rules, [
+      { kind: "forbiddenWord", value: "leveraged", evidence: "" },
+      { kind: "avgSentenceLength", value: 6, evidence: "" },
+    ]);
+
+    expect(rules.forbiddenWords).toContain("leveraged");
+    expect(rules.rhythmPreferences.avgSentenceLength).toBe(6);
+    expect(voiceProfile.rules.forbiddenWords).not.toContain("leveraged");
+    expect(voiceProfile.rules.rhythmPreferences.avgSentenceLength).toBe(9);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import { parseCSV } from "@/lib/utils/csv-parser";
+import { listZipEntries, readZipText } from "@/lib/utils/zip-reader";
+import { parseLinkedInShares } from "@/lib/voice/linkedin-export";
+import { dedupePosts, importArchive, suggestReferencePosts } from "@/lib/voice/archive-import";
+import { ImportedPost } from "@/lib/types";
+import { buildZip } from "../fixtures/zip";
+
+const SHARES_CSV = [
+  "Date,ShareLink,ShareCommentary,SharedUrl,MediaUrl,Visibility",
+  '2024-01-10 09:00:00,https://www.linkedin.com/feed/update/urn:li:share:1,"We lost our biggest client in week 3.',
+  "",
+  "Revenue dropped 40%.",
+  "",
+  'I called every customer myself, and that ""one call"" changed everything.",,,MEMBER_NETWORK',
+  "2024-02-01 12:30:00,https://www.linkedin.com/feed/update/urn:li:share:2,,https://example.com/article,,MEMBER_NETWORK",
+  "2024-03-05 14:22:10,https://www.linkedin.com/feed/update/urn:li:share:3,Hiring is a sales job. https://example.com/jobs,,,MEMBER_NETWORK",
+  "2024-04-01 08:00:00,https://www.linkedin.com/feed/update/urn:li:share:4,\"We lost our biggest client in week 3.",
+  "",
+  "Revenue dropped 40%.",
+  "",
+  'I called every customer myself, and that ""one call"" changed everything.",,,MEMBER_NETWORK',
+].join("\r\n");
+
+describe("parseCSV", () => {
+  it("should keep commas, escaped quotes and line breaks inside quoted fields", () => {
+    const rows = parseCSV('\uFEFFa,b\r\n"one, two","say ""hi""\nagain"\r\n\r\n');
+
+    expect(rows).toEqual([
+      ["a", "b"],
+      ["one, two", 'say "hi"\nagain'],
+    ]);
+  });
+});
+
+describe("zip reader", () => {
+  it("should list files and read stored and deflated entries", async () => {
+    const zip = buildZip([
+      { name: "Profile.csv", content: "First Name\nAda", stored: true },
+      { name: "export/Shares.csv", content: SHARES_CSV },
+    ]);
+
+    expect(listZipEntries(zip).map(e => e.name)).toEqual(["Profile.csv", "export/Shares.csv"]);
+    expect(await readZipText(zip, "profile.csv")).toBe("First Name\nAda");
+    expect(await readZipText(zip, "Shares.csv")).toBe(SHARES_CSV);
+    expect(await readZipText(zip, "Connections.csv")).toBeNull();
+  });
+
+  it("should reject files that are not ZIP archives", () => {
+    expect(() => listZipEntries(new TextEncoder().encode("not a zip at all, just text here"))).toThrow(
+      "Not a ZIP archive"
+    );
+  });
+});
+
+describe("parseLinkedInShares", () => {
+  it("should read multi-line posts and skip re-shares without commentary", () => {
+    const posts = parseLinkedInShares(SHARES_CSV);
+
+    expect(posts).toHaveLength(3);
+    expect(posts[0]).toEqual({
+      content:
+        'We lost our biggest client in week 3.\n\nRevenue dropped 40%.\n\nI called every customer myself, and that "one call" changed everything.',
+      platform: "linkedin",
+      source: "linkedin-export",
+      publishedAt: "2024-01-10T09:00:00.000Z",
+      url: "https://www.linkedin.com/feed/update/urn:li:share:1",
+    });
+  });
+
+  it("should reject a CSV without the commentary column", () => {
+    expect(() => parseLinkedInShares("Date,Link\n2024-01-01,x")).toThrow("ShareCommentary");
+  });
+});
+
+describe("importArchive", () => {
+  it("should import a ZIP export, dedupe reposts and return newest first", async () => {
+    const zip = buildZip([{ name: "Shares.csv", content: SHARES_CSV }]);
+    const posts = await importArchive("Basic_LinkedInDataExport.zip", zip);
+
+    expect(posts).toHaveLength(2);
+    expect(posts[0].content).toContain("Hiring is a sales job");
+    // The repost in April is dropped in favour of the January original
+    expect(posts[1].publishedAt).toBe("2024-01-10T09:00:00.000Z");
+  });
+
+  it("should accept Shares.csv on its own", async () => {
+    const posts = await importArchive("Shares.csv", new TextEncoder().encode(SHARES_CSV));
+    expect(posts).toHaveLength(2);
+  });
+
+  it("should explain missing files and unsupported uploads", async () => {
+    const zip = buildZip([{ name: "Profile.csv", content: "First Name\nAda" }]);
+
+    await expect(importArchive("export.zip", zip)).rejects.toThrow("Shares.csv not found in the archive");
+    await expect(importArchive("posts.txt", new Uint8Array())).rejects.toThrow("LinkedIn export");
+    await expect(
+      importArchive("Shares.csv", new TextEncoder().encode("Date,ShareLink,ShareCommentary\n2024-01-01,x,"))
+    ).rejects.toThrow("No posts found");
+  });
+});
+
+describe("dedupePosts", () => {
+  it("should treat case and whitespace differences as the same post per platform", () => {
+    const base = { platform: "linkedin" as const, source: "linkedin-export" as const };
+    const posts: ImportedPost[] = [
+      { ...base, content: "Ship it  today.", publishedAt: "2024-02-01T00:00:00.000Z" },
+      { ...base, content: "ship it today.", publishedAt: "2024-01-01T00:00:00.000Z" },
+      { ...base, platform: "twitter", content: "Ship it today." },
+    ];
+
+    const deduped = dedupePosts(posts);
+    expect(deduped).toHaveLength(2);
+    expect(deduped.find(p => p.platform === "linkedin")?.publishedAt).toBe("2024-01-01T00:00:00.000Z");
+  });
+});
+
+describe("suggestReferencePosts", () => {
+  const base = { platform: "linkedin" as const, source: "linkedin-export" as const };
+  const story = Array.from({ length: 3 }, (_, i) => `Paragraph ${i} with a few real words in it.`).join("\n\n");
+
+  it("should prefer substantial posts over link shares when there is no engagement", () => {
+    const posts: ImportedPost[] = [
+      { ...base, content: "Great read https://example.com/a" },
+      { ...base, content: story },
+      { ...base, content: "Short thought." },
+    ];
+
+    expect(suggestReferencePosts(posts, 2).map(p => p.content)).toEqual([story, "Short thought."]);
+  });
+
+  it("should rank by engagement when the export has it", () => {
+    const posts: ImportedPost[] = [
+      { ...base, content: story, engagement: 10 },
+      { ...base, content: "Short thought.", engagement: 900 },
+    ];
+
+    expect(suggestReferencePosts(posts, 1)[0].content).toBe("Short thought.");
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { createProfileVersion, diffProfileVersions, hasVersionedChanges } from "@/lib/voice/profile-versions";
+import { voiceProfile } from "../fixtures/pipeline/inputs";
+
+const rules = voiceProfile.rules;
+
+describe("hasVersionedChanges", () => {
+  it("should ignore updates that leave the rules and posts as they are", () => {
+    expect(hasVersionedChanges(voiceProfile, { updatedAt: "2026-02-01T00:00:00.000Z" })).toBe(false);
+    expect(hasVersionedChanges(voiceProfile, { rules: { ...rules } })).toBe(false);
+  });
+
+  it("should catch changed rules, posts, name and colors", () => {
+    expect(hasVersionedChanges(voiceProfile, { name: "Renamed" })).toBe(true);
+    expect(hasVersionedChanges(voiceProfile, { topPosts: voiceProfile.topPosts.slice(1) })).toBe(true);
+    expect(hasVersionedChanges(voiceProfile, {
+      rules: { ...rules, forbiddenWords: [...rules.forbiddenWords, "synergy"] },
+    })).toBe(true);
+    expect(hasVersionedChanges(voiceProfile, {
+      brandColors: { ...voiceProfile.brandColors, primary: "#000000" },
+    })).toBe(true);
+  });
+});
+
+describe("createProfileVersion", () => {
+  it("should snapshot the profile under its current version", () => {
+    const version = createProfileVersion({ ...voiceProfile, version: 3 }, 1);
+
+    expect(version).toMatchObject({
+      voiceProfileId: voiceProfile.id,
+      version: 3,
+      createdAt: voiceProfile.updatedAt,
+      restoredFrom: 1,
+    });
+    expect(Object.keys(version.snapshot).sort()).toEqual(["brandColors", "name", "rules", "topPosts"]);
+  });
+
+  it("should treat profiles saved before versioning as version 1", () => {
+    expect(createProfileVersion(voiceProfile).version).toBe(1);
+  });
+});
+
+describe("diffProfileVersions", () => {
+  it("should find nothing between identical snapshots", () => {
+    expect(diffProfileVersions(voiceProfile, voiceProfile)).toEqual([]);
+  });
+
+  it("should list added and removed rules and changed settings", () => {
+    const changes = diffProfileVersions(voiceProfile, {
+      ...voiceProfile,
+      rules: {
+        ...rules,
+        forbiddenWords: rules.forbiddenWords.filter(w => w !== "guru").concat("synergy"),
+        rhythmPreferences: { ...rules.rhythmPreferences, avgSentenceLength: 12 },
+        formattingRules: { ...rules.formattingRules, useEmDash: true },
+      },
+    });
+
+    expect(changes).toEqual([
+      { field: "Forbidden words", kind: "removed", before: "guru" },
+      { field: "Forbidden words", kind: "added", after: "synergy" },
+      { field: "Average sentence length", kind: "changed", before: "9", after: "12" },
+      { field: "Em-dashes", kind: "changed", before: "off", after: "on" },
+    ]);
+  });
+
+  it("should show reference posts as excerpts and brand colors as values", () => {
+    const changes = diffProfileVersions(voiceProfile, {
+      ...voiceProfile,
+      topPosts: voiceProfile.topPosts.slice(1),
+      brandColors: { ...voiceProfile.brandColors, accent: "#000000" },
+    });
+
+    expect(changes).toEqual([
+      {
+        field: "Reference posts",
+        kind: "removed",
+        before: "Lost our biggest client in March. 40% of revenue. Gone in one email. Learned th…",
+      },
+      { field: "Accent color", kind: "changed", before: voiceProfile.brandColors.accent, after: "#000000" },
+    ]);
+  });
+});
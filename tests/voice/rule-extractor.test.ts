@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import {
+  analyzePostStyle,
+  mineSignaturePhrases,
+  proposeVoiceRules,
+} from "@/lib/voice/rule-extractor";
+import { voiceProfile } from "../fixtures/pipeline/inputs";
+
+const fixturePosts = voiceProfile.topPosts.map(p => p.content);
+
+const listPosts = [
+  "Want to know what actually moved our pipeline? 🚀\n\n- Cold email — dead.\n- Ads — expensive.\n- Podcasts — gold.\n\nHere's the part nobody tells you: trust compounds.",
+  "Why do founders ignore churn? 🤔\n\n1. It's quiet.\n2. It's slow.\n3. It hurts.\n\nHere's the part nobody tells you: retention is the real growth.",
+];
+
+describe("analyzePostStyle", () => {
+  it("should measure rhythm and formatting of short punchy posts", () => {
+    const stats = analyzePostStyle(fixturePosts);
+
+    expect(stats.postCount).toBe(2);
+    expect(stats.avgSentenceLength).toBeLessThanOrEqual(8);
+    expect(stats.sentencesPerParagraph).toBeLessThanOrEqual(1.5);
+    expect(stats.questionRatio).toBe(0);
+    expect(stats.emojisPerPost).toBe(0);
+    expect(stats.emDashesPerPost).toBe(0);
+    expect(stats.numberHookRatio).toBe(0.5);
+  });
+
+  it("should count emojis, em-dashes, lists and question hooks", () => {
+    const stats = analyzePostStyle(listPosts);
+
+    expect(stats.emojisPerPost).toBe(1);
+    expect(stats.emDashesPerPost).toBe(1.5);
+    expect(stats.bulletLinesPerPost).toBe(1.5);
+    expect(stats.numberedLinesPerPost).toBe(1.5);
+    expect(stats.questionHookRatio).toBe(1);
+  });
+
+  it("should handle no posts", () => {
+    expect(analyzePostStyle([]).avgSentenceLength).toBe(0);
+  });
+});
+
+describe("mineSignaturePhrases", () => {
+  it("should find phrases repeated across posts", () => {
+    expect(mineSignaturePhrases(listPosts)).toContain("Here's the part nobody tells you");
+  });
+
+  it("should fall back to short closing lines", () => {
+    const phrases = mineSignaturePhrases(fixturePosts);
+    expect(phrases).toContain("Math doesn't lie. Curiosity beats pedigree.");
+  });
+});
+
+describe("proposeVoiceRules", () => {
+  it("should propose enough rules for a profile", () => {
+    const { rules } = proposeVoiceRules(fixturePosts);
+    const total = rules.sentencePatterns.length + rules.forbiddenWords.length + rules.signaturePhrases.length;
+
+    expect(total).toBeGreaterThanOrEqual(20);
+    expect(rules.rhythmPreferences).toMatchObject({ paragraphBreaks: "frequent", questionUsage: "never" });
+    expect(rules.formattingRules).toEqual({
+      useEmDash: false,
+      useBulletPoints: false,
+      useNumberedLists: false,
+      emojiUsage: "never",
+    });
+    expect(rules.sentencePatterns).toContain("Never use em-dashes");
+  });
+
+  it("should not forbid words the author uses", () => {
+    const { rules } = proposeVoiceRules(["Our journey to 100 customers started with one rockstar hire."]);
+
+    expect(rules.forbiddenWords).not.toContain("journey");
+    expect(rules.forbiddenWords).not.toContain("rockstar");
+    expect(rules.forbiddenWords).toContain("utilize");
+  });
+
+  it("should match formatting habits of list-heavy posts", () => {
+    const { rules } = proposeVoiceRules(listPosts);
+
+    expect(rules.formattingRules).toEqual({
+      useEmDash: true,
+      useBulletPoints: true,
+      useNumberedLists: true,
+      emojiUsage: "moderate",
+    });
+    expect(rules.rhythmPreferences.questionUsage).toBe("frequent");
+    expect(rules.sentencePatterns).toContain("Open with a question");
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { buildStyleFingerprint, compareStyle, scoreVoiceSimilarity } from "@/lib/voice/stylometry";
+import { checkVoiceMatchGate } from "@/lib/guardrails/quality-gates";
+import { voiceProfile } from "../fixtures/pipeline/inputs";
+import happyPath from "../pipeline/__golden__/happy-path.json";
+
+const corporatePost = [
+  "In today's fast-paced business landscape, it is important to recognize that building meaningful relationships with our stakeholders is, without a doubt, the key to long-term success. When we take the time to listen to our customers, we are able to understand their needs and deliver solutions that truly make a difference.",
+  "At the end of the day, what matters most is the trust that we build with the people who rely on us, and I believe that this is something that every leader should keep in mind as they navigate the challenges of growth!",
+  "What do you think? Let me know in the comments below.",
+].join("\n\n");
+
+describe("buildStyleFingerprint", () => {
+  it("should measure sentence lengths, punctuation and paragraph shape", () => {
+    const fingerprint = buildStyleFingerprint(["Short one. Another short one.\n\nThen a much longer sentence, with a comma, that keeps going for a while."]);
+
+    expect(fingerprint.wordCount).toBe(19);
+    expect(fingerprint.avgSentenceLength).toBeCloseTo(19 / 3);
+    expect(fingerprint.sentenceLengths[0]).toBeCloseTo(2 / 3);
+    expect(fingerprint.punctuation.comma).toBeCloseTo(2 / 3);
+    expect(fingerprint.sentencesPerParagraph).toBe(1.5);
+    expect(fingerprint.singleSentenceParagraphs).toBe(0.5);
+    expect(fingerprint.functionWords["a"]).toBeCloseTo(3 / 19);
+  });
+});
+
+describe("compareStyle", () => {
+  it("should give identical texts a perfect score", () => {
+    const fingerprint = buildStyleFingerprint(voiceProfile.topPosts.map(p => p.content));
+    const similarity = compareStyle(fingerprint, fingerprint);
+
+    expect(similarity.score).toBe(100);
+    expect(similarity.deviations).toEqual([]);
+  });
+});
+
+describe("scoreVoiceSimilarity", () => {
+  it("should score a post in the author's voice above a corporate one", () => {
+    const own = scoreVoiceSimilarity(happyPath.outputs.linkedin.post, voiceProfile)!;
+    const corporate = scoreVoiceSimilarity(corporatePost, voiceProfile)!;
+
+    expect(own.score).toBeGreaterThanOrEqual(70);
+    expect(corporate.score).toBeLessThan(55);
+    expect(corporate.components.sentenceLengths).toBeLessThan(own.components.sentenceLengths);
+  });
+
+  it("should name the habits that differ", () => {
+    const { deviations } = scoreVoiceSimilarity(corporatePost, voiceProfile)!;
+    const messages = deviations.map(d => d.message);
+
+    expect(messages).toContain("Sentences average 21 words; yours average 6");
+    expect(messages).toContain("Uses commas, which your posts never do");
+    expect(messages).toContain("Uses exclamation marks, which your posts never do");
+    expect(deviations.some(d => d.component === "paragraphShape")).toBe(true);
+  });
+
+  it("should count imported history as reference text", () => {
+    const profile = { ...voiceProfile, topPosts: [] };
+
+    expect(scoreVoiceSimilarity(happyPath.outputs.linkedin.post, profile)).toBeNull();
+    expect(
+      scoreVoiceSimilarity(happyPath.outputs.linkedin.post, profile, voiceProfile.topPosts.map(p => p.content))
+    ).not.toBeNull();
+  });
+});
+
+describe("checkVoiceMatchGate", () => {
+  it("should fail a post that doesn't sound like the author, listing deviations", () => {
+    const gate = checkVoiceMatchGate(corporatePost, voiceProfile);
+
+    expect(gate.passed).toBe(false);
+    expect(gate.issues).toContain("Sentences average 21 words; yours average 6");
+    expect(gate.issues).toContain("No signature phrases found");
+  });
+
+  it("should fall back to the rules when there are no reference posts", () => {
+    const gate = checkVoiceMatchGate(happyPath.outputs.linkedin.post, { ...voiceProfile, topPosts: [] });
+
+    // Signature phrase (+15) and sentence length within 5 of 9 (+15)
+    expect(gate.score).toBe(100);
+  });
+
+  it("should match against imported posts when the profile has no reference posts", () => {
+    const profile = { ...voiceProfile, topPosts: [] };
+    const imported = voiceProfile.topPosts.map(p => p.content);
+
+    expect(checkVoiceMatchGate(corporatePost, profile, imported)).toEqual(
+      checkVoiceMatchGate(corporatePost, voiceProfile)
+    );
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import { parseTweetsJs, tweetsToPosts, importTwitterArchive } from "@/lib/voice/twitter-archive";
+import { importArchive } from "@/lib/voice/archive-import";
+import { buildZip } from "../fixtures/zip";
+
+function tweet(fields: Record<string, unknown>) {
+  return {
+    tweet: {
+      retweeted: false,
+      favorite_count: "0",
+      retweet_count: "0",
+      entities: { urls: [] },
+      ...fields,
+    },
+  };
+}
+
+const TWEETS = [
+  tweet({
+    id_str: "100",
+    full_text: "We hired 6 engineers before we had 6 customers.\n\nBiggest mistake of year one. A thread 🧵",
+    created_at: "Mon Jan 15 09:00:00 +0000 2024",
+    favorite_count: "120",
+    retweet_count: "14",
+  }),
+  tweet({
+    id_str: "102",
+    full_text: "The fix: every hire had to name the customer they would help first. &amp; it worked.",
+    created_at: "Mon Jan 15 09:02:00 +0000 2024",
+    favorite_count: "30",
+    in_reply_to_status_id_str: "101",
+    in_reply_to_user_id_str: "42",
+  }),
+  tweet({
+    id_str: "101",
+    full_text: "Payroll ran out in month 9. We had code nobody used.",
+    created_at: "Mon Jan 15 09:01:00 +0000 2024",
+    in_reply_to_status_id_str: "100",
+    in_reply_to_user_id_str: "42",
+  }),
+  tweet({
+    id_str: "200",
+    full_text: "RT @someone: Great thread on pricing",
+    created_at: "Tue Jan 16 10:00:00 +0000 2024",
+    favorite_count: "0",
+    retweet_count: "900",
+  }),
+  tweet({
+    id_str: "300",
+    full_text: "@friend congrats, well deserved!",
+    created_at: "Wed Jan 17 10:00:00 +0000 2024",
+    in_reply_to_status_id_str: "999",
+    in_reply_to_user_id_str: "7",
+  }),
+  tweet({
+    id_str: "400",
+    full_text: "Pricing page rewrite doubled demos https://t.co/abc https://t.co/img",
+    created_at: "Thu Jan 18 10:00:00 +0000 2024",
+    favorite_count: "8",
+    retweet_count: "2",
+    entities: { urls: [{ url: "https://t.co/abc", expanded_url: "https://example.com/pricing" }] },
+    extended_entities: { media: [{ url: "https://t.co/img" }] },
+  }),
+];
+
+const TWEETS_JS = `window.YTD.tweets.part0 = ${JSON.stringify(TWEETS, null, 2)}`;
+
+describe("parseTweetsJs", () => {
+  it("should read the tweets array from the archive script", () => {
+    const tweets = parseTweetsJs(TWEETS_JS);
+
+    expect(tweets).toHaveLength(6);
+    expect(tweets[0].id_str).toBe("100");
+  });
+
+  it("should reject files in another format", () => {
+    expect(() => parseTweetsJs("console.log('hello')")).toThrow("X archive format");
+  });
+});
+
+describe("tweetsToPosts", () => {
+  const posts = tweetsToPosts(parseTweetsJs(TWEETS_JS));
+
+  it("should drop retweets and replies to other people", () => {
+    expect(posts).toHaveLength(2);
+    expect(posts.some(p => p.content.includes("RT @"))).toBe(false);
+    expect(posts.some(p => p.content.includes("congrats"))).toBe(false);
+  });
+
+  it("should stitch self-replies into one thread in order", () => {
+    expect(posts[0].content).toBe(
+      "We hired 6 engineers before we had 6 customers.\n\nBiggest mistake of year one. A thread 🧵\n\n" +
+        "Payroll ran out in month 9. We had code nobody used.\n\n" +
+        "The fix: every hire had to name the customer they would help first. & it worked."
+    );
+    expect(posts[0]).toMatchObject({
+      platform: "twitter",
+      source: "twitter-archive",
+      publishedAt: "2024-01-15T09:00:00.000Z",
+      url: "https://x.com/i/web/status/100",
+    });
+  });
+
+  it("should take engagement from the opening tweet's likes and retweets", () => {
+    expect(posts[0].engagement).toBe(134);
+    expect(posts[1].engagement).toBe(10);
+  });
+
+  it("should expand links and remove media links", () => {
+    expect(posts[1].content).toBe("Pricing page rewrite doubled demos https://example.com/pricing");
+  });
+});
+
+describe("importTwitterArchive", () => {
+  it("should read every tweets part from the archive ZIP", async () => {
+    const extra = [tweet({ id_str: "500", full_text: "Ship small.", created_at: "Fri Jan 19 10:00:00 +0000 2024" })];
+    const zip = buildZip([
+      { name: "data/account.js", content: "window.YTD.account.part0 = []" },
+      { name: "data/tweets.js", content: TWEETS_JS },
+      { name: "data/tweets-part1.js", content: `window.YTD.tweets.part1 = ${JSON.stringify(extra)}` },
+    ]);
+
+    const posts = await importTwitterArchive("twitter-2024.zip", zip);
+    expect(posts.map(p => p.url)).toEqual([
+      "https://x.com/i/web/status/100",
+      "https://x.com/i/web/status/400",
+      "https://x.com/i/web/status/500",
+    ]);
+  });
+
+  it("should be picked by importArchive for X archives and tweets.js", async () => {
+    const zip = buildZip([{ name: "data/tweets.js", content: TWEETS_JS }]);
+
+    const fromZip = await importArchive("twitter-2024.zip", zip);
+    const fromScript = await importArchive("tweets.js", new TextEncoder().encode(TWEETS_JS));
+
+    expect(fromZip).toHaveLength(2);
+    expect(fromScript).toEqual(fromZip);
+    // Newest first
+    expect(fromZip[0].content).toContain("Pricing page");
+  });
+});